@@ -0,0 +1,129 @@
+// netlify/functions/calibration-data.js
+// Calibration inputs for every active BID with a known annual budget.
+// Returns { bids: [...] } with each district's area, perimeter, centroid,
+// category counts from bid_places and centerline length by road class from
+// bid_segments, shaped like the estimator's own site inputs.
+//
+// GET /api/calibration-data
+
+import { BigQuery } from '@google-cloud/bigquery';
+
+const DATASET = 'ginkgo-map-data.overture_na';
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Content-Type': 'application/json',
+};
+
+export async function handler(event) {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+  if (event.httpMethod !== 'GET') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) };
+  }
+
+  const sa = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+  if (!sa) {
+    return { statusCode: 500, headers, body: JSON.stringify({ error: 'Missing GOOGLE_SERVICE_ACCOUNT_JSON' }) };
+  }
+
+  try {
+    const bigquery = new BigQuery({
+      projectId: process.env.GCP_PROJECT_ID,
+      credentials: JSON.parse(sa),
+    });
+
+    // Motorways and ramps never have walkable frontage (see frontageModel.ts)
+    const sql = `
+      WITH place_counts AS (
+        SELECT bid_id, LOWER(category) AS category, COUNT(*) AS n
+        FROM \`${DATASET}.bid_places\`
+        WHERE category IS NOT NULL AND category != ''
+        GROUP BY bid_id, category
+      ),
+      places AS (
+        SELECT bid_id, SUM(n) AS total_places, ARRAY_AGG(STRUCT(category, n)) AS categories
+        FROM place_counts
+        GROUP BY bid_id
+      ),
+      segment_lengths AS (
+        SELECT
+          bid_id,
+          IF(class = 'motorway' OR ENDS_WITH(class, '_link') OR subclass = 'link', NULL, class) AS road_class,
+          SUM(length_feet) AS length_ft,
+          COUNT(*) AS n
+        FROM \`${DATASET}.bid_segments\`
+        GROUP BY bid_id, road_class
+      ),
+      segments AS (
+        SELECT
+          bid_id,
+          ARRAY_AGG(IF(road_class IS NULL, NULL, STRUCT(road_class, length_ft)) IGNORE NULLS) AS classes,
+          SUM(IF(road_class IS NULL, length_ft, 0)) AS excluded_ft,
+          SUM(n) AS segment_count
+        FROM segment_lengths
+        GROUP BY bid_id
+      )
+      SELECT
+        ba.bid_id,
+        ba.bid_name,
+        ba.city,
+        ba.state,
+        ba.annual_budget_usd,
+        COALESCE(ba.area_acres, ST_AREA(ba.geometry) / 4046.8564224) AS area_acres,
+        ST_PERIMETER(ba.geometry) * 3.28084 AS perimeter_ft,
+        ST_X(ST_CENTROID(ba.geometry)) AS lng,
+        ST_Y(ST_CENTROID(ba.geometry)) AS lat,
+        p.total_places,
+        p.categories,
+        s.classes,
+        s.excluded_ft,
+        s.segment_count
+      FROM \`${DATASET}.bid_areas\` ba
+      LEFT JOIN places p USING (bid_id)
+      LEFT JOIN segments s USING (bid_id)
+      WHERE ba.is_active = TRUE AND ba.annual_budget_usd > 0
+      ORDER BY ba.bid_name
+    `;
+
+    const [rows] = await bigquery.query({ query: sql, location: process.env.BQ_LOCATION || 'US' });
+
+    const bids = rows.map((row) => ({
+      bidId: row.bid_id,
+      name: row.bid_name,
+      city: row.city,
+      state: row.state,
+      annualBudget: row.annual_budget_usd,
+      areaAcres: row.area_acres || 0,
+      perimeterFt: row.perimeter_ft || 0,
+      lng: row.lng,
+      lat: row.lat,
+      businessCount: row.total_places || 0,
+      categoryBreakdown: Object.fromEntries(
+        (row.categories || []).map((c) => [c.category, c.n])
+      ),
+      segmentFrontage: row.segment_count
+        ? {
+            centerlineFtByClass: Object.fromEntries(
+              (row.classes || []).map((c) => [c.road_class, c.length_ft])
+            ),
+            excludedFt: row.excluded_ft || 0,
+            segmentCount: row.segment_count,
+          }
+        : null,
+    }));
+
+    return { statusCode: 200, headers, body: JSON.stringify({ bids }) };
+  } catch (error) {
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to load calibration data',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      }),
+    };
+  }
+}
@@ -0,0 +1,145 @@
+// netlify/functions/peer-bids.js
+// Peer set for benchmarking: every active BID with a known annual budget,
+// summarized from the precomputed bid_places_rollup and bid_segments_rollup
+// tables. Records use the same shape as /api/calibration-data so the client
+// treats both sources alike.
+//
+// GET /api/peer-bids
+
+import { BigQuery } from '@google-cloud/bigquery';
+
+const DATASET = 'ginkgo-map-data.overture_na';
+const FEET_PER_METER = 3.28084;
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Content-Type': 'application/json',
+};
+
+// Rollup JSON stores counts either as {"cafe": 12} or {"cafe": {"count": 12}}
+function parseCategoryBreakdown(json) {
+  if (!json) return {};
+  const breakdown = {};
+  Object.entries(JSON.parse(json)).forEach(([category, value]) => {
+    const count = typeof value === 'number' ? value : value?.count;
+    if (category && count > 0) breakdown[category.toLowerCase()] = count;
+  });
+  return breakdown;
+}
+
+// Class breakdown is either {"classes": [{class, length_meters}]} or
+// {"primary": {"count": 5, "length_m": 1200}}
+function parseClassBreakdown(json) {
+  if (!json) return [];
+  const parsed = JSON.parse(json);
+  if (Array.isArray(parsed.classes)) {
+    return parsed.classes.map((c) => ({
+      roadClass: c.class,
+      lengthFt: (c.length_meters || 0) * FEET_PER_METER,
+      count: c.count || 0,
+    }));
+  }
+  return Object.entries(parsed).map(([roadClass, c]) => ({
+    roadClass,
+    lengthFt: (c?.length_m ?? c?.length_meters ?? 0) * FEET_PER_METER,
+    count: c?.count || 0,
+  }));
+}
+
+// Motorways and ramps never have walkable frontage (see frontageModel.ts)
+function segmentFrontage(row) {
+  if (!row.total_segments) return null;
+  const centerlineFtByClass = {};
+  let excludedFt = 0;
+  parseClassBreakdown(row.class_breakdown).forEach(({ roadClass, lengthFt }) => {
+    if (!roadClass) return;
+    if (roadClass === 'motorway' || roadClass.endsWith('_link')) {
+      excludedFt += lengthFt;
+    } else {
+      centerlineFtByClass[roadClass] = (centerlineFtByClass[roadClass] || 0) + lengthFt;
+    }
+  });
+  return { centerlineFtByClass, excludedFt, segmentCount: row.total_segments };
+}
+
+export async function handler(event) {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+  if (event.httpMethod !== 'GET') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) };
+  }
+
+  const sa = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+  if (!sa) {
+    return { statusCode: 500, headers, body: JSON.stringify({ error: 'Missing GOOGLE_SERVICE_ACCOUNT_JSON' }) };
+  }
+
+  try {
+    const bigquery = new BigQuery({
+      projectId: process.env.GCP_PROJECT_ID,
+      credentials: JSON.parse(sa),
+    });
+
+    // Prefer the deduplicated segment rollup, fall back to raw
+    const sql = `
+      WITH segments AS (
+        SELECT bid_id, total_segments, TO_JSON_STRING(class_breakdown) AS class_breakdown
+        FROM \`${DATASET}.bid_segments_rollup\`
+        WHERE TRUE
+        QUALIFY ROW_NUMBER() OVER (
+          PARTITION BY bid_id
+          ORDER BY IF(calculation_type = 'deduplicated', 0, 1), calculated_at DESC
+        ) = 1
+      )
+      SELECT
+        ba.bid_id,
+        ba.bid_name,
+        ba.city,
+        ba.state,
+        ba.annual_budget_usd,
+        COALESCE(ba.area_acres, ST_AREA(ba.geometry) / 4046.8564224) AS area_acres,
+        ST_PERIMETER(ba.geometry) * 3.28084 AS perimeter_ft,
+        ST_X(COALESCE(ba.centroid, ST_CENTROID(ba.geometry))) AS lng,
+        ST_Y(COALESCE(ba.centroid, ST_CENTROID(ba.geometry))) AS lat,
+        pr.total_places,
+        TO_JSON_STRING(pr.category_breakdown) AS category_breakdown,
+        s.total_segments,
+        s.class_breakdown
+      FROM \`${DATASET}.bid_areas\` ba
+      LEFT JOIN \`${DATASET}.bid_places_rollup\` pr USING (bid_id)
+      LEFT JOIN segments s USING (bid_id)
+      WHERE ba.is_active = TRUE AND ba.annual_budget_usd > 0
+      ORDER BY ba.bid_name
+    `;
+
+    const [rows] = await bigquery.query({ query: sql, location: process.env.BQ_LOCATION || 'US' });
+
+    const bids = rows.map((row) => ({
+      bidId: row.bid_id,
+      name: row.bid_name,
+      city: row.city,
+      state: row.state,
+      annualBudget: row.annual_budget_usd,
+      areaAcres: row.area_acres || 0,
+      perimeterFt: row.perimeter_ft || 0,
+      lng: row.lng,
+      lat: row.lat,
+      businessCount: row.total_places || 0,
+      categoryBreakdown: parseCategoryBreakdown(row.category_breakdown),
+      segmentFrontage: segmentFrontage(row),
+    }));
+
+    return { statusCode: 200, headers, body: JSON.stringify({ bids }) };
+  } catch (error) {
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to load peer BIDs',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      }),
+    };
+  }
+}
@@ -4,6 +4,20 @@
 
 import sgMail from '@sendgrid/mail';
 
+const ACRES_PER_HECTARE = 2.4710538;
+
+// Fall back to US formatting when the client sends an unknown locale or currency
+function resolveLocale(reportData) {
+  const locale = typeof reportData.locale === 'string' ? reportData.locale : 'en-US';
+  const currency = typeof reportData.currency === 'string' ? reportData.currency : 'USD';
+  try {
+    new Intl.NumberFormat(locale, { style: 'currency', currency });
+    return { locale, currency, metric: reportData.unitSystem === 'metric' };
+  } catch {
+    return { locale: 'en-US', currency: 'USD', metric: reportData.unitSystem === 'metric' };
+  }
+}
+
 export async function handler(event) {
   if (event.httpMethod !== 'POST') {
     return { statusCode: 405, body: 'Method Not Allowed' };
@@ -35,6 +49,23 @@ export async function handler(event) {
       areaAcres: Number(reportData.areaAcres) || 0,
       totalBudget: Number(reportData.totalBudget) || 0
     };
+    const { locale, currency, metric } = resolveLocale(reportData);
+    const formatMoney = (value) =>
+      new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+    const formatCount = (value) => new Intl.NumberFormat(locale).format(value);
+    const formatArea = (acres) =>
+      `${new Intl.NumberFormat(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 }).format(
+        metric ? acres / ACRES_PER_HECTARE : acres
+      )} ${metric ? 'ha' : 'acres'}`;
+    const costPerBusiness = safeReportData.totalPlaces > 0
+      ? safeReportData.totalBudget / safeReportData.totalPlaces
+      : 0;
+    const generatedOn = new Date().toLocaleDateString(locale, {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
 
     // Validate required environment variables
     if (!process.env.SENDGRID_API_KEY) {
@@ -137,19 +168,19 @@ export async function handler(event) {
           </div>
           <div class="metric">
             <span><strong>Total Businesses:</strong></span>
-            <span>${safeReportData.totalPlaces.toLocaleString()}</span>
+            <span>${formatCount(safeReportData.totalPlaces)}</span>
           </div>
           <div class="metric">
             <span><strong>Coverage Area:</strong></span>
-            <span>${safeReportData.areaAcres.toFixed(1)} acres</span>
+            <span>${formatArea(safeReportData.areaAcres)}</span>
           </div>
           <div class="metric">
             <span><strong>Annual Budget Estimate:</strong></span>
-            <span><strong style="color: #f37129; font-size: 1.1em;">$${safeReportData.totalBudget.toLocaleString()}</strong></span>
+            <span><strong style="color: #f37129; font-size: 1.1em;">${formatMoney(safeReportData.totalBudget)}</strong></span>
           </div>
           <div class="metric">
             <span><strong>Cost per Business:</strong></span>
-            <span>$${(safeReportData.totalPlaces > 0 ? Math.round(safeReportData.totalBudget / safeReportData.totalPlaces) : 0).toLocaleString()}</span>
+            <span>${formatMoney(costPerBusiness)}</span>
           </div>
         </div>
         
@@ -175,12 +206,7 @@ export async function handler(event) {
         <div class="footer">
           <p><strong class="logo">Ginkgo BID Budget Estimator</strong><br>
           Professional budget analysis tool powered by Overture Maps data<br>
-          <em>Report generated on ${new Date().toLocaleDateString('en-US', { 
-            weekday: 'long', 
-            year: 'numeric', 
-            month: 'long', 
-            day: 'numeric' 
-          })}</em></p>
+          <em>Report generated on ${generatedOn}</em></p>
         </div>
       </body>
       </html>
@@ -195,10 +221,10 @@ Please find attached your comprehensive Business Improvement District (BID) budg
 
 REPORT SUMMARY:
 • District Type: ${safeReportData.placeTypology}
-• Total Businesses: ${safeReportData.totalPlaces.toLocaleString()}  
-• Coverage Area: ${safeReportData.areaAcres.toFixed(1)} acres
-• Annual Budget Estimate: $${safeReportData.totalBudget.toLocaleString()}
-• Cost per Business: $${(safeReportData.totalPlaces > 0 ? Math.round(safeReportData.totalBudget / safeReportData.totalPlaces) : 0).toLocaleString()}
+• Total Businesses: ${formatCount(safeReportData.totalPlaces)}  
+• Coverage Area: ${formatArea(safeReportData.areaAcres)}
+• Annual Budget Estimate: ${formatMoney(safeReportData.totalBudget)}
+• Cost per Business: ${formatMoney(costPerBusiness)}
 
 WHAT'S INCLUDED:
 • Executive Summary with key metrics and budget breakdown
@@ -215,12 +241,7 @@ The Ginkgo Team
 
 ---
 Ginkgo BID Budget Estimator
-Report generated on ${new Date().toLocaleDateString('en-US', { 
-      weekday: 'long', 
-      year: 'numeric', 
-      month: 'long', 
-      day: 'numeric' 
-    })}
+Report generated on ${generatedOn}
     `;
 
     // Prepare email data for SendGrid
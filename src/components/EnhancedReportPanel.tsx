@@ -1,14 +1,202 @@
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
+  BudgetInputs,
   BudgetParameters,
+  BudgetResult,
+  CATEGORY_WEIGHTS,
+  CategoryWeight,
   DEFAULT_BUDGET_PARAMS,
-  calculateBudget,
+  NumericParameterKey,
+  calculateBudgetForInputs,
+  calculateCleaningCrew,
+  calculateServiceIntensity,
+  describeCategoryOverrides,
   determinePlaceTypology,
   getServiceDemandIndicators,
+  resolveCategoryWeights,
 } from "../utils/budgetCalculations";
+import {
+  BudgetProjection,
+  ProjectionLineKey,
+  projectBudget,
+} from "../utils/budgetProjection";
+import {
+  AssessmentAnalysis,
+  buildAssessmentProperties,
+  calculateAssessmentOptions,
+} from "../utils/assessmentModel";
+import {
+  DEFAULT_GOAL_SEEK_KEYS,
+  GOAL_SEEK_VARIABLES,
+  GoalSeekResult,
+  solveForBudget,
+} from "../utils/goalSeek";
+import {
+  CALIBRATION_VARIABLES,
+  CalibrationResult,
+  DEFAULT_CALIBRATION_KEYS,
+  calibrateParameters,
+  calibrationReportCSV,
+  REFERENCE_BUDGET_CURRENCY,
+  ReferenceBid,
+  fetchCalibrationBids,
+} from "../utils/calibration";
+import {
+  BenchmarkMetrics,
+  PeerBenchmark,
+  benchmarkAgainstPeers,
+  fetchPeerBids,
+} from "../utils/peerBenchmark";
+import {
+  DEFAULT_PARAMETER_DISTRIBUTIONS,
+  DistributionKind,
+  ParameterDistribution,
+  UNCERTAINTY_LINES,
+  UncertaintyResult,
+  runMonteCarlo,
+} from "../utils/uncertainty";
+import {
+  COST_DRIVER_OPTIONS,
+  CUSTOM_LINE_TEMPLATES,
+  CostDriver,
+  CustomLineCost,
+  CustomServiceLine,
+  createCustomServiceLine,
+  driverUnit,
+} from "../utils/customServiceLines";
+import {
+  DAY_LABELS,
+  MONTH_LABELS,
+  ScheduleSummary,
+  formatShiftPattern,
+} from "../utils/staffingSchedule";
+import { LaborRoleBuildUp, buildLaborCostTable } from "../utils/laborModel";
+import {
+  DELIVERY_MODE_OPTIONS,
+  DELIVERY_SERVICES,
+  DeliveryComparison,
+  DeliveryMode,
+} from "../utils/serviceDelivery";
+import { SAFETY_STAFFING_MODEL_OPTIONS } from "../utils/patrolBeats";
+import {
+  CLEANING_CREW_METHOD_OPTIONS,
+  CleaningRoutePlan,
+  ROUTE_COLORS,
+  StreetNetwork,
+  buildStreetNetwork,
+  cleaningRoutesGeoJSON,
+  planCleaningRoutes,
+} from "../utils/cleaningRoutes";
+import { FormationEstimate } from "../utils/formation";
+import {
+  ServiceTierResult,
+  calculateServiceTiers,
+  tierFixedScheduleNote,
+  tierParameterRows,
+} from "../utils/serviceTiers";
+import {
+  ASSESSMENT_COLOR,
+  FUNDING_SOURCE_TEMPLATES,
+  FUNDING_SOURCE_TYPE_OPTIONS,
+  FundingMix,
+  FundingSource,
+  FundingSourceType,
+  createFundingSource,
+} from "../utils/fundingSources";
+import {
+  CAPITAL_PROJECT_TEMPLATES,
+  CapitalProject,
+  FUNDING_METHOD_OPTIONS,
+  CapitalPlan,
+  FundingMethod,
+  MAX_CAPITAL_START_YEAR,
+  MAX_CAPITAL_TERM_YEARS,
+  createCapitalProject,
+} from "../utils/capitalPlan";
+import {
+  ASSET_TYPES,
+  AssetPlacementPlan,
+  assetCostSchedule,
+  assetInventoryCSV,
+  assetPlacementGeoJSON,
+  placeStreetscapeAssets,
+} from "../utils/assetPlacement";
+import {
+  CURB_SIDES_PER_STREET,
+  FRONTAGE_ROAD_CLASS_OPTIONS,
+  SegmentFrontage,
+  calculateCurbFrontageFt,
+  calculateSegmentMiles,
+  measureSegmentFrontage,
+} from "../utils/frontageModel";
+import {
+  RegionalCostSelection,
+  applyRegionalIndex,
+  findRegionalIndexById,
+} from "../utils/regionalCosts";
+import {
+  ParameterProfile,
+  canLoadProfile,
+  deleteProfile,
+  exportProfilesJSON,
+  importProfilesJSON,
+  loadProfiles,
+  renameProfile,
+  saveProfile,
+} from "../utils/parameterProfiles";
+import {
+  METRO_COST_INDICES,
+  NATIONAL_COST_INDEX,
+  NONMETRO_COST_INDEX,
+  REGIONAL_COST_INDEX_SOURCE,
+  RegionalCostIndex,
+} from "../constants/regionalCostIndex";
+import {
+  CATEGORY_GROUPS,
+  CategoryGroup,
+  CategoryGroupOverrides,
+  categoryKey,
+  groupCategoryBreakdown,
+  normalizeCategory,
+} from "../constants/categoryTaxonomy";
+import {
+  ParameterIssue,
+  describeIssues,
+  fieldIssues,
+  hasBlockingIssues,
+  validateParameters,
+} from "../utils/parameterValidation";
+import {
+  LineTrace,
+  TraceLineKey,
+  formatTraceFormula,
+  formatTraceValue,
+} from "../utils/budgetTrace";
+import {
+  ACRES_PER_HECTARE,
+  CURRENCY_OPTIONS,
+  DEFAULT_LOCALE_SETTINGS,
+  KM_PER_MILE,
+  LOCALE_PRESETS,
+  LocaleSettings,
+  areaUnit,
+  currencySymbol,
+  detectLocaleSettings,
+  formatArea,
+  formatCurrency,
+  formatDate,
+  formatLength,
+  formatNumber,
+  formatPerArea,
+  lengthUnit,
+  speedUnit,
+  toDisplayArea,
+  toDisplayLength,
+  toDisplaySpeed,
+} from "../utils/locale";
 import { generateBIDReportPDF, generatePDFForEmail } from "../utils/pdfExport";
 import { ginkgoTheme } from "../styles/ginkgoTheme";
-import { CATEGORY_COLORS, getCategoryColor } from "../constants/categoryColors";
+import { getCategoryColor } from "../constants/categoryColors";
 import { Pie } from "react-chartjs-2";
 import { Chart as ChartJS, ArcElement, Tooltip, Legend } from "chart.js";
 
@@ -38,17 +226,21 @@ interface EnhancedReportPanelProps {
   selectedRoadClasses?: string[];
   setSelectedRoadClasses?: (classes: string[]) => void;
   onApplyRoadFilters?: () => void;
-  useMetricUnits?: boolean;
-  setUseMetricUnits?: (metric: boolean) => void;
   segmentsGeoJSON?: any; // Raw GeoJSON FeatureCollection for export
   // Buildings props
   buildingsMetrics?: any;
+  buildingsGeoJSON?: any; // Building footprints for assessment modeling
+  regionalCost?: RegionalCostSelection | null; // Index for the district's location
   showBuildings?: boolean;
   setShowBuildings?: (show: boolean) => void;
   // Places category filtering props
   selectedPlaceCategories?: string[];
   setSelectedPlaceCategories?: (categories: string[]) => void;
   onApplyPlaceFilters?: () => void;
+  // Cleaning routes map layer
+  onCleaningRoutesChange?: (routes: any | null) => void;
+  // Streetscape asset placement map layer
+  onAssetPlacementsChange?: (assets: any | null) => void;
 }
 
 export function EnhancedReportPanel({
@@ -61,59 +253,329 @@ export function EnhancedReportPanel({
   selectedRoadClasses = [],
   setSelectedRoadClasses = () => {},
   onApplyRoadFilters = () => {},
-  useMetricUnits = true,
-  setUseMetricUnits = () => {},
   segmentsGeoJSON = null,
   buildingsMetrics = null,
+  buildingsGeoJSON = null,
+  regionalCost = null,
   showBuildings = true,
   setShowBuildings = () => {},
   selectedPlaceCategories = [],
   setSelectedPlaceCategories = () => {},
   onApplyPlaceFilters = () => {},
+  onCleaningRoutesChange = () => {},
+  onAssetPlacementsChange = () => {},
 }: EnhancedReportPanelProps) {
-  const [params, setParams] = useState<BudgetParameters>(DEFAULT_BUDGET_PARAMS);
+  // Number format and units start from the browser language until the user
+  // picks a locale; the currency stays USD to match the default rates
+  const [params, setParams] = useState<BudgetParameters>(() => {
+    const defaults = { ...DEFAULT_BUDGET_PARAMS, ...detectLocaleSettings() };
+    return regionalCost
+      ? applyRegionalIndex(defaults, regionalCost.index, NATIONAL_COST_INDEX)
+      : defaults;
+  });
+  const [regionSelection, setRegionSelection] = useState<RegionalCostSelection>(
+    regionalCost || {
+      index: NATIONAL_COST_INDEX,
+      basis: "Default (no location selected)",
+      distanceMiles: null,
+    }
+  );
+
+  // Rescale from the currently applied index whenever the region changes
+  const selectRegion = (selection: RegionalCostSelection) => {
+    setParams((prev) =>
+      applyRegionalIndex(prev, selection.index, regionSelection.index)
+    );
+    setRegionSelection(selection);
+  };
+
+  // Profiles store already-localized rates, so restore their region as-is.
+  // Older profiles saved no region; their rates are read as national ones so
+  // a later region change rescales them from the base index.
+  const loadProfile = (profile: ParameterProfile) => {
+    if (!canLoadProfile(profile)) {
+      alert(
+        `"${profile.name}" has invalid parameters and cannot be loaded:\n` +
+          describeIssues(
+            validateParameters(profile.params).filter((i) => i.severity === "error")
+          ).join("\n")
+      );
+      return;
+    }
+    setParams(profile.params);
+    const index = profile.regionId && findRegionalIndexById(profile.regionId);
+    setRegionSelection({
+      index: index || NATIONAL_COST_INDEX,
+      basis: index
+        ? `Profile: ${profile.name}`
+        : `Profile: ${profile.name} (no saved region)`,
+      distanceMiles: null,
+    });
+  };
+
+  useEffect(() => {
+    if (regionalCost && regionalCost.index.id !== regionSelection.index.id) {
+      selectRegion(regionalCost);
+    }
+  }, [regionalCost]);
   const [activeTab, setActiveTab] = useState<
-    "executive" | "details" | "parameters" | "roads" | "buildings"
+    | "executive"
+    | "details"
+    | "parameters"
+    | "assessment"
+    | "benchmarks"
+    | "roads"
+    | "buildings"
   >("executive");
   const [showFullReport, setShowFullReport] = useState(!mapVisible);
 
+  // Segment clipping only depends on geometry, not on parameters
+  const segmentFrontage = useMemo(
+    () => measureSegmentFrontage(segmentsGeoJSON, polygon),
+    [segmentsGeoJSON, polygon]
+  );
+  const streetNetwork = useMemo(
+    () => buildStreetNetwork(segmentsGeoJSON, polygon, params.frontage_road_classes),
+    [segmentsGeoJSON, polygon, params.frontage_road_classes]
+  );
+
+  // Planned even under the productivity method, so the two crews can be
+  // compared and the routes drawn before switching
+  const cleaningRoutePlan = useMemo(
+    () =>
+      params.cleaning_enabled && streetNetwork
+        ? planCleaningRoutes(
+            streetNetwork,
+            params,
+            calculateServiceIntensity(data.categoryBreakdown, params).cleanIntensity
+          )
+        : null,
+    [streetNetwork, params, data.categoryBreakdown]
+  );
+
+  // Placed wherever segments are loaded; budget counts use the placement
+  // only when frontage also comes from segments
+  const assetPlacement = useMemo(
+    () =>
+      params.assets_enabled && streetNetwork
+        ? placeStreetscapeAssets(streetNetwork, params)
+        : null,
+    [streetNetwork, params]
+  );
+
+  // Site inputs for every budget run. The route plan and asset placement are
+  // made once above for the current parameters. Scenario runs reuse the
+  // route plan when their speeds and shifts match, and the placement when
+  // their spacings match, and plan afresh otherwise.
+  const budgetInputs: BudgetInputs = useMemo(
+    () => ({
+      businessCount: data.totalPlaces || 0,
+      areaAcres: data.areaAcres || 0,
+      perimeterFt: data.perimeterFt || (data.areaAcres || 0) * 1320, // Estimate if not provided
+      categoryBreakdown: data.categoryBreakdown || {},
+      curbFrontageFt: segmentFrontage
+        ? calculateCurbFrontageFt(segmentFrontage, params.frontage_road_classes)
+        : null,
+      segmentMiles: segmentFrontage ? calculateSegmentMiles(segmentFrontage) : null,
+      buildingCount: buildingsGeoJSON?.features?.length ?? null,
+      streetNetwork,
+      cleaningRoutes: cleaningRoutePlan,
+      assetPlacement,
+    }),
+    [
+      data.totalPlaces,
+      data.areaAcres,
+      data.perimeterFt,
+      data.categoryBreakdown,
+      segmentFrontage,
+      params.frontage_road_classes,
+      buildingsGeoJSON,
+      streetNetwork,
+      cleaningRoutePlan,
+      assetPlacement,
+    ]
+  );
+
   // Calculate budget with current parameters
-  const budget = calculateBudget(
-    params,
+  const budget = useMemo(
+    () => calculateBudgetForInputs(params, budgetInputs),
+    [params, budgetInputs]
+  );
+
+  const [showCleaningRoutes, setShowCleaningRoutes] = useState(false);
+  const cleaningRoutesLayer = useMemo(
+    () =>
+      showCleaningRoutes && streetNetwork && cleaningRoutePlan
+        ? cleaningRoutesGeoJSON(streetNetwork, cleaningRoutePlan)
+        : null,
+    [showCleaningRoutes, streetNetwork, cleaningRoutePlan]
+  );
+  useEffect(() => {
+    onCleaningRoutesChange(cleaningRoutesLayer);
+  }, [cleaningRoutesLayer]);
+  useEffect(() => () => onCleaningRoutesChange(null), []);
+
+  const [showAssetPlacements, setShowAssetPlacements] = useState(false);
+  const assetPlacementsLayer = useMemo(
+    () =>
+      showAssetPlacements && assetPlacement
+        ? assetPlacementGeoJSON(assetPlacement, params)
+        : null,
+    [showAssetPlacements, assetPlacement]
+  );
+  useEffect(() => {
+    onAssetPlacementsChange(assetPlacementsLayer);
+  }, [assetPlacementsLayer]);
+  useEffect(() => () => onAssetPlacementsChange(null), []);
+  const projection = useMemo(
+    () => projectBudget(params, budgetInputs),
+    [params, budgetInputs]
+  );
+  const tiers = useMemo(
+    () => calculateServiceTiers(params, budgetInputs),
+    [params, budgetInputs]
+  );
+
+  // Assessable properties only depend on geometry, not on parameters
+  const assessmentProperties = useMemo(
+    () =>
+      buildAssessmentProperties(
+        buildingsGeoJSON,
+        data.places,
+        budget.frontageEstimate
+      ),
+    [buildingsGeoJSON, data.places, budget.frontageEstimate]
+  );
+  const assessment = calculateAssessmentOptions(
+    budget.netAssessment,
+    assessmentProperties,
     data.totalPlaces || 0,
-    data.areaAcres || 0,
-    data.perimeterFt || (data.areaAcres || 0) * 1320, // Estimate if not provided
-    data.categoryBreakdown || {}
+    budget.frontageEstimate
   );
 
   const placeTypology = determinePlaceTypology(
     data.categoryBreakdown || {},
-    data.totalPlaces || 0
+    data.totalPlaces || 0,
+    params.category_group_overrides
   );
   const serviceDemands = getServiceDemandIndicators(
     data.totalPlaces || 0,
     data.areaAcres || 0,
     data.categoryBreakdown || {},
     budget.cleanIntensity,
-    budget.nightIntensity
+    budget.nightIntensity,
+    params.category_group_overrides
+  );
+
+  // Monte Carlo results are tied to the parameters they were run with
+  const [distributions, setDistributions] = useState<ParameterDistribution[]>(
+    DEFAULT_PARAMETER_DISTRIBUTIONS
   );
+  const [uncertainty, setUncertainty] = useState<UncertaintyResult | null>(null);
+  const [uncertaintyProgress, setUncertaintyProgress] = useState<number | null>(null);
+  const [includeUncertaintyInPDF, setIncludeUncertaintyInPDF] = useState(true);
+  // Bumped to cancel a simulation still running for older parameters
+  const uncertaintyRun = useRef(0);
+
+  useEffect(() => {
+    uncertaintyRun.current++;
+    setUncertainty(null);
+    setUncertaintyProgress(null);
+  }, [params, distributions, data]);
+
+  // Peer BIDs are fetched once, the first time the benchmarks tab opens
+  const [peerBids, setPeerBids] = useState<ReferenceBid[] | null>(null);
+  const [peerLoading, setPeerLoading] = useState(false);
+  const [peerError, setPeerError] = useState<string | null>(null);
+
+  const loadPeerBids = async () => {
+    setPeerLoading(true);
+    setPeerError(null);
+    try {
+      setPeerBids(await fetchPeerBids());
+    } catch (e: any) {
+      setPeerError(e?.message || "Failed to load peer BIDs");
+    } finally {
+      setPeerLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (activeTab === "benchmarks" && !peerBids && !peerLoading && !peerError) {
+      loadPeerBids();
+    }
+  }, [activeTab]);
+
+  const benchmark =
+    peerBids && peerBids.length > 0
+      ? benchmarkAgainstPeers(
+          budgetInputs,
+          budget.total,
+          params.currency,
+          peerBids,
+          params.frontage_road_classes,
+          params.category_group_overrides
+        )
+      : null;
+
+  const runUncertainty = async (iterations: number) => {
+    const run = ++uncertaintyRun.current;
+    setUncertaintyProgress(0);
+    const result = await runMonteCarlo(
+      params,
+      budgetInputs,
+      distributions,
+      iterations,
+      1,
+      (completed) => {
+        if (run !== uncertaintyRun.current) return false;
+        setUncertaintyProgress(completed / iterations);
+        return true;
+      }
+    );
+    if (run !== uncertaintyRun.current) return;
+    setUncertainty(result);
+    setUncertaintyProgress(null);
+  };
+
+  // Errors block PDF export and sharing; warnings are informational
+  const validation = validateParameters(params);
+  const exportBlocked = hasBlockingIssues(validation);
+  const alertBlockingIssues = () =>
+    alert(
+      "Fix these parameters before exporting:\n\n" +
+        describeIssues(validation.filter((i) => i.severity === "error")).join("\n")
+    );
 
   // Update parameter
   const updateParam = (key: keyof BudgetParameters, value: any) => {
     setParams((prev) => ({ ...prev, [key]: value }));
   };
 
+  // Report contents, shared by the download and the emailed copy
+  const reportPDFOptions = () => ({
+    data,
+    budget,
+    placeTypology,
+    serviceDemands,
+    params,
+    projection,
+    tiers,
+    regionalCost: regionSelection,
+    uncertainty:
+      includeUncertaintyInPDF && uncertainty ? uncertainty : undefined,
+    benchmark: benchmark || undefined,
+    polygon,
+    mapboxToken,
+  });
+
   // Export to PDF
   const exportToPDF = async () => {
-    await generateBIDReportPDF({
-      data,
-      budget,
-      placeTypology,
-      serviceDemands,
-      params,
-      polygon,
-      mapboxToken,
-    });
+    if (exportBlocked) {
+      alertBlockingIssues();
+      return;
+    }
+    await generateBIDReportPDF(reportPDFOptions());
   };
 
   // Share via email
@@ -122,6 +584,10 @@ export function EnhancedReportPanel({
   const [shareLoading, setShareLoading] = useState(false);
 
   const handleShareReport = async () => {
+    if (exportBlocked) {
+      alertBlockingIssues();
+      return;
+    }
     if (!emailList.trim()) {
       alert("Please enter at least one email address");
       return;
@@ -144,13 +610,7 @@ export function EnhancedReportPanel({
 
     try {
       // Generate PDF data as base64
-      const pdfResponse = await generatePDFForEmail({
-        data,
-        budget,
-        placeTypology,
-        serviceDemands,
-        params,
-      });
+      const pdfResponse = await generatePDFForEmail(reportPDFOptions());
 
       // Send email via Netlify function
       const response = await fetch("/.netlify/functions/send-email", {
@@ -165,6 +625,9 @@ export function EnhancedReportPanel({
             totalPlaces: data.totalPlaces,
             areaAcres: data.areaAcres,
             totalBudget: budget.total,
+            locale: params.locale,
+            currency: params.currency,
+            unitSystem: params.unit_system,
           },
           pdfData: pdfResponse.base64,
         }),
@@ -238,8 +701,8 @@ export function EnhancedReportPanel({
               fontFamily: ginkgoTheme.typography.fontFamily.body,
             }}
           >
-            {placeTypology} • {data.totalPlaces} businesses •{" "}
-            {data.areaAcres.toFixed(1)} acres
+            {placeTypology} • {formatNumber(data.totalPlaces, params)} businesses •{" "}
+            {formatArea(data.areaAcres, params)}
           </p>
         </div>
         <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
@@ -280,7 +743,13 @@ export function EnhancedReportPanel({
           )}
           <button
             onClick={exportToPDF}
+            title={
+              exportBlocked
+                ? "Some parameters are invalid. See the Budget Parameters tab."
+                : undefined
+            }
             style={{
+              opacity: exportBlocked ? 0.6 : 1,
               padding: "12px 24px",
               backgroundColor: ginkgoTheme.colors.primary.orange,
               color: "white",
@@ -366,7 +835,7 @@ export function EnhancedReportPanel({
           backgroundColor: ginkgoTheme.colors.background.main,
         }}
       >
-        {["executive", "details", "parameters", ...(data.segments ? ["roads"] : []), ...(buildingsMetrics ? ["buildings"] : [])].map((tab) => (
+        {["executive", "details", "parameters", "assessment", "benchmarks", ...(data.segments ? ["roads"] : []), ...(buildingsMetrics ? ["buildings"] : [])].map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -392,6 +861,8 @@ export function EnhancedReportPanel({
             {tab === "executive" && "Executive Summary"}
             {tab === "details" && "Service Details"}
             {tab === "parameters" && "Budget Parameters"}
+            {tab === "assessment" && "Assessment Revenue"}
+            {tab === "benchmarks" && "Peer Benchmarks"}
             {tab === "roads" && "Road Analytics"}
             {tab === "buildings" && "Building Analytics"}
           </button>
@@ -407,6 +878,9 @@ export function EnhancedReportPanel({
             placeTypology={placeTypology}
             serviceDemands={serviceDemands}
             params={params}
+            projection={projection}
+            tiers={tiers}
+            regionalCost={regionSelection}
             selectedPlaceCategories={selectedPlaceCategories}
             setSelectedPlaceCategories={setSelectedPlaceCategories}
             onApplyPlaceFilters={onApplyPlaceFilters}
@@ -419,6 +893,9 @@ export function EnhancedReportPanel({
             budget={budget}
             serviceDemands={serviceDemands}
             params={params}
+            assetPlacement={assetPlacement}
+            showAssetPlacements={showAssetPlacements}
+            setShowAssetPlacements={setShowAssetPlacements}
           />
         )}
 
@@ -426,7 +903,51 @@ export function EnhancedReportPanel({
           <ParameterSliders
             params={params}
             updateParam={updateParam}
+            setParams={setParams}
             budget={budget}
+            budgetInputs={budgetInputs}
+            segmentFrontage={segmentFrontage}
+            cleaningRoutePlan={cleaningRoutePlan}
+            showCleaningRoutes={showCleaningRoutes}
+            setShowCleaningRoutes={setShowCleaningRoutes}
+            regionSelection={regionSelection}
+            onLoadProfile={loadProfile}
+            issues={validation}
+            onSelectRegion={(index: RegionalCostIndex) =>
+              selectRegion({ index, basis: "Manual selection", distanceMiles: null })
+            }
+          />
+        )}
+
+        {activeTab === "parameters" && (
+          <UncertaintyAnalysis
+            distributions={distributions}
+            setDistributions={setDistributions}
+            result={uncertainty}
+            progress={uncertaintyProgress}
+            onRun={runUncertainty}
+            includeInPDF={includeUncertaintyInPDF}
+            setIncludeInPDF={setIncludeUncertaintyInPDF}
+            locale={params}
+          />
+        )}
+
+        {activeTab === "assessment" && (
+          <AssessmentRevenue
+            assessment={assessment}
+            funding={budget.funding}
+            locale={params}
+          />
+        )}
+
+        {activeTab === "benchmarks" && (
+          <PeerBenchmarks
+            benchmark={benchmark}
+            loading={peerLoading}
+            error={peerError}
+            peerCount={peerBids?.length ?? null}
+            onRetry={loadPeerBids}
+            locale={params}
           />
         )}
 
@@ -436,8 +957,10 @@ export function EnhancedReportPanel({
             selectedRoadClasses={selectedRoadClasses}
             setSelectedRoadClasses={setSelectedRoadClasses}
             onApplyRoadFilters={onApplyRoadFilters}
-            useMetricUnits={useMetricUnits}
-            setUseMetricUnits={setUseMetricUnits}
+            useMetricUnits={params.unit_system === "metric"}
+            setUseMetricUnits={(metric: boolean) =>
+              updateParam("unit_system", metric ? "metric" : "imperial")
+            }
             segmentsGeoJSON={segmentsGeoJSON}
           />
         )}
@@ -447,7 +970,7 @@ export function EnhancedReportPanel({
             buildingsMetrics={buildingsMetrics}
             showBuildings={showBuildings}
             setShowBuildings={setShowBuildings}
-            useMetricUnits={useMetricUnits}
+            useMetricUnits={params.unit_system === "metric"}
           />
         )}
       </div>
@@ -567,9 +1090,9 @@ export function EnhancedReportPanel({
                 <div>
                   • {placeTypology} with {data.totalPlaces} businesses
                 </div>
-                <div>• {data.areaAcres.toFixed(1)} acres coverage area</div>
+                <div>• {formatArea(data.areaAcres, params)} coverage area</div>
                 <div>
-                  • ${budget.total.toLocaleString()} annual budget estimate
+                  • {formatCurrency(budget.total, params)} annual budget estimate
                 </div>
               </div>
             </div>
@@ -710,6 +1233,9 @@ function ExecutiveSummary({
   placeTypology,
   serviceDemands,
   params,
+  projection,
+  tiers,
+  regionalCost,
   selectedPlaceCategories,
   setSelectedPlaceCategories,
   onApplyPlaceFilters,
@@ -908,14 +1434,14 @@ function ExecutiveSummary({
       >
         <MetricCard
           title="Annual Budget"
-          value={`$${budget.total.toLocaleString()}`}
-          subtitle={`$${budget.costPerBusiness.toLocaleString()} per business`}
+          value={formatCurrency(budget.total, params)}
+          subtitle={`${formatCurrency(budget.costPerBusiness, params)} per business`}
           color="#0ea5e9"
         />
         <MetricCard
           title="Business Density"
-          value={`${(data.totalPlaces / data.areaAcres).toFixed(1)}`}
-          subtitle="per acre"
+          value={formatNumber(data.totalPlaces / toDisplayArea(data.areaAcres, params), params, 1, 1)}
+          subtitle={params.unit_system === "metric" ? "per hectare" : "per acre"}
           color="#059669"
         />
         <MetricCard
@@ -962,6 +1488,7 @@ function ExecutiveSummary({
                   : "0"
               }
               color="#0ea5e9"
+              locale={params}
             />
           )}
           {params.safety_enabled && (
@@ -974,6 +1501,7 @@ function ExecutiveSummary({
                   : "0"
               }
               color="#059669"
+              locale={params}
             />
           )}
           {params.marketing_enabled && (
@@ -986,6 +1514,7 @@ function ExecutiveSummary({
                   : "0"
               }
               color="#f59e0b"
+              locale={params}
             />
           )}
           {params.assets_enabled && (
@@ -998,11 +1527,78 @@ function ExecutiveSummary({
                   : "0"
               }
               color="#8b5cf6"
+              locale={params}
+            />
+          )}
+          {budget.customLines.map((line: CustomLineCost) => (
+            <BudgetLineItemWithColor
+              key={line.id}
+              label={line.name}
+              value={line.cost}
+              percentage={
+                budget.subtotal > 0
+                  ? ((line.cost / budget.subtotal) * 100).toFixed(0)
+                  : "0"
+              }
+              color={line.color}
+              locale={params}
+            />
+          ))}
+          {budget.capital > 0 && (
+            <BudgetLineItemWithColor
+              label="Capital Plan (share of total)"
+              value={budget.capital}
+              percentage={
+                budget.total > 0
+                  ? ((budget.capital / budget.total) * 100).toFixed(0)
+                  : "0"
+              }
+              color="#475569"
+              locale={params}
             />
           )}
         </div>
       </div>
 
+      {/* Basic / Enhanced / Premium packages */}
+      <ServiceTierComparison tiers={tiers} params={params} />
+
+      {/* First Year vs Steady State (formation mode) */}
+      {budget.formation && (
+        <FormationComparison formation={budget.formation} locale={params} />
+      )}
+
+      {/* Funding Mix (non-assessment revenue) */}
+      {budget.funding.sources.length > 0 && (
+        <FundingMixChart funding={budget.funding} locale={params} />
+      )}
+
+      {/* Multi-Year Projection */}
+      <div
+        style={{
+          backgroundColor: "white",
+          border: "1px solid #e2e8f0",
+          borderRadius: "8px",
+          padding: "1.5rem",
+          marginBottom: "2rem",
+        }}
+      >
+        <h3 style={{ marginTop: 0, marginBottom: "0.5rem", color: "#1e293b" }}>
+          📈 {projection.years.length}-Year Budget Projection
+        </h3>
+        <p style={{ margin: "0 0 1rem", fontSize: "0.85rem", color: "#64748b" }}>
+          Labor escalates at {(params.labor_escalation_pct * 100).toFixed(1)}%,
+          marketing at {(params.marketing_escalation_pct * 100).toFixed(1)}%
+          and admin at {(params.admin_escalation_pct * 100).toFixed(1)}% per
+          year. Admin overhead grows from its year-1 amount at its own rate
+          rather than as a share of each year's services. Assets are purchased
+          in year 1 and replaced at the end of their service life.
+          {projection.years[0].startup > 0 &&
+            " Year 1 is the partial formation year, including startup costs."}
+        </p>
+        <ProjectionTable projection={projection} params={params} />
+      </div>
+
       {/* Priority Services */}
       <div
         style={{
@@ -1032,12 +1628,12 @@ function ExecutiveSummary({
         <ul style={{ margin: 0, paddingLeft: "1.5rem" }}>
           <li>
             Budget represents{" "}
-            <strong>${budget.costPerBusiness.toLocaleString()}</strong> annual
+            <strong>{formatCurrency(budget.costPerBusiness, params)}</strong> annual
             cost per business
           </li>
           <li>
-            Coverage area of <strong>{data.areaAcres.toFixed(1)} acres</strong>{" "}
-            at ${budget.costPerAcre.toLocaleString()}/acre
+            Coverage area of <strong>{formatArea(data.areaAcres, params)}</strong>{" "}
+            at {formatPerArea(budget.costPerAcre, params)}
           </li>
           <li>
             Staffing estimate: <strong>{budget.cleanersNeeded}</strong>{" "}
@@ -1049,6 +1645,12 @@ function ExecutiveSummary({
               FTE ambassadors
             </li>
           )}
+          <li>
+            Costs localized to <strong>{regionalCost.index.name}</strong> (wages
+            ×{regionalCost.index.wageIndex.toFixed(2)}, prices ×
+            {regionalCost.index.priceIndex.toFixed(2)}) — see Parameters for
+            source
+          </li>
         </ul>
       </div>
 
@@ -1072,14 +1674,28 @@ function ExecutiveSummary({
         >
           Business Category Distribution
         </h3>
-        <CategoryPieChart data={data} />
+        <CategoryPieChart
+          data={data}
+          groupOverrides={params.category_group_overrides}
+        />
       </div>
     </div>
   );
 }
 
 // Service Details Component
-function ServiceDetails({ data, budget, serviceDemands, params }: any) {
+function ServiceDetails({
+  data,
+  budget,
+  serviceDemands,
+  params,
+  assetPlacement,
+  showAssetPlacements,
+  setShowAssetPlacements,
+}: any) {
+  const traceFor = (line: TraceLineKey) =>
+    budget.trace.find((t: LineTrace) => t.line === line);
+
   return (
     <div>
       {/* Service Priority Classification Explanation */}
@@ -1221,21 +1837,30 @@ function ServiceDetails({ data, budget, serviceDemands, params }: any) {
 
       {/* Cleaning Services */}
       <ServiceSection
+        locale={params}
         title="Cleaning & Maintenance"
         icon="🧹"
         cost={budget.cleaning}
         priority={serviceDemands.cleaning.priority}
         needs={serviceDemands.cleaning.needs}
         details={[
-          `${budget.cleanersNeeded} cleaners needed per day`,
-          `${budget.supervisorsNeeded} supervisors`,
-          `${params.clean_days_per_week} days per week coverage`,
-          `${budget.frontageEstimate.toLocaleString()} ft estimated frontage`,
+          `${budget.cleanersNeeded} cleaner FTEs, ${budget.supervisorsNeeded} supervisor FTEs` +
+            (params.cleaning_delivery_mode === "contracted"
+              ? " (vendor-supplied)"
+              : ""),
+          `${budget.schedules.cleaning?.staff.weeklyHours || 0} staff-hours per week (peak ${
+            budget.schedules.cleaning?.staff.peakOnDuty || 0
+          } on duty)`,
+          budget.frontageSource === "segments"
+            ? `${formatLength(budget.frontageEstimate, params)} curb frontage (street segments)`
+            : `${formatLength(budget.frontageEstimate, params)} estimated frontage (business count)`,
         ]}
+        trace={traceFor("cleaning")}
       />
 
       {/* Safety Services */}
       <ServiceSection
+        locale={params}
         title="Safety & Hospitality"
         icon="🛡️"
         cost={budget.safety}
@@ -1243,27 +1868,45 @@ function ServiceDetails({ data, budget, serviceDemands, params }: any) {
         needs={serviceDemands.safety.needs}
         details={[
           params.safety_enabled
-            ? `${budget.safetyFTE.toFixed(1)} FTE ambassadors`
+            ? `${budget.safetyFTE.toFixed(1)} FTE ambassadors` +
+              (params.safety_delivery_mode === "contracted"
+                ? " (vendor-supplied)"
+                : "")
             : "Service not enabled",
           `Night economy factor: ${budget.nightIntensity.toFixed(2)}`,
-          `${params.safety_days_per_week} days per week coverage`,
-          `${params.safety_hours_per_day} hours per day`,
+          `${budget.schedules.safety?.staff.weeklyHours || 0} staff-hours per week (peak ${
+            budget.schedules.safety?.staff.peakOnDuty || 0
+          } on duty)`,
         ]}
+        trace={traceFor("safety")}
       />
 
+      {/* Delivery Mode Comparison */}
+      {(budget.delivery.cleaning || budget.delivery.safety) && (
+        <DeliveryComparisonTable budget={budget} locale={params} />
+      )}
+
+      {/* Labor Cost Build-Up */}
+      {params.use_detailed_labor_model &&
+        (params.cleaning_enabled || params.safety_enabled) && (
+          <LaborCostBuildUp params={params} budget={budget} />
+        )}
+
       {/* Marketing Services */}
       <ServiceSection
+        locale={params}
         title="Marketing & Events"
         icon="📣"
         cost={budget.marketing}
         priority={serviceDemands.marketing.priority}
         needs={serviceDemands.marketing.needs}
         details={[
-          `Base budget: $${params.marketing_base_annual.toLocaleString()}`,
-          `Per business: $${params.marketing_per_business}`,
+          `Base budget: ${formatCurrency(params.marketing_base_annual, params)}`,
+          `Per business: ${formatCurrency(params.marketing_per_business, params)}`,
           `${params.events_per_year} annual events`,
-          `$${params.cost_per_event.toLocaleString()} per event`,
+          `${formatCurrency(params.cost_per_event, params)} per event`,
         ]}
+        trace={traceFor("marketing")}
       />
 
       {/* Streetscape Assets */}
@@ -1286,33 +1929,133 @@ function ServiceDetails({ data, budget, serviceDemands, params }: any) {
           }}
         >
           <AssetCard
+            locale={params}
             name="Trash Cans"
-            count={Math.ceil(
-              budget.frontageEstimate / params.feet_per_trash_can
-            )}
+            count={budget.assetCounts.trashCans}
             unitCost={params.trash_can_unit_cost}
             lifeYears={params.trash_can_life_years}
           />
           <AssetCard
+            locale={params}
             name="Planters"
-            count={Math.ceil(budget.frontageEstimate / params.feet_per_planter)}
+            count={budget.assetCounts.planters}
             unitCost={params.planter_unit_cost}
             lifeYears={params.planter_life_years}
           />
           <AssetCard
+            locale={params}
             name="Banners"
-            count={Math.ceil(budget.frontageEstimate / params.feet_per_banner)}
+            count={budget.assetCounts.banners}
             unitCost={params.banner_unit_cost}
             lifeYears={params.banner_life_years}
           />
         </div>
+        <AssetPlacementControls
+          params={params}
+          budget={budget}
+          plan={assetPlacement}
+          showOnMap={showAssetPlacements}
+          setShowOnMap={setShowAssetPlacements}
+        />
+        {traceFor("assets") && (
+          <TracePanel trace={traceFor("assets")} locale={params} />
+        )}
+      </div>
+
+      {/* Custom Service Lines */}
+      {budget.customLines.map((line: CustomLineCost) => (
+        <ServiceSection
+          locale={params}
+          key={line.id}
+          title={line.name}
+          icon="🧩"
+          cost={line.cost}
+          priority="Standard"
+          needs={[]}
+          details={[
+            line.driver === "fixed"
+              ? "Fixed annual amount"
+              : line.missingData
+              ? `No ${driverUnit(line.driver)} data loaded for this district`
+              : `${formatNumber(line.quantity, params, 1)} ${driverUnit(
+                  line.driver
+                )}s × ${formatCurrency(line.unitRate, params, 2)}`,
+            "Included in admin overhead base",
+          ]}
+        />
+      ))}
+
+      {/* Capital Plan */}
+      {budget.capitalPlan.projects.length > 0 && (
+        <div
+          style={{
+            backgroundColor: "#f8fafc",
+            borderRadius: "8px",
+            padding: "1.5rem",
+            marginBottom: "1.5rem",
+          }}
+        >
+          <h3 style={{ marginTop: 0, color: "#1e293b" }}>
+            🏗️ Capital Plan ({formatCurrency(budget.capital, params)} in year 1)
+          </h3>
+          <CapitalPlanTables plan={budget.capitalPlan} locale={params} />
+          {traceFor("capital") && (
+            <TracePanel trace={traceFor("capital")} locale={params} />
+          )}
+        </div>
+      )}
+
+      {/* District measures, custom lines and overhead */}
+      <div
+        style={{
+          backgroundColor: "#f8fafc",
+          borderRadius: "8px",
+          padding: "1.5rem",
+          marginBottom: "1.5rem",
+        }}
+      >
+        <h3 style={{ marginTop: 0, color: "#1e293b" }}>
+          🧮 From Lines to Total
+        </h3>
+        <div style={{ fontSize: "0.9rem", color: "#64748b" }}>
+          The district measures every line starts from, and how the service
+          lines add up to {formatCurrency(budget.total, params)}.
+        </div>
+        {(["site", "custom", "overhead"] as TraceLineKey[])
+          .map(traceFor)
+          .filter(Boolean)
+          .map((trace: LineTrace) => (
+            <div key={trace.line}>
+              <div style={{ marginTop: "1rem", fontWeight: 600 }}>
+                {trace.label}
+              </div>
+              <TracePanel trace={trace} locale={params} />
+            </div>
+          ))}
       </div>
     </div>
   );
 }
 
 // Parameter Sliders Component
-function ParameterSliders({ params, updateParam, budget }: any) {
+function ParameterSliders({
+  params,
+  updateParam,
+  setParams,
+  budget,
+  budgetInputs,
+  segmentFrontage,
+  cleaningRoutePlan,
+  showCleaningRoutes,
+  setShowCleaningRoutes,
+  regionSelection,
+  onSelectRegion,
+  onLoadProfile,
+  issues,
+}: any) {
+  // Remounts the profile list when another section saves a profile
+  const [profileRevision, setProfileRevision] = useState(0);
+
   return (
     <div>
       <div
@@ -1329,6 +2072,34 @@ function ParameterSliders({ params, updateParam, budget }: any) {
         </p>
       </div>
 
+      {/* Validation Summary */}
+      {issues.length > 0 && (
+        <div
+          style={{
+            backgroundColor: hasBlockingIssues(issues) ? "#fef2f2" : "#fffbeb",
+            border: `1px solid ${hasBlockingIssues(issues) ? "#fecaca" : "#fde68a"}`,
+            borderRadius: "8px",
+            padding: "1rem",
+            marginBottom: "1.5rem",
+            fontSize: "0.85rem",
+          }}
+        >
+          <div style={{ fontWeight: 600, marginBottom: "0.5rem", color: "#1e293b" }}>
+            {hasBlockingIssues(issues)
+              ? "Invalid parameters — PDF export is blocked until these are fixed"
+              : "Parameters outside typical ranges"}
+          </div>
+          {issues.map((issue: ParameterIssue, i: number) => (
+            <div
+              key={i}
+              style={{ color: issue.severity === "error" ? "#dc2626" : "#b45309" }}
+            >
+              {issue.severity === "error" ? "⛔" : "⚠️"} {issue.label}: {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Live Budget Display */}
       <div
         style={{
@@ -1352,7 +2123,7 @@ function ParameterSliders({ params, updateParam, budget }: any) {
           <div
             style={{ fontSize: "2rem", fontWeight: "bold", color: "#0ea5e9" }}
           >
-            ${budget.total.toLocaleString()}
+            {formatCurrency(budget.total, params)}
           </div>
         </div>
       </div>
@@ -1377,49 +2148,51 @@ function ParameterSliders({ params, updateParam, budget }: any) {
             gap: "0.5rem",
           }}
         >
-          {params.cleaning_enabled && (
+          {params.cleaning_enabled &&
+            params.cleaning_delivery_mode === "contracted" && (
+              <>
+                <div>Cleaning (contracted):</div>
+                <div>{formatCurrency(budget.cleaning, params)}</div>
+              </>
+            )}
+          {params.cleaning_enabled &&
+            params.cleaning_delivery_mode === "in_house" && (
             <>
-              <div>Cleaners ({budget.cleanersNeeded}):</div>
+              <div>Cleaners ({budget.cleanersNeeded} FTE):</div>
               <div>
-                $
-                {(
-                  budget.cleaning -
-                    budget.supervisorsNeeded *
-                      params.clean_hours_per_shift *
-                      params.clean_days_per_week *
-                      52 *
-                      params.supervisor_loaded_rate || 0
-                ).toLocaleString()}
+                {formatCurrency(
+                  budget.schedules.cleaning?.staff.annualCost || 0,
+                  params
+                )}
               </div>
-              <div>Supervisors ({budget.supervisorsNeeded}):</div>
+              <div>Supervisors ({budget.supervisorsNeeded} FTE):</div>
               <div>
-                $
-                {(
-                  budget.supervisorsNeeded *
-                    params.clean_hours_per_shift *
-                    params.clean_days_per_week *
-                    52 *
-                    params.supervisor_loaded_rate || 0
-                ).toLocaleString()}
+                {formatCurrency(
+                  budget.schedules.cleaning?.supervisors?.annualCost || 0,
+                  params
+                )}
               </div>
             </>
           )}
           {params.safety_enabled && (
             <>
-              <div>Safety ({budget.safetyFTE.toFixed(1)} FTE):</div>
-              <div>${budget.safety.toLocaleString()}</div>
+              <div>
+                Safety ({budget.safetyFTE.toFixed(1)} FTE
+                {params.safety_delivery_mode === "contracted" ? ", contracted" : ""}):
+              </div>
+              <div>{formatCurrency(budget.safety, params)}</div>
             </>
           )}
           {params.marketing_enabled && (
             <>
               <div>Marketing & Events:</div>
-              <div>${budget.marketing.toLocaleString()}</div>
+              <div>{formatCurrency(budget.marketing, params)}</div>
             </>
           )}
           {params.assets_enabled && (
             <>
               <div>Streetscape Assets:</div>
-              <div>${budget.assets.toLocaleString()}</div>
+              <div>{formatCurrency(budget.assets, params)}</div>
             </>
           )}
           <div
@@ -1438,15 +2211,77 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               paddingTop: "0.5rem",
             }}
           >
-            ${budget.subtotal.toLocaleString()}
+            {formatCurrency(budget.subtotal, params)}
           </div>
           <div>
             Admin Overhead ({(params.admin_overhead_pct * 100).toFixed(0)}%):
           </div>
-          <div>${budget.adminOverhead.toLocaleString()}</div>
+          <div>{formatCurrency(budget.adminOverhead, params)}</div>
+          {budget.capital > 0 && (
+            <>
+              <div>Capital Plan (year 1):</div>
+              <div>{formatCurrency(budget.capital, params)}</div>
+            </>
+          )}
+          {budget.funding.nonAssessment > 0 && (
+            <>
+              <div>Other Revenue:</div>
+              <div>−{formatCurrency(budget.funding.nonAssessment, params)}</div>
+              <div style={{ fontWeight: "bold" }}>Net Assessment:</div>
+              <div style={{ fontWeight: "bold" }}>
+                {formatCurrency(budget.netAssessment, params)}
+              </div>
+            </>
+          )}
         </div>
       </div>
 
+      {/* Saved Profiles */}
+      <ParameterProfiles
+        key={profileRevision}
+        params={params}
+        regionId={regionSelection.index.id}
+        onLoad={onLoadProfile}
+      />
+
+      {/* Locale & Units */}
+      <LocaleSection params={params} setParams={setParams} issues={issues} />
+
+      {/* Regional Costs */}
+      <RegionalCostSection selection={regionSelection} onSelect={onSelectRegion} />
+
+      {/* Goal Seek */}
+      <FitToBudget
+        params={params}
+        budgetInputs={budgetInputs}
+        currentTotal={budget.total}
+        onApply={setParams}
+      />
+
+      {/* Calibration */}
+      <CalibrationSection
+        params={params}
+        regionSelection={regionSelection}
+        onApply={setParams}
+        onProfileSaved={() => setProfileRevision((r) => r + 1)}
+      />
+
+      {/* Frontage Source */}
+      <FrontageSection
+        params={params}
+        updateParam={updateParam}
+        budget={budget}
+        segmentFrontage={segmentFrontage}
+        issues={issues}
+      />
+
+      {/* Business Mix Weights */}
+      <CategoryMixSection
+        params={params}
+        updateParam={updateParam}
+        categoryBreakdown={budgetInputs.categoryBreakdown}
+      />
+
       {/* Cleaning Parameters */}
       <ParameterSection title="Cleaning & Maintenance">
         <div style={{ marginBottom: "1rem" }}>
@@ -1465,15 +2300,25 @@ function ParameterSliders({ params, updateParam, budget }: any) {
         </div>
         {params.cleaning_enabled && (
           <>
-            <SliderInput
-              label="Cleaner Hourly Rate (loaded)"
-              value={params.clean_loaded_rate}
-              min={20}
-              max={100}
-              step={1}
-              unit="$/hr"
-              onChange={(v) => updateParam("clean_loaded_rate", v)}
-            />
+            {params.use_detailed_labor_model ? (
+              <DerivedRateNote
+                label="Cleaner Hourly Rate (loaded)"
+                rate={budget.loadedRates.cleaner}
+                locale={params}
+              />
+            ) : (
+              <SliderInput
+                label="Cleaner Hourly Rate (loaded)"
+                value={params.clean_loaded_rate}
+                min={20}
+                max={100}
+                step={1}
+                unit="$/hr"
+                onChange={(v) => updateParam("clean_loaded_rate", v)}
+                locale={params}
+                issues={fieldIssues(issues, "clean_loaded_rate")}
+              />
+            )}
             <SliderInput
               label="Days per Week"
               value={params.clean_days_per_week}
@@ -1481,6 +2326,18 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               max={7}
               step={1}
               onChange={(v) => updateParam("clean_days_per_week", v)}
+              locale={params}
+              issues={fieldIssues(issues, "clean_days_per_week")}
+            />
+            <SliderInput
+              label="Shifts per Day"
+              value={params.clean_shifts_per_day}
+              min={1}
+              max={3}
+              step={1}
+              onChange={(v: number) => updateParam("clean_shifts_per_day", v)}
+              locale={params}
+              issues={fieldIssues(issues, "clean_shifts_per_day")}
             />
 
             {/* Calculation Method Toggle */}
@@ -1520,23 +2377,27 @@ function ParameterSliders({ params, updateParam, budget }: any) {
 
             {params.use_area_based_cleaning ? (
               <SliderInput
-                label="Area Coverage (acres/hour)"
+                label={`Area Coverage (${areaUnit(params)}/hour)`}
                 value={params.acres_per_cleaner_hour}
                 min={0.1}
                 max={2.0}
                 step={0.1}
                 unit="acres"
                 onChange={(v) => updateParam("acres_per_cleaner_hour", v)}
+                locale={params}
+                issues={fieldIssues(issues, "acres_per_cleaner_hour")}
               />
             ) : (
               <SliderInput
-                label="Productivity (ft/hour)"
+                label={`Productivity (${lengthUnit(params)}/hour)`}
                 value={params.frontage_ft_per_cleaner_hour}
                 min={500}
                 max={1500}
                 step={50}
                 unit="ft"
                 onChange={(v) => updateParam("frontage_ft_per_cleaner_hour", v)}
+                locale={params}
+                issues={fieldIssues(issues, "frontage_ft_per_cleaner_hour")}
               />
             )}
 
@@ -1548,6 +2409,18 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={1}
               unit=":1"
               onChange={(v) => updateParam("supervisor_ratio", v)}
+              locale={params}
+              issues={fieldIssues(issues, "supervisor_ratio")}
+            />
+            <CleaningRouteControls
+              params={params}
+              updateParam={updateParam}
+              budget={budget}
+              budgetInputs={budgetInputs}
+              plan={cleaningRoutePlan}
+              showOnMap={showCleaningRoutes}
+              setShowOnMap={setShowCleaningRoutes}
+              issues={issues}
             />
           </>
         )}
@@ -1569,15 +2442,25 @@ function ParameterSliders({ params, updateParam, budget }: any) {
         </div>
         {params.safety_enabled && (
           <>
-            <SliderInput
-              label="Ambassador Hourly Rate"
-              value={params.safety_loaded_rate}
-              min={25}
-              max={150}
-              step={1}
-              unit="$/hr"
-              onChange={(v) => updateParam("safety_loaded_rate", v)}
-            />
+            {params.use_detailed_labor_model ? (
+              <DerivedRateNote
+                label="Ambassador Hourly Rate"
+                rate={budget.loadedRates.safety}
+                locale={params}
+              />
+            ) : (
+              <SliderInput
+                label="Ambassador Hourly Rate"
+                value={params.safety_loaded_rate}
+                min={25}
+                max={150}
+                step={1}
+                unit="$/hr"
+                onChange={(v) => updateParam("safety_loaded_rate", v)}
+                locale={params}
+                issues={fieldIssues(issues, "safety_loaded_rate")}
+              />
+            )}
             <SliderInput
               label="Hours per Day"
               value={params.safety_hours_per_day}
@@ -1586,6 +2469,8 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={1}
               unit="hrs"
               onChange={(v) => updateParam("safety_hours_per_day", v)}
+              locale={params}
+              issues={fieldIssues(issues, "safety_hours_per_day")}
             />
             <SliderInput
               label="Days per Week"
@@ -1594,11 +2479,41 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               max={7}
               step={1}
               onChange={(v) => updateParam("safety_days_per_week", v)}
+              locale={params}
+              issues={fieldIssues(issues, "safety_days_per_week")}
+            />
+            <PatrolBeatControls
+              params={params}
+              updateParam={updateParam}
+              budget={budget}
+              issues={issues}
             />
           </>
         )}
       </ParameterSection>
 
+      {/* Detailed Labor Model */}
+      <LaborModelSection
+        params={params}
+        updateParam={updateParam}
+        issues={issues}
+      />
+
+      {/* In-house vs Contracted */}
+      <ServiceDeliverySection
+        params={params}
+        updateParam={updateParam}
+        budget={budget}
+        issues={issues}
+      />
+
+      {/* Weekly Staffing Schedule */}
+      <StaffingScheduleEditor
+        params={params}
+        updateParam={updateParam}
+        budget={budget}
+      />
+
       {/* Marketing Parameters */}
       <ParameterSection title="Marketing & Events">
         <div style={{ marginBottom: "1rem" }}>
@@ -1625,6 +2540,8 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={10000}
               unit="$"
               onChange={(v) => updateParam("marketing_base_annual", v)}
+              locale={params}
+              issues={fieldIssues(issues, "marketing_base_annual")}
             />
             <SliderInput
               label="Per Business Marketing"
@@ -1634,6 +2551,8 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={10}
               unit="$"
               onChange={(v) => updateParam("marketing_per_business", v)}
+              locale={params}
+              issues={fieldIssues(issues, "marketing_per_business")}
             />
             <SliderInput
               label="Events per Year"
@@ -1642,6 +2561,8 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               max={52}
               step={1}
               onChange={(v) => updateParam("events_per_year", v)}
+              locale={params}
+              issues={fieldIssues(issues, "events_per_year")}
             />
             <SliderInput
               label="Cost per Event"
@@ -1651,6 +2572,8 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={2500}
               unit="$"
               onChange={(v) => updateParam("cost_per_event", v)}
+              locale={params}
+              issues={fieldIssues(issues, "cost_per_event")}
             />
           </>
         )}
@@ -1673,13 +2596,15 @@ function ParameterSliders({ params, updateParam, budget }: any) {
         {params.assets_enabled && (
           <>
             <SliderInput
-              label="Feet per Trash Can"
+              label="Trash Can Spacing"
               value={params.feet_per_trash_can}
               min={200}
               max={800}
               step={50}
               unit="ft"
               onChange={(v) => updateParam("feet_per_trash_can", v)}
+              locale={params}
+              issues={fieldIssues(issues, "feet_per_trash_can")}
             />
             <SliderInput
               label="Trash Can Unit Cost"
@@ -1689,15 +2614,19 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={100}
               unit="$"
               onChange={(v) => updateParam("trash_can_unit_cost", v)}
+              locale={params}
+              issues={fieldIssues(issues, "trash_can_unit_cost")}
             />
             <SliderInput
-              label="Feet per Planter"
+              label="Planter Spacing"
               value={params.feet_per_planter}
               min={300}
               max={1200}
               step={50}
               unit="ft"
               onChange={(v) => updateParam("feet_per_planter", v)}
+              locale={params}
+              issues={fieldIssues(issues, "feet_per_planter")}
             />
             <SliderInput
               label="Planter Unit Cost"
@@ -1707,15 +2636,19 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={25}
               unit="$"
               onChange={(v) => updateParam("planter_unit_cost", v)}
+              locale={params}
+              issues={fieldIssues(issues, "planter_unit_cost")}
             />
             <SliderInput
-              label="Feet per Banner"
+              label="Banner Spacing"
               value={params.feet_per_banner}
               min={400}
               max={1500}
               step={50}
               unit="ft"
               onChange={(v) => updateParam("feet_per_banner", v)}
+              locale={params}
+              issues={fieldIssues(issues, "feet_per_banner")}
             />
             <SliderInput
               label="Banner Unit Cost"
@@ -1725,10 +2658,46 @@ function ParameterSliders({ params, updateParam, budget }: any) {
               step={10}
               unit="$"
               onChange={(v) => updateParam("banner_unit_cost", v)}
+              locale={params}
+              issues={fieldIssues(issues, "banner_unit_cost")}
             />
-          </>
-        )}
-      </ParameterSection>
+            <SliderInput
+              label="Clearance from Intersections"
+              value={params.asset_intersection_setback_ft}
+              min={0}
+              max={100}
+              step={5}
+              unit="ft"
+              onChange={(v: number) => updateParam("asset_intersection_setback_ft", v)}
+              locale={params}
+              issues={fieldIssues(issues, "asset_intersection_setback_ft")}
+            />
+          </>
+        )}
+      </ParameterSection>
+
+      {/* Custom Service Lines */}
+      <CustomServiceLinesSection
+        params={params}
+        updateParam={updateParam}
+        budget={budget}
+      />
+
+      {/* Capital Plan */}
+      <CapitalPlanSection
+        params={params}
+        updateParam={updateParam}
+        budget={budget}
+        issues={issues}
+      />
+
+      {/* Funding Sources */}
+      <FundingSourcesSection
+        params={params}
+        updateParam={updateParam}
+        budget={budget}
+        issues={issues}
+      />
 
       {/* Admin Overhead */}
       <ParameterSection title="Administration">
@@ -1740,7 +2709,173 @@ function ParameterSliders({ params, updateParam, budget }: any) {
           step={1}
           unit="%"
           onChange={(v) => updateParam("admin_overhead_pct", v / 100)}
+          locale={params}
+          issues={fieldIssues(issues, "admin_overhead_pct")}
+        />
+      </ParameterSection>
+
+      {/* Multi-Year Projection */}
+      <ParameterSection title="Multi-Year Projection">
+        <SliderInput
+          label="Projection Horizon"
+          value={params.projection_years}
+          min={2}
+          max={10}
+          step={1}
+          unit="years"
+          onChange={(v: number) => updateParam("projection_years", v)}
+          locale={params}
+          issues={fieldIssues(issues, "projection_years")}
+        />
+        <SliderInput
+          label="Labor Rate Escalation"
+          value={params.labor_escalation_pct * 100}
+          min={0}
+          max={10}
+          step={0.5}
+          unit="%/yr"
+          onChange={(v: number) => updateParam("labor_escalation_pct", v / 100)}
+          locale={params}
+          issues={fieldIssues(issues, "labor_escalation_pct")}
+        />
+        <SliderInput
+          label="Marketing Escalation"
+          value={params.marketing_escalation_pct * 100}
+          min={0}
+          max={10}
+          step={0.5}
+          unit="%/yr"
+          onChange={(v: number) => updateParam("marketing_escalation_pct", v / 100)}
+          locale={params}
+          issues={fieldIssues(issues, "marketing_escalation_pct")}
+        />
+        <SliderInput
+          label="Asset Cost Escalation"
+          value={params.asset_cost_escalation_pct * 100}
+          min={0}
+          max={10}
+          step={0.5}
+          unit="%/yr"
+          onChange={(v: number) => updateParam("asset_cost_escalation_pct", v / 100)}
+          locale={params}
+          issues={fieldIssues(issues, "asset_cost_escalation_pct")}
+        />
+        <SliderInput
+          label="Admin Overhead Escalation"
+          value={params.admin_escalation_pct * 100}
+          min={0}
+          max={10}
+          step={0.5}
+          unit="%/yr"
+          onChange={(v: number) => updateParam("admin_escalation_pct", v / 100)}
+          locale={params}
+          issues={fieldIssues(issues, "admin_escalation_pct")}
         />
+        {params.custom_service_lines.length > 0 && (
+          <SliderInput
+            label="Custom Line Escalation"
+            value={params.custom_line_escalation_pct * 100}
+            min={0}
+            max={10}
+            step={0.5}
+            unit="%/yr"
+            onChange={(v: number) =>
+              updateParam("custom_line_escalation_pct", v / 100)
+            }
+            locale={params}
+            issues={fieldIssues(issues, "custom_line_escalation_pct")}
+          />
+        )}
+      </ParameterSection>
+
+      {/* New-District Formation */}
+      <ParameterSection title="New-District Formation">
+        <div style={{ marginBottom: "1rem" }}>
+          <label
+            style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+          >
+            <input
+              type="checkbox"
+              checked={params.formation_mode}
+              onChange={(e) => updateParam("formation_mode", e.target.checked)}
+            />
+            <span>Forming a new district</span>
+          </label>
+          <div style={{ fontSize: "0.85rem", color: "#6b7280", marginTop: "0.25rem" }}>
+            Adds one-time startup costs and a partial first year of service,
+            compared with the steady-state budget in the report.
+          </div>
+        </div>
+        {params.formation_mode && (
+          <>
+            <SliderInput
+              label="Months of Service in Year 1"
+              value={params.formation_operating_months}
+              min={1}
+              max={12}
+              step={1}
+              unit="months"
+              onChange={(v: number) => updateParam("formation_operating_months", v)}
+              locale={params}
+              issues={fieldIssues(issues, "formation_operating_months")}
+            />
+            <SliderInput
+              label="Feasibility Study"
+              value={params.formation_feasibility_cost}
+              min={0}
+              max={150000}
+              step={5000}
+              unit="$"
+              onChange={(v: number) => updateParam("formation_feasibility_cost", v)}
+              locale={params}
+              issues={fieldIssues(issues, "formation_feasibility_cost")}
+            />
+            <SliderInput
+              label="Legal & Petition"
+              value={params.formation_legal_cost}
+              min={0}
+              max={250000}
+              step={5000}
+              unit="$"
+              onChange={(v: number) => updateParam("formation_legal_cost", v)}
+              locale={params}
+              issues={fieldIssues(issues, "formation_legal_cost")}
+            />
+            <SliderInput
+              label="Hiring Cost per In-House FTE"
+              value={params.formation_hiring_cost_per_fte}
+              min={0}
+              max={10000}
+              step={250}
+              unit="$"
+              onChange={(v: number) => updateParam("formation_hiring_cost_per_fte", v)}
+              locale={params}
+              issues={fieldIssues(issues, "formation_hiring_cost_per_fte")}
+            />
+            <SliderInput
+              label="Equipment per In-House FTE"
+              value={params.formation_equipment_cost_per_fte}
+              min={0}
+              max={10000}
+              step={250}
+              unit="$"
+              onChange={(v: number) => updateParam("formation_equipment_cost_per_fte", v)}
+              locale={params}
+              issues={fieldIssues(issues, "formation_equipment_cost_per_fte")}
+            />
+            <SliderInput
+              label="Branding Launch"
+              value={params.formation_branding_cost}
+              min={0}
+              max={150000}
+              step={5000}
+              unit="$"
+              onChange={(v: number) => updateParam("formation_branding_cost", v)}
+              locale={params}
+              issues={fieldIssues(issues, "formation_branding_cost")}
+            />
+          </>
+        )}
       </ParameterSection>
     </div>
   );
@@ -1798,6 +2933,11 @@ function BudgetBar({ budget, params }: any) {
       value: budget.assets,
       color: "#8b5cf6",
     },
+    ...budget.customLines.map((line: CustomLineCost) => ({
+      label: line.name,
+      value: line.cost,
+      color: line.color,
+    })),
   ].filter(Boolean);
 
   return (
@@ -1832,7 +2972,12 @@ function BudgetBar({ budget, params }: any) {
   );
 }
 
-function BudgetLineItem({ label, value, percentage }: any) {
+function BudgetLineItem({
+  label,
+  value,
+  percentage,
+  locale = DEFAULT_LOCALE_SETTINGS,
+}: any) {
   return (
     <div
       style={{
@@ -1843,13 +2988,19 @@ function BudgetLineItem({ label, value, percentage }: any) {
     >
       <span style={{ color: "#64748b" }}>{label}</span>
       <span style={{ fontWeight: 600 }}>
-        ${value.toLocaleString()} ({percentage}%)
+        {formatCurrency(value, locale)} ({percentage}%)
       </span>
     </div>
   );
 }
 
-function BudgetLineItemWithColor({ label, value, percentage, color }: any) {
+function BudgetLineItemWithColor({
+  label,
+  value,
+  percentage,
+  color,
+  locale = DEFAULT_LOCALE_SETTINGS,
+}: any) {
   return (
     <div
       style={{
@@ -1891,7 +3042,7 @@ function BudgetLineItemWithColor({ label, value, percentage, color }: any) {
           fontFamily: ginkgoTheme.typography.fontFamily.body,
         }}
       >
-        ${value.toLocaleString()} ({percentage}%)
+        {formatCurrency(value, locale)} ({percentage}%)
       </span>
     </div>
   );
@@ -1933,7 +3084,16 @@ function ServicePriorities({ serviceDemands }: any) {
   );
 }
 
-function ServiceSection({ title, icon, cost, priority, needs, details }: any) {
+function ServiceSection({
+  title,
+  icon,
+  cost,
+  priority,
+  needs,
+  details,
+  trace,
+  locale = DEFAULT_LOCALE_SETTINGS,
+}: any) {
   const priorityColors = {
     High: "#dc2626",
     Medium: "#f59e0b",
@@ -1982,7 +3142,7 @@ function ServiceSection({ title, icon, cost, priority, needs, details }: any) {
             {priority} Priority
           </span>
           <span style={{ fontSize: "1.25rem", fontWeight: "bold" }}>
-            ${cost.toLocaleString()}
+            {formatCurrency(cost, locale)}
           </span>
         </div>
       </div>
@@ -2013,11 +3173,141 @@ function ServiceSection({ title, icon, cost, priority, needs, details }: any) {
           </div>
         ))}
       </div>
+
+      {trace && <TracePanel trace={trace} locale={locale} />}
+    </div>
+  );
+}
+
+// Expandable derivation of one budget line: inputs, then each step's formula
+function TracePanel({
+  trace,
+  locale,
+}: {
+  trace: LineTrace;
+  locale: LocaleSettings;
+}) {
+  const [open, setOpen] = useState(false);
+  const cellStyle = {
+    padding: "0.4rem 0.5rem",
+    borderBottom: "1px solid #e2e8f0",
+    verticalAlign: "top" as const,
+  };
+
+  return (
+    <div style={{ marginTop: "1rem" }}>
+      <button
+        onClick={() => setOpen(!open)}
+        style={{
+          background: "none",
+          border: "none",
+          padding: 0,
+          color: "#0ea5e9",
+          fontSize: "0.85rem",
+          fontWeight: 600,
+          cursor: "pointer",
+        }}
+      >
+        {open ? "▾ Hide the math" : "▸ Show the math"}
+      </button>
+
+      {open && (
+        <div
+          style={{
+            marginTop: "0.75rem",
+            padding: "1rem",
+            backgroundColor: "white",
+            border: "1px solid #e2e8f0",
+            borderRadius: "6px",
+            fontSize: "0.85rem",
+          }}
+        >
+          {trace.note && (
+            <div style={{ marginBottom: "0.75rem", color: "#64748b" }}>
+              {trace.note}
+            </div>
+          )}
+
+          {trace.inputs.length > 0 && (
+            <div style={{ marginBottom: "0.75rem" }}>
+              <strong>Inputs</strong>
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(2, 1fr)",
+                  gap: "0.25rem 1rem",
+                  marginTop: "0.4rem",
+                }}
+              >
+                {trace.inputs.map((input) => (
+                  <div key={input.label} title={input.source}>
+                    {input.label}:{" "}
+                    <strong>{formatTraceValue(input.value, locale)}</strong>
+                    {input.source && (
+                      <span style={{ color: "#94a3b8" }}> ({input.source})</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {trace.steps.length > 0 && (
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                fontFamily: ginkgoTheme.typography.fontFamily.body,
+              }}
+            >
+              <tbody>
+                {trace.steps.map((step, i) => (
+                  <tr key={i}>
+                    <td style={{ ...cellStyle, fontWeight: 600, width: "25%" }}>
+                      {step.label}
+                    </td>
+                    <td style={{ ...cellStyle, fontFamily: "monospace", color: "#475569" }}>
+                      {formatTraceFormula(step.formula, locale)}
+                      {step.note && (
+                        <div
+                          style={{
+                            fontFamily: ginkgoTheme.typography.fontFamily.body,
+                            color: "#94a3b8",
+                            fontSize: "0.8rem",
+                          }}
+                        >
+                          {step.note}
+                        </div>
+                      )}
+                    </td>
+                    <td
+                      style={{
+                        ...cellStyle,
+                        textAlign: "right",
+                        fontWeight: 600,
+                        whiteSpace: "nowrap",
+                      }}
+                    >
+                      = {formatTraceValue(step.result, locale)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
     </div>
   );
 }
 
-function AssetCard({ name, count, unitCost, lifeYears }: any) {
+function AssetCard({
+  name,
+  count,
+  unitCost,
+  lifeYears,
+  locale = DEFAULT_LOCALE_SETTINGS,
+}: any) {
   const annualCost = (count * unitCost) / lifeYears;
 
   return (
@@ -2032,147 +3322,3964 @@ function AssetCard({ name, count, unitCost, lifeYears }: any) {
       <div style={{ fontWeight: 600, marginBottom: "0.5rem" }}>{name}</div>
       <div style={{ fontSize: "0.9rem", color: "#64748b" }}>
         <div>Quantity: {count}</div>
-        <div>Unit cost: ${unitCost}</div>
+        <div>Unit cost: {formatCurrency(unitCost, locale)}</div>
         <div>Life: {lifeYears} years</div>
         <div style={{ marginTop: "0.5rem", fontWeight: 600, color: "#1e293b" }}>
-          Annual: ${Math.round(annualCost).toLocaleString()}
+          Annual: {formatCurrency(annualCost, locale)}
         </div>
       </div>
     </div>
   );
 }
 
-function ParameterSection({ title, children }: any) {
-  return (
-    <div
-      style={{
-        marginBottom: "2rem",
-        padding: "1.5rem",
-        backgroundColor: "#f8fafc",
-        borderRadius: "8px",
-      }}
-    >
-      <h3 style={{ marginTop: 0, marginBottom: "1rem", color: "#1e293b" }}>
-        {title}
-      </h3>
-      {children}
-    </div>
-  );
-}
+// Where the assets would go: map toggle and inventory downloads for the
+// placement along loaded street segments
+function AssetPlacementControls({
+  params,
+  budget,
+  plan,
+  showOnMap,
+  setShowOnMap,
+}: {
+  params: BudgetParameters;
+  budget: BudgetResult;
+  plan: AssetPlacementPlan | null;
+  showOnMap: boolean;
+  setShowOnMap: (show: boolean) => void;
+}) {
+  if (!plan) {
+    return (
+      <p style={{ margin: "1rem 0 0", fontSize: "0.8rem", color: "#64748b" }}>
+        Counts are frontage ÷ spacing. Load road segments on the map to place
+        each asset along the streets.
+      </p>
+    );
+  }
+
+  const download = (content: string, type: string, filename: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const schedule = assetCostSchedule(plan.counts, params);
+  const buttonStyle: React.CSSProperties = {
+    padding: "0.4rem 0.75rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "4px",
+    backgroundColor: "white",
+    cursor: "pointer",
+    fontSize: "0.8rem",
+  };
 
-function SliderInput({
-  label,
-  value,
-  min,
-  max,
-  step,
-  unit = "",
-  onChange,
-}: any) {
   return (
-    <div style={{ marginBottom: "1rem" }}>
+    <div style={{ marginTop: "1rem", fontSize: "0.85rem", color: "#374151" }}>
+      <div style={{ marginBottom: "0.5rem" }}>
+        <strong>{formatNumber(plan.placements.length, params)} locations</strong>{" "}
+        proposed along {formatLength(plan.blockFaceFt, params)} of block faces,
+        kept {formatLength(plan.setbackFt, params)} clear of intersections.
+        {!budget.assetPlacement && (
+          <span style={{ color: "#b45309" }}>
+            {" "}
+            Budget counts still use the business-count frontage estimate.
+          </span>
+        )}
+      </div>
       <div
         style={{
           display: "flex",
-          justifyContent: "space-between",
-          marginBottom: "0.5rem",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: "1rem",
         }}
       >
-        <label style={{ fontSize: "0.9rem", color: "#64748b" }}>{label}</label>
-        <span style={{ fontWeight: 600 }}>
-          {unit && unit !== "$" && unit !== "%" && !unit.startsWith(":")
-            ? value.toLocaleString() + " " + unit
-            : unit === "$"
-            ? "$" + value.toLocaleString()
-            : unit === "%"
-            ? value.toFixed(0) + "%"
-            : unit.startsWith(":")
-            ? value + unit
-            : value.toLocaleString()}
-        </span>
+        <label style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+          <input
+            type="checkbox"
+            checked={showOnMap}
+            onChange={(e) => setShowOnMap(e.target.checked)}
+          />
+          <span>Show on map</span>
+        </label>
+        {ASSET_TYPES.map((spec) => (
+          <span
+            key={spec.type}
+            style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}
+          >
+            <span
+              style={{
+                width: "10px",
+                height: "10px",
+                borderRadius: "50%",
+                backgroundColor: spec.color,
+              }}
+            />
+            {spec.label} ({schedule.find((row) => row.type === spec.type)!.count})
+          </span>
+        ))}
+        <button
+          style={buttonStyle}
+          onClick={() =>
+            download(
+              JSON.stringify(assetPlacementGeoJSON(plan, params), null, 2),
+              "application/geo+json",
+              "streetscape_assets.geojson"
+            )
+          }
+        >
+          Download GeoJSON
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={() =>
+            download(
+              assetInventoryCSV(plan, params),
+              "text/csv",
+              "streetscape_assets.csv"
+            )
+          }
+        >
+          Download CSV
+        </button>
       </div>
-      <input
-        type="range"
-        min={min}
-        max={max}
-        step={step}
-        value={value}
-        onChange={(e) => onChange(Number(e.target.value))}
-        style={{
-          width: "100%",
-          height: "6px",
-          borderRadius: "3px",
-          background: `linear-gradient(to right, #0ea5e9 0%, #0ea5e9 ${
-            ((value - min) / (max - min)) * 100
-          }%, #e2e8f0 ${((value - min) / (max - min)) * 100}%, #e2e8f0 100%)`,
-          outline: "none",
-          WebkitAppearance: "none",
-        }}
-      />
     </div>
   );
 }
 
-// Category Pie Chart Component
-function CategoryPieChart({ data }: { data: any }) {
-  // Process the places data to count categories
-  const categoryCounts: Record<string, number> = {};
-
-  if (data.places && Array.isArray(data.places)) {
-    data.places.forEach((place: any) => {
-      if (place.properties && place.properties.category) {
-        const category = place.properties.category.toLowerCase();
-        categoryCounts[category] = (categoryCounts[category] || 0) + 1;
-      } else {
-        categoryCounts["other"] = (categoryCounts["other"] || 0) + 1;
-      }
-    });
-  }
-
-  // Filter out categories with 0 places and prepare chart data
-  const chartLabels: string[] = [];
-  const chartData: number[] = [];
-  const chartColors: string[] = [];
-
-  // Sort categories by count and show top 10, group rest as "Other"
-  const sortedCategories = Object.entries(categoryCounts)
-    .filter(([_, count]) => count > 0)
-    .sort(([, a], [, b]) => b - a); // Sort by count descending
-
-  const TOP_CATEGORIES_COUNT = 10;
-  const topCategories = sortedCategories.slice(0, TOP_CATEGORIES_COUNT);
-  const otherCategories = sortedCategories.slice(TOP_CATEGORIES_COUNT);
-
-  // Add top categories using unified color system
-  topCategories.forEach(([category, count]) => {
-    // Format category name for display
-    const displayName = category
-      .split("_")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(" ");
-
-    chartLabels.push(`${displayName} (${count})`);
-    chartData.push(count);
-    chartColors.push(getCategoryColor(category));
-  });
+// Startup costs and the partial first year next to the steady-state budget,
+// with the formation timeline leading up to service start
+function ServiceTierComparison({
+  tiers,
+  params,
+}: {
+  tiers: ServiceTierResult[];
+  params: BudgetParameters;
+}) {
+  const cellStyle: React.CSSProperties = {
+    padding: "0.45rem 0.5rem",
+    textAlign: "right",
+    borderBottom: "1px solid #e2e8f0",
+    whiteSpace: "nowrap",
+  };
+  const money = (v: number) => formatCurrency(v, params);
+  const current = tiers.find((t) => t.tier.key === "enhanced")?.budget.total ?? 0;
+  const fixedScheduleNote = tierFixedScheduleNote(params);
 
-  // Group remaining categories as "Other" if there are any
-  if (otherCategories.length > 0) {
-    const otherCount = otherCategories.reduce(
-      (sum, [_, count]) => sum + count,
-      0
-    );
+  const costRows = [
+    params.cleaning_enabled && { label: "Cleaning", value: (b: BudgetResult) => b.cleaning },
+    params.safety_enabled && { label: "Safety", value: (b: BudgetResult) => b.safety },
+    params.marketing_enabled && { label: "Marketing", value: (b: BudgetResult) => b.marketing },
+    params.assets_enabled && { label: "Assets", value: (b: BudgetResult) => b.assets },
+    tiers.some((t) => t.budget.custom > 0) && {
+      label: "Custom Services",
+      value: (b: BudgetResult) => b.custom,
+    },
+    { label: "Admin Overhead", value: (b: BudgetResult) => b.adminOverhead },
+    tiers.some((t) => t.budget.capital > 0) && {
+      label: "Capital Plan",
+      value: (b: BudgetResult) => b.capital,
+    },
+  ].filter(Boolean) as { label: string; value: (b: BudgetResult) => number }[];
 
-    chartLabels.push(`Other (${otherCount})`);
-    chartData.push(otherCount);
-    chartColors.push(CATEGORY_COLORS.other); // Use unified "other" color
-  }
+  const sectionRow = (label: string) => (
+    <tr>
+      <td
+        colSpan={tiers.length + 1}
+        style={{
+          ...cellStyle,
+          textAlign: "left",
+          fontWeight: 600,
+          color: "#64748b",
+          paddingTop: "0.9rem",
+        }}
+      >
+        {label}
+      </td>
+    </tr>
+  );
 
-  const chartConfig = {
-    labels: chartLabels,
-    datasets: [
-      {
-        data: chartData,
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        border: "1px solid #e2e8f0",
+        borderRadius: "8px",
+        padding: "1.5rem",
+        marginBottom: "2rem",
+      }}
+    >
+      <h3 style={{ marginTop: 0, marginBottom: "0.5rem", color: "#1e293b" }}>
+        🎚️ Service Level Tiers
+      </h3>
+      <p style={{ margin: "0 0 1rem", fontSize: "0.85rem", color: "#64748b" }}>
+        Three packages built from the current parameters. Enhanced is the
+        budget as configured; Basic and Premium step service levels down and
+        up.
+      </p>
+      {fixedScheduleNote && (
+        <p style={{ margin: "0 0 1rem", fontSize: "0.85rem", color: "#92400e" }}>
+          ⚠️ {fixedScheduleNote}
+        </p>
+      )}
+      <div style={{ overflowX: "auto" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "0.85rem",
+            fontFamily: ginkgoTheme.typography.fontFamily.body,
+          }}
+        >
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: "left" }}></th>
+              {tiers.map((t) => (
+                <th
+                  key={t.tier.key}
+                  style={{
+                    ...cellStyle,
+                    backgroundColor: t.tier.key === "enhanced" ? "#f0f9ff" : undefined,
+                  }}
+                  title={t.tier.description}
+                >
+                  {t.tier.label}
+                  {t.tier.key === "enhanced" && (
+                    <div style={{ fontSize: "0.7rem", fontWeight: 400, color: "#64748b" }}>
+                      current
+                    </div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sectionRow("Service levels")}
+            {tierParameterRows().map((row) => (
+              <tr key={row.key}>
+                <td style={{ ...cellStyle, textAlign: "left" }}>{row.label}</td>
+                {tiers.map((t) => (
+                  <td key={t.tier.key} style={cellStyle}>
+                    {formatNumber(t.params[row.key], params, 2)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td style={{ ...cellStyle, textAlign: "left" }}>Cleaners / safety FTE</td>
+              {tiers.map((t) => (
+                <td key={t.tier.key} style={cellStyle}>
+                  {t.budget.cleanersNeeded} / {formatNumber(t.budget.safetyFTE, params, 1)}
+                </td>
+              ))}
+            </tr>
+
+            {sectionRow("Annual budget")}
+            {costRows.map((row) => (
+              <tr key={row.label}>
+                <td style={{ ...cellStyle, textAlign: "left" }}>{row.label}</td>
+                {tiers.map((t) => (
+                  <td key={t.tier.key} style={cellStyle}>
+                    {money(row.value(t.budget))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr style={{ fontWeight: 700 }}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>Total</td>
+              {tiers.map((t) => (
+                <td key={t.tier.key} style={cellStyle}>
+                  {money(t.budget.total)}
+                  {t.tier.key !== "enhanced" && current > 0 && (
+                    <div style={{ fontSize: "0.7rem", fontWeight: 400, color: "#64748b" }}>
+                      {t.budget.total >= current ? "+" : ""}
+                      {(((t.budget.total - current) / current) * 100).toFixed(0)}% vs current
+                    </div>
+                  )}
+                </td>
+              ))}
+            </tr>
+            {tiers.some((t) => t.budget.funding.nonAssessment > 0) && (
+              <tr>
+                <td style={{ ...cellStyle, textAlign: "left" }}>Net assessment</td>
+                {tiers.map((t) => (
+                  <td key={t.tier.key} style={cellStyle}>
+                    {money(t.budget.netAssessment)}
+                  </td>
+                ))}
+              </tr>
+            )}
+            <tr>
+              <td style={{ ...cellStyle, textAlign: "left" }}>Per business</td>
+              {tiers.map((t) => (
+                <td key={t.tier.key} style={cellStyle}>
+                  {money(t.budget.costPerBusiness)}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function FormationComparison({
+  formation,
+  locale,
+}: {
+  formation: FormationEstimate;
+  locale: LocaleSettings;
+}) {
+  const cellStyle: React.CSSProperties = {
+    padding: "0.45rem 0.5rem",
+    textAlign: "right",
+    borderBottom: "1px solid #e2e8f0",
+    whiteSpace: "nowrap",
+  };
+  const money = (v: number) => formatCurrency(v, locale);
+  const lastMonth = Math.max(...formation.timeline.map((p) => p.endMonth));
+
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        border: "1px solid #e2e8f0",
+        borderRadius: "8px",
+        padding: "1.5rem",
+        marginBottom: "2rem",
+      }}
+    >
+      <h3 style={{ marginTop: 0, marginBottom: "0.5rem", color: "#1e293b" }}>
+        🚀 First Year vs Steady State
+      </h3>
+      <p style={{ margin: "0 0 1rem", fontSize: "0.85rem", color: "#64748b" }}>
+        Forming the district adds {money(formation.startupCost)} of one-time
+        costs, and services run {formation.operatingMonths} of 12 months in the
+        first year. Assessments are sized on the steady-state budget.
+      </p>
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.85rem" }}
+      >
+        <thead>
+          <tr style={{ color: "#64748b" }}>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Item</th>
+            <th style={cellStyle}>First Year</th>
+            <th style={cellStyle}>Steady State</th>
+          </tr>
+        </thead>
+        <tbody>
+          {formation.items.map((item) => (
+            <tr key={item.key}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>
+                {item.label}
+                {item.basis !== "Fixed" && (
+                  <span style={{ color: "#94a3b8" }}> ({item.basis})</span>
+                )}
+              </td>
+              <td style={cellStyle}>{money(item.cost)}</td>
+              <td style={{ ...cellStyle, color: "#94a3b8" }}>—</td>
+            </tr>
+          ))}
+          <tr>
+            <td style={{ ...cellStyle, textAlign: "left" }}>
+              Services & overhead
+              <span style={{ color: "#94a3b8" }}>
+                {" "}
+                ({formation.operatingMonths} months)
+              </span>
+            </td>
+            <td style={cellStyle}>{money(formation.recurringFirstYear)}</td>
+            <td style={cellStyle}>{money(formation.recurringSteadyState)}</td>
+          </tr>
+          {formation.capitalFirstYear > 0 && (
+            <tr>
+              <td style={{ ...cellStyle, textAlign: "left" }}>Capital plan</td>
+              <td style={cellStyle}>{money(formation.capitalFirstYear)}</td>
+              <td style={cellStyle}>{money(formation.capitalFirstYear)}</td>
+            </tr>
+          )}
+          <tr style={{ fontWeight: 700 }}>
+            <td style={{ ...cellStyle, textAlign: "left" }}>Total</td>
+            <td style={cellStyle}>{money(formation.firstYearTotal)}</td>
+            <td style={cellStyle}>{money(formation.steadyStateTotal)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div style={{ marginTop: "1.25rem", fontSize: "0.8rem" }}>
+        {formation.timeline.map((phase) => (
+          <div
+            key={phase.key}
+            style={{
+              display: "grid",
+              gridTemplateColumns: "11rem 1fr",
+              alignItems: "center",
+              gap: "0.5rem",
+              marginBottom: "0.3rem",
+            }}
+          >
+            <span style={{ color: "#374151" }}>{phase.label}</span>
+            <div style={{ position: "relative", height: "12px", backgroundColor: "#f1f5f9" }}>
+              <div
+                title={`Months ${phase.startMonth}–${phase.endMonth}`}
+                style={{
+                  position: "absolute",
+                  left: `${((phase.startMonth - 1) / lastMonth) * 100}%`,
+                  width: `${((phase.endMonth - phase.startMonth + 1) / lastMonth) * 100}%`,
+                  height: "100%",
+                  borderRadius: "2px",
+                  backgroundColor: phase.key === "service" ? "#059669" : "#0ea5e9",
+                }}
+              />
+            </div>
+          </div>
+        ))}
+        <div style={{ color: "#94a3b8", textAlign: "right" }}>
+          Months from the start of formation (1–{lastMonth})
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Project financing and the year-by-year outlay it implies
+function FundingMixChart({
+  funding,
+  locale,
+}: {
+  funding: FundingMix;
+  locale: LocaleSettings;
+}) {
+  const slices = [
+    { label: "Assessment", amount: funding.netAssessment, color: ASSESSMENT_COLOR },
+    ...funding.sources.map((s) => ({ label: s.name, amount: s.amount, color: s.color })),
+  ].filter((slice) => slice.amount > 0);
+  const funded = funding.netAssessment + funding.nonAssessment;
+  const share = (amount: number) =>
+    funded > 0 ? ((amount / funded) * 100).toFixed(1) : "0.0";
+
+  const chartConfig = {
+    labels: slices.map((slice) => slice.label),
+    datasets: [
+      {
+        data: slices.map((slice) => slice.amount),
+        backgroundColor: slices.map((slice) => slice.color),
+        borderColor: slices.map((slice) => slice.color),
+        borderWidth: 2,
+        hoverBorderWidth: 3,
+        hoverBorderColor: "#ffffff",
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    cutout: "70%",
+    plugins: {
+      legend: {
+        position: "right" as const,
+        labels: {
+          padding: 15,
+          font: {
+            family: ginkgoTheme.typography.fontFamily.body,
+            size: 11,
+          },
+          color: ginkgoTheme.colors.text.primary,
+          usePointStyle: true,
+          pointStyle: "circle",
+          boxWidth: 12,
+          boxHeight: 12,
+        },
+      },
+      tooltip: {
+        backgroundColor: "rgba(0, 0, 0, 0.9)",
+        cornerRadius: 8,
+        padding: 12,
+        callbacks: {
+          label: (context: any) =>
+            `${context.label}: ${formatCurrency(context.raw, locale)} (${share(context.raw)}%)`,
+        },
+      },
+    },
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        border: "1px solid #e2e8f0",
+        borderRadius: "8px",
+        padding: "1.5rem",
+        marginBottom: "2rem",
+      }}
+    >
+      <h3 style={{ marginTop: 0, marginBottom: "0.5rem", color: "#1e293b" }}>
+        🧩 Funding Mix
+      </h3>
+      <p style={{ margin: "0 0 1rem", fontSize: "0.85rem", color: "#64748b" }}>
+        {formatCurrency(funding.nonAssessment, locale)} of contracts, grants and
+        other revenue leaves a net assessment requirement of{" "}
+        <strong>{formatCurrency(funding.netAssessment, locale)}</strong>.
+        {funding.surplus > 0 &&
+          ` Other revenue exceeds the budget by ${formatCurrency(funding.surplus, locale)}.`}
+      </p>
+      <div style={{ height: "280px", position: "relative" }}>
+        <Pie data={chartConfig} options={chartOptions} />
+        <div
+          style={{
+            position: "absolute",
+            top: "50%",
+            left: "35%",
+            transform: "translate(-50%, -50%)",
+            textAlign: "center",
+            pointerEvents: "none",
+          }}
+        >
+          <div style={{ fontSize: "1.5rem", fontWeight: 700, color: ASSESSMENT_COLOR }}>
+            {(funding.assessmentShare * 100).toFixed(0)}%
+          </div>
+          <div style={{ fontSize: "0.75rem", color: "#64748b" }}>
+            assessment dependency
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CapitalPlanTables({
+  plan,
+  locale,
+}: {
+  plan: CapitalPlan;
+  locale: LocaleSettings;
+}) {
+  const cellStyle: React.CSSProperties = {
+    padding: "0.4rem 0.5rem",
+    textAlign: "right",
+    borderBottom: "1px solid #e2e8f0",
+    whiteSpace: "nowrap",
+  };
+  const money = (v: number) => formatCurrency(v, locale);
+  const fundingLabel = (funding: FundingMethod) =>
+    FUNDING_METHOD_OPTIONS.find((o) => o.value === funding)?.label || funding;
+
+  return (
+    <div style={{ overflowX: "auto", fontSize: "0.85rem" }}>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ color: "#64748b" }}>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Project</th>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Funding</th>
+            <th style={cellStyle}>Principal</th>
+            <th style={cellStyle}>Annual</th>
+            <th style={cellStyle}>Years</th>
+            <th style={cellStyle}>Financing Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.projects.map((p) => (
+            <tr key={p.id}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>{p.name}</td>
+              <td style={{ ...cellStyle, textAlign: "left" }}>{fundingLabel(p.funding)}</td>
+              <td style={cellStyle}>{money(p.principal)}</td>
+              <td style={cellStyle}>{money(p.annualPayment)}</td>
+              <td style={cellStyle}>
+                {p.firstYear === p.lastYear ? p.firstYear : `${p.firstYear}–${p.lastYear}`}
+              </td>
+              <td style={cellStyle}>{money(p.financingCost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", marginTop: "1rem" }}>
+        <thead>
+          <tr style={{ color: "#64748b" }}>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Year</th>
+            <th style={cellStyle}>Cash</th>
+            <th style={cellStyle}>Reserve Contributions</th>
+            <th style={cellStyle}>Debt Service</th>
+            <th style={cellStyle}>Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.years.map((y) => (
+            <tr key={y.year}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>Year {y.year}</td>
+              <td style={cellStyle}>{money(y.cash)}</td>
+              <td style={cellStyle}>{money(y.reserve)}</td>
+              <td style={cellStyle}>{money(y.debtService)}</td>
+              <td style={{ ...cellStyle, fontWeight: 600 }}>{money(y.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ProjectionTable({
+  projection,
+  params,
+}: {
+  projection: BudgetProjection;
+  params: BudgetParameters;
+}) {
+  const rows = [
+    params.cleaning_enabled && { label: "Cleaning", key: "cleaning" },
+    params.safety_enabled && { label: "Safety", key: "safety" },
+    params.marketing_enabled && { label: "Marketing", key: "marketing" },
+    params.assets_enabled && { label: "Assets", key: "assets" },
+    params.custom_service_lines.some((l) => l.enabled) && {
+      label: "Custom Services",
+      key: "custom",
+    },
+    { label: "Admin Overhead", key: "adminOverhead" },
+    projection.years.some((y) => y.capital > 0) && {
+      label: "Capital Plan",
+      key: "capital",
+    },
+    projection.years.some((y) => y.startup > 0) && {
+      label: "Formation Startup",
+      key: "startup",
+    },
+  ].filter(Boolean) as { label: string; key: ProjectionLineKey }[];
+
+  const cellStyle: React.CSSProperties = {
+    padding: "0.5rem",
+    textAlign: "right",
+    borderBottom: "1px solid #e2e8f0",
+    whiteSpace: "nowrap",
+  };
+
+  return (
+    <div style={{ overflowX: "auto" }}>
+      <table
+        style={{
+          width: "100%",
+          borderCollapse: "collapse",
+          fontSize: "0.85rem",
+          fontFamily: ginkgoTheme.typography.fontFamily.body,
+        }}
+      >
+        <thead>
+          <tr style={{ color: "#64748b" }}>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Line</th>
+            {projection.years.map((y) => (
+              <th key={y.year} style={cellStyle}>
+                Year {y.year}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td style={{ ...cellStyle, textAlign: "left", color: "#374151" }}>
+                {row.label}
+              </td>
+              {projection.years.map((y) => (
+                <td
+                  key={y.year}
+                  style={cellStyle}
+                  title={
+                    row.key === "assets" && y.assetPurchases.length > 0
+                      ? `Purchases: ${y.assetPurchases.join(", ")}`
+                      : undefined
+                  }
+                >
+                  {formatCurrency(y[row.key], params)}
+                </td>
+              ))}
+            </tr>
+          ))}
+          <tr style={{ fontWeight: 600, color: "#1e293b" }}>
+            <td style={{ ...cellStyle, textAlign: "left" }}>Total</td>
+            {projection.years.map((y) => (
+              <td key={y.year} style={cellStyle}>
+                {formatCurrency(y.total, params)}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+      <div style={{ marginTop: "0.75rem", fontSize: "0.85rem", color: "#64748b" }}>
+        {projection.years.length}-year total:{" "}
+        <strong>{formatCurrency(projection.cumulativeTotal, params)}</strong> •
+        Average annual growth:{" "}
+        <strong>{(projection.averageAnnualGrowth * 100).toFixed(1)}%</strong>
+      </div>
+    </div>
+  );
+}
+
+function CustomServiceLinesSection({
+  params,
+  updateParam,
+  budget,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+}) {
+  const [templateIndex, setTemplateIndex] = useState(-1);
+  const lines = params.custom_service_lines;
+
+  const updateLine = (id: string, changes: Partial<CustomServiceLine>) => {
+    updateParam(
+      "custom_service_lines",
+      lines.map((line) => (line.id === id ? { ...line, ...changes } : line))
+    );
+  };
+
+  const addLine = () => {
+    const template =
+      templateIndex >= 0
+        ? CUSTOM_LINE_TEMPLATES[templateIndex]
+        : { name: "New Service", driver: "fixed" as CostDriver, unitRate: 10000, enabled: true };
+    updateParam("custom_service_lines", [
+      ...lines,
+      createCustomServiceLine(template),
+    ]);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: "0.3rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "4px",
+    fontSize: "0.85rem",
+  };
+
+  return (
+    <ParameterSection title="Custom Service Lines">
+      <p style={{ marginTop: 0, fontSize: "0.85rem", color: "#64748b" }}>
+        Add services the standard lines don't cover. Each line is priced per
+        unit of a district quantity and is included in admin overhead.
+      </p>
+
+      {lines.map((line) => {
+        const costed = budget.customLines.find((c) => c.id === line.id);
+        return (
+          <div
+            key={line.id}
+            style={{
+              display: "grid",
+              gridTemplateColumns: "auto 1fr auto auto auto auto",
+              gap: "0.5rem",
+              alignItems: "center",
+              marginBottom: "0.5rem",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={line.enabled}
+              onChange={(e) => updateLine(line.id, { enabled: e.target.checked })}
+            />
+            <input
+              type="text"
+              value={line.name}
+              onChange={(e) => updateLine(line.id, { name: e.target.value })}
+              style={inputStyle}
+            />
+            <select
+              value={line.driver}
+              onChange={(e) =>
+                updateLine(line.id, { driver: e.target.value as CostDriver })
+              }
+              style={inputStyle}
+            >
+              {COST_DRIVER_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <span style={{ fontSize: "0.85rem", whiteSpace: "nowrap" }}>
+              {currencySymbol(params)}
+              <input
+                type="number"
+                min={0}
+                value={line.unitRate}
+                onChange={(e) =>
+                  updateLine(line.id, {
+                    unitRate: Math.max(0, Number(e.target.value)),
+                  })
+                }
+                style={{ ...inputStyle, width: "6rem", marginLeft: "0.2rem" }}
+              />{" "}
+              /{driverUnit(line.driver)}
+            </span>
+            <span
+              style={{
+                fontSize: "0.85rem",
+                fontWeight: 600,
+                minWidth: "6rem",
+                textAlign: "right",
+                color: costed?.missingData ? "#b45309" : "#1e293b",
+              }}
+              title={
+                costed?.missingData
+                  ? "Driver data not loaded for this district"
+                  : costed
+                  ? `${formatNumber(costed.quantity, params, 1)} ${driverUnit(line.driver)} × ${formatCurrency(line.unitRate, params, 2)}`
+                  : undefined
+              }
+            >
+              {costed
+                ? costed.missingData
+                  ? "No data"
+                  : formatCurrency(costed.cost, params)
+                : "—"}
+            </span>
+            <button
+              onClick={() =>
+                updateParam(
+                  "custom_service_lines",
+                  lines.filter((l) => l.id !== line.id)
+                )
+              }
+              style={{
+                border: "none",
+                background: "none",
+                color: "#dc2626",
+                cursor: "pointer",
+                fontSize: "1rem",
+              }}
+              title="Remove line"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+
+      <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.75rem" }}>
+        <select
+          value={templateIndex}
+          onChange={(e) => setTemplateIndex(Number(e.target.value))}
+          style={inputStyle}
+        >
+          <option value={-1}>Blank line</option>
+          {CUSTOM_LINE_TEMPLATES.map((t, i) => (
+            <option key={t.name} value={i}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addLine}
+          style={{
+            padding: "0.35rem 0.9rem",
+            backgroundColor: ginkgoTheme.colors.primary.orange,
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          Add Line
+        </button>
+      </div>
+    </ParameterSection>
+  );
+}
+
+// One-time projects with their funding; payments feed the budget as the
+// capital line
+function CapitalPlanSection({
+  params,
+  updateParam,
+  budget,
+  issues,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+  issues: ParameterIssue[];
+}) {
+  const [templateIndex, setTemplateIndex] = useState(-1);
+  const projects = params.capital_projects;
+
+  const updateProject = (id: string, changes: Partial<CapitalProject>) => {
+    updateParam(
+      "capital_projects",
+      projects.map((p) => (p.id === id ? { ...p, ...changes } : p))
+    );
+  };
+
+  const addProject = () => {
+    const template =
+      templateIndex >= 0
+        ? CAPITAL_PROJECT_TEMPLATES[templateIndex]
+        : {
+            name: "New Project",
+            cost: 100000,
+            startYear: 1,
+            funding: "cash" as FundingMethod,
+            rate: 0,
+            termYears: 1,
+            enabled: true,
+          };
+    updateParam("capital_projects", [...projects, createCapitalProject(template)]);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: "0.3rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "4px",
+    fontSize: "0.85rem",
+  };
+  const labelStyle: React.CSSProperties = {
+    fontSize: "0.8rem",
+    color: "#64748b",
+    whiteSpace: "nowrap",
+  };
+
+  return (
+    <ParameterSection title="Capital Plan">
+      <p style={{ marginTop: 0, fontSize: "0.85rem", color: "#64748b" }}>
+        One-time projects paid in cash, saved for through a reserve, or
+        financed with a loan or bond. Year-1 payments are added to the budget
+        as their own line, outside admin overhead.
+      </p>
+
+      {projects.map((project) => {
+        const schedule = budget.capitalPlan.projects.find((p) => p.id === project.id);
+        return (
+          <div
+            key={project.id}
+            style={{
+              border: "1px solid #e2e8f0",
+              borderRadius: "6px",
+              padding: "0.6rem",
+              marginBottom: "0.5rem",
+              opacity: project.enabled ? 1 : 0.6,
+            }}
+          >
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "auto 1fr auto auto",
+                gap: "0.5rem",
+                alignItems: "center",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={project.enabled}
+                onChange={(e) => updateProject(project.id, { enabled: e.target.checked })}
+              />
+              <input
+                type="text"
+                value={project.name}
+                onChange={(e) => updateProject(project.id, { name: e.target.value })}
+                style={inputStyle}
+              />
+              <span style={{ fontSize: "0.85rem", whiteSpace: "nowrap" }}>
+                {currencySymbol(params)}
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={project.cost}
+                  onChange={(e) =>
+                    updateProject(project.id, { cost: Math.max(0, Number(e.target.value)) })
+                  }
+                  style={{ ...inputStyle, width: "7rem", marginLeft: "0.2rem" }}
+                />
+              </span>
+              <button
+                onClick={() =>
+                  updateParam(
+                    "capital_projects",
+                    projects.filter((p) => p.id !== project.id)
+                  )
+                }
+                style={{
+                  border: "none",
+                  background: "none",
+                  color: "#dc2626",
+                  cursor: "pointer",
+                  fontSize: "1rem",
+                }}
+                title="Remove project"
+              >
+                ✕
+              </button>
+            </div>
+            <div
+              style={{
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "0.75rem",
+                alignItems: "center",
+                marginTop: "0.5rem",
+              }}
+            >
+              <select
+                value={project.funding}
+                onChange={(e) =>
+                  updateProject(project.id, { funding: e.target.value as FundingMethod })
+                }
+                style={inputStyle}
+              >
+                {FUNDING_METHOD_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <label style={labelStyle}>
+                Start year{" "}
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CAPITAL_START_YEAR}
+                  step={1}
+                  value={project.startYear}
+                  onChange={(e) =>
+                    updateProject(project.id, {
+                      startYear: Math.max(1, Math.round(Number(e.target.value))),
+                    })
+                  }
+                  style={{ ...inputStyle, width: "3.5rem" }}
+                />
+              </label>
+              {project.funding !== "cash" && (
+                <>
+                  <label style={labelStyle}>
+                    {project.funding === "reserve" ? "Earnings" : "Rate"}{" "}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.25}
+                      value={+(project.rate * 100).toFixed(3)}
+                      onChange={(e) =>
+                        updateProject(project.id, {
+                          rate: Math.max(0, Number(e.target.value)) / 100,
+                        })
+                      }
+                      style={{ ...inputStyle, width: "4rem" }}
+                    />{" "}
+                    %
+                  </label>
+                  <label style={labelStyle}>
+                    {project.funding === "reserve" ? "Save over" : "Term"}{" "}
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_CAPITAL_TERM_YEARS}
+                      step={1}
+                      value={project.termYears}
+                      onChange={(e) =>
+                        updateProject(project.id, {
+                          termYears: Math.max(1, Math.round(Number(e.target.value))),
+                        })
+                      }
+                      style={{ ...inputStyle, width: "3.5rem" }}
+                    />{" "}
+                    years
+                  </label>
+                </>
+              )}
+              {schedule && (
+                <span
+                  style={{ marginLeft: "auto", fontSize: "0.85rem", fontWeight: 600 }}
+                  title={`Years ${schedule.firstYear}–${schedule.lastYear}, ${formatCurrency(schedule.totalPaid, params)} in total`}
+                >
+                  {formatCurrency(schedule.annualPayment, params)}
+                  {schedule.lastYear > schedule.firstYear ? "/yr" : ""} · Y
+                  {schedule.firstYear}
+                  {schedule.lastYear > schedule.firstYear ? `–${schedule.lastYear}` : ""}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <IssueList issues={fieldIssues(issues, "capital_projects")} />
+
+      <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.75rem" }}>
+        <select
+          value={templateIndex}
+          onChange={(e) => setTemplateIndex(Number(e.target.value))}
+          style={inputStyle}
+        >
+          <option value={-1}>Blank project</option>
+          {CAPITAL_PROJECT_TEMPLATES.map((t, i) => (
+            <option key={t.name} value={i}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addProject}
+          style={{
+            padding: "0.35rem 0.9rem",
+            backgroundColor: ginkgoTheme.colors.primary.orange,
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          Add Project
+        </button>
+      </div>
+    </ParameterSection>
+  );
+}
+
+function FundingSourcesSection({
+  params,
+  updateParam,
+  budget,
+  issues,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+  issues: ParameterIssue[];
+}) {
+  const [templateIndex, setTemplateIndex] = useState(-1);
+  const sources = params.funding_sources;
+
+  const updateSource = (id: string, changes: Partial<FundingSource>) => {
+    updateParam(
+      "funding_sources",
+      sources.map((s) => (s.id === id ? { ...s, ...changes } : s))
+    );
+  };
+
+  const addSource = () => {
+    const template =
+      templateIndex >= 0
+        ? FUNDING_SOURCE_TEMPLATES[templateIndex]
+        : {
+            name: "New Source",
+            type: "grant" as FundingSourceType,
+            amount: 25000,
+            enabled: true,
+          };
+    updateParam("funding_sources", [...sources, createFundingSource(template)]);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: "0.3rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "4px",
+    fontSize: "0.85rem",
+  };
+
+  return (
+    <ParameterSection title="Funding Sources">
+      <p style={{ marginTop: 0, fontSize: "0.85rem", color: "#64748b" }}>
+        Annual revenue from city contracts, grants, sponsorships, events and
+        earned income. It is subtracted from the total budget to give the net
+        assessment requirement used on the Assessment Revenue tab.
+      </p>
+
+      {sources.map((source) => (
+        <div
+          key={source.id}
+          style={{
+            display: "grid",
+            gridTemplateColumns: "auto 1fr auto auto auto",
+            gap: "0.5rem",
+            alignItems: "center",
+            border: "1px solid #e2e8f0",
+            borderRadius: "6px",
+            padding: "0.6rem",
+            marginBottom: "0.5rem",
+            opacity: source.enabled ? 1 : 0.6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={source.enabled}
+            onChange={(e) => updateSource(source.id, { enabled: e.target.checked })}
+          />
+          <input
+            type="text"
+            value={source.name}
+            onChange={(e) => updateSource(source.id, { name: e.target.value })}
+            style={inputStyle}
+          />
+          <select
+            value={source.type}
+            onChange={(e) =>
+              updateSource(source.id, { type: e.target.value as FundingSourceType })
+            }
+            style={inputStyle}
+          >
+            {FUNDING_SOURCE_TYPE_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <span style={{ fontSize: "0.85rem", whiteSpace: "nowrap" }}>
+            {currencySymbol(params)}
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={source.amount}
+              onChange={(e) =>
+                updateSource(source.id, { amount: Math.max(0, Number(e.target.value)) })
+              }
+              style={{ ...inputStyle, width: "7rem", marginLeft: "0.2rem" }}
+            />
+          </span>
+          <button
+            onClick={() =>
+              updateParam(
+                "funding_sources",
+                sources.filter((s) => s.id !== source.id)
+              )
+            }
+            style={{
+              border: "none",
+              background: "none",
+              color: "#dc2626",
+              cursor: "pointer",
+              fontSize: "1rem",
+            }}
+            title="Remove source"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <IssueList issues={fieldIssues(issues, "funding_sources")} />
+
+      {budget.funding.nonAssessment > 0 && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            fontSize: "0.85rem",
+            marginTop: "0.5rem",
+          }}
+        >
+          <span>
+            Net assessment ({(budget.funding.assessmentShare * 100).toFixed(0)}% of
+            funding)
+          </span>
+          <strong>{formatCurrency(budget.netAssessment, params)}</strong>
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.75rem" }}>
+        <select
+          value={templateIndex}
+          onChange={(e) => setTemplateIndex(Number(e.target.value))}
+          style={inputStyle}
+        >
+          <option value={-1}>Blank source</option>
+          {FUNDING_SOURCE_TEMPLATES.map((t, i) => (
+            <option key={t.name} value={i}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addSource}
+          style={{
+            padding: "0.35rem 0.9rem",
+            backgroundColor: ginkgoTheme.colors.primary.orange,
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          Add Source
+        </button>
+      </div>
+    </ParameterSection>
+  );
+}
+
+function CategoryMixSection({
+  params,
+  updateParam,
+  categoryBreakdown,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  categoryBreakdown: Record<string, number> | null | undefined;
+}) {
+  const weightOverrides = params.category_weight_overrides;
+  const groupOverrides = params.category_group_overrides;
+  const weights = resolveCategoryWeights(weightOverrides);
+  const groupCounts = groupCategoryBreakdown(categoryBreakdown, groupOverrides);
+  const categories = Object.entries(categoryBreakdown || {})
+    .filter(([, count]) => count > 0)
+    .sort(([, a], [, b]) => b - a);
+  const overrideCount = describeCategoryOverrides(params).length;
+
+  // Only values that differ from the defaults are stored
+  const setWeight = (
+    group: CategoryGroup,
+    key: keyof CategoryWeight,
+    value: number
+  ) => {
+    const next = { ...weights[group], [key]: value };
+    const { [group]: _, ...rest } = weightOverrides;
+    const isDefault =
+      next.clean_weight === CATEGORY_WEIGHTS[group].clean_weight &&
+      next.night_weight === CATEGORY_WEIGHTS[group].night_weight;
+    updateParam(
+      "category_weight_overrides",
+      isDefault ? rest : { ...rest, [group]: next }
+    );
+  };
+
+  const setGroup = (category: string, group: CategoryGroup) => {
+    const key = categoryKey(category);
+    const { [key]: _, ...rest } = groupOverrides;
+    updateParam(
+      "category_group_overrides",
+      normalizeCategory(key) === group ? rest : { ...rest, [key]: group }
+    );
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: "0.25rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "4px",
+    fontSize: "0.85rem",
+  };
+  const changedStyle: React.CSSProperties = {
+    borderColor: ginkgoTheme.colors.primary.orange,
+    fontWeight: 600,
+  };
+
+  return (
+    <ParameterSection title="Business Mix Weights">
+      <p style={{ marginTop: 0, fontSize: "0.85rem", color: "#64748b" }}>
+        Intensity weights per category group, relative to a baseline of 1.0.
+        Reassign a category below if it behaves more like another group in
+        this district.
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "1fr auto auto auto",
+          gap: "0.35rem 0.75rem",
+          alignItems: "center",
+          fontSize: "0.85rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <span style={{ color: "#64748b" }}>Group</span>
+        <span style={{ color: "#64748b" }}>Places</span>
+        <span style={{ color: "#64748b" }}>Cleaning</span>
+        <span style={{ color: "#64748b" }}>Night</span>
+        {(Object.keys(CATEGORY_GROUPS) as CategoryGroup[]).map((group) => (
+          <React.Fragment key={group}>
+            <span style={{ display: "flex", alignItems: "center", gap: "0.4rem" }}>
+              <span
+                style={{
+                  width: "10px",
+                  height: "10px",
+                  borderRadius: "50%",
+                  backgroundColor: CATEGORY_GROUPS[group].color,
+                }}
+              />
+              {CATEGORY_GROUPS[group].label}
+            </span>
+            <span style={{ textAlign: "right", color: "#64748b" }}>
+              {groupCounts[group] || 0}
+            </span>
+            {(["clean_weight", "night_weight"] as const).map((key) => (
+              <input
+                key={key}
+                type="number"
+                min={0.5}
+                max={2}
+                step={0.05}
+                value={weights[group][key]}
+                onChange={(e) =>
+                  setWeight(group, key, Math.max(0, Number(e.target.value)))
+                }
+                style={{
+                  ...inputStyle,
+                  width: "4.5rem",
+                  ...(weights[group][key] !== CATEGORY_WEIGHTS[group][key] &&
+                    changedStyle),
+                }}
+              />
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+
+      {categories.length > 0 && (
+        <>
+          <h4 style={{ margin: "0 0 0.5rem", color: "#1e293b" }}>
+            Category Grouping
+          </h4>
+          <div style={{ maxHeight: "240px", overflowY: "auto", marginBottom: "0.75rem" }}>
+            {categories.map(([category, count]) => {
+              const group = normalizeCategory(category, groupOverrides);
+              const isOverride = groupOverrides[categoryKey(category)] !== undefined;
+              return (
+                <div
+                  key={category}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    gap: "0.5rem",
+                    fontSize: "0.85rem",
+                    marginBottom: "0.3rem",
+                  }}
+                >
+                  <span>
+                    {category.replace(/_/g, " ")}{" "}
+                    <span style={{ color: "#94a3b8" }}>({count})</span>
+                  </span>
+                  <select
+                    value={group}
+                    onChange={(e) =>
+                      setGroup(category, e.target.value as CategoryGroup)
+                    }
+                    style={{ ...inputStyle, ...(isOverride && changedStyle) }}
+                  >
+                    {(Object.keys(CATEGORY_GROUPS) as CategoryGroup[]).map((g) => (
+                      <option key={g} value={g}>
+                        {CATEGORY_GROUPS[g].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontSize: "0.85rem", color: "#64748b" }}>
+          {overrideCount === 0
+            ? "Using default weights and grouping"
+            : `${overrideCount} change${overrideCount === 1 ? "" : "s"} from defaults`}
+        </span>
+        {overrideCount > 0 && (
+          <button
+            onClick={() => {
+              updateParam("category_weight_overrides", {});
+              updateParam("category_group_overrides", {});
+            }}
+            style={{
+              padding: "0.35rem 0.9rem",
+              backgroundColor: "white",
+              color: "#64748b",
+              border: "1px solid #cbd5e1",
+              borderRadius: "6px",
+              cursor: "pointer",
+            }}
+          >
+            Reset to Defaults
+          </button>
+        )}
+      </div>
+    </ParameterSection>
+  );
+}
+
+function DerivedRateNote({
+  label,
+  rate,
+  locale,
+}: {
+  label: string;
+  rate: number;
+  locale: LocaleSettings;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        justifyContent: "space-between",
+        marginBottom: "1rem",
+        fontSize: "0.9rem",
+      }}
+    >
+      <span style={{ color: "#64748b" }}>{label}</span>
+      <span title="Derived from the detailed labor model">
+        <strong>{formatCurrency(rate, locale, 2)}/hr</strong>{" "}
+        <span style={{ color: "#94a3b8", fontSize: "0.8rem" }}>(labor model)</span>
+      </span>
+    </div>
+  );
+}
+
+// Cleaner count from the productivity model or from routes planned over the
+// loaded street segments, shown inside the Cleaning & Maintenance section
+function CleaningRouteControls({
+  params,
+  updateParam,
+  budget,
+  budgetInputs,
+  plan,
+  showOnMap,
+  setShowOnMap,
+  issues,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+  budgetInputs: BudgetInputs;
+  plan: CleaningRoutePlan | null;
+  showOnMap: boolean;
+  setShowOnMap: (show: boolean) => void;
+  issues: ParameterIssue[];
+}) {
+  const network: StreetNetwork | null = budgetInputs.streetNetwork ?? null;
+  const productivityCrew = calculateCleaningCrew(
+    params,
+    budget.frontageEstimate,
+    calculateServiceIntensity(budgetInputs.categoryBreakdown, params).cleanIntensity,
+    budgetInputs.areaAcres
+  );
+
+  return (
+    <div style={{ marginTop: "1.25rem" }}>
+      <div style={{ fontWeight: 600, color: "#1e293b", marginBottom: "0.5rem" }}>
+        Crew Sizing
+      </div>
+      <div style={{ display: "flex", gap: "1rem", marginBottom: "0.75rem" }}>
+        {CLEANING_CREW_METHOD_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}
+          >
+            <input
+              type="radio"
+              checked={params.cleaning_crew_method === option.value}
+              onChange={() => updateParam("cleaning_crew_method", option.value)}
+            />
+            <span>{option.label}</span>
+          </label>
+        ))}
+      </div>
+      <IssueList issues={fieldIssues(issues, "cleaning_crew_method")} />
+
+      {!network || !plan ? (
+        <p
+          style={{
+            margin: 0,
+            fontSize: "0.8rem",
+            color: params.cleaning_crew_method === "routes" ? "#b45309" : "#64748b",
+          }}
+        >
+          {params.cleaning_crew_method === "routes" && "⚠️ "}
+          Load road segments on the map to plan routes. Until then the crew
+          comes from the productivity model.
+        </p>
+      ) : (
+        <>
+          <SliderInput
+            label="Walking Speed Between Blocks"
+            value={params.clean_deadhead_speed_mph}
+            min={1}
+            max={4}
+            step={0.1}
+            unit="mph"
+            onChange={(v: number) => updateParam("clean_deadhead_speed_mph", v)}
+            locale={params}
+            issues={fieldIssues(issues, "clean_deadhead_speed_mph")}
+          />
+          <div
+            style={{
+              backgroundColor: "#f8fafc",
+              borderRadius: "6px",
+              padding: "0.75rem",
+              fontSize: "0.85rem",
+              color: "#374151",
+            }}
+          >
+            <div style={{ marginBottom: "0.4rem" }}>
+              <strong>{plan.routes.length} routes</strong> per pass cover{" "}
+              {formatLength(plan.blockFaceFt, params)} of block faces, with{" "}
+              {formatLength(plan.deadheadFt, params)} of deadhead walking
+              {network.components > 1 &&
+                ` across ${network.components} disconnected pieces of the network`}
+              .
+            </div>
+            <div style={{ marginBottom: "0.4rem" }}>
+              Cleaners per day: productivity model{" "}
+              <strong>{productivityCrew}</strong>, planned routes{" "}
+              <strong>{plan.cleanersPerDay}</strong>
+              <span style={{ color: "#94a3b8" }}>
+                {" "}
+                ({params.cleaning_crew_method === "routes" ? "routes" : "productivity"} in use)
+              </span>
+            </div>
+            {!plan.fitsShift && (
+              <div style={{ marginBottom: "0.4rem", color: "#b45309" }}>
+                ⚠️ Some block faces take longer than a {params.clean_hours_per_shift}-hour
+                shift to sweep on their own.
+              </div>
+            )}
+            {params.cleaning_crew_method === "routes" &&
+              params.use_area_based_cleaning && (
+                <div style={{ marginBottom: "0.4rem", color: "#64748b" }}>
+                  Area-based coverage is not used while the crew comes from routes.
+                </div>
+              )}
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.5rem",
+                margin: "0.5rem 0",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={showOnMap}
+                onChange={(e) => setShowOnMap(e.target.checked)}
+              />
+              <span>Show routes on map</span>
+            </label>
+            {showOnMap && (
+              <div style={{ maxHeight: "180px", overflowY: "auto" }}>
+                {plan.routes.map((route) => (
+                  <div
+                    key={route.index}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                      padding: "0.15rem 0",
+                    }}
+                  >
+                    <span
+                      style={{
+                        width: "12px",
+                        height: "12px",
+                        borderRadius: "2px",
+                        flexShrink: 0,
+                        backgroundColor: ROUTE_COLORS[route.index % ROUTE_COLORS.length],
+                      }}
+                    />
+                    <span>
+                      Route {route.index + 1}: {formatLength(route.sweptFt, params)} swept,{" "}
+                      {formatLength(route.deadheadFt, params)} deadhead,{" "}
+                      {formatNumber(route.hours, params, 1, 1)} h
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Safety staffing model choice and the patrol beat inputs, shown inside the
+// Safety & Hospitality section
+function PatrolBeatControls({
+  params,
+  updateParam,
+  budget,
+  issues,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+  issues: ParameterIssue[];
+}) {
+  const patrol = budget.patrol;
+
+  return (
+    <div style={{ marginTop: "1.25rem" }}>
+      <div style={{ fontWeight: 600, color: "#1e293b", marginBottom: "0.5rem" }}>
+        Staffing Model
+      </div>
+      <div style={{ display: "flex", gap: "1rem", marginBottom: "0.75rem" }}>
+        {SAFETY_STAFFING_MODEL_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}
+          >
+            <input
+              type="radio"
+              checked={params.safety_staffing_model === option.value}
+              onChange={() => updateParam("safety_staffing_model", option.value)}
+            />
+            <span>{option.label}</span>
+          </label>
+        ))}
+      </div>
+      <IssueList issues={fieldIssues(issues, "safety_staffing_model")} />
+
+      {params.safety_staffing_model === "fixed_hours" ? (
+        <p style={{ margin: 0, fontSize: "0.8rem", color: "#64748b" }}>
+          Ambassadors on duty follow the business mix only. Patrol beats size
+          the crew from the street network instead.
+        </p>
+      ) : (
+        <>
+          <SliderInput
+            label="Revisit Each Block Every"
+            value={params.patrol_revisit_minutes}
+            min={15}
+            max={180}
+            step={5}
+            unit="min"
+            onChange={(v: number) => updateParam("patrol_revisit_minutes", v)}
+            locale={params}
+            issues={fieldIssues(issues, "patrol_revisit_minutes")}
+          />
+          <SliderInput
+            label="Patrol Walking Speed"
+            value={params.patrol_walking_speed_mph}
+            min={0.5}
+            max={3.5}
+            step={0.1}
+            unit="mph"
+            onChange={(v: number) => updateParam("patrol_walking_speed_mph", v)}
+            locale={params}
+            issues={fieldIssues(issues, "patrol_walking_speed_mph")}
+          />
+          {params.safety_staffing_model === "blend" && (
+            <SliderInput
+              label="Beat Share of Blend"
+              value={params.patrol_blend_weight * 100}
+              min={0}
+              max={100}
+              step={5}
+              unit="%"
+              onChange={(v: number) => updateParam("patrol_blend_weight", v / 100)}
+              locale={params}
+              issues={fieldIssues(issues, "patrol_blend_weight")}
+            />
+          )}
+          {patrol && (
+            <div
+              style={{
+                backgroundColor: "#f8fafc",
+                borderRadius: "6px",
+                padding: "0.75rem",
+                fontSize: "0.85rem",
+                color: "#374151",
+              }}
+            >
+              <div style={{ marginBottom: "0.4rem" }}>
+                Patrol length{" "}
+                <strong>{formatLength(patrol.patrolLengthFt, params)}</strong> ÷{" "}
+                {formatLength(patrol.feetPerVisit, params)} per revisit ={" "}
+                <strong>{formatNumber(patrol.beats, params, 1)} beats</strong>
+              </div>
+              {patrol.blocks.map(({ block, factor, ambassadors }) => (
+                <div key={block.key}>
+                  {block.label}: {ambassadors} on duty{" "}
+                  <span style={{ color: "#94a3b8" }}>
+                    (×{factor.toFixed(2)})
+                  </span>
+                </div>
+              ))}
+              {budget.schedules.safety?.isCustom && (
+                <div style={{ marginTop: "0.4rem", color: "#b45309" }}>
+                  ⚠️ A custom safety schedule is set, so these crews are not used.
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function LaborModelSection({
+  params,
+  updateParam,
+  issues,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  issues: ParameterIssue[];
+}) {
+  const table = buildLaborCostTable(params);
+
+  return (
+    <ParameterSection title="Labor Cost Model">
+      <div style={{ marginBottom: "1rem" }}>
+        <label style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+          <input
+            type="checkbox"
+            checked={params.use_detailed_labor_model}
+            onChange={(e) =>
+              updateParam("use_detailed_labor_model", e.target.checked)
+            }
+          />
+          <span>Derive loaded rates from wages, taxes and benefits</span>
+        </label>
+      </div>
+      {params.use_detailed_labor_model && (
+        <>
+          <SliderInput
+            label="Cleaner Base Wage"
+            value={params.clean_base_wage}
+            min={12}
+            max={50}
+            step={0.5}
+            unit="$/hr"
+            onChange={(v: number) => updateParam("clean_base_wage", v)}
+            locale={params}
+            issues={fieldIssues(issues, "clean_base_wage")}
+          />
+          <SliderInput
+            label="Supervisor Base Wage"
+            value={params.supervisor_base_wage}
+            min={15}
+            max={70}
+            step={0.5}
+            unit="$/hr"
+            onChange={(v: number) => updateParam("supervisor_base_wage", v)}
+            locale={params}
+            issues={fieldIssues(issues, "supervisor_base_wage")}
+          />
+          <SliderInput
+            label="Ambassador Base Wage"
+            value={params.safety_base_wage}
+            min={12}
+            max={60}
+            step={0.5}
+            unit="$/hr"
+            onChange={(v: number) => updateParam("safety_base_wage", v)}
+            locale={params}
+            issues={fieldIssues(issues, "safety_base_wage")}
+          />
+          <SliderInput
+            label="Payroll Taxes"
+            value={params.payroll_tax_pct * 100}
+            min={0}
+            max={20}
+            step={1}
+            unit="%"
+            onChange={(v: number) => updateParam("payroll_tax_pct", v / 100)}
+            locale={params}
+            issues={fieldIssues(issues, "payroll_tax_pct")}
+          />
+          <SliderInput
+            label="Workers' Comp Rate"
+            value={params.workers_comp_pct * 100}
+            min={0}
+            max={15}
+            step={1}
+            unit="%"
+            onChange={(v: number) => updateParam("workers_comp_pct", v / 100)}
+            locale={params}
+            issues={fieldIssues(issues, "workers_comp_pct")}
+          />
+          <SliderInput
+            label="Benefits per FTE"
+            value={params.benefits_per_fte}
+            min={0}
+            max={30000}
+            step={500}
+            unit="$"
+            onChange={(v: number) => updateParam("benefits_per_fte", v)}
+            locale={params}
+            issues={fieldIssues(issues, "benefits_per_fte")}
+          />
+          <SliderInput
+            label="Uniform & Equipment per FTE"
+            value={params.uniform_equipment_per_fte}
+            min={0}
+            max={5000}
+            step={100}
+            unit="$"
+            onChange={(v: number) => updateParam("uniform_equipment_per_fte", v)}
+            locale={params}
+            issues={fieldIssues(issues, "uniform_equipment_per_fte")}
+          />
+          <SliderInput
+            label="PTO / Sick Relief Factor"
+            value={params.pto_relief_factor * 100}
+            min={0}
+            max={25}
+            step={1}
+            unit="%"
+            onChange={(v: number) => updateParam("pto_relief_factor", v / 100)}
+            locale={params}
+            issues={fieldIssues(issues, "pto_relief_factor")}
+          />
+          <SliderInput
+            label="Overtime Share of Hours"
+            value={params.overtime_share * 100}
+            min={0}
+            max={30}
+            step={1}
+            unit="%"
+            onChange={(v: number) => updateParam("overtime_share", v / 100)}
+            locale={params}
+            issues={fieldIssues(issues, "overtime_share")}
+          />
+          <div style={{ fontSize: "0.85rem", color: "#64748b" }}>
+            Loaded rates:{" "}
+            {table
+              .map(
+                (role) =>
+                  `${role.label} ${formatCurrency(role.loadedRate, params, 2)}/hr`
+              )
+              .join(" • ")}
+          </div>
+        </>
+      )}
+    </ParameterSection>
+  );
+}
+
+// Per-role build-up of the loaded hourly rate, with annual cost from the
+// staffing schedules
+function LaborCostBuildUp({
+  params,
+  budget,
+}: {
+  params: BudgetParameters;
+  budget: BudgetResult;
+}) {
+  const summaries: Record<LaborRoleBuildUp["role"], ScheduleSummary | undefined> = {
+    cleaner: budget.schedules.cleaning?.staff,
+    supervisor: budget.schedules.cleaning?.supervisors,
+    safety: budget.schedules.safety?.staff,
+  };
+  const roles = buildLaborCostTable(params).filter((role) =>
+    role.role === "safety" ? params.safety_enabled : params.cleaning_enabled
+  );
+
+  const cellStyle: React.CSSProperties = {
+    padding: "0.4rem 0.5rem",
+    textAlign: "right",
+    borderBottom: "1px solid #e2e8f0",
+    whiteSpace: "nowrap",
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: "#f8fafc",
+        borderRadius: "8px",
+        padding: "1.5rem",
+        marginBottom: "1.5rem",
+      }}
+    >
+      <h3 style={{ marginTop: 0, color: "#1e293b" }}>
+        👷 Labor Cost Build-Up (per covered hour)
+      </h3>
+      <div style={{ overflowX: "auto" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "0.85rem",
+            fontFamily: ginkgoTheme.typography.fontFamily.body,
+          }}
+        >
+          <thead>
+            <tr style={{ color: "#64748b" }}>
+              <th style={{ ...cellStyle, textAlign: "left" }}>Component</th>
+              {roles.map((role) => (
+                <th key={role.role} style={cellStyle}>
+                  {role.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {roles[0].components.map((component, i) => (
+              <tr key={component.label}>
+                <td style={{ ...cellStyle, textAlign: "left", color: "#374151" }}>
+                  {component.label}
+                </td>
+                {roles.map((role) => (
+                  <td key={role.role} style={cellStyle}>
+                    {formatCurrency(role.components[i].hourly, params, 2)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr style={{ fontWeight: 600, color: "#1e293b" }}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>Loaded rate</td>
+              {roles.map((role) => (
+                <td key={role.role} style={cellStyle}>
+                  {formatCurrency(role.loadedRate, params, 2)}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td style={{ ...cellStyle, textAlign: "left", color: "#374151" }}>
+                Annual covered hours
+              </td>
+              {roles.map((role) => (
+                <td key={role.role} style={cellStyle}>
+                  {formatNumber(summaries[role.role]?.annualHours || 0, params)}
+                </td>
+              ))}
+            </tr>
+            <tr style={{ fontWeight: 600, color: "#1e293b" }}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>Annual cost</td>
+              {roles.map((role) => (
+                <td key={role.role} style={cellStyle}>
+                  {formatCurrency(summaries[role.role]?.annualCost || 0, params)}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function ServiceDeliverySection({
+  params,
+  updateParam,
+  budget,
+  issues,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+  issues: ParameterIssue[];
+}) {
+  const services = DELIVERY_SERVICES.filter(
+    (s) => budget.delivery[s.service] !== null
+  );
+  if (services.length === 0) return null;
+
+  return (
+    <ParameterSection title="Service Delivery">
+      {services.map((config) => {
+        const comparison = budget.delivery[config.service]!;
+        return (
+          <div key={config.service} style={{ marginBottom: "1.25rem" }}>
+            <div style={{ fontWeight: 600, color: "#1e293b", marginBottom: "0.5rem" }}>
+              {config.label}
+            </div>
+            <div style={{ display: "flex", gap: "1rem", marginBottom: "0.75rem" }}>
+              {DELIVERY_MODE_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}
+                >
+                  <input
+                    type="radio"
+                    checked={params[config.modeKey] === option.value}
+                    onChange={() => updateParam(config.modeKey, option.value)}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+            <SliderInput
+              label="Vendor Bill Rate"
+              value={params[config.billRateKey]}
+              min={20}
+              max={120}
+              step={1}
+              unit="$/hr"
+              onChange={(v: number) => updateParam(config.billRateKey, v)}
+              locale={params}
+              issues={fieldIssues(issues, config.billRateKey)}
+            />
+            <SliderInput
+              label="Management Fee"
+              value={params[config.feeKey] * 100}
+              min={0}
+              max={25}
+              step={1}
+              unit="%"
+              onChange={(v: number) => updateParam(config.feeKey, v / 100)}
+              locale={params}
+              issues={fieldIssues(issues, config.feeKey)}
+            />
+            <SliderInput
+              label="Contract Minimum"
+              value={params[config.minimumKey]}
+              min={0}
+              max={250000}
+              step={5000}
+              unit="$"
+              onChange={(v: number) => updateParam(config.minimumKey, v)}
+              locale={params}
+              issues={fieldIssues(issues, config.minimumKey)}
+            />
+            <div style={{ fontSize: "0.85rem", color: "#64748b" }}>
+              In-house {formatCurrency(comparison.inHouse, params)} •
+              Contracted {formatCurrency(comparison.contracted.cost, params)}
+              {comparison.contracted.minimumApplies && " (minimum)"}
+            </div>
+          </div>
+        );
+      })}
+    </ParameterSection>
+  );
+}
+
+// Side-by-side annual cost of in-house and contracted delivery per service
+function DeliveryComparisonTable({
+  budget,
+  locale,
+}: {
+  budget: BudgetResult;
+  locale: LocaleSettings;
+}) {
+  const comparisons = [budget.delivery.cleaning, budget.delivery.safety].filter(
+    Boolean
+  ) as DeliveryComparison[];
+  const modeLabel = (mode: DeliveryMode) =>
+    DELIVERY_MODE_OPTIONS.find((o) => o.value === mode)!.label;
+
+  const cellStyle: React.CSSProperties = {
+    padding: "0.4rem 0.5rem",
+    textAlign: "right",
+    borderBottom: "1px solid #e2e8f0",
+    whiteSpace: "nowrap",
+  };
+  const cheaperStyle: React.CSSProperties = {
+    ...cellStyle,
+    color: "#059669",
+    fontWeight: 600,
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: "#f8fafc",
+        borderRadius: "8px",
+        padding: "1.5rem",
+        marginBottom: "1.5rem",
+      }}
+    >
+      <h3 style={{ marginTop: 0, color: "#1e293b" }}>
+        🤝 In-house vs Contracted Delivery
+      </h3>
+      <div style={{ overflowX: "auto" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "0.85rem",
+            fontFamily: ginkgoTheme.typography.fontFamily.body,
+          }}
+        >
+          <thead>
+            <tr style={{ color: "#64748b" }}>
+              <th style={{ ...cellStyle, textAlign: "left" }}>Service</th>
+              <th style={cellStyle}>In-house</th>
+              <th style={cellStyle}>Contracted</th>
+              <th style={cellStyle}>Selected</th>
+              <th style={cellStyle}>Cheaper Option</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparisons.map((c) => (
+              <tr key={c.service}>
+                <td style={{ ...cellStyle, textAlign: "left", color: "#374151" }}>
+                  {c.label}
+                </td>
+                <td style={c.cheaper === "in_house" ? cheaperStyle : cellStyle}>
+                  {formatCurrency(c.inHouse, locale)}
+                </td>
+                <td
+                  style={c.cheaper === "contracted" ? cheaperStyle : cellStyle}
+                  title={`${formatNumber(c.contracted.billedHours, locale)} hrs billed + ${formatCurrency(
+                    c.contracted.managementFee,
+                    locale
+                  )} management fee`}
+                >
+                  {formatCurrency(c.contracted.cost, locale)}
+                  {c.contracted.minimumApplies && " (min)"}
+                </td>
+                <td style={cellStyle}>{modeLabel(c.mode)}</td>
+                <td style={cellStyle}>
+                  {modeLabel(c.cheaper)} saves {formatCurrency(c.savings, locale)}
+                  {c.mode !== c.cheaper && " ⚠️"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ marginTop: "0.75rem", fontSize: "0.8rem", color: "#64748b" }}>
+        Contracted costs bill the scheduled staff-hours at the vendor rate plus
+        management fee, floored at the contract minimum. ⚠️ marks services
+        where the selected mode is not the cheaper one.
+      </div>
+    </div>
+  );
+}
+
+function StaffingScheduleEditor({
+  params,
+  updateParam,
+  budget,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+}) {
+  const services = [
+    params.cleaning_enabled && {
+      key: "cleaning" as const,
+      label: "Cleaning",
+      gridParam: "cleaning_schedule" as const,
+      seasonalParam: "cleaning_seasonal_multipliers" as const,
+    },
+    params.safety_enabled && {
+      key: "safety" as const,
+      label: "Safety",
+      gridParam: "safety_schedule" as const,
+      seasonalParam: "safety_seasonal_multipliers" as const,
+    },
+  ].filter(Boolean) as {
+    key: "cleaning" | "safety";
+    label: string;
+    gridParam: "cleaning_schedule" | "safety_schedule";
+    seasonalParam: "cleaning_seasonal_multipliers" | "safety_seasonal_multipliers";
+  }[];
+  const [activeService, setActiveService] = useState<"cleaning" | "safety">(
+    "cleaning"
+  );
+
+  const service =
+    services.find((s) => s.key === activeService) || services[0];
+  if (!service) return null;
+
+  const schedule = budget.schedules[service.key]!;
+  const seasonal = params[service.seasonalParam];
+  const peak = Math.max(1, schedule.staff.peakOnDuty);
+
+  // First edit copies the default grid so it becomes a custom schedule
+  const adjustCell = (day: number, hour: number, delta: number) => {
+    const grid = schedule.grid.map((row) => [...row]);
+    grid[day][hour] = Math.max(0, grid[day][hour] + delta);
+    updateParam(service.gridParam, grid);
+  };
+
+  const updateSeasonal = (month: number, value: number) => {
+    updateParam(
+      service.seasonalParam,
+      seasonal.map((m, i) => (i === month ? Math.max(0, value) : m))
+    );
+  };
+
+  return (
+    <ParameterSection title="Staffing Schedule">
+      <div style={{ display: "flex", gap: "0.5rem", marginBottom: "0.75rem" }}>
+        {services.map((s) => (
+          <button
+            key={s.key}
+            onClick={() => setActiveService(s.key)}
+            style={{
+              padding: "0.35rem 0.9rem",
+              borderRadius: "6px",
+              border: "1px solid #cbd5e1",
+              backgroundColor: s.key === service.key ? "#0ea5e9" : "white",
+              color: s.key === service.key ? "white" : "#374151",
+              cursor: "pointer",
+            }}
+          >
+            {s.label}
+          </button>
+        ))}
+        <span
+          style={{
+            marginLeft: "auto",
+            alignSelf: "center",
+            fontSize: "0.8rem",
+            color: "#64748b",
+          }}
+        >
+          {schedule.isCustom ? "Custom grid" : "Default grid from business mix"}
+        </span>
+        {schedule.isCustom && (
+          <button
+            onClick={() => updateParam(service.gridParam, null)}
+            style={{
+              padding: "0.35rem 0.75rem",
+              borderRadius: "6px",
+              border: "1px solid #cbd5e1",
+              backgroundColor: "white",
+              cursor: "pointer",
+              fontSize: "0.8rem",
+            }}
+          >
+            Reset to Default
+          </button>
+        )}
+      </div>
+
+      <p style={{ margin: "0 0 0.5rem", fontSize: "0.8rem", color: "#64748b" }}>
+        Staff on duty by hour. Click a cell to add one, shift-click or
+        right-click to remove one.
+        {!schedule.isCustom &&
+          " The default follows the sliders above and shifts later for dining and nightlife."}
+      </p>
+
+      <div style={{ overflowX: "auto", marginBottom: "1rem" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: "0.7rem" }}>
+          <thead>
+            <tr>
+              <th />
+              {Array.from({ length: 24 }, (_, h) => (
+                <th
+                  key={h}
+                  style={{ color: "#94a3b8", fontWeight: 400, padding: "0 1px" }}
+                >
+                  {h % 3 === 0 ? h : ""}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.grid.map((row, day) => (
+              <tr key={day}>
+                <td style={{ paddingRight: "0.4rem", color: "#374151" }}>
+                  {DAY_LABELS[day]}
+                </td>
+                {row.map((staff, hour) => (
+                  <td
+                    key={hour}
+                    onClick={(e) => adjustCell(day, hour, e.shiftKey ? -1 : 1)}
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      adjustCell(day, hour, -1);
+                    }}
+                    title={`${DAY_LABELS[day]} ${hour}:00 — ${formatNumber(staff, params, 2)} on duty`}
+                    style={{
+                      width: "18px",
+                      height: "18px",
+                      textAlign: "center",
+                      cursor: "pointer",
+                      border: "1px solid #e2e8f0",
+                      backgroundColor:
+                        staff > 0
+                          ? `rgba(14, 165, 233, ${0.2 + (0.8 * staff) / peak})`
+                          : "white",
+                      color: staff / peak > 0.5 ? "white" : "#1e293b",
+                      userSelect: "none",
+                    }}
+                  >
+                    {staff > 0 ? Math.round(staff) : ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ marginBottom: "1rem" }}>
+        <div style={{ fontSize: "0.85rem", color: "#64748b", marginBottom: "0.4rem" }}>
+          Seasonal multipliers
+        </div>
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(6, 1fr)",
+            gap: "0.4rem",
+          }}
+        >
+          {MONTH_LABELS.map((month, i) => (
+            <label key={month} style={{ fontSize: "0.75rem", color: "#374151" }}>
+              {month}
+              <input
+                type="number"
+                min={0}
+                max={3}
+                step={0.05}
+                value={seasonal[i]}
+                onChange={(e) => updateSeasonal(i, Number(e.target.value))}
+                style={{
+                  width: "100%",
+                  padding: "0.2rem",
+                  border: "1px solid #cbd5e1",
+                  borderRadius: "4px",
+                }}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(4, 1fr)",
+          gap: "0.5rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <MetricCard
+          title="Weekly Hours"
+          value={formatNumber(schedule.staff.weeklyHours, params)}
+          color="#0ea5e9"
+        />
+        <MetricCard
+          title="FTEs"
+          value={schedule.staff.fte.toFixed(1)}
+          subtitle={
+            schedule.supervisors
+              ? `+ ${schedule.supervisors.fte.toFixed(1)} supervisor`
+              : undefined
+          }
+          color="#059669"
+        />
+        <MetricCard
+          title="Peak On Duty"
+          value={schedule.staff.peakOnDuty}
+          color="#8b5cf6"
+        />
+        <MetricCard
+          title="Annual Cost"
+          value={formatCurrency(schedule.annualCost, params)}
+          color="#f59e0b"
+        />
+      </div>
+
+      <div style={{ fontSize: "0.85rem" }}>
+        <div style={{ color: "#64748b", marginBottom: "0.25rem" }}>
+          Shift patterns
+        </div>
+        {schedule.staff.shifts.length === 0 ? (
+          <div style={{ color: "#94a3b8" }}>No coverage scheduled</div>
+        ) : (
+          <ul style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151" }}>
+            {schedule.staff.shifts.map((shift) => (
+              <li key={`${shift.start}-${shift.hours}`}>
+                {formatShiftPattern(shift)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </ParameterSection>
+  );
+}
+
+function FrontageSection({
+  params,
+  updateParam,
+  budget,
+  segmentFrontage,
+  issues,
+}: {
+  params: BudgetParameters;
+  updateParam: (key: keyof BudgetParameters, value: any) => void;
+  budget: BudgetResult;
+  segmentFrontage: SegmentFrontage | null;
+  issues: ParameterIssue[];
+}) {
+  const toggleClass = (roadClass: string) => {
+    const classes = params.frontage_road_classes;
+    updateParam(
+      "frontage_road_classes",
+      classes.includes(roadClass)
+        ? classes.filter((c) => c !== roadClass)
+        : [...classes, roadClass]
+    );
+  };
+
+  return (
+    <ParameterSection title="Street Frontage">
+      <div style={{ display: "flex", gap: "1.5rem", marginBottom: "0.75rem" }}>
+        <label style={{ display: "flex", alignItems: "center", gap: "0.4rem" }}>
+          <input
+            type="radio"
+            checked={params.frontage_method === "segments"}
+            onChange={() => updateParam("frontage_method", "segments")}
+          />
+          <span>Street segments (curb line)</span>
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: "0.4rem" }}>
+          <input
+            type="radio"
+            checked={params.frontage_method === "business_count"}
+            onChange={() => updateParam("frontage_method", "business_count")}
+          />
+          <span>Business count heuristic</span>
+        </label>
+      </div>
+
+      <div
+        style={{
+          fontSize: "0.85rem",
+          color: "#374151",
+          marginBottom: "1rem",
+        }}
+      >
+        Frontage used for cleaning and assets:{" "}
+        <strong>{formatLength(budget.frontageEstimate, params)}</strong> (
+        {budget.frontageSource === "segments"
+          ? "both sides of included streets, clipped to the district"
+          : "businesses × frontage per business"}
+        )
+      </div>
+
+      {params.frontage_method === "segments" && !segmentFrontage && (
+        <p style={{ margin: "0 0 1rem", fontSize: "0.85rem", color: "#b45309" }}>
+          ⚠️ No road segments were loaded for this district, so the business
+          count heuristic is used instead.
+        </p>
+      )}
+
+      {params.frontage_method === "segments" && segmentFrontage && (
+        <div style={{ marginBottom: "1rem" }}>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "1fr 1fr",
+              gap: "0.4rem",
+              fontSize: "0.85rem",
+            }}
+          >
+            {FRONTAGE_ROAD_CLASS_OPTIONS.map((option) => {
+              const centerlineFt =
+                segmentFrontage.centerlineFtByClass[option.value] || 0;
+              return (
+                <label
+                  key={option.value}
+                  style={{ display: "flex", alignItems: "center", gap: "0.4rem" }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={params.frontage_road_classes.includes(option.value)}
+                    onChange={() => toggleClass(option.value)}
+                  />
+                  <span>
+                    {option.label}{" "}
+                    <span style={{ color: "#94a3b8" }}>
+                      ({formatLength(centerlineFt * CURB_SIDES_PER_STREET, params)})
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+          {segmentFrontage.excludedFt > 0 && (
+            <div style={{ marginTop: "0.5rem", fontSize: "0.8rem", color: "#64748b" }}>
+              Excluded {formatLength(segmentFrontage.excludedFt, params)} of motorways and ramps (no walkable frontage).
+            </div>
+          )}
+          <IssueList issues={fieldIssues(issues, "frontage_road_classes")} />
+        </div>
+      )}
+
+      {budget.frontageSource === "business_count" && (
+        <SliderInput
+          label="Frontage per Business"
+          value={params.avg_frontage_ft_per_business}
+          min={10}
+          max={60}
+          step={1}
+          unit="ft"
+          onChange={(v: number) => updateParam("avg_frontage_ft_per_business", v)}
+          locale={params}
+          issues={fieldIssues(issues, "avg_frontage_ft_per_business")}
+        />
+      )}
+    </ParameterSection>
+  );
+}
+
+function ParameterProfiles({
+  params,
+  regionId,
+  onLoad,
+}: {
+  params: BudgetParameters;
+  regionId: string;
+  onLoad: (profile: ParameterProfile) => void;
+}) {
+  const [profiles, setProfiles] = useState<ParameterProfile[]>(() =>
+    loadProfiles()
+  );
+  const [profileName, setProfileName] = useState("");
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const downloadJSON = (json: string, filename: string) => {
+    const blob = new Blob([json], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = () => {
+    const name = profileName.trim();
+    if (!name) {
+      alert("Please enter a profile name");
+      return;
+    }
+    const exists = profiles.some(
+      (p) => p.name.toLowerCase() === name.toLowerCase()
+    );
+    if (exists && !confirm(`Overwrite existing profile "${name}"?`)) return;
+    setProfiles(saveProfile(name, params, regionId));
+    setProfileName("");
+  };
+
+  const handleRename = (profile: ParameterProfile) => {
+    const name = prompt("Rename profile", profile.name);
+    if (name && name.trim()) {
+      setProfiles(renameProfile(profile.id, name));
+    }
+  };
+
+  const handleDelete = (profile: ParameterProfile) => {
+    if (confirm(`Delete profile "${profile.name}"?`)) {
+      setProfiles(deleteProfile(profile.id));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const result = importProfilesJSON(await file.text());
+      setProfiles(result.profiles);
+      const describe = ({ name, issues }: { name: string; issues: ParameterIssue[] }) =>
+        `\n\n"${name}":\n${describeIssues(issues).join("\n")}`;
+      alert(
+        `Imported ${result.imported} profile(s)` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} invalid` : "") +
+          (result.rejected.length > 0
+            ? `, rejected ${result.rejected.length} with invalid parameters` +
+              result.rejected.map(describe).join("")
+            : "") +
+          result.flagged.map(describe).join("")
+      );
+    } catch (error) {
+      alert("Import failed. Please choose a valid profile JSON file.");
+    }
+  };
+
+  const profileErrorCount = (profile: ParameterProfile) =>
+    validateParameters(profile.params).filter((i) => i.severity === "error")
+      .length;
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "0.3rem 0.6rem",
+    fontSize: "0.8rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "4px",
+    backgroundColor: "white",
+    cursor: "pointer",
+  };
+
+  return (
+    <ParameterSection title="Parameter Profiles">
+      <div style={{ display: "flex", gap: "0.5rem", marginBottom: "1rem" }}>
+        <input
+          type="text"
+          placeholder="Profile name"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          style={{
+            flex: 1,
+            padding: "0.4rem",
+            border: "1px solid #cbd5e1",
+            borderRadius: "4px",
+          }}
+        />
+        <button
+          onClick={handleSave}
+          style={{
+            ...buttonStyle,
+            backgroundColor: ginkgoTheme.colors.primary.orange,
+            color: "white",
+            border: "none",
+            fontWeight: 600,
+          }}
+        >
+          Save Current
+        </button>
+      </div>
+
+      {profiles.length === 0 ? (
+        <p style={{ fontSize: "0.85rem", color: "#94a3b8", margin: "0 0 1rem" }}>
+          No saved profiles yet. Save the current parameters to reuse them
+          across districts.
+        </p>
+      ) : (
+        <div style={{ marginBottom: "1rem" }}>
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.5rem",
+                padding: "0.5rem 0",
+                borderBottom: "1px solid #e2e8f0",
+                fontSize: "0.85rem",
+              }}
+            >
+              <div style={{ flex: 1 }}>
+                <div style={{ fontWeight: 600, color: "#1e293b" }}>
+                  {profile.name}
+                </div>
+                <div style={{ fontSize: "0.75rem", color: "#94a3b8" }}>
+                  Updated {formatDate(profile.updatedAt, params)}
+                  {profileErrorCount(profile) > 0 && (
+                    <span style={{ color: "#dc2626", marginLeft: "0.5rem" }}>
+                      ⛔ {profileErrorCount(profile)} invalid parameter(s)
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => onLoad(profile)}
+                disabled={profileErrorCount(profile) > 0}
+                title={
+                  profileErrorCount(profile) > 0
+                    ? "Profiles with invalid parameters cannot be loaded"
+                    : undefined
+                }
+                style={{
+                  ...buttonStyle,
+                  opacity: profileErrorCount(profile) > 0 ? 0.5 : 1,
+                }}
+              >
+                Load
+              </button>
+              <button onClick={() => handleRename(profile)} style={buttonStyle}>
+                Rename
+              </button>
+              <button
+                onClick={() =>
+                  downloadJSON(
+                    exportProfilesJSON([profile]),
+                    `${profile.name.replace(/[^a-z0-9]+/gi, "_")}_profile.json`
+                  )
+                }
+                style={buttonStyle}
+              >
+                Export
+              </button>
+              <button
+                onClick={() => handleDelete(profile)}
+                style={{ ...buttonStyle, color: "#dc2626" }}
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: "0.5rem" }}>
+        <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>
+          Import JSON
+        </button>
+        <button
+          onClick={() =>
+            downloadJSON(
+              exportProfilesJSON(profiles),
+              "bid_parameter_profiles.json"
+            )
+          }
+          disabled={profiles.length === 0}
+          style={{ ...buttonStyle, opacity: profiles.length === 0 ? 0.5 : 1 }}
+        >
+          Export All
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{ display: "none" }}
+        />
+      </div>
+    </ParameterSection>
+  );
+}
+
+// Currency, number format and unit system. Switching currency relabels
+// amounts without converting them.
+function LocaleSection({
+  params,
+  setParams,
+  issues,
+}: {
+  params: BudgetParameters;
+  setParams: (update: (prev: BudgetParameters) => BudgetParameters) => void;
+  issues: ParameterIssue[];
+}) {
+  const selectStyle = {
+    padding: "0.4rem",
+    borderRadius: "4px",
+    border: "1px solid #cbd5e1",
+  };
+  const apply = (settings: Partial<LocaleSettings>) =>
+    setParams((prev) => ({ ...prev, ...settings }));
+  const presetIndex = LOCALE_PRESETS.findIndex(
+    (p) =>
+      p.locale === params.locale &&
+      p.currency === params.currency &&
+      p.unit_system === params.unit_system
+  );
+
+  return (
+    <ParameterSection title="Locale & Units">
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.75rem",
+          flexWrap: "wrap",
+          marginBottom: "0.75rem",
+        }}
+      >
+        <select
+          value={presetIndex}
+          onChange={(e) => {
+            const preset = LOCALE_PRESETS[Number(e.target.value)];
+            if (preset) {
+              apply({
+                locale: preset.locale,
+                currency: preset.currency,
+                unit_system: preset.unit_system,
+              });
+            }
+          }}
+          style={{ ...selectStyle, minWidth: "12rem" }}
+        >
+          {presetIndex < 0 && <option value={-1}>Custom ({params.locale})</option>}
+          {LOCALE_PRESETS.map((p, i) => (
+            <option key={p.label} value={i}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={params.currency}
+          onChange={(e) => apply({ currency: e.target.value })}
+          style={selectStyle}
+        >
+          {!CURRENCY_OPTIONS.includes(params.currency) && (
+            <option value={params.currency}>{params.currency}</option>
+          )}
+          {CURRENCY_OPTIONS.map((code) => (
+            <option key={code} value={code}>
+              {code}
+            </option>
+          ))}
+        </select>
+        <div style={{ display: "flex" }}>
+          {(["imperial", "metric"] as const).map((system) => (
+            <button
+              key={system}
+              onClick={() => apply({ unit_system: system })}
+              style={{
+                padding: "0.4rem 0.75rem",
+                border: "1px solid #cbd5e1",
+                background: params.unit_system === system ? "#0ea5e9" : "white",
+                color: params.unit_system === system ? "white" : "#374151",
+                cursor: "pointer",
+                fontSize: "0.85rem",
+              }}
+            >
+              {system === "imperial" ? "Feet / acres" : "Metres / hectares"}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div style={{ fontSize: "0.8rem", color: "#64748b", lineHeight: 1.5 }}>
+        <div>
+          Example: {formatCurrency(1234567, params)} •{" "}
+          {formatLength(5280, params)} • {formatArea(40, params)} •{" "}
+          {formatDate(new Date(), params)}
+        </div>
+        <div>
+          Changing currency relabels amounts; it does not convert them. Rates
+          from the regional cost index and the typical-range warnings assume
+          US dollars.
+        </div>
+      </div>
+      <IssueList issues={fieldIssues(issues, "currency")} />
+    </ParameterSection>
+  );
+}
+
+function RegionalCostSection({
+  selection,
+  onSelect,
+}: {
+  selection: RegionalCostSelection;
+  onSelect: (index: RegionalCostIndex) => void;
+}) {
+  const options = [
+    NATIONAL_COST_INDEX,
+    NONMETRO_COST_INDEX,
+    ...[...METRO_COST_INDICES].sort((a, b) => a.name.localeCompare(b.name)),
+  ];
+
+  return (
+    <ParameterSection title="Regional Cost Index">
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.75rem",
+          flexWrap: "wrap",
+          marginBottom: "0.75rem",
+        }}
+      >
+        <select
+          value={selection.index.id}
+          onChange={(e) => {
+            const next = options.find((o) => o.id === e.target.value);
+            if (next) onSelect(next);
+          }}
+          style={{
+            padding: "0.4rem",
+            borderRadius: "4px",
+            border: "1px solid #cbd5e1",
+            minWidth: "16rem",
+          }}
+        >
+          {options.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.name}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: "0.9rem", color: "#374151" }}>
+          Wages <strong>×{selection.index.wageIndex.toFixed(2)}</strong> •
+          Prices <strong>×{selection.index.priceIndex.toFixed(2)}</strong>
+        </span>
+      </div>
+      <div style={{ fontSize: "0.8rem", color: "#64748b", lineHeight: 1.5 }}>
+        <div>
+          Applied from: {selection.basis}
+          {selection.distanceMiles !== null &&
+            ` (${selection.distanceMiles} mi from metro center)`}
+        </div>
+        <div>
+          Rescales hourly rates, asset unit costs and marketing spend. Manual
+          edits to those sliders are kept and rescaled if the region changes.
+        </div>
+        <div style={{ marginTop: "0.25rem", fontStyle: "italic" }}>
+          Source: {REGIONAL_COST_INDEX_SOURCE}
+        </div>
+      </div>
+    </ParameterSection>
+  );
+}
+
+function FitToBudget({
+  params,
+  budgetInputs,
+  currentTotal,
+  onApply,
+}: {
+  params: BudgetParameters;
+  budgetInputs: BudgetInputs;
+  currentTotal: number;
+  onApply: (params: BudgetParameters) => void;
+}) {
+  const [target, setTarget] = useState(Math.round(currentTotal / 1000) * 1000);
+  const [freeKeys, setFreeKeys] = useState<NumericParameterKey[]>(
+    DEFAULT_GOAL_SEEK_KEYS
+  );
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+  }, [params, budgetInputs.businessCount, budgetInputs.areaAcres]);
+
+  const toggleKey = (key: NumericParameterKey) => {
+    setFreeKeys((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+    setResult(null);
+  };
+
+  const statusMessage =
+    result?.status === "below_minimum"
+      ? "Target is below the cheapest service mix within the allowed ranges. Lock fewer parameters or reduce other costs."
+      : result?.status === "above_maximum"
+      ? "Target exceeds the richest service mix within the allowed ranges; the remainder is unallocated."
+      : null;
+
+  return (
+    <ParameterSection title="Fit to Budget">
+      <p style={{ marginTop: 0, fontSize: "0.85rem", color: "#64748b" }}>
+        Start from the revenue you can raise. The solver adjusts the selected
+        service levels (everything else stays locked) to the richest mix that
+        stays within the target.
+      </p>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.75rem",
+          flexWrap: "wrap",
+          marginBottom: "1rem",
+        }}
+      >
+        <label style={{ fontSize: "0.9rem", color: "#64748b" }}>
+          Target budget {currencySymbol(params)}
+        </label>
+        <input
+          type="number"
+          min={0}
+          step={10000}
+          value={target}
+          onChange={(e) => {
+            setTarget(Math.max(0, Number(e.target.value)));
+            setResult(null);
+          }}
+          style={{
+            width: "9rem",
+            padding: "0.4rem",
+            border: "1px solid #cbd5e1",
+            borderRadius: "4px",
+          }}
+        />
+        <button
+          onClick={() =>
+            setResult(solveForBudget(params, budgetInputs, target, freeKeys))
+          }
+          disabled={freeKeys.length === 0}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: ginkgoTheme.colors.primary.orange,
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            cursor: freeKeys.length === 0 ? "not-allowed" : "pointer",
+            opacity: freeKeys.length === 0 ? 0.5 : 1,
+            fontWeight: 600,
+          }}
+        >
+          Solve
+        </button>
+      </div>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: "0.4rem",
+          marginBottom: "1rem",
+          fontSize: "0.85rem",
+        }}
+      >
+        {GOAL_SEEK_VARIABLES.map((v) => (
+          <label
+            key={v.key}
+            style={{ display: "flex", alignItems: "center", gap: "0.4rem" }}
+          >
+            <input
+              type="checkbox"
+              checked={freeKeys.includes(v.key)}
+              onChange={() => toggleKey(v.key)}
+            />
+            <span>
+              {v.label}{" "}
+              <span style={{ color: "#94a3b8" }}>
+                ({formatNumber(v.min, params)}–{formatNumber(v.max, params)})
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {result && (
+        <div
+          style={{
+            backgroundColor: "white",
+            border: "1px solid #e2e8f0",
+            borderRadius: "6px",
+            padding: "1rem",
+            fontSize: "0.85rem",
+          }}
+        >
+          {statusMessage && (
+            <p style={{ marginTop: 0, color: "#b45309" }}>⚠️ {statusMessage}</p>
+          )}
+          <div style={{ marginBottom: "0.75rem" }}>
+            Solved total: <strong>{formatCurrency(result.total, params)}</strong>{" "}
+            <span style={{ color: "#64748b" }}>
+              ({formatCurrency(Math.abs(result.gap), params)} {result.gap >= 0 ? "under" : "over"}{" "}
+              target)
+            </span>
+          </div>
+          {result.changes.length > 0 ? (
+            <ul style={{ margin: "0 0 0.75rem", paddingLeft: "1.25rem" }}>
+              {result.changes.map((c) => (
+                <li key={c.key}>
+                  {c.label}: {formatNumber(c.from, params, 2)} →{" "}
+                  <strong>{formatNumber(c.to, params, 2)}</strong>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p style={{ margin: "0 0 0.75rem", color: "#64748b" }}>
+              Current service levels already fit the target.
+            </p>
+          )}
+          <div style={{ marginBottom: "0.75rem", color: "#374151" }}>
+            Resulting staffing: {result.staffing.cleanersNeeded} cleaners,{" "}
+            {result.staffing.supervisorsNeeded} supervisors,{" "}
+            {result.staffing.safetyFTE.toFixed(1)} safety FTE
+          </div>
+          <button
+            onClick={() => onApply(result.params)}
+            disabled={result.changes.length === 0}
+            style={{
+              padding: "0.4rem 0.9rem",
+              backgroundColor: "#0ea5e9",
+              color: "white",
+              border: "none",
+              borderRadius: "6px",
+              cursor: result.changes.length === 0 ? "not-allowed" : "pointer",
+              opacity: result.changes.length === 0 ? 0.5 : 1,
+            }}
+          >
+            Apply to Parameters
+          </button>
+        </div>
+      )}
+    </ParameterSection>
+  );
+}
+
+function CalibrationSection({
+  params,
+  regionSelection,
+  onApply,
+  onProfileSaved,
+}: {
+  params: BudgetParameters;
+  regionSelection: RegionalCostSelection;
+  onApply: (params: BudgetParameters) => void;
+  onProfileSaved: () => void;
+}) {
+  const [freeKeys, setFreeKeys] = useState<NumericParameterKey[]>(
+    DEFAULT_CALIBRATION_KEYS
+  );
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to cancel a calibration that is still running
+  const calibrationRun = useRef(0);
+
+  useEffect(() => () => {
+    calibrationRun.current++;
+  }, []);
+
+  const toggleKey = (key: NumericParameterKey) => {
+    setFreeKeys((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+    setResult(null);
+  };
+
+  // Reference budgets are in US dollars, so other currencies cannot be fitted
+  const currencyMismatch = params.currency !== REFERENCE_BUDGET_CURRENCY;
+  const runDisabled = running || freeKeys.length === 0 || currencyMismatch;
+
+  const runCalibration = async () => {
+    const run = ++calibrationRun.current;
+    setRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const bids = await fetchCalibrationBids();
+      if (bids.length === 0) {
+        throw new Error("No active BIDs with a known budget were returned");
+      }
+      if (run !== calibrationRun.current) return;
+      const calibrated = await calibrateParameters(
+        params,
+        regionSelection.index,
+        bids,
+        freeKeys,
+        (share) => {
+          if (run !== calibrationRun.current) return false;
+          setProgress(share);
+          return true;
+        }
+      );
+      if (calibrated) setResult(calibrated);
+    } catch (e: any) {
+      if (run !== calibrationRun.current) return;
+      setResult(null);
+      setError(e?.message || "Calibration failed");
+    } finally {
+      if (run === calibrationRun.current) setRunning(false);
+    }
+  };
+
+  const cancelCalibration = () => {
+    calibrationRun.current++;
+    setRunning(false);
+  };
+
+  const handleSaveProfile = () => {
+    if (!result) return;
+    const name = prompt(
+      "Profile name",
+      `Calibrated (${result.bidCount} BIDs, ${formatDate(new Date(), params)})`
+    );
+    if (!name || !name.trim()) return;
+    saveProfile(name.trim(), result.params, regionSelection.index.id);
+    onProfileSaved();
+  };
+
+  const handleDownloadCSV = () => {
+    if (!result) return;
+    const blob = new Blob([calibrationReportCSV(result)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "bid_calibration_residuals.csv";
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const signedPct = (v: number) => `${v >= 0 ? "+" : ""}${(v * 100).toFixed(0)}%`;
+  const formatValue = (v: number) =>
+    Math.abs(v) < 1 ? formatNumber(v, params, 3, 3) : formatNumber(v, params, 1);
+  // Published budgets are in US dollars
+  const usd = { ...params, currency: "USD" };
+  const errorColor = (v: number) =>
+    Math.abs(v) <= 0.15 ? "#15803d" : Math.abs(v) <= 0.35 ? "#b45309" : "#dc2626";
+
+  const cellStyle: React.CSSProperties = {
+    padding: "0.4rem 0.5rem",
+    borderBottom: "1px solid #e2e8f0",
+    textAlign: "right",
+    whiteSpace: "nowrap",
+  };
+  const buttonStyle: React.CSSProperties = {
+    padding: "0.4rem 0.9rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "6px",
+    backgroundColor: "white",
+    cursor: "pointer",
+    fontSize: "0.85rem",
+  };
+
+  // Largest misses first after calibration
+  const residuals = result
+    ? [...result.residuals].sort(
+        (a, b) => Math.abs(b.errorAfter) - Math.abs(a.errorAfter)
+      )
+    : [];
+
+  return (
+    <ParameterSection title="Calibration">
+      <p style={{ marginTop: 0, fontSize: "0.85rem", color: "#64748b" }}>
+        Runs the estimator over every active BID with a published budget,
+        using its own places, street segments and regional costs, then fits
+        the selected parameters to minimize the error against actual budgets.
+        Other parameters, including enabled services, stay as set here.
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: "0.4rem",
+          marginBottom: "1rem",
+          fontSize: "0.85rem",
+        }}
+      >
+        {CALIBRATION_VARIABLES.map((v) => (
+          <label
+            key={v.key}
+            style={{ display: "flex", alignItems: "center", gap: "0.4rem" }}
+          >
+            <input
+              type="checkbox"
+              checked={freeKeys.includes(v.key)}
+              onChange={() => toggleKey(v.key)}
+            />
+            <span>
+              {v.label}{" "}
+              <span style={{ color: "#94a3b8" }}>
+                ({formatNumber(v.min, params)}–{formatNumber(v.max, params)})
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={runCalibration}
+        disabled={runDisabled}
+        style={{
+          padding: "0.5rem 1rem",
+          backgroundColor: ginkgoTheme.colors.primary.orange,
+          color: "white",
+          border: "none",
+          borderRadius: "6px",
+          cursor: runDisabled ? "not-allowed" : "pointer",
+          opacity: runDisabled ? 0.5 : 1,
+          fontWeight: 600,
+          marginBottom: "1rem",
+        }}
+      >
+        {running
+          ? `Calibrating... ${Math.round(progress * 100)}%`
+          : "Run Calibration"}
+      </button>
+      {running && (
+        <button
+          onClick={cancelCalibration}
+          style={{ ...buttonStyle, marginLeft: "0.5rem", marginBottom: "1rem" }}
+        >
+          Cancel
+        </button>
+      )}
+
+      {currencyMismatch && (
+        <p style={{ marginTop: 0, color: "#92400e", fontSize: "0.85rem" }}>
+          ⚠️ Reference budgets are in {REFERENCE_BUDGET_CURRENCY} and these
+          parameters are in {params.currency}. Switch the currency to{" "}
+          {REFERENCE_BUDGET_CURRENCY} to calibrate.
+        </p>
+      )}
+
+      {error && (
+        <p style={{ marginTop: 0, color: "#dc2626", fontSize: "0.85rem" }}>
+          ⚠️ {error}
+        </p>
+      )}
+
+      {result && (
+        <div
+          style={{
+            backgroundColor: "white",
+            border: "1px solid #e2e8f0",
+            borderRadius: "6px",
+            padding: "1rem",
+            fontSize: "0.85rem",
+          }}
+        >
+          <div style={{ marginBottom: "0.75rem", color: "#374151" }}>
+            Fitted against <strong>{result.bidCount}</strong> BIDs
+            {result.skipped > 0 &&
+              ` (${result.skipped} skipped without places or area)`}
+            . Mean error {pct(result.before.mape)} →{" "}
+            <strong>{pct(result.after.mape)}</strong>, median{" "}
+            {pct(result.before.medianApe)} →{" "}
+            <strong>{pct(result.after.medianApe)}</strong>, log RMSE{" "}
+            {result.before.logRmse.toFixed(3)} →{" "}
+            <strong>{result.after.logRmse.toFixed(3)}</strong>
+          </div>
+
+          <ul style={{ margin: "0 0 0.75rem", paddingLeft: "1.25rem" }}>
+            {result.variables.map((v) => (
+              <li key={v.key}>
+                {v.label}: {formatValue(v.before)} →{" "}
+                <strong>{formatValue(v.after)}</strong>
+              </li>
+            ))}
+          </ul>
+
+          <div
+            style={{
+              overflowX: "auto",
+              maxHeight: "20rem",
+              overflowY: "auto",
+              marginBottom: "0.75rem",
+            }}
+          >
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                fontFamily: ginkgoTheme.typography.fontFamily.body,
+              }}
+            >
+              <thead>
+                <tr style={{ backgroundColor: "#f8fafc" }}>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>BID</th>
+                  <th style={cellStyle}>Actual</th>
+                  <th style={cellStyle}>Before</th>
+                  <th style={cellStyle}>After</th>
+                  <th style={cellStyle}>Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {residuals.map((r) => (
+                  <tr key={r.bidId}>
+                    <td style={{ ...cellStyle, textAlign: "left", whiteSpace: "normal" }}>
+                      {r.name}
+                      {r.location && (
+                        <span style={{ color: "#94a3b8" }}> — {r.location}</span>
+                      )}
+                    </td>
+                    <td style={cellStyle}>{formatCurrency(r.actual, usd)}</td>
+                    <td style={cellStyle}>
+                      {formatCurrency(r.before, usd)}{" "}
+                      <span style={{ color: errorColor(r.errorBefore) }}>
+                        ({signedPct(r.errorBefore)})
+                      </span>
+                    </td>
+                    <td style={cellStyle}>{formatCurrency(r.after, usd)}</td>
+                    <td style={{ ...cellStyle, color: errorColor(r.errorAfter), fontWeight: 600 }}>
+                      {signedPct(r.errorAfter)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+            <button
+              onClick={() => onApply(result.params)}
+              style={{
+                ...buttonStyle,
+                backgroundColor: "#0ea5e9",
+                color: "white",
+                border: "none",
+              }}
+            >
+              Apply to Parameters
+            </button>
+            <button onClick={handleSaveProfile} style={buttonStyle}>
+              Save as Profile
+            </button>
+            <button onClick={handleDownloadCSV} style={buttonStyle}>
+              Download Residuals CSV
+            </button>
+          </div>
+        </div>
+      )}
+    </ParameterSection>
+  );
+}
+
+function UncertaintyAnalysis({
+  distributions,
+  setDistributions,
+  result,
+  progress,
+  onRun,
+  includeInPDF,
+  setIncludeInPDF,
+  locale,
+}: {
+  distributions: ParameterDistribution[];
+  setDistributions: (d: ParameterDistribution[]) => void;
+  result: UncertaintyResult | null;
+  progress: number | null; // Share of samples done while running
+  onRun: (iterations: number) => void;
+  includeInPDF: boolean;
+  setIncludeInPDF: (include: boolean) => void;
+  locale: LocaleSettings;
+}) {
+  const [iterations, setIterations] = useState(2000);
+  const running = progress !== null;
+
+  const updateDistribution = (
+    index: number,
+    changes: Partial<ParameterDistribution>
+  ) => {
+    setDistributions(
+      distributions.map((d, i) => (i === index ? { ...d, ...changes } : d))
+    );
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: "0.4rem 0.5rem",
+    borderBottom: "1px solid #e2e8f0",
+    textAlign: "right",
+    whiteSpace: "nowrap",
+  };
+  const inputStyle: React.CSSProperties = {
+    width: "4.5rem",
+    padding: "0.25rem",
+    border: "1px solid #cbd5e1",
+    borderRadius: "4px",
+    textAlign: "right",
+  };
+
+  // Tornado bars are scaled around the base total
+  const maxDeviation = result
+    ? Math.max(
+        1,
+        ...result.tornado.map((t) =>
+          Math.max(
+            Math.abs(t.totalAtLow - result.baseTotal),
+            Math.abs(t.totalAtHigh - result.baseTotal)
+          )
+        )
+      )
+    : 1;
+
+  return (
+    <ParameterSection title="Uncertainty Analysis">
+      <p style={{ marginTop: 0, fontSize: "0.85rem", color: "#64748b" }}>
+        Each assumption below varies within its range (relative to the current
+        setting). The simulation samples the budget repeatedly to estimate a
+        likely range for each service line and ranks which assumptions move the
+        total the most. Normal ranges are read as P10 to P90.
+      </p>
+
+      <div style={{ overflowX: "auto", marginBottom: "1rem" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "0.85rem",
+          }}
+        >
+          <thead>
+            <tr style={{ color: "#64748b" }}>
+              <th style={{ ...cellStyle, textAlign: "left" }}>Assumption</th>
+              <th style={cellStyle}>Shape</th>
+              <th style={cellStyle}>Low %</th>
+              <th style={cellStyle}>High %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {distributions.map((d, i) => (
+              <tr key={d.key}>
+                <td style={{ ...cellStyle, textAlign: "left", color: "#374151" }}>
+                  {d.label}
+                </td>
+                <td style={cellStyle}>
+                  <select
+                    value={d.kind}
+                    onChange={(e) =>
+                      updateDistribution(i, {
+                        kind: e.target.value as DistributionKind,
+                      })
+                    }
+                    style={{ ...inputStyle, width: "auto", textAlign: "left" }}
+                  >
+                    <option value="triangular">Triangular</option>
+                    <option value="uniform">Uniform</option>
+                    <option value="normal">Normal</option>
+                  </select>
+                </td>
+                <td style={cellStyle}>
+                  <input
+                    type="number"
+                    step={5}
+                    max={0}
+                    min={-90}
+                    value={Math.round(d.lowPct * 100)}
+                    onChange={(e) =>
+                      updateDistribution(i, {
+                        lowPct: Math.min(0, Number(e.target.value)) / 100,
+                      })
+                    }
+                    style={inputStyle}
+                  />
+                </td>
+                <td style={cellStyle}>
+                  <input
+                    type="number"
+                    step={5}
+                    min={0}
+                    max={200}
+                    value={Math.round(d.highPct * 100)}
+                    onChange={(e) =>
+                      updateDistribution(i, {
+                        highPct: Math.max(0, Number(e.target.value)) / 100,
+                      })
+                    }
+                    style={inputStyle}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.75rem",
+          flexWrap: "wrap",
+          marginBottom: "1rem",
+        }}
+      >
+        <select
+          value={iterations}
+          onChange={(e) => setIterations(Number(e.target.value))}
+          style={{ padding: "0.4rem", borderRadius: "4px", border: "1px solid #cbd5e1" }}
+        >
+          <option value={1000}>1,000 samples</option>
+          <option value={2000}>2,000 samples</option>
+          <option value={5000}>5,000 samples</option>
+        </select>
+        <button
+          onClick={() => onRun(iterations)}
+          disabled={running}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: ginkgoTheme.colors.primary.orange,
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            cursor: running ? "not-allowed" : "pointer",
+            opacity: running ? 0.5 : 1,
+            fontWeight: 600,
+          }}
+        >
+          {running
+            ? `Simulating... ${Math.round((progress ?? 0) * 100)}%`
+            : "Run Simulation"}
+        </button>
+        <label style={{ fontSize: "0.85rem", color: "#374151" }}>
+          <input
+            type="checkbox"
+            checked={includeInPDF}
+            onChange={(e) => setIncludeInPDF(e.target.checked)}
+            style={{ marginRight: "0.4rem" }}
+          />
+          Include in PDF report
+        </label>
+      </div>
+
+      {!result && (
+        <p style={{ margin: 0, fontSize: "0.85rem", color: "#94a3b8" }}>
+          Run the simulation to see budget ranges. Results reset whenever
+          parameters change.
+        </p>
+      )}
+
+      {result && (
+        <>
+          <h4 style={{ margin: "0 0 0.5rem", color: "#1e293b" }}>
+            Budget Ranges ({formatNumber(result.iterations, locale)} samples)
+          </h4>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "0.85rem",
+              marginBottom: "1.5rem",
+            }}
+          >
+            <thead>
+              <tr style={{ color: "#64748b" }}>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Line</th>
+                <th style={cellStyle}>P10</th>
+                <th style={cellStyle}>P50</th>
+                <th style={cellStyle}>P90</th>
+              </tr>
+            </thead>
+            <tbody>
+              {UNCERTAINTY_LINES.filter(
+                ({ key }) => key !== "custom" || result.lines.custom.p90 > 0
+              ).map(({ key, label }) => (
+                <tr
+                  key={key}
+                  style={key === "total" ? { fontWeight: 600, color: "#1e293b" } : undefined}
+                >
+                  <td style={{ ...cellStyle, textAlign: "left" }}>{label}</td>
+                  <td style={cellStyle}>{formatCurrency(result.lines[key].p10, locale)}</td>
+                  <td style={cellStyle}>{formatCurrency(result.lines[key].p50, locale)}</td>
+                  <td style={cellStyle}>{formatCurrency(result.lines[key].p90, locale)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h4 style={{ margin: "0 0 0.25rem", color: "#1e293b" }}>
+            What Drives the Total
+          </h4>
+          <p style={{ margin: "0 0 0.75rem", fontSize: "0.8rem", color: "#64748b" }}>
+            Total budget with each assumption at the low and high end of its
+            range, others held at current values (base{" "}
+            {formatCurrency(result.baseTotal, locale)}).
+          </p>
+          {result.tornado.map((t) => {
+            const lowDelta = t.totalAtLow - result.baseTotal;
+            const highDelta = t.totalAtHigh - result.baseTotal;
+            const bar = (delta: number, color: string) => {
+              const width = (Math.abs(delta) / maxDeviation) * 50;
+              return (
+                <div
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    bottom: 0,
+                    left: delta < 0 ? `${50 - width}%` : "50%",
+                    width: `${width}%`,
+                    backgroundColor: color,
+                    opacity: 0.8,
+                  }}
+                />
+              );
+            };
+            return (
+              <div
+                key={t.key}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.75rem",
+                  marginBottom: "0.4rem",
+                  fontSize: "0.8rem",
+                }}
+              >
+                <div style={{ width: "35%", color: "#374151" }}>{t.label}</div>
+                <div
+                  style={{
+                    position: "relative",
+                    flex: 1,
+                    height: "14px",
+                    backgroundColor: "#e2e8f0",
+                    borderRadius: "2px",
+                  }}
+                  title={`Low: ${formatCurrency(t.totalAtLow, locale)} • High: ${formatCurrency(
+                    t.totalAtHigh,
+                    locale
+                  )}`}
+                >
+                  {bar(lowDelta, "#0ea5e9")}
+                  {bar(highDelta, ginkgoTheme.colors.primary.orange)}
+                  <div
+                    style={{
+                      position: "absolute",
+                      top: 0,
+                      bottom: 0,
+                      left: "50%",
+                      width: "1px",
+                      backgroundColor: "#1e293b",
+                    }}
+                  />
+                </div>
+                <div style={{ width: "5.5rem", textAlign: "right", color: "#64748b" }}>
+                  ±{formatCurrency(t.swing / 2, locale)}
+                </div>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </ParameterSection>
+  );
+}
+
+function ParameterSection({ title, children }: any) {
+  return (
+    <div
+      style={{
+        marginBottom: "2rem",
+        padding: "1.5rem",
+        backgroundColor: "#f8fafc",
+        borderRadius: "8px",
+      }}
+    >
+      <h3 style={{ marginTop: 0, marginBottom: "1rem", color: "#1e293b" }}>
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+// Lengths ("ft"), areas ("acres") and speeds ("mph") are stored in imperial
+// units; in metric the slider and its label work in metres, hectares and km/h
+function SliderInput({
+  label,
+  value,
+  min,
+  max,
+  step,
+  unit = "",
+  onChange,
+  issues = [],
+  locale = DEFAULT_LOCALE_SETTINGS,
+}: any) {
+  const scale =
+    unit === "ft"
+      ? toDisplayLength(1, locale)
+      : unit === "acres"
+      ? toDisplayArea(1, locale)
+      : unit === "mph"
+      ? toDisplaySpeed(1, locale)
+      : 1;
+  const shown = value * scale;
+
+  return (
+    <div style={{ marginBottom: "1rem" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <label style={{ fontSize: "0.9rem", color: "#64748b" }}>{label}</label>
+        <span style={{ fontWeight: 600 }}>
+          {unit === "$"
+            ? formatCurrency(value, locale)
+            : unit === "$/hr"
+            ? `${formatCurrency(value, locale, 2)}/hr`
+            : unit === "ft"
+            ? `${formatNumber(shown, locale, scale === 1 ? 0 : 1)} ${lengthUnit(locale)}`
+            : unit === "acres"
+            ? `${formatNumber(shown, locale, 2)} ${areaUnit(locale)}`
+            : unit === "mph"
+            ? `${formatNumber(shown, locale, 1)} ${speedUnit(locale)}`
+            : unit === "%"
+            ? value.toFixed(0) + "%"
+            : unit.startsWith(":")
+            ? value + unit
+            : unit
+            ? formatNumber(value, locale, 3) + " " + unit
+            : formatNumber(value, locale, 3)}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={min * scale}
+        max={max * scale}
+        step={step * scale}
+        value={shown}
+        onChange={(e) => onChange(Number(e.target.value) / scale)}
+        style={{
+          width: "100%",
+          height: "6px",
+          borderRadius: "3px",
+          background: `linear-gradient(to right, #0ea5e9 0%, #0ea5e9 ${
+            ((value - min) / (max - min)) * 100
+          }%, #e2e8f0 ${((value - min) / (max - min)) * 100}%, #e2e8f0 100%)`,
+          outline: "none",
+          WebkitAppearance: "none",
+        }}
+      />
+      <IssueList issues={issues} />
+    </div>
+  );
+}
+
+// Inline validation messages under a parameter control
+function IssueList({ issues }: { issues: ParameterIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div style={{ marginTop: "0.35rem" }}>
+      {issues.map((issue, i) => (
+        <div
+          key={i}
+          style={{
+            fontSize: "0.8rem",
+            color: issue.severity === "error" ? "#dc2626" : "#b45309",
+          }}
+        >
+          {issue.severity === "error" ? "⛔" : "⚠️"} {issue.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Category Pie Chart Component (places rolled up to service groups)
+function CategoryPieChart({
+  data,
+  groupOverrides,
+}: {
+  data: any;
+  groupOverrides: CategoryGroupOverrides;
+}) {
+  // Count places per detailed category, then per service group
+  const categoryCounts: Record<string, number> = {};
+
+  if (data.places && Array.isArray(data.places)) {
+    data.places.forEach((place: any) => {
+      if (place.properties && place.properties.category) {
+        const category = place.properties.category.toLowerCase();
+        categoryCounts[category] = (categoryCounts[category] || 0) + 1;
+      } else {
+        categoryCounts["other"] = (categoryCounts["other"] || 0) + 1;
+      }
+    });
+  }
+
+  const formatCategory = (category: string) =>
+    category
+      .split("_")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ");
+
+  // Detailed categories in each group, largest first, for tooltips
+  const groupMembers: Partial<Record<CategoryGroup, string[]>> = {};
+  Object.entries(categoryCounts)
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([category]) => {
+      const group = normalizeCategory(category, groupOverrides);
+      groupMembers[group] = [...(groupMembers[group] || []), category];
+    });
+
+  // Filter out groups with 0 places and prepare chart data
+  const chartLabels: string[] = [];
+  const chartData: number[] = [];
+  const chartColors: string[] = [];
+  const chartGroups: CategoryGroup[] = [];
+
+  const sortedGroups = (
+    Object.entries(groupCategoryBreakdown(categoryCounts, groupOverrides)) as [
+      CategoryGroup,
+      number
+    ][]
+  ).sort(([, a], [, b]) => b - a); // Sort by count descending
+
+  sortedGroups.forEach(([group, count]) => {
+    chartLabels.push(`${CATEGORY_GROUPS[group].label} (${count})`);
+    chartData.push(count);
+    chartColors.push(CATEGORY_GROUPS[group].color);
+    chartGroups.push(group);
+  });
+
+  const chartConfig = {
+    labels: chartLabels,
+    datasets: [
+      {
+        data: chartData,
         backgroundColor: chartColors,
         borderColor: chartColors.map((color) => color),
         borderWidth: 2,
@@ -2226,18 +7333,15 @@ function CategoryPieChart({ data }: { data: any }) {
             );
             const percentage = ((context.raw / total) * 100).toFixed(1);
 
-            // For "Other" category, show additional detail in tooltip
-            if (context.label.startsWith("Other")) {
-              const otherCategoryNames = otherCategories.map(([category]) =>
-                category
-                  .split("_")
-                  .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-                  .join(" ")
-              );
+            // Show the detailed categories behind each group
+            const members = (groupMembers[chartGroups[context.dataIndex]] || []).map(
+              formatCategory
+            );
+            if (members.length > 0) {
               return [
                 `${context.label}: ${percentage}%`,
-                `Includes: ${otherCategoryNames.slice(0, 5).join(", ")}${
-                  otherCategoryNames.length > 5 ? "..." : ""
+                `Includes: ${members.slice(0, 5).join(", ")}${
+                  members.length > 5 ? "..." : ""
                 }`,
               ];
             }
@@ -2314,6 +7418,388 @@ function CategoryPieChart({ data }: { data: any }) {
   );
 }
 
+// Assessment Revenue Component
+function AssessmentRevenue({
+  assessment,
+  funding,
+  locale,
+}: {
+  assessment: AssessmentAnalysis;
+  funding: FundingMix;
+  locale: LocaleSettings;
+}) {
+  const formatMoney = (value: number) => formatCurrency(value, locale);
+  const formatRate = (value: number) =>
+    value >= 100 ? formatMoney(value) : formatCurrency(value, locale, value >= 0.01 ? 2 : 4);
+
+  const distributionCell = (summary: any) =>
+    summary ? (
+      <div style={{ fontSize: "0.85rem", color: "#374151", lineHeight: 1.6 }}>
+        <div>Median: {formatMoney(summary.median)}</div>
+        <div>P10 – P90: {formatMoney(summary.p10)} – {formatMoney(summary.p90)}</div>
+        <div>Max: {formatMoney(summary.max)}</div>
+        <div style={{ color: "#94a3b8" }}>n = {formatNumber(summary.count, locale)}</div>
+      </div>
+    ) : (
+      <div style={{ fontSize: "0.85rem", color: "#94a3b8" }}>Not available</div>
+    );
+
+  return (
+    <div>
+      <div
+        style={{
+          backgroundColor: "#f0f9ff",
+          borderRadius: "8px",
+          padding: "1.5rem",
+          marginBottom: "2rem",
+          border: "1px solid #bfdbfe",
+        }}
+      >
+        <h3 style={{ margin: "0 0 0.5rem", color: "#075985" }}>
+          💰 Funding the Budget Through Assessments
+        </h3>
+        <p style={{ margin: 0, color: "#334155", fontSize: "0.9rem" }}>
+          Assessment rates needed to raise{" "}
+          <strong>{formatMoney(assessment.requiredRevenue)}</strong> per year
+          under each basis
+          {funding.nonAssessment > 0 &&
+            `, after ${formatMoney(funding.nonAssessment)} of contracts, grants and other revenue`}
+          . Burden distributions cover{" "}
+          {formatNumber(assessment.propertyCount, locale)} building footprints and{" "}
+          {formatNumber(assessment.businessCount, locale)} businesses (
+          {formatNumber(assessment.businessesMatchedToProperties, locale)} located
+          inside a footprint).
+        </p>
+      </div>
+
+      {assessment.propertyCount === 0 && (
+        <div
+          style={{
+            backgroundColor: "#fef3c7",
+            borderRadius: "8px",
+            padding: "1rem",
+            marginBottom: "1.5rem",
+            color: "#92400e",
+            fontSize: "0.9rem",
+          }}
+        >
+          ⚠️ No building footprints loaded, so floor-area bases and
+          per-property burdens are unavailable. Analyze the district again to
+          load buildings.
+        </div>
+      )}
+
+      {assessment.options.map((option) => (
+        <div
+          key={option.basis}
+          style={{
+            backgroundColor: "#f8fafc",
+            borderRadius: "8px",
+            padding: "1.5rem",
+            marginBottom: "1.5rem",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "baseline",
+              marginBottom: "1rem",
+            }}
+          >
+            <h3 style={{ margin: 0, color: "#1e293b" }}>{option.label}</h3>
+            <div>
+              <span
+                style={{ fontSize: "1.5rem", fontWeight: "bold", color: "#0ea5e9" }}
+              >
+                {formatRate(option.rate)}
+              </span>{" "}
+              <span style={{ color: "#64748b", fontSize: "0.9rem" }}>
+                {option.rateUnit}
+              </span>
+            </div>
+          </div>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(3, 1fr)",
+              gap: "1rem",
+            }}
+          >
+            <div>
+              <div style={{ fontWeight: 600, marginBottom: "0.25rem" }}>
+                Assessable Units
+              </div>
+              <div style={{ fontSize: "0.85rem", color: "#374151" }}>
+                {formatNumber(option.totalUnits, locale)}
+              </div>
+              {option.note && (
+                <div
+                  style={{ fontSize: "0.8rem", color: "#94a3b8", marginTop: "0.5rem" }}
+                >
+                  {option.note}
+                </div>
+              )}
+            </div>
+            <div>
+              <div style={{ fontWeight: 600, marginBottom: "0.25rem" }}>
+                Per Property
+              </div>
+              {distributionCell(option.perProperty)}
+            </div>
+            <div>
+              <div style={{ fontWeight: 600, marginBottom: "0.25rem" }}>
+                Per Business
+              </div>
+              {distributionCell(option.perBusiness)}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PeerBenchmarks({
+  benchmark,
+  loading,
+  error,
+  peerCount,
+  onRetry,
+  locale,
+}: {
+  benchmark: PeerBenchmark | null;
+  loading: boolean;
+  error: string | null;
+  peerCount: number | null;
+  onRetry: () => void;
+  locale: LocaleSettings;
+}) {
+  // Peer budgets are published in US dollars; spend per acre and per curb
+  // foot are shown per hectare and per metre in metric
+  const metric = locale.unit_system === "metric";
+  const usd = { ...locale, currency: "USD" };
+  const scales: Record<keyof BenchmarkMetrics, number> = {
+    perAcre: toDisplayArea(1, locale),
+    perBusiness: 1,
+    perFrontageFt: toDisplayLength(1, locale),
+  };
+  const formatMoney = (
+    value: number | null,
+    key: keyof BenchmarkMetrics | null = null,
+    settings: LocaleSettings = usd
+  ) =>
+    value === null
+      ? "—"
+      : formatCurrency(
+          key ? value / scales[key] : value,
+          settings,
+          key === "perFrontageFt" ? 2 : 0
+        );
+  // Road km per square km is road miles per square mile over km per mile
+  const formatDensity = (value: number | null) =>
+    value === null
+      ? "—"
+      : formatNumber(metric ? value / KM_PER_MILE : value, locale, 1, 1);
+  const formatVersus = (value: number | null) =>
+    value === null ? "" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(0)}% vs peer median`;
+
+  const cellStyle: React.CSSProperties = {
+    padding: "0.5rem",
+    borderBottom: "1px solid #e2e8f0",
+    textAlign: "right",
+    whiteSpace: "nowrap",
+  };
+
+  if (loading) {
+    return <p style={{ color: "#64748b" }}>Loading peer BIDs...</p>;
+  }
+  if (error) {
+    return (
+      <div style={{ color: "#dc2626", fontSize: "0.9rem" }}>
+        ⚠️ {error}{" "}
+        <button
+          onClick={onRetry}
+          style={{
+            marginLeft: "0.5rem",
+            padding: "0.3rem 0.6rem",
+            border: "1px solid #cbd5e1",
+            borderRadius: "4px",
+            backgroundColor: "white",
+            cursor: "pointer",
+          }}
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+  if (!benchmark || benchmark.peers.length === 0) {
+    return (
+      <p style={{ color: "#64748b" }}>
+        {peerCount === 0
+          ? "No active BIDs with a published budget are available for comparison."
+          : "Peer BIDs have not been loaded yet."}
+      </p>
+    );
+  }
+
+  const metricCards: {
+    key: keyof BenchmarkMetrics;
+    label: string;
+  }[] = [
+    { key: "perAcre", label: metric ? "Per Hectare" : "Per Acre" },
+    { key: "perBusiness", label: "Per Business" },
+    { key: "perFrontageFt", label: metric ? "Per Curb Metre" : "Per Curb Foot" },
+  ];
+
+  return (
+    <div>
+      <div
+        style={{
+          backgroundColor: "#f0f9ff",
+          borderRadius: "8px",
+          padding: "1.5rem",
+          marginBottom: "2rem",
+          border: "1px solid #bfdbfe",
+        }}
+      >
+        <h3 style={{ margin: "0 0 0.5rem", color: "#075985" }}>
+          📊 What Comparable Districts Spend
+        </h3>
+        <p style={{ margin: 0, color: "#334155", fontSize: "0.9rem" }}>
+          The {benchmark.peers.length} active BIDs (of{" "}
+          {formatNumber(benchmark.candidateCount, locale)} with published budgets)
+          closest to this district in size, business count, road density and
+          business mix, with their actual annual budgets next to this
+          estimate.
+        </p>
+      </div>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(3, 1fr)",
+          gap: "1rem",
+          marginBottom: "2rem",
+        }}
+      >
+        {metricCards.map(({ key, label }) => (
+          <div
+            key={key}
+            style={{
+              backgroundColor: "#f8fafc",
+              borderRadius: "8px",
+              padding: "1rem",
+            }}
+          >
+            <div style={{ fontWeight: 600, color: "#1e293b", marginBottom: "0.5rem" }}>
+              {label}
+            </div>
+            <div style={{ fontSize: "1.5rem", fontWeight: "bold", color: "#0ea5e9" }}>
+              {formatMoney(benchmark.estimate[key], key, locale)}
+            </div>
+            <div style={{ fontSize: "0.85rem", color: "#374151" }}>
+              Peer median {formatMoney(benchmark.median[key], key)}
+            </div>
+            <div style={{ fontSize: "0.8rem", color: "#64748b" }}>
+              {formatVersus(benchmark.versusMedian[key])}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!benchmark.comparable && (
+        <p style={{ fontSize: "0.85rem", color: "#92400e", marginTop: "-1rem" }}>
+          ⚠️ Peer budgets are in {REFERENCE_BUDGET_CURRENCY} and this estimate is
+          in {locale.currency}, so they are not compared. Switch the currency to{" "}
+          {REFERENCE_BUDGET_CURRENCY} to compare against peers.
+        </p>
+      )}
+
+      {benchmark.estimate.perFrontageFt === null && (
+        <p style={{ fontSize: "0.85rem", color: "#92400e", marginTop: "-1rem" }}>
+          ⚠️ Street segments are not loaded for this district, so spend per
+          curb {metric ? "metre" : "foot"} cannot be compared.
+        </p>
+      )}
+
+      <div style={{ overflowX: "auto" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "0.85rem",
+            fontFamily: ginkgoTheme.typography.fontFamily.body,
+          }}
+        >
+          <thead>
+            <tr style={{ backgroundColor: "#f8fafc" }}>
+              <th style={{ ...cellStyle, textAlign: "left" }}>District</th>
+              <th style={cellStyle}>{metric ? "Hectares" : "Acres"}</th>
+              <th style={cellStyle}>Businesses</th>
+              <th style={cellStyle}>{metric ? "Road km / km²" : "Road mi / sq mi"}</th>
+              <th style={cellStyle}>Annual Budget</th>
+              <th style={cellStyle}>{metric ? "Per Ha" : "Per Acre"}</th>
+              <th style={cellStyle}>Per Business</th>
+              <th style={cellStyle}>{metric ? "Per Curb M" : "Per Curb Ft"}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr style={{ fontWeight: 600, backgroundColor: "#fff7ed" }}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>This district (estimate)</td>
+              <td style={cellStyle}>
+                {formatNumber(toDisplayArea(benchmark.subject.areaAcres, locale), locale, 1, 1)}
+              </td>
+              <td style={cellStyle}>{formatNumber(benchmark.subject.businessCount, locale)}</td>
+              <td style={cellStyle}>{formatDensity(benchmark.subject.roadDensity)}</td>
+              <td style={cellStyle}>—</td>
+              <td style={cellStyle}>
+                {formatMoney(benchmark.estimate.perAcre, "perAcre", locale)}
+              </td>
+              <td style={cellStyle}>
+                {formatMoney(benchmark.estimate.perBusiness, "perBusiness", locale)}
+              </td>
+              <td style={cellStyle}>
+                {formatMoney(benchmark.estimate.perFrontageFt, "perFrontageFt", locale)}
+              </td>
+            </tr>
+            {benchmark.peers.map((peer) => (
+              <tr key={peer.bid.bidId}>
+                <td style={{ ...cellStyle, textAlign: "left", whiteSpace: "normal" }}>
+                  {peer.bid.name}
+                  {(peer.bid.city || peer.bid.state) && (
+                    <span style={{ color: "#94a3b8" }}>
+                      {" "}
+                      — {[peer.bid.city, peer.bid.state].filter(Boolean).join(", ")}
+                    </span>
+                  )}
+                </td>
+                <td style={cellStyle}>
+                  {formatNumber(toDisplayArea(peer.profile.areaAcres, locale), locale, 1, 1)}
+                </td>
+                <td style={cellStyle}>{formatNumber(peer.profile.businessCount, locale)}</td>
+                <td style={cellStyle}>{formatDensity(peer.profile.roadDensity)}</td>
+                <td style={cellStyle}>{formatMoney(peer.bid.annualBudget)}</td>
+                <td style={cellStyle}>{formatMoney(peer.metrics.perAcre, "perAcre")}</td>
+                <td style={cellStyle}>{formatMoney(peer.metrics.perBusiness, "perBusiness")}</td>
+                <td style={cellStyle}>
+                  {formatMoney(peer.metrics.perFrontageFt, "perFrontageFt")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p style={{ fontSize: "0.8rem", color: "#94a3b8", marginTop: "0.75rem" }}>
+        Peers are listed closest first. Curb {metric ? "metres" : "feet"} count
+        both sides of the road classes selected under Street Frontage. Peer
+        budgets are as published and are not adjusted for regional costs.
+      </p>
+    </div>
+  );
+}
+
 // Export road data as GeoJSON
 function exportRoadData(segmentsData: any, segmentsGeoJSON: any, selectedRoadClasses: string[]) {
   try {
@@ -3077,7 +8563,9 @@ function BuildingsAnalytics({
               fontWeight: "bold", 
               color: ginkgoTheme.colors.primary.navy
             }}>
-              {buildingsMetrics.bid_area_acres?.toFixed(2) || 0} acres
+              {useMetricUnits
+                ? `${((buildingsMetrics.bid_area_acres || 0) / ACRES_PER_HECTARE).toFixed(2)} ha`
+                : `${buildingsMetrics.bid_area_acres?.toFixed(2) || 0} acres`}
             </div>
           </div>
         </div>
@@ -0,0 +1,321 @@
+/**
+ * Business Category Taxonomy
+ * Maps detailed Overture place categories (thai_restaurant, coffee_shop,
+ * nightclub, ...) to the service groups used for intensity weights, and each
+ * group to a top-level family matching the base categories in
+ * categoryColors.ts. Used by:
+ * - Service intensity and place typology
+ * - Service demand indicators
+ * - Category pie chart and PDF business mix
+ */
+
+export type CategoryFamily =
+  | "food_and_drink"
+  | "shopping"
+  | "entertainment"
+  | "services"
+  | "health"
+  | "education"
+  | "finance"
+  | "government"
+  | "transportation"
+  | "lodging"
+  | "other";
+
+export type CategoryGroup =
+  | "restaurant"
+  | "cafe"
+  | "bar"
+  | "entertainment"
+  | "recreation"
+  | "retail"
+  | "grocery"
+  | "personal_care"
+  | "professional"
+  | "trades"
+  | "finance"
+  | "health"
+  | "education"
+  | "civic"
+  | "transportation"
+  | "lodging"
+  | "other";
+
+// Detailed category → group reassignments made by the user
+export type CategoryGroupOverrides = Record<string, CategoryGroup>;
+
+export interface CategoryGroupInfo {
+  label: string;
+  family: CategoryFamily;
+  color: string;
+}
+
+export const CATEGORY_FAMILY_LABELS: Record<CategoryFamily, string> = {
+  food_and_drink: "Food & Drink",
+  shopping: "Shopping",
+  entertainment: "Entertainment & Recreation",
+  services: "Services",
+  health: "Health",
+  education: "Education",
+  finance: "Finance",
+  government: "Government & Community",
+  transportation: "Transportation",
+  lodging: "Lodging",
+  other: "Other",
+};
+
+export const CATEGORY_GROUPS: Record<CategoryGroup, CategoryGroupInfo> = {
+  restaurant: { label: "Restaurants", family: "food_and_drink", color: "#f37129" },
+  cafe: { label: "Cafes & Bakeries", family: "food_and_drink", color: "#78350f" },
+  bar: { label: "Bars & Nightlife", family: "food_and_drink", color: "#dc2626" },
+  entertainment: { label: "Arts & Entertainment", family: "entertainment", color: "#ec4899" },
+  recreation: { label: "Fitness & Recreation", family: "entertainment", color: "#22c55e" },
+  retail: { label: "Retail", family: "shopping", color: "#0feaa6" },
+  grocery: { label: "Grocery & Convenience", family: "shopping", color: "#0d9488" },
+  personal_care: { label: "Personal Care", family: "services", color: "#db2777" },
+  professional: { label: "Professional Services", family: "services", color: "#3b82f6" },
+  trades: { label: "Repair & Trades", family: "services", color: "#047857" },
+  finance: { label: "Banking & Finance", family: "finance", color: "#8b5cf6" },
+  health: { label: "Health & Medical", family: "health", color: "#034744" },
+  education: { label: "Education & Child Care", family: "education", color: "#162e54" },
+  civic: { label: "Civic & Religious", family: "government", color: "#9e765f" },
+  transportation: { label: "Transportation & Auto", family: "transportation", color: "#06b6d4" },
+  lodging: { label: "Lodging", family: "lodging", color: "#f43f5e" },
+  other: { label: "Other", family: "other", color: "#6b7280" },
+};
+
+// Detailed categories per group; coarse keys (food, shopping, services...)
+// are included so legacy breakdowns normalize the same way
+const GROUP_MEMBERS: Record<CategoryGroup, string[]> = {
+  restaurant: [
+    "restaurant", "food", "food_and_drink", "eat_and_drink", "caterer",
+    "fine_dining", "casual_dining", "family_restaurant", "quick_service",
+    "fast_food_restaurant", "buffet_restaurant", "diner", "bistro",
+    "steakhouse", "deli", "sandwich_shop", "pizza_place", "burger_joint",
+    "food_truck", "food_court", "food_stand", "noodle_house", "taqueria",
+    "brasserie", "gastropub", "salad_bar", "soup_spot", "hot_dog_stand",
+  ],
+  cafe: [
+    "cafe", "coffee_shop", "coffee_house", "coffee_bar", "espresso_bar",
+    "coffee_roastery", "internet_cafe", "tea_room", "bubble_tea",
+    "juice_bar", "smoothie_bar", "bakery", "bagel_shop", "donut_shop",
+    "cupcake_shop", "dessert_shop", "ice_cream_shop", "frozen_yoghurt_shop",
+    "chocolatier", "creperie", "patisserie",
+  ],
+  bar: [
+    "bar", "pub", "wine_bar", "cocktail_bar", "sports_bar", "neighborhood_bar",
+    "dive_bar", "beer_bar", "beer_garden", "hookah_bar", "lounge",
+    "nightclub", "dance_club", "nightlife", "karaoke", "brewery",
+    "distillery", "winery", "taproom", "speakeasy", "irish_pub", "bartender",
+  ],
+  entertainment: [
+    "entertainment", "arts_and_entertainment", "attractions_and_activities",
+    "theatre", "theater", "movie_theater", "cinema", "topic_concert_venue",
+    "music_venue", "comedy_club", "performing_arts", "event_venue", "casino",
+    "bowling_alley", "arcade", "escape_room", "amusement_park", "stadium",
+    "arena", "zoo", "aquarium", "museum", "art_gallery", "gallery",
+    "convention_center", "landmark_and_historical_building", "tourist_attraction",
+  ],
+  recreation: [
+    "recreation", "leisure", "active_life", "gym", "fitness_center",
+    "fitness_gym", "workout_gym", "sports_gym", "yoga_studio", "pilates_studio",
+    "dance_studio", "martial_arts", "boxing_class", "climbing_gym",
+    "sports_club", "golf_course", "park", "playground", "swimming_pool",
+  ],
+  retail: [
+    "retail", "shopping", "store", "shop", "boutique", "department_store",
+    "shopping_center", "clothing_store", "clothing_rental", "shoe_store",
+    "fashion_accessories_store", "jewelry_store", "wig_store", "furniture_store",
+    "mattress_store", "carpet_store", "hardware_store", "building_supply_store",
+    "electronics_store", "sporting_goods_store", "bicycle_shop", "toy_store",
+    "book_store", "music_store", "gift_shop", "flowers_and_gifts_shop",
+    "florist", "antique_store", "thrift_store", "arts_and_crafts", "pet_store",
+    "cannabis_dispensary", "vape_shop", "tobacco_shop", "mobile_phone_store",
+    "optical_store", "cosmetic_and_beauty_supply", "arms",
+  ],
+  grocery: [
+    "grocery_store", "supermarket", "convenience_store", "liquor_store",
+    "farmers_market", "market", "butcher_shop", "specialty_food_store",
+    "health_food_store", "international_grocery_store", "pharmacy", "drugstore",
+  ],
+  personal_care: [
+    "beauty_salon", "beauty_and_spa", "beauty_spa", "hair_salon", "barber",
+    "nail_salon", "nail_spa", "spa", "spas", "day_spa", "spa_salon",
+    "health_spa", "massage", "tanning_salon", "tattoo_and_piercing",
+    "laundromat", "dry_cleaner", "laundry_services", "wellness_center",
+  ],
+  professional: [
+    "service", "services", "professional", "professional_services",
+    "advertising_agency", "marketing_agency", "printing_services",
+    "engineering_services", "architect", "law_office", "lawyer",
+    "accountant", "insurance_agency", "real_estate_agent", "real_estate",
+    "property_management", "event_photography", "photographer",
+    "employment_agency", "coworking_space", "it_service_and_computer_repair",
+    "funeral_services_and_cemeteries", "business_to_business",
+  ],
+  trades: [
+    "repair", "contractor", "electrician", "plumbing", "construction_services",
+    "appliance_repair_service", "home_service", "locksmith", "hvac_services",
+    "landscaping", "cleaning_services", "shoe_repair", "tailor",
+  ],
+  finance: [
+    "finance", "financial_service", "bank", "credit_union", "bank_credit_union",
+    "atm", "check_cashing", "tax_services", "investment_management",
+  ],
+  health: [
+    "health", "health_and_medical", "doctor", "dentist", "dental_office",
+    "medical_office", "medical_spa", "clinic", "urgent_care_clinic", "hospital",
+    "chiropractor", "acupuncture", "naturopathic_holistic", "physical_therapy",
+    "counseling_and_mental_health", "optometrist", "cannabis_clinic",
+    "veterinary_clinic", "veterinarian",
+  ],
+  education: [
+    "education", "school", "college_university", "university", "library",
+    "child_care_and_day_care", "daycare", "preschool", "tutoring_center",
+    "driving_school", "language_school", "music_school",
+  ],
+  civic: [
+    "government", "public_service_and_government", "post_office",
+    "police_station", "fire_station", "courthouse", "city_hall",
+    "community_services_non_profits", "community_services_non_profit",
+    "community_center", "senior_center", "social_service_organizations",
+    "religious_organization", "church", "mosque", "synagogue", "temple",
+    "cemetery",
+  ],
+  transportation: [
+    "transportation", "automotive", "automotive_repair", "auto_repair",
+    "car_repair", "vehicle_repair", "auto_body_shop", "auto_glass_service", "car_wash",
+    "car_dealer", "gas_station", "parking", "parking_lot", "bus_station",
+    "train_station", "taxi_service", "travel", "travel_agency", "car_rental",
+  ],
+  lodging: [
+    "lodging", "accommodation", "hotel", "motel", "hostel", "inn",
+    "bed_and_breakfast", "resort", "vacation_rental",
+  ],
+  other: ["other", "unknown", "apartments", "structure_and_geography"],
+};
+
+// Suffix rules for detailed categories not listed above, checked in order
+const SUFFIX_RULES: [string, CategoryGroup][] = [
+  ["_restaurant", "restaurant"],
+  ["_cafe", "cafe"],
+  ["_bakery", "cafe"],
+  ["_bar", "bar"],
+  ["_pub", "bar"],
+  ["_club", "bar"],
+  ["_brewery", "bar"],
+  ["_venue", "entertainment"],
+  ["_theater", "entertainment"],
+  ["_theatre", "entertainment"],
+  ["_museum", "entertainment"],
+  ["_gym", "recreation"],
+  ["_studio", "recreation"],
+  ["_market", "grocery"],
+  ["_grocery", "grocery"],
+  ["_store", "retail"],
+  ["_shop", "retail"],
+  ["_salon", "personal_care"],
+  ["_spa", "personal_care"],
+  ["_clinic", "health"],
+  ["_doctor", "health"],
+  ["_dentist", "health"],
+  ["_hospital", "health"],
+  ["_school", "education"],
+  ["_hotel", "lodging"],
+  ["_bank", "finance"],
+  ["_repair", "trades"],
+  ["_contractor", "trades"],
+  ["_office", "professional"],
+  ["_agency", "professional"],
+  ["_service", "professional"],
+  ["_services", "professional"],
+];
+
+/**
+ * Detailed category → service group lookup
+ */
+export const CATEGORY_TAXONOMY: Record<string, CategoryGroup> =
+  Object.fromEntries(
+    (Object.entries(GROUP_MEMBERS) as [CategoryGroup, string[]][]).flatMap(
+      ([group, members]) => members.map((category) => [category, group])
+    )
+  );
+
+/**
+ * Canonical key for a category name
+ * @param category - Category name in any case or spacing
+ * @returns Lowercase, underscore-separated key
+ */
+export function categoryKey(category: string): string {
+  return category.toLowerCase().trim().replace(/\s+/g, "_");
+}
+
+/**
+ * Normalize a category to its service group
+ * @param category - Detailed or coarse category name (case-insensitive)
+ * @param overrides - User reassignments, checked before the taxonomy
+ * @returns Service group, "other" when unrecognized
+ */
+export function normalizeCategory(
+  category: string,
+  overrides: CategoryGroupOverrides = {}
+): CategoryGroup {
+  if (!category) return "other";
+
+  const key = categoryKey(category);
+  if (CATEGORY_GROUPS[overrides[key]]) return overrides[key];
+  if (CATEGORY_TAXONOMY[key]) return CATEGORY_TAXONOMY[key];
+
+  const rule = SUFFIX_RULES.find(([suffix]) => key.endsWith(suffix));
+  return rule ? rule[1] : "other";
+}
+
+/**
+ * Get the top-level family for a category
+ * @param category - Detailed or coarse category name
+ * @param overrides - User reassignments
+ * @returns Family the category's service group belongs to
+ */
+export function getCategoryFamily(
+  category: string,
+  overrides: CategoryGroupOverrides = {}
+): CategoryFamily {
+  return CATEGORY_GROUPS[normalizeCategory(category, overrides)].family;
+}
+
+/**
+ * Roll a detailed category breakdown up to service groups
+ * @param breakdown - Counts keyed by detailed category
+ * @param overrides - User reassignments
+ * @returns Counts keyed by service group (groups with no places omitted)
+ */
+export function groupCategoryBreakdown(
+  breakdown: Record<string, number> | null | undefined,
+  overrides: CategoryGroupOverrides = {}
+): Partial<Record<CategoryGroup, number>> {
+  const grouped: Partial<Record<CategoryGroup, number>> = {};
+  Object.entries(breakdown || {}).forEach(([category, count]) => {
+    if (!count) return;
+    const group = normalizeCategory(category, overrides);
+    grouped[group] = (grouped[group] || 0) + count;
+  });
+  return grouped;
+}
+
+/**
+ * Roll a detailed category breakdown up to top-level families
+ * @param breakdown - Counts keyed by detailed category
+ * @param overrides - User reassignments
+ * @returns Counts keyed by family (families with no places omitted)
+ */
+export function familyCategoryBreakdown(
+  breakdown: Record<string, number> | null | undefined,
+  overrides: CategoryGroupOverrides = {}
+): Partial<Record<CategoryFamily, number>> {
+  const families: Partial<Record<CategoryFamily, number>> = {};
+  Object.entries(groupCategoryBreakdown(breakdown, overrides)).forEach(([group, count]) => {
+    const family = CATEGORY_GROUPS[group as CategoryGroup].family;
+    families[family] = (families[family] || 0) + (count || 0);
+  });
+  return families;
+}
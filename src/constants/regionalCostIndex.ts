@@ -0,0 +1,101 @@
+/**
+ * Regional Cost Indices
+ * Bundled metro-level multipliers used to localize the US-average rates in
+ * DEFAULT_BUDGET_PARAMS. Values are relative to the US average (1.00).
+ * - wageIndex scales the loaded hourly rates (cleaning, supervision, safety)
+ * - priceIndex scales unit costs and marketing spend
+ */
+
+export interface RegionalCostIndex {
+  id: string;
+  name: string;
+  wageIndex: number;
+  priceIndex: number;
+  lat?: number; // Metro center, used for nearest-metro lookup
+  lng?: number;
+}
+
+export const REGIONAL_COST_INDEX_SOURCE =
+  "Approximate snapshot: wage indices from BLS OEWS metro wages for janitors and security guards (May 2023); " +
+  "price indices from BEA Regional Price Parities (2022). Verify against local bids before finalizing.";
+
+// Metros farther than this from a district fall back to the nonmetro index
+export const METRO_MATCH_RADIUS_MILES = 50;
+
+// Coarse [west, south, east, north] boxes covering the US states and Puerto
+// Rico. The indices only describe the US, so points outside these boxes keep
+// the national average. Towns right on a border may fall on either side.
+export const US_COVERAGE_BOUNDS: [number, number, number, number][] = [
+  [-124.8, 32.5, -123.2, 48.4], // Pacific coast, south of Vancouver Island
+  [-123.2, 32.5, -114.1, 49.0], // West coast states and the Great Basin
+  [-114.1, 31.3, -104.0, 49.0], // Mountain states and the Southwest
+  [-104.0, 29.0, -93.5, 49.0], // Plains and north Texas
+  [-100.0, 25.8, -93.5, 29.0], // South Texas
+  [-93.5, 29.0, -82.4, 47.5], // Midwest, Great Lakes and the Gulf coast
+  [-87.7, 24.4, -79.9, 31.0], // Florida
+  [-82.4, 29.0, -79.0, 42.3], // Ohio valley and the Carolinas
+  [-79.0, 29.0, -66.9, 43.4], // Mid-Atlantic and southern New England
+  [-76.3, 43.4, -71.5, 45.0], // Northern New York, Vermont and New Hampshire
+  [-71.5, 43.0, -66.9, 47.5], // Maine
+  [-179.2, 51.2, -141.0, 71.4], // Alaska
+  [-141.0, 54.6, -129.9, 60.4], // Alaska panhandle
+  [-160.3, 18.9, -154.8, 22.3], // Hawaii
+  [-67.3, 17.9, -64.5, 18.6], // Puerto Rico and the Virgin Islands
+];
+
+export const NATIONAL_COST_INDEX: RegionalCostIndex = {
+  id: "national",
+  name: "US Average",
+  wageIndex: 1.0,
+  priceIndex: 1.0,
+};
+
+export const NONMETRO_COST_INDEX: RegionalCostIndex = {
+  id: "nonmetro",
+  name: "Nonmetropolitan US",
+  wageIndex: 0.85,
+  priceIndex: 0.88,
+};
+
+export const METRO_COST_INDICES: RegionalCostIndex[] = [
+  { id: "new-york", name: "New York, NY", lat: 40.7128, lng: -74.006, wageIndex: 1.3, priceIndex: 1.2 },
+  { id: "los-angeles", name: "Los Angeles, CA", lat: 34.0522, lng: -118.2437, wageIndex: 1.22, priceIndex: 1.16 },
+  { id: "chicago", name: "Chicago, IL", lat: 41.8781, lng: -87.6298, wageIndex: 1.08, priceIndex: 1.03 },
+  { id: "dallas", name: "Dallas-Fort Worth, TX", lat: 32.7767, lng: -96.797, wageIndex: 0.95, priceIndex: 1.01 },
+  { id: "houston", name: "Houston, TX", lat: 29.7604, lng: -95.3698, wageIndex: 0.93, priceIndex: 1.0 },
+  { id: "washington", name: "Washington, DC", lat: 38.9072, lng: -77.0369, wageIndex: 1.18, priceIndex: 1.13 },
+  { id: "philadelphia", name: "Philadelphia, PA", lat: 39.9526, lng: -75.1652, wageIndex: 1.05, priceIndex: 1.04 },
+  { id: "miami", name: "Miami, FL", lat: 25.7617, lng: -80.1918, wageIndex: 0.98, priceIndex: 1.1 },
+  { id: "atlanta", name: "Atlanta, GA", lat: 33.749, lng: -84.388, wageIndex: 0.97, priceIndex: 1.0 },
+  { id: "boston", name: "Boston, MA", lat: 42.3601, lng: -71.0589, wageIndex: 1.25, priceIndex: 1.13 },
+  { id: "phoenix", name: "Phoenix, AZ", lat: 33.4484, lng: -112.074, wageIndex: 1.0, priceIndex: 1.01 },
+  { id: "san-francisco", name: "San Francisco-Oakland, CA", lat: 37.7749, lng: -122.4194, wageIndex: 1.42, priceIndex: 1.2 },
+  { id: "san-jose", name: "San Jose, CA", lat: 37.3382, lng: -121.8863, wageIndex: 1.4, priceIndex: 1.22 },
+  { id: "riverside", name: "Riverside-San Bernardino, CA", lat: 33.9806, lng: -117.3755, wageIndex: 1.06, priceIndex: 1.05 },
+  { id: "detroit", name: "Detroit, MI", lat: 42.3314, lng: -83.0458, wageIndex: 0.98, priceIndex: 0.97 },
+  { id: "seattle", name: "Seattle, WA", lat: 47.6062, lng: -122.3321, wageIndex: 1.3, priceIndex: 1.14 },
+  { id: "minneapolis", name: "Minneapolis-St. Paul, MN", lat: 44.9778, lng: -93.265, wageIndex: 1.1, priceIndex: 1.01 },
+  { id: "san-diego", name: "San Diego, CA", lat: 32.7157, lng: -117.1611, wageIndex: 1.17, priceIndex: 1.15 },
+  { id: "tampa", name: "Tampa, FL", lat: 27.9506, lng: -82.4572, wageIndex: 0.92, priceIndex: 1.0 },
+  { id: "denver", name: "Denver, CO", lat: 39.7392, lng: -104.9903, wageIndex: 1.12, priceIndex: 1.07 },
+  { id: "st-louis", name: "St. Louis, MO", lat: 38.627, lng: -90.1994, wageIndex: 0.95, priceIndex: 0.93 },
+  { id: "baltimore", name: "Baltimore, MD", lat: 39.2904, lng: -76.6122, wageIndex: 1.05, priceIndex: 1.04 },
+  { id: "orlando", name: "Orlando, FL", lat: 28.5383, lng: -81.3792, wageIndex: 0.93, priceIndex: 1.0 },
+  { id: "charlotte", name: "Charlotte, NC", lat: 35.2271, lng: -80.8431, wageIndex: 0.93, priceIndex: 0.98 },
+  { id: "san-antonio", name: "San Antonio, TX", lat: 29.4241, lng: -98.4936, wageIndex: 0.88, priceIndex: 0.95 },
+  { id: "portland", name: "Portland, OR", lat: 45.5152, lng: -122.6784, wageIndex: 1.18, priceIndex: 1.06 },
+  { id: "sacramento", name: "Sacramento, CA", lat: 38.5816, lng: -121.4944, wageIndex: 1.15, priceIndex: 1.06 },
+  { id: "pittsburgh", name: "Pittsburgh, PA", lat: 40.4406, lng: -79.9959, wageIndex: 0.94, priceIndex: 0.95 },
+  { id: "austin", name: "Austin, TX", lat: 30.2672, lng: -97.7431, wageIndex: 0.98, priceIndex: 1.02 },
+  { id: "las-vegas", name: "Las Vegas, NV", lat: 36.1699, lng: -115.1398, wageIndex: 1.02, priceIndex: 1.0 },
+  { id: "cincinnati", name: "Cincinnati, OH", lat: 39.1031, lng: -84.512, wageIndex: 0.93, priceIndex: 0.93 },
+  { id: "kansas-city", name: "Kansas City, MO", lat: 39.0997, lng: -94.5786, wageIndex: 0.95, priceIndex: 0.94 },
+  { id: "columbus", name: "Columbus, OH", lat: 39.9612, lng: -82.9988, wageIndex: 0.94, priceIndex: 0.94 },
+  { id: "cleveland", name: "Cleveland, OH", lat: 41.4993, lng: -81.6944, wageIndex: 0.92, priceIndex: 0.92 },
+  { id: "indianapolis", name: "Indianapolis, IN", lat: 39.7684, lng: -86.1581, wageIndex: 0.93, priceIndex: 0.94 },
+  { id: "nashville", name: "Nashville, TN", lat: 36.1627, lng: -86.7816, wageIndex: 0.94, priceIndex: 0.99 },
+  { id: "new-orleans", name: "New Orleans, LA", lat: 29.9511, lng: -90.0715, wageIndex: 0.9, priceIndex: 0.96 },
+  { id: "salt-lake-city", name: "Salt Lake City, UT", lat: 40.7608, lng: -111.891, wageIndex: 1.0, priceIndex: 1.0 },
+  { id: "honolulu", name: "Honolulu, HI", lat: 21.3069, lng: -157.8583, wageIndex: 1.15, priceIndex: 1.18 },
+  { id: "anchorage", name: "Anchorage, AK", lat: 61.2181, lng: -149.9003, wageIndex: 1.12, priceIndex: 1.05 },
+];
@@ -13,6 +13,11 @@ import {
 } from "./components/GinkgoStyledPanel";
 import { ginkgoTheme } from "./styles/ginkgoTheme";
 import { CATEGORY_COLORS } from "./constants/categoryColors";
+import {
+  RegionalCostSelection,
+  findRegionalIndex,
+  polygonCentroid,
+} from "./utils/regionalCosts";
 import { 
   addSmartSegmentsLayers, 
   removeAllSegmentLayers, 
@@ -57,7 +62,6 @@ export default function Root() {
   const [selectedRoadClasses, setSelectedRoadClasses] = useState<string[]>([
     'motorway', 'trunk', 'primary', 'secondary', 'tertiary', 'residential', 'service', 'unclassified'
   ]);
-  const [useMetricUnits, setUseMetricUnits] = useState(true);
   const [segmentsGeoJSON, setSegmentsGeoJSON] = useState<any>(null);
   const [useMVTTiles, setUseMVTTiles] = useState(false);
   const [currentLayerType, setCurrentLayerType] = useState<'mvt' | 'geojson' | 'none'>('none');
@@ -72,6 +76,9 @@ export default function Root() {
   const [showPlaces, setShowPlaces] = useState(true);
   const [selectedPlaceCategories, setSelectedPlaceCategories] = useState<string[]>([]);
 
+  // Regional cost index, from the searched location or the district centroid
+  const [regionalCost, setRegionalCost] = useState<RegionalCostSelection | null>(null);
+
   useEffect(() => {
     mapboxgl.accessToken = MAPBOX_TOKEN;
     const map = new mapboxgl.Map({
@@ -272,6 +279,10 @@ export default function Root() {
           // Close the polygon
           const fc = polygonFC(pts);
           setPolygon(fc);
+          const centroid = polygonCentroid(fc);
+          if (centroid) {
+            setRegionalCost(findRegionalIndex(centroid, "District centroid"));
+          }
           isDrawing = false;
           map.getCanvas().style.cursor = "";
           // Clear drawing layers
@@ -647,13 +658,8 @@ export default function Root() {
           ST_AREA(poly.g) / 4046.86 AS area_acres,
           ST_PERIMETER(poly.g) * 3.28084 AS perimeter_ft,
           COUNT(*) OVER() / (ST_AREA(poly.g) / 1000000) AS density_per_km2,
-          -- Detailed category counts for new budget model
+          -- Detailed category counts; grouping happens client-side via categoryTaxonomy
           COUNT(*) OVER(PARTITION BY category) AS category_count,
-          COUNT(CASE WHEN LOWER(category) IN ('retail', 'shopping', 'store') THEN 1 END) OVER() AS retail_count,
-          COUNT(CASE WHEN LOWER(category) IN ('restaurant', 'food', 'food_and_drink', 'cafe', 'bar') THEN 1 END) OVER() AS food_count,
-          COUNT(CASE WHEN LOWER(category) IN ('service', 'services', 'professional') THEN 1 END) OVER() AS service_count,
-          COUNT(CASE WHEN LOWER(category) IN ('entertainment', 'recreation', 'leisure', 'nightlife') THEN 1 END) OVER() AS entertainment_count,
-          COUNT(CASE WHEN LOWER(category) IN ('hotel', 'lodging', 'accommodation') THEN 1 END) OVER() AS lodging_count,
           COUNT(CASE WHEN category IS NULL OR category = '' THEN 1 END) OVER() AS unknown_count
         FROM places_in_poly, poly
         ORDER BY category, name
@@ -714,16 +720,10 @@ export default function Root() {
           areaAcres: firstRow.area_acres || 0,
           perimeterFt: firstRow.perimeter_ft || 0,
           densityPerKm2: firstRow.density_per_km2 || 0,
+          // Detailed categories only, so each place is counted once
           categoryBreakdown: {
-            retail: firstRow.retail_count || 0,
-            food: firstRow.food_count || 0,
-            restaurant: firstRow.food_count || 0, // Alias for compatibility
-            service: firstRow.service_count || 0,
-            entertainment: firstRow.entertainment_count || 0,
-            lodging: firstRow.lodging_count || 0,
-            unknown: firstRow.unknown_count || 0,
-            // Add any other categories found
             ...Object.fromEntries(categoryMap),
+            ...(firstRow.unknown_count > 0 && { unknown: firstRow.unknown_count }),
           },
           places: features, // Store individual places for detailed analysis
         };
@@ -1186,6 +1186,132 @@ export default function Root() {
     }
   }
 
+  // Planned cleaning routes from the report panel, one color per route with
+  // deadhead walks dashed. Null removes them.
+  function setCleaningRoutesLayer(fc: FeatureCollection | null) {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!fc) {
+      if (map.getSource("cleaning-routes")) {
+        map.removeLayer("cleaning-routes-swept");
+        map.removeLayer("cleaning-routes-deadhead");
+        map.removeSource("cleaning-routes");
+      }
+      return;
+    }
+
+    if (!map.getSource("cleaning-routes")) {
+      map.addSource("cleaning-routes", { type: "geojson", data: fc });
+
+      map.addLayer({
+        id: "cleaning-routes-swept",
+        type: "line",
+        source: "cleaning-routes",
+        filter: ["==", ["get", "kind"], "swept"],
+        layout: {
+          "line-join": "round",
+          "line-cap": "round",
+        },
+        paint: {
+          "line-color": ["get", "color"],
+          "line-width": [
+            "interpolate",
+            ["linear"],
+            ["zoom"],
+            10, 2,
+            14, 4,
+            18, 7,
+          ],
+          "line-opacity": 0.9,
+        },
+      });
+
+      map.addLayer({
+        id: "cleaning-routes-deadhead",
+        type: "line",
+        source: "cleaning-routes",
+        filter: ["==", ["get", "kind"], "deadhead"],
+        paint: {
+          "line-color": ["get", "color"],
+          "line-width": 2,
+          "line-dasharray": [2, 2],
+          "line-opacity": 0.8,
+        },
+      });
+
+      map.on("click", "cleaning-routes-swept", (e: mapboxgl.MapLayerMouseEvent) => {
+        if (!e.features || !e.features[0]) return;
+        const props = e.features[0].properties!;
+
+        new mapboxgl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(
+            `<strong>Cleaning route ${props.route}</strong><br/>` +
+              `${Math.round(props.swept_ft).toLocaleString()} ft swept<br/>` +
+              `${Math.round(props.deadhead_ft).toLocaleString()} ft deadhead<br/>` +
+              `${Number(props.hours).toFixed(1)} hours`
+          )
+          .addTo(map);
+      });
+    } else {
+      (map.getSource("cleaning-routes") as mapboxgl.GeoJSONSource).setData(fc);
+    }
+  }
+
+  // Proposed streetscape asset locations from the report panel, colored by
+  // asset type. Null removes them.
+  function setAssetPlacementsLayer(fc: FeatureCollection | null) {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!fc) {
+      if (map.getSource("asset-placements")) {
+        map.removeLayer("asset-placements-circles");
+        map.removeSource("asset-placements");
+      }
+      return;
+    }
+
+    if (!map.getSource("asset-placements")) {
+      map.addSource("asset-placements", { type: "geojson", data: fc });
+
+      map.addLayer({
+        id: "asset-placements-circles",
+        type: "circle",
+        source: "asset-placements",
+        paint: {
+          "circle-color": ["get", "color"],
+          "circle-radius": [
+            "interpolate",
+            ["linear"],
+            ["zoom"],
+            12, 2,
+            16, 5,
+            18, 8,
+          ],
+          "circle-stroke-color": "#FFFFFF",
+          "circle-stroke-width": 1,
+        },
+      });
+
+      map.on("click", "asset-placements-circles", (e: mapboxgl.MapLayerMouseEvent) => {
+        if (!e.features || !e.features[0]) return;
+        const props = e.features[0].properties!;
+
+        new mapboxgl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(
+            `<strong>${props.label}</strong> ${props.id}<br/>` +
+              `${props.street || "Unnamed street"} (${props.road_class})`
+          )
+          .addTo(map);
+      });
+    } else {
+      (map.getSource("asset-placements") as mapboxgl.GeoJSONSource).setData(fc);
+    }
+  }
+
   function clearAll() {
     const map = mapRef.current!;
 
@@ -1205,6 +1331,8 @@ export default function Root() {
     
     // Clear all segment layers (both MVT and GeoJSON)
     removeAllSegmentLayers(map);
+    setCleaningRoutesLayer(null);
+    setAssetPlacementsLayer(null);
 
     // Clear drawing layers
     if (map.getSource("drawing-poly")) {
@@ -1273,6 +1401,11 @@ export default function Root() {
 
     // Store current location name for display
     setCurrentLocation(location.place_name);
+
+    // Localize labor and price assumptions to the searched location
+    setRegionalCost(
+      findRegionalIndex(location.center, `Location search: ${location.place_name}`)
+    );
   };
 
   // Handle opening location search
@@ -1628,15 +1761,17 @@ export default function Root() {
               fetchSegments();
             }
           }}
-          useMetricUnits={useMetricUnits}
-          setUseMetricUnits={setUseMetricUnits}
           segmentsGeoJSON={segmentsGeoJSON}
           buildingsMetrics={buildingsMetrics}
+          buildingsGeoJSON={buildingsData}
+          regionalCost={regionalCost}
           showBuildings={showBuildings}
           setShowBuildings={setShowBuildings}
           selectedPlaceCategories={selectedPlaceCategories}
           setSelectedPlaceCategories={setSelectedPlaceCategories}
           onApplyPlaceFilters={applyPlaceCategoryFilter}
+          onCleaningRoutesChange={setCleaningRoutesLayer}
+          onAssetPlacementsChange={setAssetPlacementsLayer}
         />
       )}
     </div>
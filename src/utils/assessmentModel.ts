@@ -0,0 +1,223 @@
+// Assessment revenue model
+// Solves for the assessment rate that funds a required budget under several
+// common BID assessment bases, and shows how the burden falls on individual
+// properties and businesses.
+
+import { geometryBounds, pointInPolygon } from "./geoUtils";
+import { DistributionSummary, summarizeDistribution } from "./statistics";
+
+const SQFT_PER_SQM = 10.7639;
+
+export type AssessmentBasis =
+  | "footprint_sqft"
+  | "gross_floor_area"
+  | "frontage_ft"
+  | "per_business";
+
+export interface AssessmentProperty {
+  id: string;
+  footprintSqft: number;
+  floors: number;
+  grossFloorAreaSqft: number;
+  frontageFt: number; // Share of district frontage apportioned to this parcel
+  businessCount: number; // Places located inside the footprint
+}
+
+export interface AssessmentOption {
+  basis: AssessmentBasis;
+  label: string;
+  rateUnit: string; // e.g. "per sq ft"
+  totalUnits: number;
+  rate: number;
+  perProperty: DistributionSummary | null;
+  perBusiness: DistributionSummary | null;
+  note?: string;
+}
+
+export interface AssessmentAnalysis {
+  requiredRevenue: number;
+  propertyCount: number;
+  businessCount: number;
+  businessesMatchedToProperties: number;
+  options: AssessmentOption[];
+}
+
+// Build assessable properties from building footprints. Businesses are matched
+// to the footprint that contains them; district frontage is apportioned to
+// parcels by the square root of footprint area (a square-lot approximation).
+export function buildAssessmentProperties(
+  buildingsGeoJSON: any,
+  places: any[] | null | undefined,
+  districtFrontageFt: number
+): AssessmentProperty[] {
+  const features: any[] = buildingsGeoJSON?.features || [];
+  if (features.length === 0) return [];
+
+  const buildings = features
+    .filter((f) => f.geometry)
+    .map((f, index) => {
+      const props = f.properties || {};
+      const areaSqm = Number(props.area_sqm ?? props.footprint_area_sqm) || 0;
+      const floors = Math.max(1, Math.round(Number(props.levels ?? props.level) || 1));
+      return {
+        id: String(props.building_id || `building-${index + 1}`),
+        geometry: f.geometry,
+        bounds: geometryBounds(f.geometry),
+        footprintSqft: areaSqm * SQFT_PER_SQM,
+        floors,
+        businessCount: 0,
+      };
+    })
+    .filter((b) => b.footprintSqft > 0);
+
+  (places || []).forEach((place: any) => {
+    const coords = place.geometry?.coordinates;
+    if (!coords || isNaN(coords[0]) || isNaN(coords[1])) return;
+    const [lng, lat] = coords;
+    const match = buildings.find(
+      (b) =>
+        lng >= b.bounds[0] &&
+        lng <= b.bounds[2] &&
+        lat >= b.bounds[1] &&
+        lat <= b.bounds[3] &&
+        pointInPolygon(coords, b.geometry)
+    );
+    if (match) match.businessCount += 1;
+  });
+
+  const sqrtTotal = buildings.reduce(
+    (sum, b) => sum + Math.sqrt(b.footprintSqft),
+    0
+  );
+
+  return buildings.map((b) => ({
+    id: b.id,
+    footprintSqft: b.footprintSqft,
+    floors: b.floors,
+    grossFloorAreaSqft: b.footprintSqft * b.floors,
+    frontageFt:
+      sqrtTotal > 0
+        ? (districtFrontageFt * Math.sqrt(b.footprintSqft)) / sqrtTotal
+        : 0,
+    businessCount: b.businessCount,
+  }));
+}
+
+// Per-business burden when each business shares its property's assessment
+function perBusinessFromProperties(
+  properties: AssessmentProperty[],
+  burdens: number[]
+): DistributionSummary | null {
+  const values: number[] = [];
+  properties.forEach((p, i) => {
+    for (let n = 0; n < p.businessCount; n++) {
+      values.push(burdens[i] / p.businessCount);
+    }
+  });
+  return values.length > 0 ? summarizeDistribution(values) : null;
+}
+
+function propertyBasedOption(
+  basis: AssessmentBasis,
+  label: string,
+  rateUnit: string,
+  requiredRevenue: number,
+  properties: AssessmentProperty[],
+  unitsOf: (p: AssessmentProperty) => number,
+  note?: string
+): AssessmentOption {
+  const totalUnits = properties.reduce((sum, p) => sum + unitsOf(p), 0);
+  const rate = totalUnits > 0 ? requiredRevenue / totalUnits : 0;
+  const burdens = properties.map((p) => unitsOf(p) * rate);
+
+  return {
+    basis,
+    label,
+    rateUnit,
+    totalUnits,
+    rate,
+    perProperty: burdens.length > 0 ? summarizeDistribution(burdens) : null,
+    perBusiness: perBusinessFromProperties(properties, burdens),
+    note,
+  };
+}
+
+// Solve the assessment rate for each basis
+export function calculateAssessmentOptions(
+  requiredRevenue: number,
+  properties: AssessmentProperty[],
+  businessCount: number,
+  districtFrontageFt: number
+): AssessmentAnalysis {
+  const options: AssessmentOption[] = [];
+
+  if (properties.length > 0) {
+    options.push(
+      propertyBasedOption(
+        "footprint_sqft",
+        "Building Footprint",
+        "per sq ft of footprint",
+        requiredRevenue,
+        properties,
+        (p) => p.footprintSqft
+      ),
+      propertyBasedOption(
+        "gross_floor_area",
+        "Gross Floor Area",
+        "per sq ft of floor area",
+        requiredRevenue,
+        properties,
+        (p) => p.grossFloorAreaSqft,
+        "Floor area = footprint × building levels (1 where unknown)"
+      )
+    );
+  }
+
+  // Frontage: rate is solved over district frontage; property burdens use
+  // each parcel's apportioned share
+  const frontageRate =
+    districtFrontageFt > 0 ? requiredRevenue / districtFrontageFt : 0;
+  const frontageBurdens = properties.map((p) => p.frontageFt * frontageRate);
+  options.push({
+    basis: "frontage_ft",
+    label: "Linear Frontage",
+    rateUnit: "per frontage foot",
+    totalUnits: districtFrontageFt,
+    rate: frontageRate,
+    perProperty:
+      frontageBurdens.length > 0 ? summarizeDistribution(frontageBurdens) : null,
+    perBusiness: perBusinessFromProperties(properties, frontageBurdens),
+    note: "Parcel frontage apportioned by footprint size",
+  });
+
+  // Flat per business: every business pays the same; a property's burden is
+  // the sum over its tenants
+  const flatRate = businessCount > 0 ? requiredRevenue / businessCount : 0;
+  const occupied = properties.filter((p) => p.businessCount > 0);
+  options.push({
+    basis: "per_business",
+    label: "Flat per Business",
+    rateUnit: "per business",
+    totalUnits: businessCount,
+    rate: flatRate,
+    perProperty:
+      occupied.length > 0
+        ? summarizeDistribution(occupied.map((p) => p.businessCount * flatRate))
+        : null,
+    perBusiness:
+      businessCount > 0
+        ? summarizeDistribution(new Array(businessCount).fill(flatRate))
+        : null,
+  });
+
+  return {
+    requiredRevenue,
+    propertyCount: properties.length,
+    businessCount,
+    businessesMatchedToProperties: properties.reduce(
+      (sum, p) => sum + p.businessCount,
+      0
+    ),
+    options,
+  };
+}
@@ -0,0 +1,266 @@
+// Streetscape asset placement along the street network
+// Assets are dropped at their configured spacing while walking every block
+// face in cleaning-tour order, so spacing carries over from one face to the
+// next instead of restarting (and rounding down) at each corner. Positions
+// within the setback of an intersection are skipped and the asset slides to
+// the first allowed point beyond it. Each face is offset to its own curb.
+
+import type { BudgetParameters, NumericParameterKey } from "./budgetCalculations";
+import type { StreetNetwork } from "./cleaningRoutes";
+import { Position, pointAlongPath } from "./geoUtils";
+
+export type AssetType = "trash_can" | "planter" | "banner";
+
+export interface AssetTypeSpec {
+  type: AssetType;
+  label: string;
+  countKey: keyof AssetCounts;
+  spacingKey: NumericParameterKey;
+  unitCostKey: NumericParameterKey;
+  lifeKey: NumericParameterKey;
+  phase: number; // First placement as a share of the spacing, to stagger types
+  color: string;
+}
+
+export const ASSET_TYPES: AssetTypeSpec[] = [
+  {
+    type: "trash_can",
+    label: "Trash can",
+    countKey: "trashCans",
+    spacingKey: "feet_per_trash_can",
+    unitCostKey: "trash_can_unit_cost",
+    lifeKey: "trash_can_life_years",
+    phase: 0.5,
+    color: "#2563eb",
+  },
+  {
+    type: "planter",
+    label: "Planter",
+    countKey: "planters",
+    spacingKey: "feet_per_planter",
+    unitCostKey: "planter_unit_cost",
+    lifeKey: "planter_life_years",
+    phase: 0.25,
+    color: "#16a34a",
+  },
+  {
+    type: "banner",
+    label: "Banner",
+    countKey: "banners",
+    spacingKey: "feet_per_banner",
+    unitCostKey: "banner_unit_cost",
+    lifeKey: "banner_life_years",
+    phase: 0.75,
+    color: "#db2777",
+  },
+];
+
+export interface AssetCounts {
+  trashCans: number;
+  planters: number;
+  banners: number;
+}
+
+// Centerline to curb on a typical two-lane street
+const CURB_OFFSET_FT = 20;
+
+// Three or more street edges meet at an intersection
+const INTERSECTION_DEGREE = 3;
+
+export interface AssetPlacement {
+  id: string;
+  type: AssetType;
+  position: Position;
+  street: string | null;
+  roadClass: string;
+}
+
+export interface AssetPlacementPlan {
+  placements: AssetPlacement[];
+  counts: AssetCounts;
+  blockFaceFt: number;
+  setbackFt: number;
+  spacingFt: AssetCounts; // Spacing each type was placed at
+}
+
+export interface AssetCostScheduleRow {
+  type: AssetType;
+  label: string;
+  count: number;
+  unitCost: number;
+  lifeYears: number;
+  annualCost: number;
+}
+
+function placementSpacing(params: BudgetParameters): AssetCounts {
+  const spacing: AssetCounts = { trashCans: 0, planters: 0, banners: 0 };
+  ASSET_TYPES.forEach((spec) => {
+    spacing[spec.countKey] = params[spec.spacingKey];
+  });
+  return spacing;
+}
+
+// Whether a placement made earlier over the same network still holds for
+// these spacings and corner setback, so scenario runs can reuse it
+export function assetPlacementMatches(
+  plan: AssetPlacementPlan,
+  params: BudgetParameters
+): boolean {
+  const spacing = placementSpacing(params);
+  return (
+    plan.setbackFt === Math.max(0, params.asset_intersection_setback_ft) &&
+    ASSET_TYPES.every(
+      (spec) => plan.spacingFt[spec.countKey] === spacing[spec.countKey]
+    )
+  );
+}
+
+export function placeStreetscapeAssets(
+  network: StreetNetwork,
+  params: BudgetParameters
+): AssetPlacementPlan {
+  const setbackFt = Math.max(0, params.asset_intersection_setback_ft);
+  const degree = network.nodes.map(() => 0);
+  network.edges.forEach((edge) => {
+    degree[edge.from]++;
+    degree[edge.to]++;
+  });
+  const isIntersection = (node: number) => degree[node] >= INTERSECTION_DEGREE;
+
+  // Block faces in tour order, each with the stretch where assets may go
+  const faces = network.tour.flatMap((arc) => {
+    if (arc.edge === null) return [];
+    const edge = network.edges[arc.edge];
+    const [startNode, endNode] = arc.forward
+      ? [edge.from, edge.to]
+      : [edge.to, edge.from];
+    return [
+      {
+        coords: arc.forward ? edge.coords : [...edge.coords].reverse(),
+        lengthFt: edge.lengthFt,
+        from: isIntersection(startNode) ? setbackFt : 0,
+        to: edge.lengthFt - (isIntersection(endNode) ? setbackFt : 0),
+        street: edge.name,
+        roadClass: edge.roadClass,
+      },
+    ];
+  });
+
+  const placements: AssetPlacement[] = [];
+  const counts: AssetCounts = { trashCans: 0, planters: 0, banners: 0 };
+  ASSET_TYPES.forEach((spec) => {
+    const spacing = params[spec.spacingKey];
+    if (!(spacing > 0)) return;
+
+    // Distance along the current face to the next asset
+    let next = spacing * spec.phase;
+    faces.forEach((face) => {
+      let at = next;
+      while (at <= face.lengthFt) {
+        if (face.from > face.to) break; // Face too short to clear both corners
+        if (at < face.from) at = face.from;
+        if (at > face.to) break;
+        counts[spec.countKey]++;
+        placements.push({
+          id: `${spec.type}-${counts[spec.countKey]}`,
+          type: spec.type,
+          position: pointAlongPath(face.coords, at, CURB_OFFSET_FT),
+          street: face.street,
+          roadClass: face.roadClass,
+        });
+        at += spacing;
+      }
+      next = Math.max(0, at - face.lengthFt);
+    });
+  });
+
+  return {
+    placements,
+    counts,
+    blockFaceFt: network.blockFaceFt,
+    setbackFt,
+    spacingFt: placementSpacing(params),
+  };
+}
+
+// Count, unit cost and annualized cost per asset type
+export function assetCostSchedule(
+  counts: AssetCounts,
+  params: BudgetParameters
+): AssetCostScheduleRow[] {
+  return ASSET_TYPES.map((spec) => {
+    const count = counts[spec.countKey];
+    const unitCost = params[spec.unitCostKey];
+    const lifeYears = params[spec.lifeKey];
+    return {
+      type: spec.type,
+      label: spec.label,
+      count,
+      unitCost,
+      lifeYears,
+      annualCost: lifeYears > 0 ? (count * unitCost) / lifeYears : 0,
+    };
+  });
+}
+
+// Point features for the map and the GeoJSON download, with the unit-cost
+// schedule as a top-level member
+export function assetPlacementGeoJSON(
+  plan: AssetPlacementPlan,
+  params: BudgetParameters
+): GeoJSON.FeatureCollection & { schedule: AssetCostScheduleRow[] } {
+  const specs = new Map(ASSET_TYPES.map((spec) => [spec.type, spec]));
+  return {
+    type: "FeatureCollection",
+    features: plan.placements.map((p) => {
+      const spec = specs.get(p.type)!;
+      return {
+        type: "Feature",
+        properties: {
+          id: p.id,
+          asset: p.type,
+          label: spec.label,
+          color: spec.color,
+          street: p.street,
+          road_class: p.roadClass,
+          unit_cost: params[spec.unitCostKey],
+          life_years: params[spec.lifeKey],
+          currency: params.currency,
+        },
+        geometry: { type: "Point", coordinates: p.position },
+      };
+    }),
+    schedule: assetCostSchedule(plan.counts, params),
+  };
+}
+
+// One row per placed asset, with its unit cost and annualized share
+export function assetInventoryCSV(
+  plan: AssetPlacementPlan,
+  params: BudgetParameters
+): string {
+  const specs = new Map(ASSET_TYPES.map((spec) => [spec.type, spec]));
+  const rows = [
+    ["id", "asset", "longitude", "latitude", "street", "road_class", "unit_cost", "life_years", "annualized_cost", "currency"],
+    ...plan.placements.map((p) => {
+      const spec = specs.get(p.type)!;
+      const unitCost = params[spec.unitCostKey];
+      const lifeYears = params[spec.lifeKey];
+      return [
+        p.id,
+        spec.label,
+        p.position[0].toFixed(6),
+        p.position[1].toFixed(6),
+        p.street || "",
+        p.roadClass,
+        String(unitCost),
+        String(lifeYears),
+        lifeYears > 0 ? (unitCost / lifeYears).toFixed(2) : "0",
+        params.currency,
+      ];
+    }),
+  ];
+  return rows
+    .map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(","))
+    .join("\n");
+}
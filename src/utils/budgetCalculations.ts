@@ -1,6 +1,55 @@
 // Budget calculation utilities based on Overture-first model
 // Incorporates service intensity, frontage estimates, and tunable parameters
 
+import {
+  DEFAULT_SEASONAL_MULTIPLIERS,
+  WeeklyGrid,
+  buildCleaningSchedule,
+  buildSafetySchedule,
+} from "./staffingSchedule";
+import {
+  CustomServiceLine,
+  calculateCustomLineCosts,
+} from "./customServiceLines";
+import { applyLaborModel } from "./laborModel";
+import {
+  CapitalProject,
+  calculateCapitalPlan,
+  capitalOutlayForYear,
+} from "./capitalPlan";
+import { SafetyStaffingModel, buildPatrolBeatPlan } from "./patrolBeats";
+import {
+  CleaningCrewMethod,
+  CleaningRoutePlan,
+  StreetNetwork,
+  planCleaningRoutes,
+  routePlanMatches,
+} from "./cleaningRoutes";
+import {
+  AssetCounts,
+  AssetPlacementPlan,
+  assetPlacementMatches,
+  placeStreetscapeAssets,
+} from "./assetPlacement";
+import { estimateFormation } from "./formation";
+import { FundingSource, calculateFundingMix } from "./fundingSources";
+import { buildBudgetTrace } from "./budgetTrace";
+import { DEFAULT_LOCALE_SETTINGS, UnitSystem } from "./locale";
+import {
+  CATEGORY_GROUPS,
+  CategoryFamily,
+  CategoryGroup,
+  CategoryGroupOverrides,
+  familyCategoryBreakdown,
+  groupCategoryBreakdown,
+  normalizeCategory,
+} from "../constants/categoryTaxonomy";
+import {
+  DeliveryMode,
+  compareDeliveryModes,
+  deliveredCost,
+} from "./serviceDelivery";
+
 export interface BudgetParameters {
   // Category enable/disable flags
   cleaning_enabled: boolean;
@@ -17,15 +66,49 @@ export interface BudgetParameters {
   frontage_ft_per_cleaner_hour: number; // Productivity (linear ft swept per hour)
   acres_per_cleaner_hour: number; // Area-based productivity (acres covered per hour)
   avg_frontage_ft_per_business: number; // Fallback to estimate total frontage
+  frontage_method: "segments" | "business_count"; // Street geometry or heuristic
+  frontage_road_classes: string[]; // Road classes counted toward curb frontage
   intensity_weight_clean: number; // Multiplier from service intensity (0.8-1.5)
+  cleaning_crew_method: CleaningCrewMethod; // Productivity model or planned routes
+  clean_deadhead_speed_mph: number; // Walking pace between routes' block faces
   supervisor_ratio: number; // Cleaners per 1 supervisor
   supervisor_loaded_rate: number;
+  cleaning_schedule: WeeklyGrid | null; // Custom 7×24 grid; null = default from mix
+  cleaning_seasonal_multipliers: number[]; // Jan..Dec
 
   // Safety/Hospitality
   safety_loaded_rate: number;
   safety_hours_per_day: number;
   safety_days_per_week: number;
   intensity_weight_safety: number;
+  safety_staffing_model: SafetyStaffingModel; // Fixed hours, patrol beats or a blend
+  patrol_revisit_minutes: number; // Target time between visits to each block
+  patrol_walking_speed_mph: number; // Patrol pace including stops
+  patrol_blend_weight: number; // Share of the beat crew in the blend (0-1)
+  safety_schedule: WeeklyGrid | null; // Custom 7×24 grid; null = default from mix
+  safety_seasonal_multipliers: number[]; // Jan..Dec
+
+  // Detailed labor model (derives the *_loaded_rate fields when enabled)
+  use_detailed_labor_model: boolean;
+  clean_base_wage: number; // Hourly base wage
+  supervisor_base_wage: number;
+  safety_base_wage: number;
+  payroll_tax_pct: number; // FICA plus state/federal unemployment, on wages
+  workers_comp_pct: number; // Workers' comp premium, on wages
+  benefits_per_fte: number; // Annual health/retirement cost per paid FTE
+  uniform_equipment_per_fte: number; // Annual allowance per paid FTE
+  pto_relief_factor: number; // Extra paid hours per covered hour for PTO/sick
+  overtime_share: number; // Share of covered hours paid at time-and-a-half
+
+  // Service delivery (in-house staff or vendor contract)
+  cleaning_delivery_mode: DeliveryMode;
+  safety_delivery_mode: DeliveryMode;
+  clean_contract_bill_rate: number; // Vendor $/hr per cleaner, supervision included
+  safety_contract_bill_rate: number; // Vendor $/hr per ambassador
+  cleaning_contract_fee_pct: number; // Vendor management fee on billed labor
+  safety_contract_fee_pct: number;
+  cleaning_contract_minimum: number; // Minimum annual contract value
+  safety_contract_minimum: number;
 
   // Streetscape asset inventory (annualized)
   feet_per_trash_can: number;
@@ -37,6 +120,7 @@ export interface BudgetParameters {
   feet_per_banner: number;
   banner_unit_cost: number;
   banner_life_years: number;
+  asset_intersection_setback_ft: number; // Kept clear either side of intersections
 
   // Marketing budget
   marketing_base_annual: number;
@@ -45,11 +129,52 @@ export interface BudgetParameters {
   events_per_year: number;
   cost_per_event: number;
 
+  // User-defined service lines
+  custom_service_lines: CustomServiceLine[];
+
+  // One-time capital projects, funded by cash, reserves or debt
+  capital_projects: CapitalProject[];
+
+  // Non-assessment revenue that reduces the assessment requirement
+  funding_sources: FundingSource[];
+
+  // Business mix (user edits on top of CATEGORY_WEIGHTS and the taxonomy)
+  category_weight_overrides: Partial<Record<CategoryGroup, CategoryWeight>>;
+  category_group_overrides: CategoryGroupOverrides;
+
   // General
   min_category_count: number;
   admin_overhead_pct: number;
+
+  // Display locale: amounts are in `currency`, lengths and areas are stored
+  // in feet and acres whatever the unit system
+  locale: string;
+  currency: string;
+  unit_system: UnitSystem;
+
+  // Multi-year projection (annual escalation rates)
+  projection_years: number;
+  labor_escalation_pct: number; // Loaded rates, wages, benefits, contract rates
+  marketing_escalation_pct: number;
+  asset_cost_escalation_pct: number; // Applied to unit costs at replacement time
+  admin_escalation_pct: number;
+  custom_line_escalation_pct: number; // Applied to custom line unit rates
+
+  // New-district formation (one-time startup costs, partial first year)
+  formation_mode: boolean;
+  formation_feasibility_cost: number;
+  formation_legal_cost: number; // Counsel, petition drive, hearings
+  formation_hiring_cost_per_fte: number; // Recruiting, screening, training
+  formation_equipment_cost_per_fte: number; // Carts, radios, uniforms, tools
+  formation_branding_cost: number;
+  formation_operating_months: number; // Months of service in year 1
 }
 
+// Keys of the numeric (non-toggle) parameters, for tools that vary them
+export type NumericParameterKey = {
+  [K in keyof BudgetParameters]: BudgetParameters[K] extends number ? K : never;
+}[keyof BudgetParameters];
+
 // Default values based on industry standards
 export const DEFAULT_BUDGET_PARAMS: BudgetParameters = {
   // Category enable/disable flags
@@ -67,15 +192,58 @@ export const DEFAULT_BUDGET_PARAMS: BudgetParameters = {
   frontage_ft_per_cleaner_hour: 900,
   acres_per_cleaner_hour: 0.5, // Typical urban cleaning: 0.5 acres per hour
   avg_frontage_ft_per_business: 22,
+  frontage_method: "segments",
+  frontage_road_classes: [
+    "trunk",
+    "primary",
+    "secondary",
+    "tertiary",
+    "residential",
+    "living_street",
+    "pedestrian",
+    "unclassified",
+  ],
   intensity_weight_clean: 1.0,
+  cleaning_crew_method: "productivity",
+  clean_deadhead_speed_mph: 2.5,
   supervisor_ratio: 8,
   supervisor_loaded_rate: 48,
+  cleaning_schedule: null,
+  cleaning_seasonal_multipliers: DEFAULT_SEASONAL_MULTIPLIERS,
 
   // Safety
   safety_loaded_rate: 40,
   safety_hours_per_day: 16,
   safety_days_per_week: 6,
   intensity_weight_safety: 1.0,
+  safety_staffing_model: "fixed_hours",
+  patrol_revisit_minutes: 60,
+  patrol_walking_speed_mph: 1.5,
+  patrol_blend_weight: 0.5,
+  safety_schedule: null,
+  safety_seasonal_multipliers: DEFAULT_SEASONAL_MULTIPLIERS,
+
+  // Detailed labor model
+  use_detailed_labor_model: false,
+  clean_base_wage: 20,
+  supervisor_base_wage: 30,
+  safety_base_wage: 24,
+  payroll_tax_pct: 0.1,
+  workers_comp_pct: 0.05,
+  benefits_per_fte: 9000,
+  uniform_equipment_per_fte: 1000,
+  pto_relief_factor: 0.1,
+  overtime_share: 0.05,
+
+  // Service delivery
+  cleaning_delivery_mode: "in_house",
+  safety_delivery_mode: "in_house",
+  clean_contract_bill_rate: 36,
+  safety_contract_bill_rate: 44,
+  cleaning_contract_fee_pct: 0.08,
+  safety_contract_fee_pct: 0.1,
+  cleaning_contract_minimum: 50000,
+  safety_contract_minimum: 75000,
 
   // Assets
   feet_per_trash_can: 450,
@@ -87,6 +255,7 @@ export const DEFAULT_BUDGET_PARAMS: BudgetParameters = {
   feet_per_banner: 900,
   banner_unit_cost: 180,
   banner_life_years: 3,
+  asset_intersection_setback_ft: 30,
 
   // Marketing
   marketing_base_annual: 25000,
@@ -95,30 +264,112 @@ export const DEFAULT_BUDGET_PARAMS: BudgetParameters = {
   events_per_year: 6,
   cost_per_event: 5000,
 
+  // Custom service lines
+  custom_service_lines: [],
+  capital_projects: [],
+  funding_sources: [],
+
+  // Business mix
+  category_weight_overrides: {},
+  category_group_overrides: {},
+
   // General
   min_category_count: 3,
   admin_overhead_pct: 0.12,
+
+  // Locale
+  ...DEFAULT_LOCALE_SETTINGS,
+
+  // Multi-year projection
+  projection_years: 5,
+  labor_escalation_pct: 0.035,
+  marketing_escalation_pct: 0.025,
+  asset_cost_escalation_pct: 0.03,
+  admin_escalation_pct: 0.025,
+  custom_line_escalation_pct: 0.03,
+
+  // Formation
+  formation_mode: false,
+  formation_feasibility_cost: 40000,
+  formation_legal_cost: 60000,
+  formation_hiring_cost_per_fte: 3000,
+  formation_equipment_cost_per_fte: 2500,
+  formation_branding_cost: 35000,
+  formation_operating_months: 6,
 };
 
-// Category weights for service intensity calculations
-export const CATEGORY_WEIGHTS = {
-  food: { clean_weight: 1.3, night_weight: 1.4 },
-  bar: { clean_weight: 1.3, night_weight: 1.4 },
-  cafe: { clean_weight: 1.2, night_weight: 1.3 },
+// Site inputs shared by calculateBudget and the scenario tools built on it
+export interface BudgetInputs {
+  businessCount: number;
+  areaAcres: number;
+  perimeterFt: number;
+  categoryBreakdown: Record<string, number> | null | undefined;
+  curbFrontageFt?: number | null; // From street segments, when loaded
+  segmentMiles?: number | null; // Street centerline miles inside the district
+  buildingCount?: number | null; // Building footprints inside the district
+  streetNetwork?: StreetNetwork | null; // Included streets, for route planning
+  // Plans already made over streetNetwork. Repeated runs over the same
+  // district reuse them when the parameters they depend on are unchanged and
+  // plan afresh otherwise.
+  cleaningRoutes?: CleaningRoutePlan | null;
+  assetPlacement?: AssetPlacementPlan | null;
+}
+
+// Geometry-derived measures, when the corresponding layers are loaded
+export type DistrictMeasures = Pick<
+  BudgetInputs,
+  | "curbFrontageFt"
+  | "segmentMiles"
+  | "buildingCount"
+  | "streetNetwork"
+  | "cleaningRoutes"
+  | "assetPlacement"
+>;
+
+export interface CategoryWeight {
+  clean_weight: number;
+  night_weight: number;
+}
+
+// Default intensity weights per category service group (see categoryTaxonomy.ts)
+export const CATEGORY_WEIGHTS: Record<CategoryGroup, CategoryWeight> = {
   restaurant: { clean_weight: 1.3, night_weight: 1.4 },
+  cafe: { clean_weight: 1.2, night_weight: 1.3 },
+  bar: { clean_weight: 1.3, night_weight: 1.4 },
   entertainment: { clean_weight: 1.2, night_weight: 1.5 },
+  recreation: { clean_weight: 1.0, night_weight: 1.1 },
   retail: { clean_weight: 1.0, night_weight: 1.0 },
-  shopping: { clean_weight: 1.0, night_weight: 1.0 },
-  service: { clean_weight: 0.95, night_weight: 0.9 },
-  services: { clean_weight: 0.95, night_weight: 0.9 },
+  grocery: { clean_weight: 1.1, night_weight: 1.0 },
+  personal_care: { clean_weight: 0.95, night_weight: 0.9 },
+  professional: { clean_weight: 0.9, night_weight: 0.8 },
+  trades: { clean_weight: 0.95, night_weight: 0.85 },
+  finance: { clean_weight: 0.9, night_weight: 0.8 },
+  health: { clean_weight: 0.95, night_weight: 0.85 },
+  education: { clean_weight: 1.0, night_weight: 0.85 },
+  civic: { clean_weight: 0.95, night_weight: 0.9 },
+  transportation: { clean_weight: 1.1, night_weight: 1.1 },
   lodging: { clean_weight: 1.1, night_weight: 1.2 },
-  hotel: { clean_weight: 1.1, night_weight: 1.2 },
   other: { clean_weight: 1.0, night_weight: 1.0 },
 };
 
-// Calculate service intensity from business mix
+// Default weights with the user's per-group overrides applied
+export function resolveCategoryWeights(
+  overrides: Partial<Record<CategoryGroup, CategoryWeight>> = {}
+): Record<CategoryGroup, CategoryWeight> {
+  const weights = { ...CATEGORY_WEIGHTS };
+  (Object.keys(weights) as CategoryGroup[]).forEach((group) => {
+    weights[group] = { ...weights[group], ...overrides[group] };
+  });
+  return weights;
+}
+
+// Calculate service intensity from business mix, normalized to service groups
 export function calculateServiceIntensity(
-  categoryBreakdown: Record<string, number> | null | undefined
+  categoryBreakdown: Record<string, number> | null | undefined,
+  mix: Pick<
+    BudgetParameters,
+    "category_weight_overrides" | "category_group_overrides"
+  > = { category_weight_overrides: {}, category_group_overrides: {} }
 ) {
   let totalWeightedClean = 0;
   let totalWeightedNight = 0;
@@ -133,12 +384,14 @@ export function calculateServiceIntensity(
     };
   }
 
-  for (const [category, count] of Object.entries(categoryBreakdown)) {
-    const weights =
-      CATEGORY_WEIGHTS[category.toLowerCase()] || CATEGORY_WEIGHTS.other;
-    totalWeightedClean += count * weights.clean_weight;
-    totalWeightedNight += count * weights.night_weight;
-    totalBusinesses += count;
+  const weightsByGroup = resolveCategoryWeights(mix.category_weight_overrides);
+  for (const [group, count] of Object.entries(
+    groupCategoryBreakdown(categoryBreakdown, mix.category_group_overrides)
+  )) {
+    const weights = weightsByGroup[group as CategoryGroup];
+    totalWeightedClean += count! * weights.clean_weight;
+    totalWeightedNight += count! * weights.night_weight;
+    totalBusinesses += count!;
   }
 
   return {
@@ -149,94 +402,171 @@ export function calculateServiceIntensity(
   };
 }
 
-// Calculate cleaning costs
-export function calculateCleaningCost(
+// Human-readable list of weight and grouping changes from the defaults
+export function describeCategoryOverrides(
+  params: Pick<
+    BudgetParameters,
+    "category_weight_overrides" | "category_group_overrides"
+  >
+): string[] {
+  const weightChanges = (
+    Object.entries(params.category_weight_overrides) as [
+      CategoryGroup,
+      Partial<CategoryWeight>
+    ][]
+  ).flatMap(([group, weight]) =>
+    (["clean_weight", "night_weight"] as const)
+      .filter(
+        (key) =>
+          weight[key] !== undefined &&
+          weight[key] !== CATEGORY_WEIGHTS[group][key]
+      )
+      .map(
+        (key) =>
+          `${CATEGORY_GROUPS[group].label} ${
+            key === "clean_weight" ? "cleaning" : "night"
+          } weight ${CATEGORY_WEIGHTS[group][key].toFixed(2)} → ${weight[
+            key
+          ]!.toFixed(2)}`
+      )
+  );
+  const groupChanges = Object.entries(params.category_group_overrides).map(
+    ([category, group]) =>
+      `${category} moved from ${
+        CATEGORY_GROUPS[normalizeCategory(category)].label
+      } to ${CATEGORY_GROUPS[group].label}`
+  );
+  return [...weightChanges, ...groupChanges];
+}
+
+// Quantity per unit of a rate or spacing parameter. A zero or negative
+// divisor (an invalid parameter, flagged by validation) yields zero rather
+// than Infinity, so the budget stays finite.
+function perUnit(quantity: number, divisor: number): number {
+  return divisor > 0 && isFinite(divisor) ? quantity / divisor : 0;
+}
+
+// Cleaner-hours per day implied by frontage (or area) and productivity;
+// each shift covers the full route
+export function calculateCleanerHoursPerDay(
   params: BudgetParameters,
   frontageEstimate: number,
   cleanIntensity: number,
   areaAcres?: number
 ): number {
-  if (!params.cleaning_enabled) return 0;
-
   let cleanerHoursPerDay: number;
 
   if (params.use_area_based_cleaning && areaAcres) {
     // Area-based calculation: acres ÷ acres per cleaner per hour
     cleanerHoursPerDay =
-      (areaAcres / params.acres_per_cleaner_hour) *
+      perUnit(areaAcres, params.acres_per_cleaner_hour) *
       params.intensity_weight_clean *
       cleanIntensity;
   } else {
     // Traditional frontage-based calculation
     cleanerHoursPerDay =
-      (frontageEstimate / params.frontage_ft_per_cleaner_hour) *
+      perUnit(frontageEstimate, params.frontage_ft_per_cleaner_hour) *
       params.intensity_weight_clean *
       cleanIntensity;
   }
+  return cleanerHoursPerDay * params.clean_shifts_per_day;
+}
+
+// Daily cleaning crew: cleaner-hours split into shifts
+export function calculateCleaningCrew(
+  params: BudgetParameters,
+  frontageEstimate: number,
+  cleanIntensity: number,
+  areaAcres?: number
+): number {
+  if (!params.cleaning_enabled) return 0;
+
+  const cleanerHoursPerDay = calculateCleanerHoursPerDay(
+    params,
+    frontageEstimate,
+    cleanIntensity,
+    areaAcres
+  );
+  return Math.ceil(perUnit(cleanerHoursPerDay, params.clean_hours_per_shift));
+}
+
+// Calculate cleaning costs from the weekly staffing schedule and delivery mode.
+// A route-derived crew (cleaners per day from planCleaningRoutes) replaces
+// the productivity crew when given.
+export function calculateCleaningCost(
+  params: BudgetParameters,
+  frontageEstimate: number,
+  cleanIntensity: number,
+  areaAcres?: number,
+  nightIntensity = 1,
+  routeCrew: number | null = null
+): number {
+  if (!params.cleaning_enabled) return 0;
 
-  const cleanersNeeded = Math.ceil(
-    cleanerHoursPerDay / params.clean_hours_per_shift
+  const dailyCrew =
+    routeCrew ??
+    calculateCleaningCrew(params, frontageEstimate, cleanIntensity, areaAcres);
+  const schedule = buildCleaningSchedule(
+    applyLaborModel(params),
+    dailyCrew,
+    nightIntensity
   );
-  const supervisorsNeeded = Math.ceil(cleanersNeeded / params.supervisor_ratio);
-
-  const cleanerCost =
-    cleanersNeeded *
-    params.clean_hours_per_shift *
-    params.clean_days_per_week *
-    52 *
-    params.clean_loaded_rate;
-
-  const supervisorCost =
-    supervisorsNeeded *
-    params.clean_hours_per_shift *
-    params.clean_days_per_week *
-    52 *
-    params.supervisor_loaded_rate;
-
-  return cleanerCost + supervisorCost;
+  return deliveredCost(compareDeliveryModes(params, "cleaning", schedule));
 }
 
-// Calculate safety/hospitality costs
+// Calculate safety costs from the weekly staffing schedule and delivery mode
 export function calculateSafetyCost(
   params: BudgetParameters,
-  nightIntensity: number
+  nightIntensity: number,
+  frontageEstimate: number
 ): number {
   if (!params.safety_enabled) return 0;
 
-  const baselineFTE = Math.ceil(params.safety_hours_per_day / 8.0);
-  const adjustedFTE =
-    baselineFTE * nightIntensity * params.intensity_weight_safety;
-
-  return (
-    adjustedFTE *
-    8 *
-    params.safety_days_per_week *
-    52 *
-    params.safety_loaded_rate
+  const schedule = buildSafetySchedule(
+    applyLaborModel(params),
+    nightIntensity,
+    buildPatrolBeatPlan(params, frontageEstimate, nightIntensity)
   );
+  return deliveredCost(compareDeliveryModes(params, "safety", schedule));
+}
+
+// Count streetscape assets implied by frontage and spacing
+export function calculateAssetCounts(
+  params: BudgetParameters,
+  frontageEstimate: number
+): AssetCounts {
+  return {
+    trashCans: Math.ceil(perUnit(frontageEstimate, params.feet_per_trash_can)),
+    planters: Math.ceil(perUnit(frontageEstimate, params.feet_per_planter)),
+    banners: Math.ceil(perUnit(frontageEstimate, params.feet_per_banner)),
+  };
 }
 
 // Calculate streetscape assets cost (annualized)
+// Counts from a placement plan replace the frontage ÷ spacing estimate
 export function calculateAssetsCost(
   params: BudgetParameters,
-  frontageEstimate: number
+  frontageEstimate: number,
+  counts: AssetCounts = calculateAssetCounts(params, frontageEstimate)
 ): number {
   if (!params.assets_enabled) return 0;
 
-  const trashCans = Math.ceil(frontageEstimate / params.feet_per_trash_can);
-  const planters = Math.ceil(frontageEstimate / params.feet_per_planter);
-  const banners = Math.ceil(frontageEstimate / params.feet_per_banner);
+  const { trashCans, planters, banners } = counts;
 
   const trashCanCost =
-    (trashCans * params.trash_can_unit_cost) / params.trash_can_life_years;
+    perUnit(trashCans * params.trash_can_unit_cost, params.trash_can_life_years);
   const planterCost =
-    (planters * params.planter_unit_cost) / params.planter_life_years;
+    perUnit(planters * params.planter_unit_cost, params.planter_life_years);
   const bannerCost =
-    (banners * params.banner_unit_cost) / params.banner_life_years;
+    perUnit(banners * params.banner_unit_cost, params.banner_life_years);
 
   return trashCanCost + planterCost + bannerCost;
 }
 
+// Share of the base marketing budget added per unit of night intensity
+// (times the night economy multiplier)
+const NIGHT_ECONOMY_MARKETING_SHARE = 0.15;
+
 // Calculate marketing costs
 export function calculateMarketingCost(
   params: BudgetParameters,
@@ -251,7 +581,7 @@ export function calculateMarketingCost(
     params.marketing_night_economy_multiplier *
     nightIntensity *
     params.marketing_base_annual *
-    0.15;
+    NIGHT_ECONOMY_MARKETING_SHARE;
   const eventsCost = params.events_per_year * params.cost_per_event;
 
   return baseCost + perBusinessCost + nightEconomyBonus + eventsCost;
@@ -263,43 +593,140 @@ export function calculateBudget(
   businessCount: number,
   areaAcres: number,
   perimeterFt: number,
-  categoryBreakdown: Record<string, number> | null | undefined
+  categoryBreakdown: Record<string, number> | null | undefined,
+  district: DistrictMeasures = {}
 ) {
-  // Estimate frontage (can be refined with actual storefront data)
-  const frontageEstimate = businessCount * params.avg_frontage_ft_per_business;
+  const { curbFrontageFt } = district;
+
+  // Frontage from street segments when available, else the business heuristic
+  const frontageSource: "segments" | "business_count" =
+    params.frontage_method === "segments" && curbFrontageFt
+      ? "segments"
+      : "business_count";
+  const frontageEstimate =
+    frontageSource === "segments"
+      ? curbFrontageFt!
+      : businessCount * params.avg_frontage_ft_per_business;
 
   // Calculate service intensity
   const { cleanIntensity, nightIntensity } =
-    calculateServiceIntensity(categoryBreakdown);
+    calculateServiceIntensity(categoryBreakdown, params);
+
+  // Planned routes over the street network, when chosen and segments loaded.
+  // A plan passed in is reused only if it was cut for these speeds and shifts.
+  const cleaningRoutes =
+    params.cleaning_enabled && params.cleaning_crew_method === "routes"
+      ? district.cleaningRoutes &&
+        routePlanMatches(district.cleaningRoutes, params, cleanIntensity)
+        ? district.cleaningRoutes
+        : district.streetNetwork
+        ? planCleaningRoutes(district.streetNetwork, params, cleanIntensity)
+        : null
+      : null;
+
+  // Staffing schedules drive cleaning and safety labor costs
+  const laborParams = applyLaborModel(params);
+  const cleanerHoursPerDay = cleaningRoutes
+    ? cleaningRoutes.hoursPerPass * params.clean_shifts_per_day
+    : calculateCleanerHoursPerDay(params, frontageEstimate, cleanIntensity, areaAcres);
+  const dailyCrew = cleaningRoutes
+    ? cleaningRoutes.routes.length * Math.max(1, Math.round(params.clean_shifts_per_day))
+    : calculateCleaningCrew(params, frontageEstimate, cleanIntensity, areaAcres);
+  const cleaningSchedule = params.cleaning_enabled
+    ? buildCleaningSchedule(laborParams, dailyCrew, nightIntensity)
+    : null;
+  const patrol = params.safety_enabled
+    ? buildPatrolBeatPlan(params, frontageEstimate, nightIntensity)
+    : null;
+  const safetySchedule = params.safety_enabled
+    ? buildSafetySchedule(laborParams, nightIntensity, patrol)
+    : null;
+
+  // In-house and contracted options for each labor service
+  const delivery = {
+    cleaning: cleaningSchedule
+      ? compareDeliveryModes(params, "cleaning", cleaningSchedule)
+      : null,
+    safety: safetySchedule
+      ? compareDeliveryModes(params, "safety", safetySchedule)
+      : null,
+  };
 
   // Calculate individual service costs
-  const cleaningCost = calculateCleaningCost(
-    params,
-    frontageEstimate,
-    cleanIntensity,
-    areaAcres
-  );
-  const safetyCost = calculateSafetyCost(params, nightIntensity);
-  const assetsCost = calculateAssetsCost(params, frontageEstimate);
+  const cleaningCost = deliveredCost(delivery.cleaning);
+  const safetyCost = deliveredCost(delivery.safety);
+  // Assets placed along the street network when frontage comes from segments.
+  // A placement passed in is reused only if made at these spacings.
+  const assetPlacement =
+    params.assets_enabled && frontageSource === "segments"
+      ? district.assetPlacement &&
+        assetPlacementMatches(district.assetPlacement, params)
+        ? district.assetPlacement
+        : district.streetNetwork
+        ? placeStreetscapeAssets(district.streetNetwork, params)
+        : null
+      : null;
+  const assetCounts =
+    assetPlacement?.counts ?? calculateAssetCounts(params, frontageEstimate);
+  const assetsCost = calculateAssetsCost(params, frontageEstimate, assetCounts);
   const marketingCost = calculateMarketingCost(
     params,
     businessCount,
     nightIntensity
   );
 
+  const customLines = calculateCustomLineCosts(params.custom_service_lines, {
+    acres: areaAcres,
+    businesses: businessCount,
+    frontageFt: frontageEstimate,
+    segmentMiles: district.segmentMiles ?? null,
+    buildings: district.buildingCount ?? null,
+  });
+  const customCost = customLines.reduce((sum, line) => sum + line.cost, 0);
+
   // Calculate totals
-  const subtotal = cleaningCost + safetyCost + assetsCost + marketingCost;
+  const subtotal =
+    cleaningCost + safetyCost + assetsCost + marketingCost + customCost;
   const adminOverhead = subtotal * params.admin_overhead_pct;
-  const total = subtotal + adminOverhead;
+
+  // Year-1 debt service, reserve contributions and cash-funded projects
+  const capitalPlan = calculateCapitalPlan(params.capital_projects);
+  const capitalCost = capitalOutlayForYear(capitalPlan, 1);
+  const total = subtotal + adminOverhead + capitalCost;
+
+  // Contracts, grants and other revenue reduce what the assessment must raise
+  const funding = calculateFundingMix(total, params.funding_sources);
+
+  // Startup costs and a partial first year when forming a new district
+  const formation = params.formation_mode
+    ? estimateFormation(params, {
+        recurringTotal: subtotal + adminOverhead,
+        capitalTotal: capitalCost,
+        inHouseFte:
+          (delivery.cleaning?.mode === "in_house" && cleaningSchedule
+            ? cleaningSchedule.staff.fte + (cleaningSchedule.supervisors?.fte || 0)
+            : 0) +
+          (delivery.safety?.mode === "in_house" && safetySchedule
+            ? safetySchedule.staff.fte
+            : 0),
+      })
+    : null;
 
   return {
     cleaning: Math.round(cleaningCost),
     safety: Math.round(safetyCost),
     assets: Math.round(assetsCost),
     marketing: Math.round(marketingCost),
+    custom: Math.round(customCost),
+    customLines,
     subtotal: Math.round(subtotal),
     adminOverhead: Math.round(adminOverhead),
+    capital: Math.round(capitalCost),
+    capitalPlan,
     total: Math.round(total),
+    funding,
+    netAssessment: Math.round(funding.netAssessment),
+    formation,
 
     // Additional metrics
     costPerBusiness: businessCount > 0 ? Math.round(total / businessCount) : 0,
@@ -307,106 +734,133 @@ export function calculateBudget(
     cleanIntensity: Math.round(cleanIntensity * 100) / 100,
     nightIntensity: Math.round(nightIntensity * 100) / 100,
     frontageEstimate: Math.round(frontageEstimate),
-
-    // Staffing estimates
-    cleanersNeeded: params.cleaning_enabled
-      ? (() => {
-          let cleanerHoursPerDay: number;
-          if (params.use_area_based_cleaning) {
-            cleanerHoursPerDay =
-              (areaAcres / params.acres_per_cleaner_hour) *
-              params.intensity_weight_clean *
-              cleanIntensity;
-          } else {
-            cleanerHoursPerDay =
-              (frontageEstimate / params.frontage_ft_per_cleaner_hour) *
-              params.intensity_weight_clean *
-              cleanIntensity;
-          }
-          return Math.ceil(cleanerHoursPerDay / params.clean_hours_per_shift);
-        })()
-      : 0,
-    supervisorsNeeded: params.cleaning_enabled
-      ? (() => {
-          let cleanerHoursPerDay: number;
-          if (params.use_area_based_cleaning) {
-            cleanerHoursPerDay =
-              (areaAcres / params.acres_per_cleaner_hour) *
-              params.intensity_weight_clean *
-              cleanIntensity;
-          } else {
-            cleanerHoursPerDay =
-              (frontageEstimate / params.frontage_ft_per_cleaner_hour) *
-              params.intensity_weight_clean *
-              cleanIntensity;
-          }
-          const cleanersNeeded = Math.ceil(
-            cleanerHoursPerDay / params.clean_hours_per_shift
-          );
-          return Math.ceil(cleanersNeeded / params.supervisor_ratio);
-        })()
-      : 0,
-    safetyFTE: params.safety_enabled
-      ? Math.ceil(params.safety_hours_per_day / 8.0) * nightIntensity
+    frontageSource,
+    assetCounts,
+    assetPlacement,
+
+    // Staffing estimates (FTEs from the schedules)
+    cleanersNeeded: cleaningSchedule ? Math.ceil(cleaningSchedule.staff.fte) : 0,
+    supervisorsNeeded: cleaningSchedule?.supervisors
+      ? Math.ceil(cleaningSchedule.supervisors.fte)
       : 0,
+    safetyFTE: safetySchedule ? safetySchedule.staff.fte : 0,
+    schedules: { cleaning: cleaningSchedule, safety: safetySchedule },
+    patrol,
+    cleaningRoutes,
+    delivery,
+    loadedRates: {
+      cleaner: laborParams.clean_loaded_rate,
+      supervisor: laborParams.supervisor_loaded_rate,
+      safety: laborParams.safety_loaded_rate,
+    },
+
+    // How each line was derived ("show the math")
+    trace: buildBudgetTrace({
+      params,
+      laborParams,
+      businessCount,
+      areaAcres,
+      frontageEstimate,
+      frontageSource,
+      cleanIntensity,
+      nightIntensity,
+      cleanerHoursPerDay,
+      dailyCrew,
+      schedules: { cleaning: cleaningSchedule, safety: safetySchedule },
+      patrol,
+      cleaningRoutes,
+      delivery,
+      assetCounts,
+      assetPlacement,
+      nightMarketingShare: NIGHT_ECONOMY_MARKETING_SHARE,
+      customLines,
+      capitalPlan,
+      funding,
+      costs: {
+        cleaning: cleaningCost,
+        safety: safetyCost,
+        marketing: marketingCost,
+        assets: assetsCost,
+        custom: customCost,
+        subtotal,
+        adminOverhead,
+        capital: capitalCost,
+        total,
+      },
+    }),
   };
 }
 
-// Determine place typology based on business mix
+// Convenience wrapper for callers that carry site inputs as one object
+export function calculateBudgetForInputs(
+  params: BudgetParameters,
+  inputs: BudgetInputs
+) {
+  return calculateBudget(
+    params,
+    inputs.businessCount,
+    inputs.areaAcres,
+    inputs.perimeterFt,
+    inputs.categoryBreakdown,
+    {
+      curbFrontageFt: inputs.curbFrontageFt,
+      segmentMiles: inputs.segmentMiles,
+      buildingCount: inputs.buildingCount,
+      streetNetwork: inputs.streetNetwork,
+      cleaningRoutes: inputs.cleaningRoutes,
+      assetPlacement: inputs.assetPlacement,
+    }
+  );
+}
+
+export type BudgetResult = ReturnType<typeof calculateBudget>;
+
+// Determine place typology based on business mix: dominant family first,
+// then the spread across service groups
 export function determinePlaceTypology(
   categoryBreakdown: Record<string, number> | null | undefined,
-  totalPlaces: number
+  totalPlaces: number,
+  groupOverrides: CategoryGroupOverrides = {}
 ) {
   if (totalPlaces === 0 || !categoryBreakdown) return "Low Density";
 
-  const percentages = Object.entries(categoryBreakdown).map(([cat, count]) => ({
-    category: cat,
-    percentage: (count / totalPlaces) * 100,
-  }));
-
-  // Sort by percentage
-  percentages.sort((a, b) => b.percentage - a.percentage);
+  const families = familyCategoryBreakdown(categoryBreakdown, groupOverrides);
+  const familyShare = (family: CategoryFamily) =>
+    ((families[family] || 0) / totalPlaces) * 100;
 
-  // Determine typology based on dominant categories
-  const topCategory = percentages[0];
+  const topFamily = (Object.keys(families) as CategoryFamily[]).sort(
+    (a, b) => familyShare(b) - familyShare(a)
+  )[0];
 
-  if (topCategory.percentage > 40) {
-    // Dominant single category
-    if (
-      topCategory.category === "retail" ||
-      topCategory.category === "shopping"
-    ) {
+  if (topFamily && familyShare(topFamily) > 40) {
+    // Dominant single family
+    if (topFamily === "shopping") {
       return "Retail Core";
-    } else if (
-      topCategory.category === "food" ||
-      topCategory.category === "restaurant"
-    ) {
+    } else if (topFamily === "food_and_drink") {
       return "Dining District";
-    } else if (
-      topCategory.category === "service" ||
-      topCategory.category === "services"
-    ) {
+    } else if (topFamily === "services") {
       return "Service Hub";
-    } else if (topCategory.category === "entertainment") {
+    } else if (topFamily === "entertainment") {
       return "Entertainment Zone";
     }
   }
 
   // Check for diverse mix
-  const topThree = percentages.slice(0, 3);
-  const topThreeTotal = topThree.reduce((sum, cat) => sum + cat.percentage, 0);
-
-  if (topThreeTotal < 70 && percentages.length >= 5) {
+  const groupPercentages = Object.values(
+    groupCategoryBreakdown(categoryBreakdown, groupOverrides)
+  )
+    .map((count) => ((count || 0) / totalPlaces) * 100)
+    .sort((a, b) => b - a);
+  const topThreeTotal = groupPercentages
+    .slice(0, 3)
+    .reduce((sum, pct) => sum + pct, 0);
+
+  if (topThreeTotal < 70 && groupPercentages.length >= 5) {
     return "Diverse Business Mix";
   }
 
   // Check for specific combinations
-  const foodPercentage =
-    (categoryBreakdown.food || 0) + (categoryBreakdown.restaurant || 0);
-  const retailPercentage =
-    (categoryBreakdown.retail || 0) + (categoryBreakdown.shopping || 0);
-
-  if (foodPercentage > 25 && retailPercentage > 25) {
+  if (familyShare("food_and_drink") > 25 && familyShare("shopping") > 25) {
     return "Mixed-Use District";
   }
 
@@ -419,20 +873,22 @@ export function getServiceDemandIndicators(
   areaAcres: number,
   categoryBreakdown: Record<string, number> | null | undefined,
   cleanIntensity: number,
-  nightIntensity: number
+  nightIntensity: number,
+  groupOverrides: CategoryGroupOverrides = {}
 ) {
   const density = areaAcres > 0 ? businessCount / areaAcres : 0;
   
-  // Handle null/undefined categoryBreakdown
-  const safeBreakdown = categoryBreakdown || {};
-  
-  const foodPercentage = businessCount > 0 ?
-    (((safeBreakdown.food || 0) + (safeBreakdown.restaurant || 0)) / businessCount) * 100 : 0;
-  
-  const retailPercentage = businessCount > 0 ?
-    (((safeBreakdown.retail || 0) + (safeBreakdown.shopping || 0)) / businessCount) * 100 : 0;
-  const entertainmentPercentage = businessCount > 0 ?
-    ((safeBreakdown.entertainment || 0) / businessCount) * 100 : 0;
+  // Shares by family, plus bars alongside entertainment for night demand
+  const families = familyCategoryBreakdown(categoryBreakdown, groupOverrides);
+  const groups = groupCategoryBreakdown(categoryBreakdown, groupOverrides);
+  const share = (count: number | undefined) =>
+    businessCount > 0 ? ((count || 0) / businessCount) * 100 : 0;
+
+  const foodPercentage = share(families.food_and_drink);
+  const retailPercentage = share(families.shopping);
+  const entertainmentPercentage = share(
+    (families.entertainment || 0) + (groups.bar || 0)
+  );
 
   return {
     cleaning: {
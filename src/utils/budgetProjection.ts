@@ -0,0 +1,260 @@
+// Multi-year budget projection (pro forma)
+// Labor, marketing, custom lines and admin grow at their own annual
+// escalation rates. Admin overhead is projected as an independent line: it
+// starts from the year-1 admin overhead and escalates on its own, rather than
+// staying a fixed share of each year's services.
+// Streetscape assets are purchased in year 1 and replaced in the years their
+// service life implies, instead of the flat annualized amount used by
+// calculateBudget.
+// Capital projects follow their own funding schedule, in nominal terms.
+// In formation mode year 1 is the formation first-year estimate: startup
+// costs, services and admin for the operating months only, and the year-1
+// capital outlay. The initial asset purchase replaces the prorated
+// annualized asset cost that estimate carries, so replacements still count
+// from year 1.
+
+import {
+  BudgetInputs,
+  BudgetParameters,
+  BudgetResult,
+  calculateBudgetForInputs,
+} from "./budgetCalculations";
+import { capitalOutlayForYear } from "./capitalPlan";
+
+export interface ProjectionYear {
+  year: number;
+  cleaning: number;
+  safety: number;
+  marketing: number;
+  assets: number;
+  custom: number;
+  adminOverhead: number; // Escalated from year 1, not a share of the year
+  capital: number;
+  startup: number; // Formation startup costs, year 1 only
+  total: number;
+  assetPurchases: string[]; // Asset types bought or replaced this year
+}
+
+// Amount lines of a projection year, in table order
+export type ProjectionLineKey = keyof Pick<
+  ProjectionYear,
+  | "cleaning"
+  | "safety"
+  | "marketing"
+  | "assets"
+  | "custom"
+  | "adminOverhead"
+  | "capital"
+  | "startup"
+  | "total"
+>;
+
+export interface BudgetProjection {
+  years: ProjectionYear[];
+  cumulativeTotal: number;
+  averageAnnualGrowth: number; // Compound growth from first to last year
+}
+
+function escalate(value: number, rate: number, yearIndex: number): number {
+  return value * Math.pow(1 + rate, yearIndex);
+}
+
+// Parameters for a given projection year with labor and marketing escalated
+export function escalateParameters(
+  params: BudgetParameters,
+  yearIndex: number
+): BudgetParameters {
+  const labor = params.labor_escalation_pct;
+  const marketing = params.marketing_escalation_pct;
+
+  return {
+    ...params,
+    clean_loaded_rate: escalate(params.clean_loaded_rate, labor, yearIndex),
+    supervisor_loaded_rate: escalate(
+      params.supervisor_loaded_rate,
+      labor,
+      yearIndex
+    ),
+    safety_loaded_rate: escalate(params.safety_loaded_rate, labor, yearIndex),
+    clean_base_wage: escalate(params.clean_base_wage, labor, yearIndex),
+    supervisor_base_wage: escalate(
+      params.supervisor_base_wage,
+      labor,
+      yearIndex
+    ),
+    safety_base_wage: escalate(params.safety_base_wage, labor, yearIndex),
+    benefits_per_fte: escalate(params.benefits_per_fte, labor, yearIndex),
+    uniform_equipment_per_fte: escalate(
+      params.uniform_equipment_per_fte,
+      labor,
+      yearIndex
+    ),
+    clean_contract_bill_rate: escalate(
+      params.clean_contract_bill_rate,
+      labor,
+      yearIndex
+    ),
+    safety_contract_bill_rate: escalate(
+      params.safety_contract_bill_rate,
+      labor,
+      yearIndex
+    ),
+    cleaning_contract_minimum: escalate(
+      params.cleaning_contract_minimum,
+      labor,
+      yearIndex
+    ),
+    safety_contract_minimum: escalate(
+      params.safety_contract_minimum,
+      labor,
+      yearIndex
+    ),
+    marketing_base_annual: escalate(
+      params.marketing_base_annual,
+      marketing,
+      yearIndex
+    ),
+    marketing_per_business: escalate(
+      params.marketing_per_business,
+      marketing,
+      yearIndex
+    ),
+    cost_per_event: escalate(params.cost_per_event, marketing, yearIndex),
+    custom_service_lines: params.custom_service_lines.map((line) => ({
+      ...line,
+      unitRate: escalate(line.unitRate, params.custom_line_escalation_pct, yearIndex),
+    })),
+  };
+}
+
+// Asset outlay for one year: full purchase in year 1, then a replacement
+// every life_years (rounded to whole years) at escalated unit cost
+function assetOutlayForYear(
+  params: BudgetParameters,
+  counts: { trashCans: number; planters: number; banners: number },
+  yearIndex: number
+) {
+  const assetTypes = [
+    {
+      label: "Trash cans",
+      count: counts.trashCans,
+      unitCost: params.trash_can_unit_cost,
+      lifeYears: params.trash_can_life_years,
+    },
+    {
+      label: "Planters",
+      count: counts.planters,
+      unitCost: params.planter_unit_cost,
+      lifeYears: params.planter_life_years,
+    },
+    {
+      label: "Banners",
+      count: counts.banners,
+      unitCost: params.banner_unit_cost,
+      lifeYears: params.banner_life_years,
+    },
+  ];
+
+  let cost = 0;
+  const purchased: string[] = [];
+
+  assetTypes.forEach((asset) => {
+    const cycle = Math.max(1, Math.round(asset.lifeYears));
+    if (yearIndex % cycle === 0 && asset.count > 0) {
+      cost +=
+        asset.count *
+        escalate(asset.unitCost, params.asset_cost_escalation_pct, yearIndex);
+      purchased.push(asset.label);
+    }
+  });
+
+  return { cost, purchased };
+}
+
+// Year 1 of a new district: the formation first-year total, with recurring
+// lines prorated to the operating months and the full initial asset purchase
+// in place of the prorated annualized asset cost
+function formationYear(
+  baseYear: BudgetResult,
+  assetOutlay: { cost: number; purchased: string[] }
+): ProjectionYear {
+  const formation = baseYear.formation!;
+  const share = formation.operatingMonths / 12;
+  const proratedAssets = baseYear.assets * share;
+  return {
+    year: 1,
+    cleaning: Math.round(baseYear.cleaning * share),
+    safety: Math.round(baseYear.safety * share),
+    marketing: Math.round(baseYear.marketing * share),
+    assets: Math.round(assetOutlay.cost),
+    custom: Math.round(baseYear.custom * share),
+    adminOverhead: Math.round(baseYear.adminOverhead * share),
+    capital: Math.round(formation.capitalFirstYear),
+    startup: Math.round(formation.startupCost),
+    total: Math.round(formation.firstYearTotal - proratedAssets + assetOutlay.cost),
+    assetPurchases: assetOutlay.purchased,
+  };
+}
+
+// Project the budget over params.projection_years
+export function projectBudget(
+  params: BudgetParameters,
+  inputs: BudgetInputs
+): BudgetProjection {
+  const baseYear = calculateBudgetForInputs(params, inputs);
+  const yearCount = Math.max(1, Math.round(params.projection_years));
+  const years: ProjectionYear[] = [];
+
+  for (let i = 0; i < yearCount; i++) {
+    const assetOutlay = params.assets_enabled
+      ? assetOutlayForYear(params, baseYear.assetCounts, i)
+      : { cost: 0, purchased: [] };
+    if (i === 0 && baseYear.formation) {
+      years.push(formationYear(baseYear, assetOutlay));
+      continue;
+    }
+    const yearBudget = calculateBudgetForInputs(
+      escalateParameters(params, i),
+      inputs
+    );
+    const adminOverhead = escalate(
+      baseYear.adminOverhead,
+      params.admin_escalation_pct,
+      i
+    );
+    const capital = capitalOutlayForYear(baseYear.capitalPlan, i + 1);
+
+    const total =
+      yearBudget.cleaning +
+      yearBudget.safety +
+      yearBudget.marketing +
+      yearBudget.custom +
+      assetOutlay.cost +
+      adminOverhead +
+      capital;
+
+    years.push({
+      year: i + 1,
+      cleaning: yearBudget.cleaning,
+      safety: yearBudget.safety,
+      marketing: yearBudget.marketing,
+      assets: Math.round(assetOutlay.cost),
+      custom: yearBudget.custom,
+      adminOverhead: Math.round(adminOverhead),
+      capital: Math.round(capital),
+      startup: 0,
+      total: Math.round(total),
+      assetPurchases: assetOutlay.purchased,
+    });
+  }
+
+  const cumulativeTotal = years.reduce((sum, y) => sum + y.total, 0);
+  const first = years[0].total;
+  const last = years[years.length - 1].total;
+  const averageAnnualGrowth =
+    years.length > 1 && first > 0
+      ? Math.pow(last / first, 1 / (years.length - 1)) - 1
+      : 0;
+
+  return { years, cumulativeTotal, averageAnnualGrowth };
+}
@@ -0,0 +1,699 @@
+// Derivation trace for the budget ("show the math")
+// calculateBudget passes its intermediate values here and returns the trace
+// with the totals. Each line lists its inputs and the steps that lead to its
+// cost; a step's formula is a sequence of values and operators, kept as
+// numbers so the same trace can be formatted for the panel and the PDF in
+// the user's currency and units.
+
+import type { BudgetParameters } from "./budgetCalculations";
+import {
+  FTE_HOURS_PER_YEAR,
+  ServiceSchedule,
+  WEEKS_PER_YEAR,
+} from "./staffingSchedule";
+import type { DeliveryComparison } from "./serviceDelivery";
+import type { PatrolBeatPlan } from "./patrolBeats";
+import type { CleaningRoutePlan } from "./cleaningRoutes";
+import type { AssetCounts, AssetPlacementPlan } from "./assetPlacement";
+import type { FundingMix } from "./fundingSources";
+import { CURB_SIDES_PER_STREET } from "./frontageModel";
+import { CustomLineCost, driverUnit } from "./customServiceLines";
+import {
+  BOND_ISSUANCE_COST_PCT,
+  CapitalPlan,
+  FUNDING_METHOD_OPTIONS,
+} from "./capitalPlan";
+import {
+  LocaleSettings,
+  formatArea,
+  formatCurrency,
+  formatLength,
+  formatNumber,
+} from "./locale";
+
+export type TraceUnit =
+  | "currency"
+  | "currency_per_hour"
+  | "ft"
+  | "ft_per_hour"
+  | "acres"
+  | "acres_per_hour"
+  | "hours"
+  | "fte"
+  | "factor"
+  | "percent"
+  | "years"
+  | "count";
+
+export interface TraceValue {
+  value: number;
+  unit: TraceUnit;
+  suffix?: string; // Noun for "count" values ("trash cans", "acres")
+}
+
+// Operators and grouping are plain strings between values
+export type TraceToken = TraceValue | string;
+
+export interface TraceStep {
+  label: string;
+  formula: TraceToken[];
+  result: TraceValue;
+  note?: string;
+}
+
+export interface TraceInput {
+  label: string;
+  value: TraceValue;
+  source?: string; // Where the value comes from, when not a parameter
+}
+
+export type TraceLineKey =
+  | "site"
+  | "cleaning"
+  | "safety"
+  | "marketing"
+  | "assets"
+  | "custom"
+  | "capital"
+  | "overhead";
+
+export interface LineTrace {
+  line: TraceLineKey;
+  label: string;
+  inputs: TraceInput[];
+  steps: TraceStep[];
+  total: number | null; // null for the site measures, which are not a cost
+  note?: string;
+}
+
+// Intermediate values from calculateBudget
+export interface TraceContext {
+  params: BudgetParameters;
+  laborParams: BudgetParameters; // With loaded rates from the labor model
+  businessCount: number;
+  areaAcres: number;
+  frontageEstimate: number;
+  frontageSource: "segments" | "business_count";
+  cleanIntensity: number;
+  nightIntensity: number;
+  cleanerHoursPerDay: number;
+  dailyCrew: number;
+  schedules: { cleaning: ServiceSchedule | null; safety: ServiceSchedule | null };
+  patrol: PatrolBeatPlan | null;
+  cleaningRoutes: CleaningRoutePlan | null;
+  delivery: { cleaning: DeliveryComparison | null; safety: DeliveryComparison | null };
+  assetCounts: AssetCounts;
+  assetPlacement: AssetPlacementPlan | null;
+  nightMarketingShare: number;
+  customLines: CustomLineCost[];
+  capitalPlan: CapitalPlan;
+  funding: FundingMix;
+  costs: {
+    cleaning: number;
+    safety: number;
+    marketing: number;
+    assets: number;
+    custom: number;
+    subtotal: number;
+    adminOverhead: number;
+    capital: number;
+    total: number;
+  };
+}
+
+const v = (value: number, unit: TraceUnit, suffix?: string): TraceValue => ({
+  value,
+  unit,
+  suffix,
+});
+
+function averageMultiplier(multipliers: number[]): number {
+  return multipliers.length > 0
+    ? multipliers.reduce((s, m) => s + m, 0) / multipliers.length
+    : 1;
+}
+
+function siteTrace(ctx: TraceContext): LineTrace {
+  const { params } = ctx;
+  const steps: TraceStep[] = [];
+  if (ctx.frontageSource === "business_count") {
+    steps.push({
+      label: "Estimated frontage",
+      formula: [
+        v(ctx.businessCount, "count", "businesses"),
+        "×",
+        v(params.avg_frontage_ft_per_business, "ft"),
+      ],
+      result: v(ctx.frontageEstimate, "ft"),
+    });
+  }
+
+  return {
+    line: "site",
+    label: "District Measures",
+    inputs: [
+      { label: "Businesses", value: v(ctx.businessCount, "count", "businesses"), source: "Places in the district" },
+      { label: "Area", value: v(ctx.areaAcres, "acres"), source: "District boundary" },
+      {
+        label: ctx.frontageSource === "segments" ? "Curb frontage" : "Frontage",
+        value: v(ctx.frontageEstimate, "ft"),
+        source:
+          ctx.frontageSource === "segments"
+            ? "Street segments, both sides of included road classes"
+            : "Business count × frontage per business",
+      },
+      { label: "Cleaning intensity", value: v(ctx.cleanIntensity, "factor"), source: "Business-mix weighted average" },
+      { label: "Night intensity", value: v(ctx.nightIntensity, "factor"), source: "Business-mix weighted average" },
+    ],
+    steps,
+    total: null,
+  };
+}
+
+function deliveryNote(comparison: DeliveryComparison): string {
+  return comparison.mode === "contracted"
+    ? "Contracted: the vendor cost below is the budgeted amount"
+    : "In-house: staff hours at loaded rates";
+}
+
+// Contract steps shared by cleaning and safety
+function contractSteps(comparison: DeliveryComparison, billRate: number, feePct: number, minimum: number): TraceStep[] {
+  const c = comparison.contracted;
+  return [
+    {
+      label: "Contract labor",
+      formula: [v(c.billedHours, "hours"), "×", v(billRate, "currency_per_hour")],
+      result: v(c.labor, "currency"),
+    },
+    {
+      label: "Management fee",
+      formula: [v(c.labor, "currency"), "×", v(feePct, "percent")],
+      result: v(c.managementFee, "currency"),
+    },
+    {
+      label: "Contract cost",
+      formula: ["max(", v(c.labor, "currency"), "+", v(c.managementFee, "currency"), ",", v(minimum, "currency"), "minimum )"],
+      result: v(c.cost, "currency"),
+      note: c.minimumApplies ? "Contract minimum applies" : undefined,
+    },
+  ];
+}
+
+// Annual hours and cost for one scheduled role
+function scheduleSteps(
+  role: string,
+  weeklyHours: number,
+  multipliers: number[],
+  rate: number
+): TraceStep[] {
+  const seasonal = averageMultiplier(multipliers);
+  const annualHours = weeklyHours * WEEKS_PER_YEAR * seasonal;
+  return [
+    {
+      label: `Annual ${role} hours`,
+      formula: [v(weeklyHours, "hours"), "per week ×", v(WEEKS_PER_YEAR, "count", "weeks"), "×", v(seasonal, "factor"), "seasonal"],
+      result: v(annualHours, "hours"),
+    },
+    {
+      label: `${role[0].toUpperCase()}${role.slice(1)} FTE`,
+      formula: [v(annualHours, "hours"), "÷", v(FTE_HOURS_PER_YEAR, "hours"), "per FTE"],
+      result: v(annualHours / FTE_HOURS_PER_YEAR, "fte"),
+    },
+    {
+      label: `${role[0].toUpperCase()}${role.slice(1)} labor`,
+      formula: [v(annualHours, "hours"), "×", v(rate, "currency_per_hour")],
+      result: v(annualHours * rate, "currency"),
+    },
+  ];
+}
+
+function cleaningTrace(ctx: TraceContext): LineTrace | null {
+  const schedule = ctx.schedules.cleaning;
+  const comparison = ctx.delivery.cleaning;
+  if (!schedule || !comparison) return null;
+  const { params, laborParams } = ctx;
+  const areaBased = params.use_area_based_cleaning && ctx.areaAcres > 0;
+  const routes = ctx.cleaningRoutes;
+  const crewNote = schedule.isCustom
+    ? "Not used: the custom staffing grid sets the crew"
+    : undefined;
+
+  const crewSteps: TraceStep[] = routes
+    ? [
+        {
+          label: "Block faces to sweep",
+          formula: ["Both sides of every included street"],
+          result: v(routes.blockFaceFt, "ft"),
+        },
+        {
+          label: "Routes per pass",
+          formula: [
+            "Tour of",
+            v(routes.blockFaceFt, "ft"),
+            "+",
+            v(routes.deadheadFt, "ft"),
+            "deadhead, cut into routes of at most",
+            v(params.clean_hours_per_shift, "hours"),
+          ],
+          result: v(routes.routes.length, "count", "routes"),
+          note: routes.fitsShift
+            ? `${routes.hoursPerPass.toFixed(1)} hours of sweeping and walking per pass`
+            : "A single block face takes longer than a shift",
+        },
+        {
+          label: "Cleaners per day",
+          formula: [v(routes.routes.length, "count", "routes"), "×", v(params.clean_shifts_per_day, "count", "shifts")],
+          result: v(ctx.dailyCrew, "count", "cleaners"),
+          note: crewNote,
+        },
+      ]
+    : [
+        {
+          label: "Cleaner-hours per day",
+          formula: [
+            ...(areaBased
+              ? [v(ctx.areaAcres, "acres"), "÷", v(params.acres_per_cleaner_hour, "acres_per_hour")]
+              : [v(ctx.frontageEstimate, "ft"), "÷", v(params.frontage_ft_per_cleaner_hour, "ft_per_hour")]),
+            "×",
+            v(params.intensity_weight_clean, "factor"),
+            "weight ×",
+            v(ctx.cleanIntensity, "factor"),
+            "intensity ×",
+            v(params.clean_shifts_per_day, "count", "shifts"),
+          ],
+          result: v(ctx.cleanerHoursPerDay, "hours"),
+        },
+        {
+          label: "Cleaners per day",
+          formula: ["⌈", v(ctx.cleanerHoursPerDay, "hours"), "÷", v(params.clean_hours_per_shift, "hours"), "per shift ⌉"],
+          result: v(ctx.dailyCrew, "count", "cleaners"),
+          note: crewNote,
+        },
+      ];
+
+  const steps: TraceStep[] = [
+    ...crewSteps,
+    {
+      label: "Weekly cleaner hours",
+      formula: ["Σ staffing grid"],
+      result: v(schedule.staff.weeklyHours, "hours"),
+      note: schedule.isCustom
+        ? "Custom weekly grid"
+        : `Crew on ${Math.round(params.clean_days_per_week)} days, ${params.clean_shifts_per_day} × ${params.clean_hours_per_shift}-hour shifts`,
+    },
+    ...scheduleSteps("cleaner", schedule.staff.weeklyHours, params.cleaning_seasonal_multipliers, laborParams.clean_loaded_rate),
+  ];
+
+  if (schedule.supervisors) {
+    steps.push(
+      {
+        label: "Weekly supervisor hours",
+        formula: ["Σ ⌈ cleaners on duty ÷", v(params.supervisor_ratio, "count", "per supervisor"), "⌉ by hour"],
+        result: v(schedule.supervisors.weeklyHours, "hours"),
+      },
+      ...scheduleSteps("supervisor", schedule.supervisors.weeklyHours, params.cleaning_seasonal_multipliers, laborParams.supervisor_loaded_rate)
+    );
+  }
+  steps.push({
+    label: "In-house cost",
+    formula: [
+      v(schedule.staff.annualCost, "currency"),
+      "cleaners +",
+      v(schedule.supervisors?.annualCost || 0, "currency"),
+      "supervisors",
+    ],
+    result: v(schedule.annualCost, "currency"),
+  });
+  if (comparison.mode === "contracted") {
+    steps.push(
+      ...contractSteps(
+        comparison,
+        params.clean_contract_bill_rate,
+        params.cleaning_contract_fee_pct,
+        params.cleaning_contract_minimum
+      )
+    );
+  }
+
+  return {
+    line: "cleaning",
+    label: "Cleaning & Maintenance",
+    inputs: [
+      { label: "Cleaner loaded rate", value: v(laborParams.clean_loaded_rate, "currency_per_hour"), source: params.use_detailed_labor_model ? "Detailed labor model" : undefined },
+      { label: "Supervisor loaded rate", value: v(laborParams.supervisor_loaded_rate, "currency_per_hour"), source: params.use_detailed_labor_model ? "Detailed labor model" : undefined },
+      { label: "Days per week", value: v(params.clean_days_per_week, "count", "days") },
+    ],
+    steps,
+    total: ctx.costs.cleaning,
+    note: deliveryNote(comparison),
+  };
+}
+
+function safetyTrace(ctx: TraceContext): LineTrace | null {
+  const schedule = ctx.schedules.safety;
+  const comparison = ctx.delivery.safety;
+  if (!schedule || !comparison) return null;
+  const { params, laborParams } = ctx;
+  const patrol = schedule.isCustom ? null : ctx.patrol;
+
+  const steps: TraceStep[] = [];
+  if (patrol) {
+    steps.push(
+      {
+        label: "Patrol length",
+        formula: [v(ctx.frontageEstimate, "ft"), "÷", v(CURB_SIDES_PER_STREET, "count", "curbs per street")],
+        result: v(patrol.patrolLengthFt, "ft"),
+      },
+      {
+        label: "Distance per revisit",
+        formula: [
+          v(params.patrol_walking_speed_mph * 5280, "ft_per_hour"),
+          "×",
+          v(params.patrol_revisit_minutes / 60, "hours"),
+        ],
+        result: v(patrol.feetPerVisit, "ft"),
+      },
+      {
+        label: "Patrol beats",
+        formula: [v(patrol.patrolLengthFt, "ft"), "÷", v(patrol.feetPerVisit, "ft")],
+        result: v(patrol.beats, "count", "beats"),
+      },
+      ...patrol.blocks.map(
+        ({ block, factor, ambassadors }): TraceStep => ({
+          label: `${block.label} ambassadors`,
+          formula: ["⌈", v(patrol.beats, "count", "beats"), "×", v(factor, "factor"), "⌉"],
+          result: v(ambassadors, "count", "on duty"),
+          note: block.night ? "Safety weight × night intensity" : "Safety weight",
+        })
+      )
+    );
+  }
+  steps.push(
+    {
+      label: "Weekly ambassador hours",
+      formula: ["Σ staffing grid"],
+      result: v(schedule.staff.weeklyHours, "hours"),
+      note: schedule.isCustom
+        ? "Custom weekly grid"
+        : patrol
+        ? `Beat crews over ${params.safety_hours_per_day} hours on ${Math.round(params.safety_days_per_week)} days` +
+          (patrol.model === "blend"
+            ? `, blended ${Math.round(params.patrol_blend_weight * 100)}% with the fixed-hours crew`
+            : "")
+        : `${params.safety_hours_per_day} hours on ${Math.round(params.safety_days_per_week)} days, scaled by night intensity × safety weight = ${(ctx.nightIntensity * params.intensity_weight_safety).toFixed(2)}`,
+    },
+    ...scheduleSteps("ambassador", schedule.staff.weeklyHours, params.safety_seasonal_multipliers, laborParams.safety_loaded_rate)
+  );
+  if (comparison.mode === "contracted") {
+    steps.push(
+      ...contractSteps(
+        comparison,
+        params.safety_contract_bill_rate,
+        params.safety_contract_fee_pct,
+        params.safety_contract_minimum
+      )
+    );
+  }
+
+  return {
+    line: "safety",
+    label: "Safety & Hospitality",
+    inputs: [
+      { label: "Ambassador loaded rate", value: v(laborParams.safety_loaded_rate, "currency_per_hour"), source: params.use_detailed_labor_model ? "Detailed labor model" : undefined },
+      { label: "Night intensity", value: v(ctx.nightIntensity, "factor") },
+      { label: "Safety weight", value: v(params.intensity_weight_safety, "factor") },
+    ],
+    steps,
+    total: ctx.costs.safety,
+    note: deliveryNote(comparison),
+  };
+}
+
+function marketingTrace(ctx: TraceContext): LineTrace | null {
+  const { params } = ctx;
+  if (!params.marketing_enabled) return null;
+
+  const perBusiness = ctx.businessCount * params.marketing_per_business;
+  const nightBonus =
+    params.marketing_night_economy_multiplier *
+    ctx.nightIntensity *
+    params.marketing_base_annual *
+    ctx.nightMarketingShare;
+  const events = params.events_per_year * params.cost_per_event;
+
+  return {
+    line: "marketing",
+    label: "Marketing & Events",
+    inputs: [
+      { label: "Base budget", value: v(params.marketing_base_annual, "currency") },
+      { label: "Businesses", value: v(ctx.businessCount, "count", "businesses") },
+    ],
+    steps: [
+      {
+        label: "Per-business marketing",
+        formula: [v(ctx.businessCount, "count", "businesses"), "×", v(params.marketing_per_business, "currency")],
+        result: v(perBusiness, "currency"),
+      },
+      {
+        label: "Night economy bonus",
+        formula: [
+          v(params.marketing_night_economy_multiplier, "factor"),
+          "×",
+          v(ctx.nightIntensity, "factor"),
+          "night ×",
+          v(params.marketing_base_annual, "currency"),
+          "×",
+          v(ctx.nightMarketingShare, "percent"),
+        ],
+        result: v(nightBonus, "currency"),
+      },
+      {
+        label: "Events",
+        formula: [v(params.events_per_year, "count", "events"), "×", v(params.cost_per_event, "currency")],
+        result: v(events, "currency"),
+      },
+      {
+        label: "Marketing total",
+        formula: [v(params.marketing_base_annual, "currency"), "+", v(perBusiness, "currency"), "+", v(nightBonus, "currency"), "+", v(events, "currency")],
+        result: v(ctx.costs.marketing, "currency"),
+      },
+    ],
+    total: ctx.costs.marketing,
+  };
+}
+
+function assetsTrace(ctx: TraceContext): LineTrace | null {
+  const { params } = ctx;
+  if (!params.assets_enabled) return null;
+
+  const assets = [
+    { name: "trash cans", count: ctx.assetCounts.trashCans, spacing: params.feet_per_trash_can, cost: params.trash_can_unit_cost, life: params.trash_can_life_years },
+    { name: "planters", count: ctx.assetCounts.planters, spacing: params.feet_per_planter, cost: params.planter_unit_cost, life: params.planter_life_years },
+    { name: "banners", count: ctx.assetCounts.banners, spacing: params.feet_per_banner, cost: params.banner_unit_cost, life: params.banner_life_years },
+  ];
+
+  // Placed counts lose a little to intersection setbacks and short faces
+  const placement = ctx.assetPlacement;
+  const countStep = (a: (typeof assets)[number]): TraceStep =>
+    placement
+      ? {
+          label: `${a.name[0].toUpperCase()}${a.name.slice(1)} placed`,
+          formula: ["place along", v(placement.blockFaceFt, "ft"), "of block faces every", v(a.spacing, "ft"), ", clear of intersections by", v(placement.setbackFt, "ft")],
+          result: v(a.count, "count", a.name),
+        }
+      : {
+          label: `Number of ${a.name}`,
+          formula: ["⌈", v(ctx.frontageEstimate, "ft"), "÷", v(a.spacing, "ft"), "spacing ⌉"],
+          result: v(a.count, "count", a.name),
+        };
+
+  return {
+    line: "assets",
+    label: "Streetscape Assets",
+    inputs: [{ label: "Frontage", value: v(ctx.frontageEstimate, "ft") }],
+    steps: assets.flatMap((a) => [
+      countStep(a),
+      {
+        label: `Annualized ${a.name}`,
+        formula: [v(a.count, "count", a.name), "×", v(a.cost, "currency"), "÷", v(a.life, "years")],
+        result: v((a.count * a.cost) / a.life, "currency"),
+      },
+    ]),
+    total: ctx.costs.assets,
+  };
+}
+
+const pluralUnit = (unit: string) =>
+  unit === "ft" ? unit : unit === "business" ? "businesses" : `${unit}s`;
+
+function customTrace(ctx: TraceContext): LineTrace | null {
+  if (ctx.customLines.length === 0) return null;
+
+  return {
+    line: "custom",
+    label: "Custom Service Lines",
+    inputs: [],
+    steps: ctx.customLines.map((line) => ({
+      label: line.name,
+      formula:
+        line.driver === "fixed"
+          ? [v(line.unitRate, "currency"), "fixed"]
+          : [v(line.quantity, "count", pluralUnit(driverUnit(line.driver))), "×", v(line.unitRate, "currency")],
+      result: v(line.cost, "currency"),
+      note: line.missingData ? `No ${driverUnit(line.driver)} data loaded; costed at zero` : undefined,
+    })),
+    total: ctx.costs.custom,
+  };
+}
+
+// Year-1 payment of each project; later projects show zero until they start
+function capitalTrace(ctx: TraceContext): LineTrace | null {
+  const { projects } = ctx.capitalPlan;
+  if (projects.length === 0) return null;
+
+  const fundingLabel = (funding: string) =>
+    FUNDING_METHOD_OPTIONS.find((o) => o.value === funding)?.label || funding;
+  const original = (id: string) =>
+    ctx.params.capital_projects.find((p) => p.id === id)!;
+
+  return {
+    line: "capital",
+    label: "Capital Plan",
+    inputs: [],
+    steps: projects.map((p) => {
+      const project = original(p.id);
+      const term = p.lastYear - p.firstYear + 1;
+      const formula =
+        p.funding === "cash"
+          ? [v(project.cost, "currency"), "paid in year", v(p.firstYear, "count")]
+          : p.funding === "reserve"
+          ? [v(project.cost, "currency"), "saved over", v(term, "years"), "at", v(project.rate, "percent")]
+          : [v(p.principal, "currency"), "repaid over", v(term, "years"), "at", v(project.rate, "percent")];
+      return {
+        label: `${p.name} (${fundingLabel(p.funding).toLowerCase()})`,
+        formula,
+        result: v(p.payments[0] || 0, "currency"),
+        note:
+          p.firstYear > 1
+            ? `Payments start in year ${p.firstYear}`
+            : p.funding === "bond"
+            ? `Principal includes ${(BOND_ISSUANCE_COST_PCT * 100).toFixed(0)}% issuance cost`
+            : undefined,
+      };
+    }),
+    total: ctx.costs.capital,
+    note: "Not part of the admin overhead base",
+  };
+}
+
+function overheadTrace(ctx: TraceContext): LineTrace {
+  const { costs, params } = ctx;
+  return {
+    line: "overhead",
+    label: "Overhead & Total",
+    inputs: [{ label: "Admin overhead", value: v(params.admin_overhead_pct, "percent") }],
+    steps: [
+      {
+        label: "Subtotal",
+        formula: [
+          v(costs.cleaning, "currency"), "cleaning +",
+          v(costs.safety, "currency"), "safety +",
+          v(costs.marketing, "currency"), "marketing +",
+          v(costs.assets, "currency"), "assets +",
+          v(costs.custom, "currency"), "custom",
+        ],
+        result: v(costs.subtotal, "currency"),
+      },
+      {
+        label: "Admin overhead",
+        formula: [v(costs.subtotal, "currency"), "×", v(params.admin_overhead_pct, "percent")],
+        result: v(costs.adminOverhead, "currency"),
+      },
+      {
+        label: "Total annual budget",
+        formula:
+          costs.capital > 0
+            ? [v(costs.subtotal, "currency"), "+", v(costs.adminOverhead, "currency"), "+", v(costs.capital, "currency"), "capital"]
+            : [v(costs.subtotal, "currency"), "+", v(costs.adminOverhead, "currency")],
+        result: v(costs.total, "currency"),
+      },
+      ...(ctx.funding.sources.length > 0
+        ? [
+            {
+              label: "Net assessment requirement",
+              formula: [v(costs.total, "currency"), "−", v(ctx.funding.nonAssessment, "currency"), "other revenue"],
+              result: v(ctx.funding.netAssessment, "currency"),
+              note:
+                ctx.funding.surplus > 0
+                  ? "Other revenue covers the whole budget"
+                  : undefined,
+            },
+          ]
+        : []),
+    ],
+    total: costs.total,
+  };
+}
+
+export function buildBudgetTrace(ctx: TraceContext): LineTrace[] {
+  return [
+    siteTrace(ctx),
+    cleaningTrace(ctx),
+    safetyTrace(ctx),
+    marketingTrace(ctx),
+    assetsTrace(ctx),
+    customTrace(ctx),
+    capitalTrace(ctx),
+    overheadTrace(ctx),
+  ].filter((line): line is LineTrace => line !== null);
+}
+
+// Code display ("EUR 1,200") is for outputs without the currency symbol
+export function formatTraceValue(
+  value: TraceValue,
+  locale: LocaleSettings,
+  currencyDisplay: "symbol" | "code" = "symbol"
+): string {
+  const n = (digits: number) => formatNumber(value.value, locale, digits);
+  switch (value.unit) {
+    case "currency":
+      return formatCurrency(value.value, locale, 0, currencyDisplay);
+    case "currency_per_hour":
+      return `${formatCurrency(value.value, locale, 2, currencyDisplay)}/hr`;
+    case "ft":
+      return formatLength(value.value, locale);
+    case "ft_per_hour":
+      return `${formatLength(value.value, locale)}/hr`;
+    case "acres":
+      return formatArea(value.value, locale);
+    case "acres_per_hour":
+      return `${formatArea(value.value, locale, 2)}/hr`;
+    case "hours":
+      return `${n(1)} hrs`;
+    case "fte":
+      return `${n(1)} FTE`;
+    case "factor":
+      return `${value.value.toFixed(2)}×`;
+    case "percent":
+      return `${+(value.value * 100).toFixed(1)}%`;
+    case "years":
+      return `${n(1)} yrs`;
+    case "count":
+      return value.suffix ? `${n(1)} ${value.suffix}` : n(1);
+  }
+}
+
+export function formatTraceFormula(
+  formula: TraceToken[],
+  locale: LocaleSettings,
+  currencyDisplay: "symbol" | "code" = "symbol"
+): string {
+  return formula
+    .map((token) =>
+      typeof token === "string" ? token : formatTraceValue(token, locale, currencyDisplay)
+    )
+    .join(" ")
+    .replace(/\( /g, "(")
+    .replace(/ \)/g, ")")
+    .replace(/ ,/g, ",");
+}
@@ -0,0 +1,322 @@
+// Calibration against the known budgets of existing BIDs
+// Each active BID with an annual budget is estimated from its precomputed
+// places and segments, using the cost index of its own metro so that wage
+// differences between cities are not absorbed into the fitted parameters.
+// Selected parameters are then fitted by coordinate descent (golden-section
+// search within bounds) to minimize the mean squared log error, which
+// weights a 20% miss the same for a small district as for a large one.
+// Published budgets are in US dollars, so only a USD parameter set is fitted.
+// Every objective evaluation estimates all reference BIDs, so the search
+// yields to the browser after each one and can be cancelled.
+
+import {
+  BudgetInputs,
+  BudgetParameters,
+  NumericParameterKey,
+  calculateBudgetForInputs,
+} from "./budgetCalculations";
+import {
+  SegmentFrontage,
+  calculateCurbFrontageFt,
+  calculateSegmentMiles,
+} from "./frontageModel";
+import { applyRegionalIndex, findRegionalIndex } from "./regionalCosts";
+import { RegionalCostIndex } from "../constants/regionalCostIndex";
+import { percentile } from "./statistics";
+
+// An existing BID with a published budget, as returned by
+// /api/calibration-data and /api/peer-bids
+export interface ReferenceBid {
+  bidId: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  annualBudget: number;
+  areaAcres: number;
+  perimeterFt: number;
+  lng: number;
+  lat: number;
+  businessCount: number;
+  categoryBreakdown: Record<string, number>;
+  segmentFrontage: SegmentFrontage | null;
+}
+
+// Currency of published reference budgets
+export const REFERENCE_BUDGET_CURRENCY = "USD";
+
+export interface CalibrationVariable {
+  key: NumericParameterKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number; // Fitted values are rounded to the slider step
+}
+
+// Parameters the fit may adjust; rates and unit costs come from the regional
+// index instead
+export const CALIBRATION_VARIABLES: CalibrationVariable[] = [
+  { key: "intensity_weight_clean", label: "Cleaning intensity weight", min: 0.5, max: 2, step: 0.01 },
+  { key: "intensity_weight_safety", label: "Safety intensity weight", min: 0.5, max: 2, step: 0.01 },
+  { key: "frontage_ft_per_cleaner_hour", label: "Cleaner productivity (ft/hr)", min: 300, max: 2000, step: 10 },
+  { key: "avg_frontage_ft_per_business", label: "Frontage per business (ft)", min: 10, max: 60, step: 1 },
+  { key: "safety_hours_per_day", label: "Safety hours per day", min: 4, max: 24, step: 1 },
+  { key: "marketing_per_business", label: "Marketing per business", min: 0, max: 300, step: 1 },
+  { key: "admin_overhead_pct", label: "Admin overhead", min: 0.05, max: 0.4, step: 0.01 },
+];
+
+export const DEFAULT_CALIBRATION_KEYS: NumericParameterKey[] = [
+  "intensity_weight_clean",
+  "intensity_weight_safety",
+  "marketing_per_business",
+];
+
+const MAX_PASSES = 4;
+const GOLDEN_ITERATIONS = 24;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+export interface CalibrationResidual {
+  bidId: string;
+  name: string;
+  location: string;
+  actual: number;
+  before: number;
+  after: number;
+  errorBefore: number; // (estimate - actual) / actual
+  errorAfter: number;
+}
+
+export interface CalibrationFit {
+  mape: number; // Mean absolute percentage error
+  medianApe: number;
+  logRmse: number; // Objective: root mean squared log(estimate / actual)
+}
+
+export interface CalibrationResult {
+  bidCount: number;
+  skipped: number; // BIDs without places or area
+  variables: { key: NumericParameterKey; label: string; before: number; after: number }[];
+  residuals: CalibrationResidual[];
+  before: CalibrationFit;
+  after: CalibrationFit;
+  params: BudgetParameters; // Calibrated parameter set, in the base region
+}
+
+export async function fetchCalibrationBids(): Promise<ReferenceBid[]> {
+  const r = await fetch("/api/calibration-data");
+  const data = await r.json();
+  if (!r.ok) {
+    throw new Error(data?.error || `Calibration data failed with status ${r.status}`);
+  }
+  return data.bids || [];
+}
+
+interface PreparedBid {
+  bid: ReferenceBid;
+  inputs: BudgetInputs;
+  index: RegionalCostIndex;
+}
+
+function bidInputs(bid: ReferenceBid, params: BudgetParameters): BudgetInputs {
+  return {
+    businessCount: bid.businessCount,
+    areaAcres: bid.areaAcres,
+    perimeterFt: bid.perimeterFt,
+    categoryBreakdown: bid.categoryBreakdown,
+    curbFrontageFt: bid.segmentFrontage
+      ? calculateCurbFrontageFt(bid.segmentFrontage, params.frontage_road_classes)
+      : null,
+    segmentMiles: bid.segmentFrontage
+      ? calculateSegmentMiles(bid.segmentFrontage)
+      : null,
+    buildingCount: null,
+  };
+}
+
+// Estimate for one BID with the parameters moved into its metro's costs.
+// Custom staffing grids describe the user's district, so peers use the
+// default grids.
+function estimateBid(
+  params: BudgetParameters,
+  baseIndex: RegionalCostIndex,
+  prepared: PreparedBid
+): number {
+  const local = applyRegionalIndex(
+    { ...params, cleaning_schedule: null, safety_schedule: null },
+    prepared.index,
+    baseIndex
+  );
+  return calculateBudgetForInputs(local, prepared.inputs).total;
+}
+
+function measureFit(estimates: number[], actuals: number[]): CalibrationFit {
+  const ape = estimates.map((e, i) => Math.abs(e - actuals[i]) / actuals[i]);
+  const logSq = estimates.map((e, i) =>
+    Math.pow(Math.log(Math.max(1, e) / actuals[i]), 2)
+  );
+  return {
+    mape: ape.reduce((sum, v) => sum + v, 0) / ape.length,
+    medianApe: percentile([...ape].sort((a, b) => a - b), 0.5),
+    logRmse: Math.sqrt(logSq.reduce((sum, v) => sum + v, 0) / logSq.length),
+  };
+}
+
+function roundToStep(value: number, step: number): number {
+  return Math.round(Math.round(value / step) * step * 1000) / 1000;
+}
+
+// Minimize a one-dimensional function on [min, max]
+async function goldenSection(
+  f: (x: number) => Promise<number>,
+  min: number,
+  max: number
+): Promise<number> {
+  let a = min;
+  let b = max;
+  let c = b - GOLDEN_RATIO * (b - a);
+  let d = a + GOLDEN_RATIO * (b - a);
+  let fc = await f(c);
+  let fd = await f(d);
+
+  for (let i = 0; i < GOLDEN_ITERATIONS; i++) {
+    if (fc < fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - GOLDEN_RATIO * (b - a);
+      fc = await f(c);
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + GOLDEN_RATIO * (b - a);
+      fd = await f(d);
+    }
+  }
+  return (a + b) / 2;
+}
+
+// Fit the free parameters. onProgress is called after each objective
+// evaluation with the share of the search budget used; returning false
+// cancels the run, which then resolves to null.
+export async function calibrateParameters(
+  params: BudgetParameters,
+  baseIndex: RegionalCostIndex,
+  bids: ReferenceBid[],
+  freeKeys: NumericParameterKey[],
+  onProgress?: (share: number) => boolean
+): Promise<CalibrationResult | null> {
+  if (params.currency !== REFERENCE_BUDGET_CURRENCY) {
+    throw new Error(
+      `Reference budgets are in ${REFERENCE_BUDGET_CURRENCY}; switch the currency to ${REFERENCE_BUDGET_CURRENCY} to calibrate`
+    );
+  }
+  const prepared: PreparedBid[] = bids
+    .filter((bid) => bid.businessCount > 0 && bid.areaAcres > 0)
+    .map((bid) => ({
+      bid,
+      inputs: bidInputs(bid, params),
+      index: findRegionalIndex([bid.lng, bid.lat], bid.name).index,
+    }));
+  const actuals = prepared.map((p) => p.bid.annualBudget);
+  const variables = CALIBRATION_VARIABLES.filter((v) => freeKeys.includes(v.key));
+
+  const estimateAll = (candidate: BudgetParameters) =>
+    prepared.map((p) => estimateBid(candidate, baseIndex, p));
+  // Upper bound on evaluations: the starting fit, then per variable and
+  // pass the two golden-section probes, its iterations and the final check
+  const budget = 1 + MAX_PASSES * variables.length * (GOLDEN_ITERATIONS + 3);
+  let evaluations = 0;
+  let cancelled = false;
+
+  const objective = async (candidate: BudgetParameters): Promise<number> => {
+    if (cancelled) return Infinity;
+    const score = measureFit(estimateAll(candidate), actuals).logRmse;
+    evaluations++;
+    if (onProgress && !onProgress(Math.min(1, evaluations / budget))) {
+      cancelled = true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return score;
+  };
+
+  let calibrated = params;
+  let best = prepared.length > 0 ? await objective(calibrated) : 0;
+
+  for (let pass = 0; pass < MAX_PASSES && prepared.length > 0; pass++) {
+    const startOfPass = best;
+
+    for (const variable of variables) {
+      const withValue = (value: number): BudgetParameters => ({
+        ...calibrated,
+        [variable.key]: roundToStep(value, variable.step),
+      });
+      const value = await goldenSection(
+        (x) => objective(withValue(x)),
+        variable.min,
+        variable.max
+      );
+      const candidate = withValue(value);
+      const score = await objective(candidate);
+      if (cancelled) return null;
+      if (score < best) {
+        calibrated = candidate;
+        best = score;
+      }
+    }
+
+    if (startOfPass - best < 1e-4) break;
+  }
+  if (cancelled) return null;
+
+  const before = estimateAll(params);
+  const after = estimateAll(calibrated);
+
+  return {
+    bidCount: prepared.length,
+    skipped: bids.length - prepared.length,
+    variables: variables.map((v) => ({
+      key: v.key,
+      label: v.label,
+      before: params[v.key] as number,
+      after: calibrated[v.key] as number,
+    })),
+    residuals: prepared.map((p, i) => ({
+      bidId: p.bid.bidId,
+      name: p.bid.name,
+      location: [p.bid.city, p.bid.state].filter(Boolean).join(", "),
+      actual: actuals[i],
+      before: before[i],
+      after: after[i],
+      errorBefore: (before[i] - actuals[i]) / actuals[i],
+      errorAfter: (after[i] - actuals[i]) / actuals[i],
+    })),
+    before: prepared.length > 0 ? measureFit(before, actuals) : emptyFit(),
+    after: prepared.length > 0 ? measureFit(after, actuals) : emptyFit(),
+    params: calibrated,
+  };
+}
+
+function emptyFit(): CalibrationFit {
+  return { mape: 0, medianApe: 0, logRmse: 0 };
+}
+
+// Residual table as CSV for the calibration report download
+export function calibrationReportCSV(result: CalibrationResult): string {
+  const pct = (v: number) => (v * 100).toFixed(1);
+  const rows = [
+    ["bid_id", "name", "location", "actual_budget", "estimate_before", "estimate_after", "error_before_pct", "error_after_pct"],
+    ...result.residuals.map((r) => [
+      r.bidId,
+      r.name,
+      r.location,
+      String(r.actual),
+      String(r.before),
+      String(r.after),
+      pct(r.errorBefore),
+      pct(r.errorAfter),
+    ]),
+  ];
+  return rows
+    .map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(","))
+    .join("\n");
+}
@@ -0,0 +1,167 @@
+// Capital improvement plan (lighting upgrades, wayfinding, plazas, ...)
+// One-time projects are funded four ways: cash in the start year, a reserve
+// built up by equal contributions in the years up to the start year, or a
+// loan or bond repaid in level annual payments from the start year. Reserve
+// balances earn the project's rate; bonds also finance their issuance cost.
+// The year-1 amount is a budget line of its own, outside the admin overhead
+// base.
+
+export type FundingMethod = "cash" | "reserve" | "loan" | "bond";
+
+export interface CapitalProject {
+  id: string;
+  name: string;
+  cost: number; // In the currency of the parameters, at the start year
+  startYear: number; // 1 = first budget year
+  funding: FundingMethod;
+  rate: number; // Annual interest (loan, bond) or earnings (reserve)
+  termYears: number; // Repayment term, or years of reserve contributions
+  enabled: boolean;
+}
+
+// Planning horizon for start years and terms; schedules are laid out year by
+// year, so larger values are flagged by validation and clamped here
+export const MAX_CAPITAL_START_YEAR = 50;
+export const MAX_CAPITAL_TERM_YEARS = 50;
+
+export const FUNDING_METHOD_OPTIONS: { value: FundingMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "reserve", label: "Reserve" },
+  { value: "loan", label: "Loan" },
+  { value: "bond", label: "Bond" },
+];
+
+// Starting points for common projects; costs are rough placeholders
+export const CAPITAL_PROJECT_TEMPLATES: Omit<CapitalProject, "id">[] = [
+  { name: "Pedestrian Lighting Upgrade", cost: 600000, startYear: 1, funding: "bond", rate: 0.045, termYears: 15, enabled: true },
+  { name: "Wayfinding System", cost: 150000, startYear: 3, funding: "reserve", rate: 0.02, termYears: 3, enabled: true },
+  { name: "Plaza Renovation", cost: 1200000, startYear: 3, funding: "bond", rate: 0.045, termYears: 20, enabled: true },
+  { name: "Security Cameras", cost: 80000, startYear: 1, funding: "loan", rate: 0.065, termYears: 5, enabled: true },
+  { name: "Holiday Lighting", cost: 40000, startYear: 1, funding: "cash", rate: 0, termYears: 1, enabled: true },
+];
+
+// Underwriting, counsel and rating fees, financed with the principal
+export const BOND_ISSUANCE_COST_PCT = 0.02;
+
+export interface CapitalProjectSchedule {
+  id: string;
+  name: string;
+  funding: FundingMethod;
+  principal: number; // Amount borrowed or saved; cost for cash
+  annualPayment: number; // Level payment or contribution
+  firstYear: number;
+  lastYear: number;
+  payments: number[]; // Indexed by plan year - 1
+  totalPaid: number;
+  financingCost: number; // Interest and issuance, less reserve earnings
+}
+
+export interface CapitalPlanYear {
+  year: number;
+  cash: number;
+  reserve: number;
+  debtService: number;
+  total: number;
+}
+
+export interface CapitalPlan {
+  projects: CapitalProjectSchedule[];
+  years: CapitalPlanYear[]; // Through the last payment of any project
+}
+
+export function createCapitalProject(
+  template: Omit<CapitalProject, "id">
+): CapitalProject {
+  return {
+    ...template,
+    id: `capital-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  };
+}
+
+// Level payment that repays principal over n years at rate r
+export function amortizedPayment(principal: number, rate: number, years: number): number {
+  const n = Math.max(1, Math.round(years));
+  if (rate <= 0) return principal / n;
+  return (principal * rate) / (1 - Math.pow(1 + rate, -n));
+}
+
+// Level contribution that grows to target over n years at rate r
+export function sinkingFundContribution(target: number, rate: number, years: number): number {
+  const n = Math.max(1, Math.round(years));
+  if (rate <= 0) return target / n;
+  return (target * rate) / (Math.pow(1 + rate, n) - 1);
+}
+
+function boundedYears(value: number, max: number): number {
+  return isFinite(value) ? Math.min(max, Math.max(1, Math.round(value))) : 1;
+}
+
+function scheduleProject(project: CapitalProject): CapitalProjectSchedule {
+  const startYear = boundedYears(project.startYear, MAX_CAPITAL_START_YEAR);
+  const term = boundedYears(project.termYears, MAX_CAPITAL_TERM_YEARS);
+  const cost = Math.max(0, project.cost);
+
+  let principal = cost;
+  let annualPayment = cost;
+  let firstYear = startYear;
+  let lastYear = startYear;
+  switch (project.funding) {
+    case "reserve": {
+      // Contributions cannot start before year 1, so a short runway saves faster
+      const years = Math.min(term, startYear);
+      firstYear = startYear - years + 1;
+      annualPayment = sinkingFundContribution(cost, project.rate, years);
+      break;
+    }
+    case "loan":
+    case "bond":
+      principal =
+        project.funding === "bond" ? cost * (1 + BOND_ISSUANCE_COST_PCT) : cost;
+      annualPayment = amortizedPayment(principal, project.rate, term);
+      lastYear = startYear + term - 1;
+      break;
+  }
+
+  const payments = Array.from({ length: lastYear }, (_, i) =>
+    i + 1 >= firstYear ? annualPayment : 0
+  );
+  const totalPaid = annualPayment * (lastYear - firstYear + 1);
+
+  return {
+    id: project.id,
+    name: project.name,
+    funding: project.funding,
+    principal,
+    annualPayment,
+    firstYear,
+    lastYear,
+    payments,
+    totalPaid,
+    financingCost: totalPaid - cost,
+  };
+}
+
+// Year-by-year outlays of every enabled project
+export function calculateCapitalPlan(projects: CapitalProject[]): CapitalPlan {
+  const scheduled = projects.filter((p) => p.enabled).map(scheduleProject);
+  const yearCount = scheduled.reduce((max, p) => Math.max(max, p.lastYear), 0);
+
+  const years: CapitalPlanYear[] = Array.from({ length: yearCount }, (_, i) => {
+    const year = { year: i + 1, cash: 0, reserve: 0, debtService: 0, total: 0 };
+    scheduled.forEach((p) => {
+      const amount = p.payments[i] || 0;
+      if (p.funding === "cash") year.cash += amount;
+      else if (p.funding === "reserve") year.reserve += amount;
+      else year.debtService += amount;
+    });
+    year.total = year.cash + year.reserve + year.debtService;
+    return year;
+  });
+
+  return { projects: scheduled, years };
+}
+
+// Capital outlay in a given plan year (1-based); zero past the last payment
+export function capitalOutlayForYear(plan: CapitalPlan, year: number): number {
+  return plan.years[year - 1]?.total ?? 0;
+}
@@ -0,0 +1,417 @@
+// Cleaning route planning over the street segment network
+// Segments on the included road classes are clipped to the district and
+// joined into a graph wherever they share a vertex. Each street has two block
+// faces and a cleaner sweeps one face per pass, so every street is walked
+// once in each direction. That directed graph is balanced at every node, so
+// each connected piece has an Euler circuit covering all of its faces with no
+// repeated walking. The circuits are chained into one tour, which is cut into
+// balanced routes, one per cleaner-shift, each sized to fit in a shift.
+// Deadhead is walking without sweeping: hops between disconnected pieces of
+// the network and the walk back to the start of the route at the end of the
+// shift. Both are straight lines scaled by a street circuity factor, since a
+// shortest-path search per route would be too slow for the scenario tools
+// that recalculate the budget thousands of times.
+
+import type { BudgetParameters } from "./budgetCalculations";
+import {
+  Position,
+  clipLineToPolygon,
+  distanceFt,
+  pathLengthFt,
+} from "./geoUtils";
+import { isExcludedFromFrontage } from "./frontageModel";
+
+export type CleaningCrewMethod = "productivity" | "routes";
+
+export const CLEANING_CREW_METHOD_OPTIONS: {
+  value: CleaningCrewMethod;
+  label: string;
+}[] = [
+  { value: "productivity", label: "Productivity (ft per hour)" },
+  { value: "routes", label: "Planned routes" },
+];
+
+// Walking distance between two points on an urban street grid, relative to
+// the straight line
+export const STREET_CIRCUITY = 1.3;
+
+const FEET_PER_MILE = 5280;
+const MAX_ROUTES = 400;
+
+// Vertices closer than about 10 cm are the same node
+const NODE_PRECISION = 6;
+
+export const ROUTE_COLORS = [
+  "#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4",
+  "#42d4f4", "#f032e6", "#bfef45", "#469990", "#9a6324",
+  "#800000", "#808000", "#000075", "#fabed4", "#dcbeff",
+];
+
+export interface StreetEdge {
+  from: number; // Node index
+  to: number;
+  coords: Position[];
+  lengthFt: number;
+  roadClass: string;
+  name: string | null;
+}
+
+// One step of the tour: a block face swept along an edge, or a deadhead hop
+// between disconnected pieces of the network
+export interface TourArc {
+  edge: number | null; // null for a deadhead hop
+  forward: boolean; // Direction along the edge's coordinates
+  lengthFt: number;
+  start: Position;
+  end: Position;
+}
+
+export interface StreetNetwork {
+  nodes: Position[];
+  edges: StreetEdge[];
+  components: number; // Connected pieces of the network
+  blockFaceFt: number; // Both sides of every included street
+  tour: TourArc[];
+}
+
+export interface CleaningRoute {
+  index: number;
+  firstArc: number; // Tour arcs [firstArc, lastArc)
+  lastArc: number;
+  sweptFt: number;
+  deadheadFt: number; // Hops inside the route plus the walk back to its start
+  hours: number;
+}
+
+// Everything a route plan depends on besides the network itself
+export interface RoutePlanBasis {
+  sweepFtPerHour: number;
+  walkFtPerHour: number;
+  shiftHours: number;
+  shiftsPerDay: number;
+}
+
+export interface CleaningRoutePlan {
+  basis: RoutePlanBasis; // Speeds and shifts the plan was cut for
+  routes: CleaningRoute[];
+  blockFaceFt: number;
+  deadheadFt: number;
+  hoursPerPass: number; // Sweeping and deadhead across all routes
+  cleanersPerDay: number; // Routes × shifts per day
+  fitsShift: boolean; // false when a single block face takes longer than a shift
+}
+
+const nodeKey = (p: Position) =>
+  `${p[0].toFixed(NODE_PRECISION)},${p[1].toFixed(NODE_PRECISION)}`;
+
+// Clip the included segments to the district and split them into edges at
+// every vertex shared with another piece
+export function buildStreetNetwork(
+  segmentsGeoJSON: any,
+  polygon: any,
+  includedClasses: string[]
+): StreetNetwork | null {
+  const polygonGeometry = polygon?.features?.[0]?.geometry;
+  const features = segmentsGeoJSON?.features;
+  if (!polygonGeometry || !Array.isArray(features) || features.length === 0) {
+    return null;
+  }
+
+  const pieces: { coords: Position[]; roadClass: string; name: string | null }[] = [];
+  features.forEach((feature: any) => {
+    const roadClass = feature.properties?.class || "unclassified";
+    if (isExcludedFromFrontage(feature.properties)) return;
+    if (!includedClasses.includes(roadClass)) return;
+    clipLineToPolygon(feature.geometry, polygonGeometry).forEach((coords) => {
+      if (coords.length >= 2) {
+        pieces.push({ coords, roadClass, name: feature.properties?.name || null });
+      }
+    });
+  });
+  if (pieces.length === 0) return null;
+
+  // A vertex is a node when a piece ends there or more than one piece uses it
+  const uses = new Map<string, number>();
+  pieces.forEach(({ coords }) => {
+    new Set(coords.map(nodeKey)).forEach((key) => {
+      uses.set(key, (uses.get(key) || 0) + 1);
+    });
+  });
+
+  const nodes: Position[] = [];
+  const nodeIndex = new Map<string, number>();
+  const nodeAt = (p: Position) => {
+    const key = nodeKey(p);
+    if (!nodeIndex.has(key)) {
+      nodeIndex.set(key, nodes.length);
+      nodes.push(p);
+    }
+    return nodeIndex.get(key)!;
+  };
+
+  const edges: StreetEdge[] = [];
+  pieces.forEach(({ coords, roadClass, name }) => {
+    let run: Position[] = [coords[0]];
+    for (let i = 1; i < coords.length; i++) {
+      run.push(coords[i]);
+      const isNode = i === coords.length - 1 || (uses.get(nodeKey(coords[i])) || 0) > 1;
+      if (!isNode) continue;
+      const lengthFt = pathLengthFt(run);
+      const from = nodeAt(run[0]);
+      const to = nodeAt(run[run.length - 1]);
+      if (lengthFt > 0 && from !== to) {
+        edges.push({ from, to, coords: run, lengthFt, roadClass, name });
+      }
+      run = [coords[i]];
+    }
+  });
+  if (edges.length === 0) return null;
+
+  const { tour, components } = buildTour(nodes, edges);
+  return {
+    nodes,
+    edges,
+    components,
+    blockFaceFt: edges.reduce((sum, e) => sum + e.lengthFt, 0) * 2,
+    tour,
+  };
+}
+
+// Euler circuit of each connected piece (Hierholzer), starting each piece
+// at the unswept node nearest to where the previous one ended
+function buildTour(
+  nodes: Position[],
+  edges: StreetEdge[]
+): { tour: TourArc[]; components: number } {
+  // Arc 2e runs along edge e, arc 2e + 1 against it
+  const outArcs: number[][] = nodes.map(() => []);
+  edges.forEach((edge, e) => {
+    outArcs[edge.from].push(2 * e);
+    outArcs[edge.to].push(2 * e + 1);
+  });
+  const head = (arc: number) =>
+    arc % 2 === 0 ? edges[arc >> 1].to : edges[arc >> 1].from;
+  const next = nodes.map(() => 0);
+
+  const tour: TourArc[] = [];
+  let components = 0;
+  let position: Position | null = null;
+
+  for (;;) {
+    // Nearest node that still has unswept faces
+    let start = -1;
+    let best = Infinity;
+    nodes.forEach((node, n) => {
+      if (next[n] >= outArcs[n].length) return;
+      const d = position ? distanceFt(position, node) : 0;
+      if (d < best) {
+        best = d;
+        start = n;
+      }
+    });
+    if (start === -1) break;
+
+    if (position && best > 0) {
+      tour.push({
+        edge: null,
+        forward: true,
+        lengthFt: best * STREET_CIRCUITY,
+        start: position,
+        end: nodes[start],
+      });
+    }
+
+    const stack: { node: number; arc: number }[] = [{ node: start, arc: -1 }];
+    const circuit: number[] = [];
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (next[top.node] < outArcs[top.node].length) {
+        const arc = outArcs[top.node][next[top.node]++];
+        stack.push({ node: head(arc), arc });
+      } else {
+        stack.pop();
+        if (top.arc >= 0) circuit.push(top.arc);
+      }
+    }
+    circuit.reverse().forEach((arc) => {
+      const edge = edges[arc >> 1];
+      const forward = arc % 2 === 0;
+      tour.push({
+        edge: arc >> 1,
+        forward,
+        lengthFt: edge.lengthFt,
+        start: forward ? edge.coords[0] : edge.coords[edge.coords.length - 1],
+        end: forward ? edge.coords[edge.coords.length - 1] : edge.coords[0],
+      });
+    });
+
+    components++;
+    position = nodes[start];
+  }
+
+  return { tour, components };
+}
+
+// Sweeping speed is the cleaner productivity slowed by the cleaning weight
+// and the district's cleaning intensity, as in the productivity model
+export function routePlanBasis(
+  params: BudgetParameters,
+  cleanIntensity: number
+): RoutePlanBasis {
+  return {
+    sweepFtPerHour:
+      Math.max(1, params.frontage_ft_per_cleaner_hour) /
+      Math.max(0.01, params.intensity_weight_clean * cleanIntensity),
+    walkFtPerHour: Math.max(0.1, params.clean_deadhead_speed_mph) * FEET_PER_MILE,
+    shiftHours: Math.max(0.5, params.clean_hours_per_shift),
+    shiftsPerDay: Math.max(1, Math.round(params.clean_shifts_per_day)),
+  };
+}
+
+// Whether a plan made earlier over the same network still holds for these
+// parameters, so scenario runs can reuse it instead of planning again
+export function routePlanMatches(
+  plan: CleaningRoutePlan,
+  params: BudgetParameters,
+  cleanIntensity: number
+): boolean {
+  const basis = routePlanBasis(params, cleanIntensity);
+  return (Object.keys(basis) as (keyof RoutePlanBasis)[]).every(
+    (key) => basis[key] === plan.basis[key]
+  );
+}
+
+// Cut the tour into balanced routes, adding routes until each fits a shift
+export function planCleaningRoutes(
+  network: StreetNetwork,
+  params: BudgetParameters,
+  cleanIntensity: number
+): CleaningRoutePlan {
+  const basis = routePlanBasis(params, cleanIntensity);
+  const { sweepFtPerHour, walkFtPerHour, shiftHours } = basis;
+  const arcHours = (arc: TourArc) =>
+    arc.lengthFt / (arc.edge === null ? walkFtPerHour : sweepFtPerHour);
+  const { tour } = network;
+
+  const totalHours = tour.reduce((sum, arc) => sum + arcHours(arc), 0);
+  let count = Math.max(1, Math.ceil(totalHours / shiftHours));
+  let routes = splitTour(tour, count, totalHours, arcHours, walkFtPerHour);
+  const sweptArcs = tour.filter((arc) => arc.edge !== null).length;
+  while (
+    routes.some((r) => r.hours > shiftHours) &&
+    count < Math.min(MAX_ROUTES, sweptArcs)
+  ) {
+    count++;
+    routes = splitTour(tour, count, totalHours, arcHours, walkFtPerHour);
+  }
+
+  return {
+    basis,
+    routes,
+    blockFaceFt: network.blockFaceFt,
+    deadheadFt: routes.reduce((sum, r) => sum + r.deadheadFt, 0),
+    hoursPerPass: routes.reduce((sum, r) => sum + r.hours, 0),
+    cleanersPerDay: routes.length * basis.shiftsPerDay,
+    fitsShift: routes.every((r) => r.hours <= shiftHours),
+  };
+}
+
+// Cut where the running time crosses each multiple of total / count. Hops
+// at either end of a route are dropped: the cleaner starts after the hop.
+function splitTour(
+  tour: TourArc[],
+  count: number,
+  totalHours: number,
+  arcHours: (arc: TourArc) => number,
+  walkFtPerHour: number
+): CleaningRoute[] {
+  const target = totalHours / count;
+  const routes: CleaningRoute[] = [];
+  let first = 0;
+  let elapsed = 0;
+
+  const close = (last: number) => {
+    let a = first;
+    let b = last;
+    while (a < b && tour[a].edge === null) a++;
+    while (b > a && tour[b - 1].edge === null) b--;
+    if (a === b) return;
+
+    let sweptFt = 0;
+    let deadheadFt = 0;
+    let hours = 0;
+    for (let i = a; i < b; i++) {
+      hours += arcHours(tour[i]);
+      if (tour[i].edge === null) deadheadFt += tour[i].lengthFt;
+      else sweptFt += tour[i].lengthFt;
+    }
+    const returnFt = distanceFt(tour[b - 1].end, tour[a].start) * STREET_CIRCUITY;
+    routes.push({
+      index: routes.length,
+      firstArc: a,
+      lastArc: b,
+      sweptFt,
+      deadheadFt: deadheadFt + returnFt,
+      hours: hours + returnFt / walkFtPerHour,
+    });
+  };
+
+  tour.forEach((arc, i) => {
+    const hours = arcHours(arc);
+    // Cut before this arc when more of it falls past the boundary than before
+    if (
+      i > first &&
+      routes.length < count - 1 &&
+      elapsed + hours / 2 > target * (routes.length + 1)
+    ) {
+      close(i);
+      first = i;
+    }
+    elapsed += hours;
+  });
+  close(tour.length);
+
+  return routes;
+}
+
+// Route lines for the map: swept faces per route, and deadhead hops dashed
+export function cleaningRoutesGeoJSON(
+  network: StreetNetwork,
+  plan: CleaningRoutePlan
+): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = [];
+  plan.routes.forEach((route) => {
+    const color = ROUTE_COLORS[route.index % ROUTE_COLORS.length];
+    const swept: Position[][] = [];
+    const hops: Position[][] = [];
+    for (let i = route.firstArc; i < route.lastArc; i++) {
+      const arc = network.tour[i];
+      if (arc.edge === null) {
+        hops.push([arc.start, arc.end]);
+      } else {
+        const coords = network.edges[arc.edge].coords;
+        swept.push(arc.forward ? coords : [...coords].reverse());
+      }
+    }
+    const properties = {
+      route: route.index + 1,
+      color,
+      swept_ft: Math.round(route.sweptFt),
+      deadhead_ft: Math.round(route.deadheadFt),
+      hours: Math.round(route.hours * 10) / 10,
+    };
+    features.push({
+      type: "Feature",
+      properties: { ...properties, kind: "swept" },
+      geometry: { type: "MultiLineString", coordinates: swept },
+    });
+    if (hops.length > 0) {
+      features.push({
+        type: "Feature",
+        properties: { ...properties, kind: "deadhead" },
+        geometry: { type: "MultiLineString", coordinates: hops },
+      });
+    }
+  });
+  return { type: "FeatureCollection", features };
+}
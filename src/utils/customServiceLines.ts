@@ -0,0 +1,124 @@
+// User-defined service lines (graffiti removal, landscaping, outreach, ...)
+// Each line prices one district quantity (its cost driver) at a unit rate.
+// Enabled lines join the subtotal, and therefore the admin overhead base.
+
+export type CostDriver =
+  | "per_acre"
+  | "per_business"
+  | "per_frontage_ft"
+  | "per_segment_mile"
+  | "per_building"
+  | "fixed";
+
+export interface CustomServiceLine {
+  id: string;
+  name: string;
+  driver: CostDriver;
+  unitRate: number; // Annual $ per driver unit ($ per year for "fixed")
+  enabled: boolean;
+}
+
+// District quantities the drivers refer to
+export interface DriverQuantities {
+  acres: number;
+  businesses: number;
+  frontageFt: number;
+  segmentMiles: number | null; // null when road segments are not loaded
+  buildings: number | null; // null when building footprints are not loaded
+}
+
+export interface CustomLineCost {
+  id: string;
+  name: string;
+  driver: CostDriver;
+  quantity: number;
+  unitRate: number;
+  cost: number;
+  color: string;
+  missingData: boolean; // Driver quantity unavailable, costed at zero
+}
+
+export const COST_DRIVER_OPTIONS: { value: CostDriver; label: string; unit: string }[] = [
+  { value: "per_acre", label: "Per acre", unit: "acre" },
+  { value: "per_business", label: "Per business", unit: "business" },
+  { value: "per_frontage_ft", label: "Per frontage ft", unit: "ft" },
+  { value: "per_segment_mile", label: "Per street mile", unit: "mile" },
+  { value: "per_building", label: "Per building", unit: "building" },
+  { value: "fixed", label: "Fixed annual", unit: "year" },
+];
+
+// Starting points for common BID services; rates are rough placeholders
+export const CUSTOM_LINE_TEMPLATES: Omit<CustomServiceLine, "id">[] = [
+  { name: "Graffiti Removal", driver: "per_building", unitRate: 45, enabled: true },
+  { name: "Landscaping", driver: "per_acre", unitRate: 900, enabled: true },
+  { name: "Homeless Outreach", driver: "fixed", unitRate: 80000, enabled: true },
+  { name: "Snow Removal", driver: "per_segment_mile", unitRate: 3500, enabled: true },
+  { name: "Capital Projects", driver: "fixed", unitRate: 50000, enabled: true },
+];
+
+const CUSTOM_LINE_COLORS = [
+  "#ec4899",
+  "#14b8a6",
+  "#f97316",
+  "#6366f1",
+  "#84cc16",
+  "#06b6d4",
+  "#a855f7",
+  "#eab308",
+];
+
+export function createCustomServiceLine(
+  template: Omit<CustomServiceLine, "id">
+): CustomServiceLine {
+  return {
+    ...template,
+    id: `line-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  };
+}
+
+export function driverUnit(driver: CostDriver): string {
+  return COST_DRIVER_OPTIONS.find((o) => o.value === driver)?.unit || "";
+}
+
+function driverQuantity(
+  driver: CostDriver,
+  quantities: DriverQuantities
+): number | null {
+  switch (driver) {
+    case "per_acre":
+      return quantities.acres;
+    case "per_business":
+      return quantities.businesses;
+    case "per_frontage_ft":
+      return quantities.frontageFt;
+    case "per_segment_mile":
+      return quantities.segmentMiles;
+    case "per_building":
+      return quantities.buildings;
+    case "fixed":
+      return 1;
+  }
+}
+
+// Cost every enabled line against the district quantities
+export function calculateCustomLineCosts(
+  lines: CustomServiceLine[],
+  quantities: DriverQuantities
+): CustomLineCost[] {
+  return lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => line.enabled)
+    .map(({ line, index }) => {
+      const quantity = driverQuantity(line.driver, quantities);
+      return {
+        id: line.id,
+        name: line.name,
+        driver: line.driver,
+        quantity: quantity ?? 0,
+        unitRate: line.unitRate,
+        cost: Math.round((quantity ?? 0) * line.unitRate),
+        color: CUSTOM_LINE_COLORS[index % CUSTOM_LINE_COLORS.length],
+        missingData: quantity === null,
+      };
+    });
+}
@@ -0,0 +1,134 @@
+// New-district formation: one-time startup costs and a partial first year
+// A district being formed pays for the feasibility study, legal work and
+// petition drive, hiring and equipping its first in-house crew, and a
+// branding launch, then runs services for only part of its first fiscal
+// year. Contracted services bring their own staff and equipment, so hiring
+// and equipment scale with in-house FTEs only. Capital payments follow their
+// own schedule and are not prorated. The steady-state budget is unchanged.
+
+import type { BudgetParameters } from "./budgetCalculations";
+
+export type FormationItemKey =
+  | "feasibility"
+  | "legal"
+  | "hiring"
+  | "equipment"
+  | "branding";
+
+export interface FormationItem {
+  key: FormationItemKey;
+  label: string;
+  cost: number;
+  basis: string; // How the cost was derived, for the report
+}
+
+export interface FormationPhase {
+  key: FormationItemKey | "service";
+  label: string;
+  startMonth: number; // Months from the start of formation, 1-based
+  endMonth: number; // Inclusive
+}
+
+// Typical lead times; petitions and hearings vary most by state
+const PHASE_MONTHS = {
+  feasibility: 4,
+  legal: 8,
+  hiring: 3,
+} as const;
+
+export interface FormationEstimate {
+  items: FormationItem[];
+  startupCost: number;
+  inHouseFte: number;
+  operatingMonths: number;
+  recurringSteadyState: number; // Services, admin overhead (full year)
+  recurringFirstYear: number; // Same, prorated to the operating months
+  capitalFirstYear: number;
+  firstYearTotal: number;
+  steadyStateTotal: number;
+  timeline: FormationPhase[];
+}
+
+export interface FormationInputs {
+  recurringTotal: number; // Steady-state total less capital
+  capitalTotal: number;
+  inHouseFte: number;
+}
+
+export function estimateFormation(
+  params: BudgetParameters,
+  inputs: FormationInputs
+): FormationEstimate {
+  const fte = Math.ceil(inputs.inHouseFte);
+  const items: FormationItem[] = [
+    {
+      key: "feasibility",
+      label: "Feasibility study",
+      cost: params.formation_feasibility_cost,
+      basis: "Fixed",
+    },
+    {
+      key: "legal",
+      label: "Legal & petition",
+      cost: params.formation_legal_cost,
+      basis: "Fixed",
+    },
+    {
+      key: "hiring",
+      label: "First-year hiring",
+      cost: fte * params.formation_hiring_cost_per_fte,
+      basis: `${fte} in-house FTE`,
+    },
+    {
+      key: "equipment",
+      label: "Equipment purchase",
+      cost: fte * params.formation_equipment_cost_per_fte,
+      basis: `${fte} in-house FTE`,
+    },
+    {
+      key: "branding",
+      label: "Branding launch",
+      cost: params.formation_branding_cost,
+      basis: "Fixed",
+    },
+  ];
+  const startupCost = items.reduce((sum, item) => sum + item.cost, 0);
+
+  const operatingMonths = Math.min(12, Math.max(1, Math.round(params.formation_operating_months)));
+  const recurringFirstYear = (inputs.recurringTotal * operatingMonths) / 12;
+  const firstYearTotal = startupCost + recurringFirstYear + inputs.capitalTotal;
+
+  return {
+    items,
+    startupCost,
+    inHouseFte: fte,
+    operatingMonths,
+    recurringSteadyState: inputs.recurringTotal,
+    recurringFirstYear,
+    capitalFirstYear: inputs.capitalTotal,
+    firstYearTotal,
+    steadyStateTotal: inputs.recurringTotal + inputs.capitalTotal,
+    timeline: formationTimeline(operatingMonths),
+  };
+}
+
+// Sequential phases ending at service start; the branding launch coincides
+// with the first month of service
+export function formationTimeline(operatingMonths: number): FormationPhase[] {
+  const feasibilityEnd = PHASE_MONTHS.feasibility;
+  const legalEnd = feasibilityEnd + PHASE_MONTHS.legal;
+  const hiringEnd = legalEnd + PHASE_MONTHS.hiring;
+  const serviceStart = hiringEnd + 1;
+  return [
+    { key: "feasibility", label: "Feasibility study", startMonth: 1, endMonth: feasibilityEnd },
+    { key: "legal", label: "Petition, legal & approval", startMonth: feasibilityEnd + 1, endMonth: legalEnd },
+    { key: "hiring", label: "Hiring & equipment", startMonth: legalEnd + 1, endMonth: hiringEnd },
+    { key: "branding", label: "Branding launch", startMonth: serviceStart, endMonth: serviceStart },
+    {
+      key: "service",
+      label: `Services (${operatingMonths} months of year 1)`,
+      startMonth: serviceStart,
+      endMonth: serviceStart + operatingMonths - 1,
+    },
+  ];
+}
@@ -0,0 +1,88 @@
+// Curb frontage from street segment geometry
+// Segments returned by fetchSegments intersect the district but are not
+// clipped to it. Each one is clipped to the polygon and its centerline length
+// is summed per road class; curb frontage counts both sides of the street.
+// Motorways and ramp/link segments never have walkable frontage.
+
+import { clippedLineLengthFt } from "./geoUtils";
+
+export const CURB_SIDES_PER_STREET = 2;
+
+// Road classes that can contribute frontage (motorways are always excluded)
+export const FRONTAGE_ROAD_CLASS_OPTIONS = [
+  { value: "trunk", label: "Trunk Roads" },
+  { value: "primary", label: "Primary Roads" },
+  { value: "secondary", label: "Secondary Roads" },
+  { value: "tertiary", label: "Tertiary Roads" },
+  { value: "residential", label: "Residential Streets" },
+  { value: "living_street", label: "Living Streets" },
+  { value: "pedestrian", label: "Pedestrian Streets" },
+  { value: "unclassified", label: "Unclassified Roads" },
+  { value: "service", label: "Service Roads & Alleys" },
+];
+
+export interface SegmentFrontage {
+  centerlineFtByClass: Record<string, number>; // Clipped length, eligible classes
+  excludedFt: number; // Motorways and links inside the district
+  segmentCount: number;
+}
+
+export function isExcludedFromFrontage(properties: any): boolean {
+  const roadClass = String(properties?.class || "");
+  const subclass = String(properties?.subclass || "");
+  return (
+    roadClass === "motorway" ||
+    roadClass.endsWith("_link") ||
+    subclass === "link"
+  );
+}
+
+// Clip every segment to the district and total centerline length by class
+export function measureSegmentFrontage(
+  segmentsGeoJSON: any,
+  polygon: any
+): SegmentFrontage | null {
+  const polygonGeometry = polygon?.features?.[0]?.geometry;
+  const features = segmentsGeoJSON?.features;
+  if (!polygonGeometry || !Array.isArray(features) || features.length === 0) {
+    return null;
+  }
+
+  const centerlineFtByClass: Record<string, number> = {};
+  let excludedFt = 0;
+
+  features.forEach((feature: any) => {
+    const lengthFt = clippedLineLengthFt(feature.geometry, polygonGeometry);
+    if (lengthFt <= 0) return;
+
+    if (isExcludedFromFrontage(feature.properties)) {
+      excludedFt += lengthFt;
+      return;
+    }
+    const roadClass = feature.properties?.class || "unclassified";
+    centerlineFtByClass[roadClass] =
+      (centerlineFtByClass[roadClass] || 0) + lengthFt;
+  });
+
+  return { centerlineFtByClass, excludedFt, segmentCount: features.length };
+}
+
+// Curb frontage (both sides) for the included road classes
+export function calculateCurbFrontageFt(
+  measure: SegmentFrontage,
+  includedClasses: string[]
+): number {
+  const centerlineFt = Object.entries(measure.centerlineFtByClass)
+    .filter(([roadClass]) => includedClasses.includes(roadClass))
+    .reduce((sum, [, ft]) => sum + ft, 0);
+  return Math.round(centerlineFt * CURB_SIDES_PER_STREET);
+}
+
+// Street centerline miles inside the district (motorways and links excluded)
+export function calculateSegmentMiles(measure: SegmentFrontage): number {
+  const centerlineFt = Object.values(measure.centerlineFtByClass).reduce(
+    (sum, ft) => sum + ft,
+    0
+  );
+  return Math.round((centerlineFt / 5280) * 100) / 100;
+}
@@ -0,0 +1,102 @@
+// Non-assessment revenue (city contracts, grants, sponsorships, ...)
+// Most districts fund part of the budget from sources other than the
+// assessment. Each enabled source is a fixed annual amount subtracted from
+// the total, leaving the net assessment requirement that the assessment
+// options are sized on. Sources beyond the total do not make it negative.
+
+export type FundingSourceType =
+  | "city_contract"
+  | "grant"
+  | "sponsorship"
+  | "event_revenue"
+  | "earned_income";
+
+export interface FundingSource {
+  id: string;
+  name: string;
+  type: FundingSourceType;
+  amount: number; // Annual, in the currency of the parameters
+  enabled: boolean;
+}
+
+export const FUNDING_SOURCE_TYPE_OPTIONS: {
+  value: FundingSourceType;
+  label: string;
+  color: string;
+}[] = [
+  { value: "city_contract", label: "City Contract", color: "#0891b2" },
+  { value: "grant", label: "Grant", color: "#7c3aed" },
+  { value: "sponsorship", label: "Sponsorship", color: "#ea580c" },
+  { value: "event_revenue", label: "Event Revenue", color: "#db2777" },
+  { value: "earned_income", label: "Earned Income", color: "#65a30d" },
+];
+
+// Assessment share of the funding mix, for charts and the report
+export const ASSESSMENT_COLOR = "#1e293b";
+
+// Starting points for common sources; amounts are rough placeholders
+export const FUNDING_SOURCE_TEMPLATES: Omit<FundingSource, "id">[] = [
+  { name: "City Services Contract", type: "city_contract", amount: 150000, enabled: true },
+  { name: "Community Foundation Grant", type: "grant", amount: 50000, enabled: true },
+  { name: "Corporate Sponsorships", type: "sponsorship", amount: 40000, enabled: true },
+  { name: "Festival & Event Revenue", type: "event_revenue", amount: 25000, enabled: true },
+  { name: "Parking & Kiosk Income", type: "earned_income", amount: 20000, enabled: true },
+];
+
+export interface FundingMixSource {
+  id: string;
+  name: string;
+  type: FundingSourceType;
+  amount: number;
+  color: string;
+}
+
+export interface FundingMix {
+  sources: FundingMixSource[]; // Enabled sources with an amount
+  nonAssessment: number;
+  netAssessment: number; // Total less non-assessment revenue, floored at 0
+  assessmentShare: number; // Assessment dependency, 0-1
+  surplus: number; // Non-assessment revenue beyond the total
+}
+
+export function createFundingSource(
+  template: Omit<FundingSource, "id">
+): FundingSource {
+  return {
+    ...template,
+    id: `funding-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  };
+}
+
+export function fundingSourceColor(type: FundingSourceType): string {
+  return (
+    FUNDING_SOURCE_TYPE_OPTIONS.find((o) => o.value === type)?.color || "#94a3b8"
+  );
+}
+
+// Split the total between the assessment and the other enabled sources
+export function calculateFundingMix(
+  total: number,
+  sources: FundingSource[]
+): FundingMix {
+  const mixSources = sources
+    .filter((s) => s.enabled && s.amount > 0)
+    .map((s) => ({
+      id: s.id,
+      name: s.name,
+      type: s.type,
+      amount: s.amount,
+      color: fundingSourceColor(s.type),
+    }));
+  const nonAssessment = mixSources.reduce((sum, s) => sum + s.amount, 0);
+  const netAssessment = Math.max(0, total - nonAssessment);
+  const funded = netAssessment + nonAssessment;
+
+  return {
+    sources: mixSources,
+    nonAssessment,
+    netAssessment,
+    assessmentShare: funded > 0 ? netAssessment / funded : 1,
+    surplus: Math.max(0, nonAssessment - total),
+  };
+}
@@ -0,0 +1,202 @@
+// Lightweight planar geometry helpers for district-scale GeoJSON
+// Coordinates are [lng, lat]; distances use a local equirectangular
+// approximation, which is accurate to well under 1% at district scale.
+
+export type Position = number[];
+
+const EARTH_RADIUS_FT = 20902231;
+
+// Ray-casting test against a single linear ring
+function pointInRing(point: Position, ring: Position[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses =
+      yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// Point-in-polygon for Polygon / MultiPolygon geometries (holes respected)
+export function pointInPolygon(point: Position, geometry: any): boolean {
+  if (!geometry) return false;
+
+  const polygons: Position[][][] =
+    geometry.type === "Polygon"
+      ? [geometry.coordinates]
+      : geometry.type === "MultiPolygon"
+      ? geometry.coordinates
+      : [];
+
+  return polygons.some(
+    (rings) =>
+      rings.length > 0 &&
+      pointInRing(point, rings[0]) &&
+      !rings.slice(1).some((hole) => pointInRing(point, hole))
+  );
+}
+
+// Bounding box [minLng, minLat, maxLng, maxLat] of any GeoJSON geometry
+export function geometryBounds(geometry: any): [number, number, number, number] {
+  let minLng = Infinity,
+    minLat = Infinity,
+    maxLng = -Infinity,
+    maxLat = -Infinity;
+
+  const visit = (coords: any) => {
+    if (typeof coords[0] === "number") {
+      minLng = Math.min(minLng, coords[0]);
+      maxLng = Math.max(maxLng, coords[0]);
+      minLat = Math.min(minLat, coords[1]);
+      maxLat = Math.max(maxLat, coords[1]);
+      return;
+    }
+    coords.forEach(visit);
+  };
+
+  if (geometry?.coordinates) visit(geometry.coordinates);
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+// Distance between two positions in feet
+export function distanceFt(a: Position, b: Position): number {
+  const toRad = Math.PI / 180;
+  const meanLat = ((a[1] + b[1]) / 2) * toRad;
+  const dx = (b[0] - a[0]) * toRad * Math.cos(meanLat);
+  const dy = (b[1] - a[1]) * toRad;
+  return Math.sqrt(dx * dx + dy * dy) * EARTH_RADIUS_FT;
+}
+
+// Parameter t along a→b where it crosses segment c→d, or null
+function segmentIntersectionT(
+  a: Position,
+  b: Position,
+  c: Position,
+  d: Position
+): number | null {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const sx = d[0] - c[0];
+  const sy = d[1] - c[1];
+  const denom = rx * sy - ry * sx;
+  if (denom === 0) return null; // Parallel or collinear
+  const qx = c[0] - a[0];
+  const qy = c[1] - a[1];
+  const t = (qx * sy - qy * sx) / denom;
+  const u = (qx * ry - qy * rx) / denom;
+  return t > 0 && t < 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+// Pieces of a LineString / MultiLineString lying inside a polygon, each a
+// run of positions cut where the line crosses the polygon boundary
+export function clipLineToPolygon(line: any, polygonGeometry: any): Position[][] {
+  if (!line || !polygonGeometry) return [];
+
+  const lines: Position[][] =
+    line.type === "LineString"
+      ? [line.coordinates]
+      : line.type === "MultiLineString"
+      ? line.coordinates
+      : [];
+  const rings: Position[][] =
+    polygonGeometry.type === "Polygon"
+      ? polygonGeometry.coordinates
+      : polygonGeometry.type === "MultiPolygon"
+      ? polygonGeometry.coordinates.flat()
+      : [];
+
+  const lerp = (a: Position, b: Position, t: number): Position => [
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+  ];
+
+  const pieces: Position[][] = [];
+  lines.forEach((coords) => {
+    let current: Position[] | null = null;
+    for (let i = 0; i < coords.length - 1; i++) {
+      const a = coords[i];
+      const b = coords[i + 1];
+
+      // Split the edge wherever it crosses the polygon boundary
+      const cuts = [0, 1];
+      rings.forEach((ring) => {
+        for (let j = 0; j < ring.length - 1; j++) {
+          const t = segmentIntersectionT(a, b, ring[j], ring[j + 1]);
+          if (t !== null) cuts.push(t);
+        }
+      });
+      cuts.sort((x, y) => x - y);
+
+      for (let k = 0; k < cuts.length - 1; k++) {
+        const start = lerp(a, b, cuts[k]);
+        const end = lerp(a, b, cuts[k + 1]);
+        const mid = lerp(a, b, (cuts[k] + cuts[k + 1]) / 2);
+        if (pointInPolygon(mid, polygonGeometry)) {
+          if (!current) {
+            current = [start];
+            pieces.push(current);
+          }
+          current.push(end);
+        } else {
+          current = null;
+        }
+      }
+    }
+  });
+
+  return pieces;
+}
+
+// Length in feet of a run of positions
+export function pathLengthFt(coords: Position[]): number {
+  let total = 0;
+  for (let i = 0; i < coords.length - 1; i++) {
+    total += distanceFt(coords[i], coords[i + 1]);
+  }
+  return total;
+}
+
+// Position a given distance in feet along a run of positions, optionally
+// shifted sideways (positive to the right of the direction of travel)
+export function pointAlongPath(
+  coords: Position[],
+  distance: number,
+  rightOffsetFt = 0
+): Position {
+  let remaining = Math.max(0, distance);
+  for (let i = 0; i < coords.length - 1; i++) {
+    const a = coords[i];
+    const b = coords[i + 1];
+    const length = distanceFt(a, b);
+    if (remaining > length && i < coords.length - 2) {
+      remaining -= length;
+      continue;
+    }
+    const t = length > 0 ? Math.min(1, remaining / length) : 0;
+    const point = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+    if (rightOffsetFt === 0 || length === 0) return point;
+
+    // Right-hand normal in feet, converted back to degrees
+    const ftPerDegLat = (EARTH_RADIUS_FT * Math.PI) / 180;
+    const ftPerDegLng = ftPerDegLat * Math.cos((point[1] * Math.PI) / 180);
+    const east = (b[0] - a[0]) * ftPerDegLng;
+    const north = (b[1] - a[1]) * ftPerDegLat;
+    const norm = Math.sqrt(east * east + north * north);
+    return [
+      point[0] + ((north / norm) * rightOffsetFt) / ftPerDegLng,
+      point[1] + ((-east / norm) * rightOffsetFt) / ftPerDegLat,
+    ];
+  }
+  return coords[coords.length - 1];
+}
+
+// Length in feet of a LineString / MultiLineString lying inside a polygon
+export function clippedLineLengthFt(line: any, polygonGeometry: any): number {
+  return clipLineToPolygon(line, polygonGeometry).reduce(
+    (sum, piece) => sum + pathLengthFt(piece),
+    0
+  );
+}
@@ -0,0 +1,174 @@
+// Goal-seek: solve service levels for a target budget
+// Free parameters move together along a single service-level scale, from
+// their minimum (scale -1) through the current value (0) to their maximum
+// (+1). Every free parameter raises cost, so the total is monotone in the
+// scale and bisection finds the richest balanced mix that fits the target;
+// a top-up pass then spends any headroom left by integer rounding.
+
+import {
+  BudgetInputs,
+  BudgetParameters,
+  NumericParameterKey,
+  calculateBudgetForInputs,
+} from "./budgetCalculations";
+
+export interface GoalSeekVariable {
+  key: NumericParameterKey;
+  label: string;
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+// Service-level parameters the solver may adjust
+export const GOAL_SEEK_VARIABLES: GoalSeekVariable[] = [
+  { key: "clean_shifts_per_day", label: "Cleaning shifts per day", min: 1, max: 3, integer: true },
+  { key: "clean_days_per_week", label: "Cleaning days per week", min: 3, max: 7, integer: true },
+  { key: "safety_hours_per_day", label: "Safety hours per day", min: 0, max: 24, integer: true },
+  { key: "safety_days_per_week", label: "Safety days per week", min: 3, max: 7, integer: true },
+  { key: "events_per_year", label: "Events per year", min: 0, max: 24, integer: true },
+  { key: "marketing_base_annual", label: "Base marketing budget", min: 0, max: 200000 },
+];
+
+export const DEFAULT_GOAL_SEEK_KEYS: NumericParameterKey[] = [
+  "clean_shifts_per_day",
+  "safety_hours_per_day",
+  "events_per_year",
+];
+
+export type GoalSeekStatus = "fit" | "below_minimum" | "above_maximum";
+
+export interface GoalSeekChange {
+  key: NumericParameterKey;
+  label: string;
+  from: number;
+  to: number;
+}
+
+export interface GoalSeekResult {
+  status: GoalSeekStatus;
+  target: number;
+  total: number;
+  gap: number; // target - total; positive means unspent headroom
+  params: BudgetParameters;
+  changes: GoalSeekChange[];
+  staffing: {
+    cleanersNeeded: number;
+    supervisorsNeeded: number;
+    safetyFTE: number;
+  };
+}
+
+// Parameter set at a given service-level scale in [-1, 1]
+function paramsAtScale(
+  params: BudgetParameters,
+  variables: GoalSeekVariable[],
+  scale: number
+): BudgetParameters {
+  const next = { ...params };
+  variables.forEach((v) => {
+    const current = Math.min(v.max, Math.max(v.min, params[v.key] as number));
+    const raw =
+      scale < 0
+        ? current + scale * (current - v.min)
+        : current + scale * (v.max - current);
+    next[v.key] = v.integer ? Math.round(raw) : Math.round(raw * 100) / 100;
+  });
+  return next;
+}
+
+// Spend remaining headroom one variable at a time (integer steps leave gaps)
+function topUp(
+  params: BudgetParameters,
+  inputs: BudgetInputs,
+  variables: GoalSeekVariable[],
+  target: number
+): BudgetParameters {
+  let current = params;
+  const fits = (candidate: BudgetParameters) =>
+    calculateBudgetForInputs(candidate, inputs).total <= target;
+
+  variables.forEach((v) => {
+    if (v.integer) {
+      while ((current[v.key] as number) + 1 <= v.max) {
+        const candidate = { ...current, [v.key]: (current[v.key] as number) + 1 };
+        if (!fits(candidate)) break;
+        current = candidate;
+      }
+    } else {
+      let low = current[v.key] as number;
+      let high = v.max;
+      for (let i = 0; i < 30; i++) {
+        const mid = (low + high) / 2;
+        if (fits({ ...current, [v.key]: mid })) low = mid;
+        else high = mid;
+      }
+      current = { ...current, [v.key]: Math.floor(low * 100) / 100 };
+    }
+  });
+
+  return current;
+}
+
+// Find the service mix with the largest total that does not exceed target
+export function solveForBudget(
+  params: BudgetParameters,
+  inputs: BudgetInputs,
+  target: number,
+  freeKeys: NumericParameterKey[] = DEFAULT_GOAL_SEEK_KEYS,
+  iterations = 40
+): GoalSeekResult {
+  const variables = GOAL_SEEK_VARIABLES.filter((v) => freeKeys.includes(v.key));
+  const totalAt = (scale: number) =>
+    calculateBudgetForInputs(paramsAtScale(params, variables, scale), inputs)
+      .total;
+
+  let scale: number;
+  let status: GoalSeekStatus = "fit";
+
+  if (totalAt(-1) > target) {
+    scale = -1;
+    status = "below_minimum";
+  } else if (totalAt(1) <= target) {
+    scale = 1;
+    status = "above_maximum";
+  } else {
+    let low = -1;
+    let high = 1;
+    for (let i = 0; i < iterations; i++) {
+      const mid = (low + high) / 2;
+      if (totalAt(mid) <= target) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    scale = low;
+  }
+
+  const scaled = paramsAtScale(params, variables, scale);
+  const solved =
+    status === "fit" ? topUp(scaled, inputs, variables, target) : scaled;
+  const budget = calculateBudgetForInputs(solved, inputs);
+
+  return {
+    status,
+    target,
+    total: budget.total,
+    gap: target - budget.total,
+    params: solved,
+    changes: variables
+      .map((v) => ({
+        key: v.key,
+        label: v.label,
+        from: params[v.key] as number,
+        to: solved[v.key] as number,
+      }))
+      .filter((c) => c.from !== c.to),
+    staffing: {
+      cleanersNeeded: budget.cleanersNeeded,
+      supervisorsNeeded: budget.supervisorsNeeded,
+      safetyFTE: budget.safetyFTE,
+    },
+  };
+}
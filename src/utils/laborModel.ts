@@ -0,0 +1,95 @@
+// Detailed labor cost model
+// Builds each role's fully-loaded hourly rate from base wage, overtime,
+// PTO/sick relief, payroll taxes, workers' comp, benefits and uniform
+// allowances. Rates are per covered (scheduled) hour: relief hours are paid
+// on top of coverage, and per-FTE costs are spread over the covered hours
+// one paid FTE delivers.
+
+import type { BudgetParameters } from "./budgetCalculations";
+import { FTE_HOURS_PER_YEAR } from "./staffingSchedule";
+
+export const OVERTIME_PREMIUM = 0.5; // Time-and-a-half
+
+export type LaborRole = "cleaner" | "supervisor" | "safety";
+
+export interface LaborCostComponent {
+  label: string;
+  hourly: number;
+}
+
+export interface LaborRoleBuildUp {
+  role: LaborRole;
+  label: string;
+  components: LaborCostComponent[];
+  loadedRate: number; // Sum of components
+}
+
+export const LABOR_ROLES: {
+  role: LaborRole;
+  label: string;
+  wageKey: "clean_base_wage" | "supervisor_base_wage" | "safety_base_wage";
+  rateKey:
+    | "clean_loaded_rate"
+    | "supervisor_loaded_rate"
+    | "safety_loaded_rate";
+}[] = [
+  { role: "cleaner", label: "Cleaner", wageKey: "clean_base_wage", rateKey: "clean_loaded_rate" },
+  { role: "supervisor", label: "Supervisor", wageKey: "supervisor_base_wage", rateKey: "supervisor_loaded_rate" },
+  { role: "safety", label: "Safety Ambassador", wageKey: "safety_base_wage", rateKey: "safety_loaded_rate" },
+];
+
+// Cost build-up for one covered hour at the given base wage
+export function buildLoadedRate(
+  params: BudgetParameters,
+  baseWage: number
+): LaborCostComponent[] {
+  const overtime = baseWage * params.overtime_share * OVERTIME_PREMIUM;
+  const relief = (baseWage + overtime) * params.pto_relief_factor;
+  const wages = baseWage + overtime + relief;
+
+  // Paid FTEs per covered FTE: relief adds heads, overtime hours do not
+  const headcountPerHour =
+    ((1 + params.pto_relief_factor) * (1 - params.overtime_share)) /
+    FTE_HOURS_PER_YEAR;
+
+  return [
+    { label: "Base wage", hourly: baseWage },
+    { label: "Overtime premium", hourly: overtime },
+    { label: "PTO / sick relief", hourly: relief },
+    { label: "Payroll taxes", hourly: wages * params.payroll_tax_pct },
+    { label: "Workers' comp", hourly: wages * params.workers_comp_pct },
+    { label: "Benefits", hourly: params.benefits_per_fte * headcountPerHour },
+    {
+      label: "Uniform & equipment",
+      hourly: params.uniform_equipment_per_fte * headcountPerHour,
+    },
+  ];
+}
+
+// Per-role build-up for reports
+export function buildLaborCostTable(
+  params: BudgetParameters
+): LaborRoleBuildUp[] {
+  return LABOR_ROLES.map(({ role, label, wageKey }) => {
+    const components = buildLoadedRate(params, params[wageKey]);
+    return {
+      role,
+      label,
+      components,
+      loadedRate: components.reduce((sum, c) => sum + c.hourly, 0),
+    };
+  });
+}
+
+// Parameters with the *_loaded_rate fields derived from the detailed model
+// when it is enabled; unchanged otherwise
+export function applyLaborModel(params: BudgetParameters): BudgetParameters {
+  if (!params.use_detailed_labor_model) return params;
+
+  const table = buildLaborCostTable(params);
+  const derived = { ...params };
+  LABOR_ROLES.forEach(({ rateKey }, i) => {
+    derived[rateKey] = table[i].loadedRate;
+  });
+  return derived;
+}
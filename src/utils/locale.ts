@@ -0,0 +1,233 @@
+// Locale, currency and unit system for display and input
+// The budget model always works in feet, acres and a single currency; these
+// settings only change how amounts and measures are shown and entered.
+// Switching currency relabels amounts and does not convert them, since the
+// rates in the parameters are whatever the user entered for their market.
+// BudgetParameters carries the same fields, so a parameter set can be passed
+// wherever LocaleSettings is expected.
+
+export type UnitSystem = "imperial" | "metric";
+
+export interface LocaleSettings {
+  locale: string; // BCP 47 tag for number and date formatting
+  currency: string; // ISO 4217 code the monetary parameters are in
+  unit_system: UnitSystem; // Lengths in ft or m, areas in acres or ha
+}
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  locale: "en-US",
+  currency: "USD",
+  unit_system: "imperial",
+};
+
+export const FEET_PER_METER = 3.28084;
+export const ACRES_PER_HECTARE = 2.4710538;
+export const KM_PER_MILE = 1.609344;
+
+export interface LocalePreset extends LocaleSettings {
+  label: string;
+}
+
+export const LOCALE_PRESETS: LocalePreset[] = [
+  { label: "United States", locale: "en-US", currency: "USD", unit_system: "imperial" },
+  { label: "Canada (English)", locale: "en-CA", currency: "CAD", unit_system: "metric" },
+  { label: "Canada (Français)", locale: "fr-CA", currency: "CAD", unit_system: "metric" },
+  { label: "United Kingdom", locale: "en-GB", currency: "GBP", unit_system: "metric" },
+  { label: "Ireland", locale: "en-IE", currency: "EUR", unit_system: "metric" },
+  { label: "Germany", locale: "de-DE", currency: "EUR", unit_system: "metric" },
+  { label: "France", locale: "fr-FR", currency: "EUR", unit_system: "metric" },
+  { label: "Netherlands", locale: "nl-NL", currency: "EUR", unit_system: "metric" },
+  { label: "Spain", locale: "es-ES", currency: "EUR", unit_system: "metric" },
+  { label: "Mexico", locale: "es-MX", currency: "MXN", unit_system: "metric" },
+  { label: "Brazil", locale: "pt-BR", currency: "BRL", unit_system: "metric" },
+  { label: "Australia", locale: "en-AU", currency: "AUD", unit_system: "metric" },
+  { label: "New Zealand", locale: "en-NZ", currency: "NZD", unit_system: "metric" },
+  { label: "Japan", locale: "ja-JP", currency: "JPY", unit_system: "metric" },
+  { label: "South Africa", locale: "en-ZA", currency: "ZAR", unit_system: "metric" },
+];
+
+export const CURRENCY_OPTIONS = Array.from(
+  new Set(LOCALE_PRESETS.map((p) => p.currency))
+);
+
+// Number format and units of the closest preset to the browser language,
+// US defaults otherwise. The currency stays USD: the default rates are US
+// dollar figures, and relabelling them as another currency would show
+// wrong amounts until the user re-enters them.
+export function detectLocaleSettings(): LocaleSettings {
+  const language =
+    typeof navigator !== "undefined" ? navigator.language : DEFAULT_LOCALE_SETTINGS.locale;
+  const region = language.split("-")[1];
+  const preset =
+    LOCALE_PRESETS.find((p) => p.locale.toLowerCase() === language.toLowerCase()) ||
+    (region && LOCALE_PRESETS.find((p) => p.locale.endsWith(`-${region.toUpperCase()}`)));
+  if (!preset) return DEFAULT_LOCALE_SETTINGS;
+  return {
+    locale: preset.locale,
+    currency: DEFAULT_LOCALE_SETTINGS.currency,
+    unit_system: preset.unit_system,
+  };
+}
+
+// Intl formatters are slow to construct and tables format hundreds of cells
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(locale: string, options: Intl.NumberFormatOptions) {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    try {
+      format = new Intl.NumberFormat(locale, options);
+    } catch {
+      // Unknown locale or currency code
+      format = new Intl.NumberFormat(DEFAULT_LOCALE_SETTINGS.locale, {
+        ...options,
+        ...(options.currency ? { currency: DEFAULT_LOCALE_SETTINGS.currency } : {}),
+      });
+    }
+    numberFormats.set(key, format);
+  }
+  return format;
+}
+
+export function isValidLocaleSettings(settings: LocaleSettings): boolean {
+  try {
+    new Intl.NumberFormat(settings.locale, {
+      style: "currency",
+      currency: settings.currency,
+    });
+    return settings.unit_system === "imperial" || settings.unit_system === "metric";
+  } catch {
+    return false;
+  }
+}
+
+export function formatCurrency(
+  value: number,
+  settings: LocaleSettings,
+  decimals = 0,
+  display: "symbol" | "code" = "symbol"
+): string {
+  return numberFormat(settings.locale, {
+    style: "currency",
+    currency: settings.currency,
+    currencyDisplay: display,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(value);
+}
+
+// "$", "€", "CA$"
+export function currencySymbol(settings: LocaleSettings): string {
+  return (
+    numberFormat(settings.locale, {
+      style: "currency",
+      currency: settings.currency,
+    })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")?.value || settings.currency
+  );
+}
+
+export function formatNumber(
+  value: number,
+  settings: LocaleSettings,
+  maxDecimals = 0,
+  minDecimals = 0
+): string {
+  return numberFormat(settings.locale, {
+    minimumFractionDigits: minDecimals,
+    maximumFractionDigits: Math.max(minDecimals, maxDecimals),
+  }).format(value);
+}
+
+export function formatDate(
+  date: Date | string | number,
+  settings: LocaleSettings,
+  style: "short" | "long" = "short"
+): string {
+  const d = new Date(date);
+  const options: Intl.DateTimeFormatOptions =
+    style === "long"
+      ? { weekday: "long", year: "numeric", month: "long", day: "numeric" }
+      : { year: "numeric", month: "short", day: "numeric" };
+  try {
+    return d.toLocaleDateString(settings.locale, options);
+  } catch {
+    return d.toLocaleDateString(DEFAULT_LOCALE_SETTINGS.locale, options);
+  }
+}
+
+// Lengths are stored in feet, areas in acres, speeds in miles per hour
+
+export function lengthUnit(settings: LocaleSettings): string {
+  return settings.unit_system === "metric" ? "m" : "ft";
+}
+
+export function areaUnit(settings: LocaleSettings): string {
+  return settings.unit_system === "metric" ? "ha" : "acres";
+}
+
+export function speedUnit(settings: LocaleSettings): string {
+  return settings.unit_system === "metric" ? "km/h" : "mph";
+}
+
+export function toDisplayLength(feet: number, settings: LocaleSettings): number {
+  return settings.unit_system === "metric" ? feet / FEET_PER_METER : feet;
+}
+
+export function fromDisplayLength(value: number, settings: LocaleSettings): number {
+  return settings.unit_system === "metric" ? value * FEET_PER_METER : value;
+}
+
+export function toDisplayArea(acres: number, settings: LocaleSettings): number {
+  return settings.unit_system === "metric" ? acres / ACRES_PER_HECTARE : acres;
+}
+
+export function fromDisplayArea(value: number, settings: LocaleSettings): number {
+  return settings.unit_system === "metric" ? value * ACRES_PER_HECTARE : value;
+}
+
+export function toDisplaySpeed(mph: number, settings: LocaleSettings): number {
+  return settings.unit_system === "metric" ? mph * KM_PER_MILE : mph;
+}
+
+// "1,200 ft" or "366 m"
+export function formatLength(
+  feet: number,
+  settings: LocaleSettings,
+  maxDecimals = 0
+): string {
+  return `${formatNumber(toDisplayLength(feet, settings), settings, maxDecimals)} ${lengthUnit(settings)}`;
+}
+
+// "42.5 acres" or "17.2 ha"
+export function formatArea(
+  acres: number,
+  settings: LocaleSettings,
+  maxDecimals = 1
+): string {
+  return `${formatNumber(toDisplayArea(acres, settings), settings, maxDecimals, maxDecimals)} ${areaUnit(settings)}`;
+}
+
+// Cost per foot or per metre of a length-driven quantity
+export function formatPerLength(
+  dollarsPerFoot: number,
+  settings: LocaleSettings,
+  decimals = 2
+): string {
+  const perUnit =
+    settings.unit_system === "metric" ? dollarsPerFoot * FEET_PER_METER : dollarsPerFoot;
+  return `${formatCurrency(perUnit, settings, decimals)}/${lengthUnit(settings)}`;
+}
+
+// Cost per acre or per hectare
+export function formatPerArea(
+  dollarsPerAcre: number,
+  settings: LocaleSettings,
+  decimals = 0
+): string {
+  const perUnit =
+    settings.unit_system === "metric" ? dollarsPerAcre * ACRES_PER_HECTARE : dollarsPerAcre;
+  return `${formatCurrency(perUnit, settings, decimals)}/${settings.unit_system === "metric" ? "ha" : "acre"}`;
+}
@@ -0,0 +1,360 @@
+// Named parameter profiles persisted in localStorage
+// Profiles carry a schema version. On load, fields added to BudgetParameters
+// since the profile was saved are filled from DEFAULT_BUDGET_PARAMS and
+// fields that no longer exist are dropped, so older profiles keep working.
+// Stored values are kept only when they have the shape the engine expects
+// (down to list elements and schedule grids); anything else falls back to
+// the default, so a hand-edited file cannot reach the budget malformed.
+
+import {
+  BudgetParameters,
+  CategoryWeight,
+  DEFAULT_BUDGET_PARAMS,
+} from "./budgetCalculations";
+import { CATEGORY_GROUPS } from "../constants/categoryTaxonomy";
+import { CustomServiceLine, COST_DRIVER_OPTIONS } from "./customServiceLines";
+import {
+  CapitalProject,
+  FUNDING_METHOD_OPTIONS,
+  MAX_CAPITAL_START_YEAR,
+  MAX_CAPITAL_TERM_YEARS,
+} from "./capitalPlan";
+import { FundingSource, FUNDING_SOURCE_TYPE_OPTIONS } from "./fundingSources";
+import { CLEANING_CREW_METHOD_OPTIONS } from "./cleaningRoutes";
+import { SAFETY_STAFFING_MODEL_OPTIONS } from "./patrolBeats";
+import { DELIVERY_MODE_OPTIONS } from "./serviceDelivery";
+import type { WeeklyGrid } from "./staffingSchedule";
+import {
+  ParameterIssue,
+  hasBlockingIssues,
+  validateParameters,
+} from "./parameterValidation";
+
+// Bump whenever BudgetParameters gains or changes fields.
+// 1: service sliders, asset spacing, marketing, labor model, delivery modes
+// 2: custom service lines, schedules, business mix overrides, locale,
+//    patrol and route models, capital projects, formation, funding sources
+export const PROFILE_SCHEMA_VERSION = 2;
+
+const STORAGE_KEY = "bidEstimator.parameterProfiles";
+const EXPORT_FORMAT = "bid-estimator-parameter-profiles";
+
+export interface ParameterProfile {
+  id: string;
+  name: string;
+  schemaVersion: number;
+  createdAt: string;
+  updatedAt: string;
+  regionId?: string; // Regional cost index the rates were localized to
+  params: BudgetParameters;
+}
+
+export interface ProfileImportResult {
+  profiles: ParameterProfile[];
+  imported: number;
+  skipped: number;
+  // Profiles with blocking errors are not imported; the engine would
+  // produce meaningless totals from them
+  rejected: { name: string; issues: ParameterIssue[] }[];
+  // Imported profiles with warnings only
+  flagged: { name: string; issues: ParameterIssue[] }[];
+}
+
+type FieldGuard<K extends keyof BudgetParameters> = (
+  value: unknown
+) => value is BudgetParameters[K];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+// No rate, count or amount is meaningful beyond this; larger values would
+// overflow the totals
+const MAX_PARAMETER_MAGNITUDE = 1e9;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" &&
+  isFinite(value) &&
+  Math.abs(value) <= MAX_PARAMETER_MAGNITUDE;
+const isString = (value: unknown): value is string => typeof value === "string";
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+const oneOf =
+  <T extends string>(options: { value: T }[]) =>
+  (value: unknown): value is T =>
+    options.some((o) => o.value === value);
+
+const arrayOf =
+  <T>(element: (value: unknown) => value is T) =>
+  (value: unknown): value is T[] =>
+    Array.isArray(value) && value.every(element);
+
+const isWeeklyGrid = (value: unknown): value is WeeklyGrid =>
+  Array.isArray(value) &&
+  value.length === 7 &&
+  value.every(
+    (day) =>
+      Array.isArray(day) &&
+      day.length === 24 &&
+      day.every((n) => isFiniteNumber(n) && n >= 0)
+  );
+
+const isMonthlyMultipliers = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length === 12 &&
+  value.every((m) => isFiniteNumber(m) && m >= 0);
+
+const isCustomServiceLine = (value: unknown): value is CustomServiceLine =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  oneOf(COST_DRIVER_OPTIONS)(value.driver) &&
+  isFiniteNumber(value.unitRate) &&
+  isBoolean(value.enabled);
+
+const isCapitalProject = (value: unknown): value is CapitalProject =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isFiniteNumber(value.cost) &&
+  isFiniteNumber(value.startYear) &&
+  value.startYear <= MAX_CAPITAL_START_YEAR &&
+  oneOf(FUNDING_METHOD_OPTIONS)(value.funding) &&
+  isFiniteNumber(value.rate) &&
+  isFiniteNumber(value.termYears) &&
+  value.termYears <= MAX_CAPITAL_TERM_YEARS &&
+  isBoolean(value.enabled);
+
+const isFundingSource = (value: unknown): value is FundingSource =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  oneOf(FUNDING_SOURCE_TYPE_OPTIONS)(value.type) &&
+  isFiniteNumber(value.amount) &&
+  isBoolean(value.enabled);
+
+const isCategoryGroup = (value: unknown): boolean =>
+  isString(value) && value in CATEGORY_GROUPS;
+
+const isCategoryWeight = (value: unknown): value is CategoryWeight =>
+  isRecord(value) &&
+  isFiniteNumber(value.clean_weight) &&
+  isFiniteNumber(value.night_weight);
+
+// Locale and currency codes must be accepted by Intl, which formats every
+// amount and measure
+const formats = (create: () => Intl.NumberFormat): boolean => {
+  try {
+    create();
+    return true;
+  } catch {
+    return false;
+  }
+};
+const isLocaleTag = (value: unknown): value is string =>
+  isString(value) && formats(() => new Intl.NumberFormat(value));
+const isCurrencyCode = (value: unknown): value is string =>
+  isString(value) &&
+  formats(() => new Intl.NumberFormat("en-US", { style: "currency", currency: value }));
+
+// Fields that are not plain numbers or booleans, with the shape each must have
+const FIELD_GUARDS: { [K in keyof BudgetParameters]?: FieldGuard<K> } = {
+  frontage_method: oneOf([{ value: "segments" }, { value: "business_count" }]),
+  frontage_road_classes: arrayOf(isString),
+  cleaning_crew_method: oneOf(CLEANING_CREW_METHOD_OPTIONS),
+  cleaning_schedule: (value): value is WeeklyGrid | null =>
+    value === null || isWeeklyGrid(value),
+  cleaning_seasonal_multipliers: isMonthlyMultipliers,
+  safety_staffing_model: oneOf(SAFETY_STAFFING_MODEL_OPTIONS),
+  safety_schedule: (value): value is WeeklyGrid | null =>
+    value === null || isWeeklyGrid(value),
+  safety_seasonal_multipliers: isMonthlyMultipliers,
+  cleaning_delivery_mode: oneOf(DELIVERY_MODE_OPTIONS),
+  safety_delivery_mode: oneOf(DELIVERY_MODE_OPTIONS),
+  custom_service_lines: arrayOf(isCustomServiceLine),
+  capital_projects: arrayOf(isCapitalProject),
+  funding_sources: arrayOf(isFundingSource),
+  category_weight_overrides: (
+    value
+  ): value is BudgetParameters["category_weight_overrides"] =>
+    isRecord(value) &&
+    Object.entries(value).every(
+      ([group, weight]) =>
+        isCategoryGroup(group) && (weight === undefined || isCategoryWeight(weight))
+    ),
+  category_group_overrides: (
+    value
+  ): value is BudgetParameters["category_group_overrides"] =>
+    isRecord(value) && Object.values(value).every(isCategoryGroup),
+  locale: isLocaleTag,
+  currency: isCurrencyCode,
+  unit_system: oneOf([{ value: "imperial" }, { value: "metric" }]),
+};
+
+// Copy one stored value onto the parameter set when it has the right shape
+function restoreField<K extends keyof BudgetParameters>(
+  params: BudgetParameters,
+  key: K,
+  value: unknown
+) {
+  const guard: FieldGuard<K> =
+    FIELD_GUARDS[key] ??
+    ((v: unknown): v is BudgetParameters[K] =>
+      typeof v === typeof DEFAULT_BUDGET_PARAMS[key] &&
+      (typeof v !== "number" || isFiniteNumber(v)));
+  if (guard(value)) params[key] = value;
+}
+
+// Bring a stored or imported profile up to the current schema
+export function migrateProfile(raw: any): ParameterProfile | null {
+  if (!raw || typeof raw !== "object" || typeof raw.name !== "string") {
+    return null;
+  }
+  const version = Number(raw.schemaVersion) || 0;
+  if (version > PROFILE_SCHEMA_VERSION) return null; // Saved by a newer release
+
+  const stored: Record<string, unknown> = isRecord(raw.params) ? raw.params : {};
+  const params = { ...DEFAULT_BUDGET_PARAMS };
+  (Object.keys(DEFAULT_BUDGET_PARAMS) as (keyof BudgetParameters)[]).forEach(
+    (key) => {
+      if (key in stored) restoreField(params, key, stored[key]);
+    }
+  );
+
+  const now = new Date().toISOString();
+  return {
+    id: typeof raw.id === "string" ? raw.id : createProfileId(),
+    name: raw.name.trim() || "Untitled profile",
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : now,
+    regionId: typeof raw.regionId === "string" ? raw.regionId : undefined,
+    params,
+  };
+}
+
+// A profile can be loaded into the estimator only without blocking errors
+export function canLoadProfile(profile: ParameterProfile): boolean {
+  return !hasBlockingIssues(validateParameters(profile.params));
+}
+
+function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+function writeProfiles(profiles: ParameterProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function loadProfiles(): ParameterProfile[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .map(migrateProfile)
+      .filter((p): p is ParameterProfile => p !== null);
+  } catch {
+    return [];
+  }
+}
+
+// Save under a name; an existing profile with the same name is overwritten
+export function saveProfile(
+  name: string,
+  params: BudgetParameters,
+  regionId?: string
+): ParameterProfile[] {
+  const profiles = loadProfiles();
+  const now = new Date().toISOString();
+  const existing = profiles.find(
+    (p) => p.name.toLowerCase() === name.trim().toLowerCase()
+  );
+
+  const next = existing
+    ? profiles.map((p) =>
+        p.id === existing.id ? { ...p, params, regionId, updatedAt: now } : p
+      )
+    : [
+        ...profiles,
+        {
+          id: createProfileId(),
+          name: name.trim(),
+          schemaVersion: PROFILE_SCHEMA_VERSION,
+          createdAt: now,
+          updatedAt: now,
+          regionId,
+          params,
+        },
+      ];
+
+  writeProfiles(next);
+  return next;
+}
+
+export function renameProfile(id: string, name: string): ParameterProfile[] {
+  const next = loadProfiles().map((p) =>
+    p.id === id
+      ? { ...p, name: name.trim(), updatedAt: new Date().toISOString() }
+      : p
+  );
+  writeProfiles(next);
+  return next;
+}
+
+export function deleteProfile(id: string): ParameterProfile[] {
+  const next = loadProfiles().filter((p) => p.id !== id);
+  writeProfiles(next);
+  return next;
+}
+
+export function exportProfilesJSON(profiles: ParameterProfile[]): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      schemaVersion: PROFILE_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      profiles,
+    },
+    null,
+    2
+  );
+}
+
+// Merge profiles from an exported file (or a bare array / single profile)
+export function importProfilesJSON(text: string): ProfileImportResult {
+  const parsed = JSON.parse(text);
+  const incoming: any[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.profiles)
+    ? parsed.profiles
+    : [parsed];
+
+  let profiles = loadProfiles();
+  let imported = 0;
+  let skipped = 0;
+  const rejected: ProfileImportResult["rejected"] = [];
+  const flagged: ProfileImportResult["flagged"] = [];
+
+  incoming.forEach((raw) => {
+    const profile = migrateProfile(raw);
+    if (!profile) {
+      skipped++;
+      return;
+    }
+    const issues = validateParameters(profile.params);
+    if (hasBlockingIssues(issues)) {
+      rejected.push({ name: profile.name, issues });
+      return;
+    }
+    const existingIndex = profiles.findIndex((p) => p.id === profile.id);
+    profiles =
+      existingIndex >= 0
+        ? profiles.map((p, i) => (i === existingIndex ? profile : p))
+        : [...profiles, profile];
+    imported++;
+    if (issues.length > 0) flagged.push({ name: profile.name, issues });
+  });
+
+  writeProfiles(profiles);
+  return { profiles, imported, skipped, rejected, flagged };
+}
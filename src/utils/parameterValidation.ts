@@ -0,0 +1,386 @@
+// Parameter validation
+// Errors mark values the model cannot use: divisors of zero, negative rates
+// and costs, shares outside 0-100%, and schedules longer than a day. An
+// invalid set still calculates (for live editing) but blocks PDF export.
+// Warnings mark values outside typical industry ranges; they are shown but
+// never block anything. Kept free of UI code so importers and API handlers
+// can run the same checks. Typical ranges for money fields are in US
+// dollars and are skipped for other currencies; length, area and speed
+// bounds are stated in the parameters' unit system.
+
+import type {
+  BudgetParameters,
+  NumericParameterKey,
+} from "./budgetCalculations";
+import {
+  LocaleSettings,
+  areaUnit,
+  formatNumber,
+  isValidLocaleSettings,
+  lengthUnit,
+  speedUnit,
+  toDisplayArea,
+  toDisplayLength,
+  toDisplaySpeed,
+} from "./locale";
+import { MAX_CAPITAL_START_YEAR, MAX_CAPITAL_TERM_YEARS } from "./capitalPlan";
+
+export type IssueSeverity = "error" | "warning";
+
+export interface ParameterIssue {
+  field: keyof BudgetParameters;
+  label: string;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface FieldRule {
+  label: string;
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean; // Used as a divisor, so zero is invalid
+  integer?: boolean;
+  typical?: [number, number];
+  percent?: boolean; // Stored as a fraction, shown as %
+  money?: boolean; // Typical range is in US dollars
+  measure?: "length" | "area" | "speed"; // Stored in feet, acres or mph
+}
+
+// Per-field bounds (errors) and typical ranges (warnings)
+export const PARAMETER_RULES: Partial<Record<NumericParameterKey, FieldRule>> = {
+  clean_loaded_rate: { label: "Cleaner loaded rate", money: true, min: 0, typical: [18, 60] },
+  clean_hours_per_shift: { label: "Hours per shift", min: 0, exclusiveMin: true, max: 24, typical: [4, 10] },
+  clean_shifts_per_day: { label: "Cleaning shifts per day", min: 0, max: 24, integer: true, typical: [1, 3] },
+  clean_days_per_week: { label: "Cleaning days per week", min: 0, max: 7 },
+  frontage_ft_per_cleaner_hour: { label: "Cleaner productivity", measure: "length", min: 0, exclusiveMin: true, typical: [400, 1500] },
+  acres_per_cleaner_hour: { label: "Area productivity", measure: "area", min: 0, exclusiveMin: true, typical: [0.2, 1.5] },
+  avg_frontage_ft_per_business: { label: "Frontage per business", measure: "length", min: 0, typical: [15, 40] },
+  intensity_weight_clean: { label: "Cleaning intensity weight", min: 0, typical: [0.5, 2] },
+  clean_deadhead_speed_mph: { label: "Cleaner walking speed", measure: "speed", min: 0, exclusiveMin: true, typical: [1, 3.5] },
+  supervisor_ratio: { label: "Cleaners per supervisor", min: 0, exclusiveMin: true, typical: [4, 15] },
+  supervisor_loaded_rate: { label: "Supervisor loaded rate", money: true, min: 0, typical: [25, 80] },
+
+  safety_loaded_rate: { label: "Safety loaded rate", money: true, min: 0, typical: [20, 70] },
+  safety_hours_per_day: { label: "Safety hours per day", min: 0, max: 24 },
+  safety_days_per_week: { label: "Safety days per week", min: 0, max: 7 },
+  intensity_weight_safety: { label: "Safety intensity weight", min: 0, typical: [0.5, 2] },
+  patrol_revisit_minutes: { label: "Patrol revisit interval", min: 0, exclusiveMin: true, typical: [15, 120] },
+  patrol_walking_speed_mph: { label: "Patrol walking speed", measure: "speed", min: 0, exclusiveMin: true, typical: [0.75, 3] },
+  patrol_blend_weight: { label: "Beat share of blend", min: 0, max: 1, percent: true },
+
+  clean_base_wage: { label: "Cleaner base wage", money: true, min: 0, typical: [12, 35] },
+  supervisor_base_wage: { label: "Supervisor base wage", money: true, min: 0, typical: [18, 50] },
+  safety_base_wage: { label: "Safety base wage", money: true, min: 0, typical: [14, 40] },
+  payroll_tax_pct: { label: "Payroll taxes", min: 0, max: 1, typical: [0.07, 0.15], percent: true },
+  workers_comp_pct: { label: "Workers' comp", min: 0, max: 1, typical: [0.01, 0.12], percent: true },
+  benefits_per_fte: { label: "Benefits per FTE", money: true, min: 0, typical: [0, 20000] },
+  uniform_equipment_per_fte: { label: "Uniform & equipment per FTE", money: true, min: 0, typical: [0, 3000] },
+  pto_relief_factor: { label: "PTO / sick relief", min: 0, max: 1, typical: [0.05, 0.2], percent: true },
+  overtime_share: { label: "Overtime share", min: 0, max: 1, typical: [0, 0.15], percent: true },
+
+  clean_contract_bill_rate: { label: "Cleaning bill rate", money: true, min: 0, typical: [22, 60] },
+  safety_contract_bill_rate: { label: "Safety bill rate", money: true, min: 0, typical: [28, 75] },
+  cleaning_contract_fee_pct: { label: "Cleaning management fee", min: 0, max: 1, typical: [0, 0.2], percent: true },
+  safety_contract_fee_pct: { label: "Safety management fee", min: 0, max: 1, typical: [0, 0.2], percent: true },
+  cleaning_contract_minimum: { label: "Cleaning contract minimum", min: 0 },
+  safety_contract_minimum: { label: "Safety contract minimum", min: 0 },
+
+  feet_per_trash_can: { label: "Trash can spacing", measure: "length", min: 0, exclusiveMin: true, typical: [200, 1000] },
+  trash_can_unit_cost: { label: "Trash can cost", min: 0 },
+  trash_can_life_years: { label: "Trash can life", min: 0, exclusiveMin: true, typical: [3, 20] },
+  feet_per_planter: { label: "Planter spacing", measure: "length", min: 0, exclusiveMin: true, typical: [300, 1500] },
+  planter_unit_cost: { label: "Planter cost", min: 0 },
+  planter_life_years: { label: "Planter life", min: 0, exclusiveMin: true, typical: [2, 15] },
+  feet_per_banner: { label: "Banner spacing", measure: "length", min: 0, exclusiveMin: true, typical: [300, 2000] },
+  banner_unit_cost: { label: "Banner cost", min: 0 },
+  banner_life_years: { label: "Banner life", min: 0, exclusiveMin: true, typical: [1, 10] },
+  asset_intersection_setback_ft: { label: "Asset clearance from intersections", measure: "length", min: 0, typical: [0, 60] },
+
+  marketing_base_annual: { label: "Base marketing budget", min: 0 },
+  marketing_per_business: { label: "Marketing per business", money: true, min: 0, typical: [0, 200] },
+  marketing_night_economy_multiplier: { label: "Night economy multiplier", min: 0, typical: [0, 1] },
+  events_per_year: { label: "Events per year", min: 0, typical: [0, 52] },
+  cost_per_event: { label: "Cost per event", min: 0 },
+
+  min_category_count: { label: "Minimum category count", min: 0 },
+  admin_overhead_pct: { label: "Admin overhead", min: 0, max: 1, typical: [0.05, 0.25], percent: true },
+
+  projection_years: { label: "Projection years", min: 1, max: 30, integer: true },
+  labor_escalation_pct: { label: "Labor escalation", min: -0.5, max: 1, typical: [0, 0.06], percent: true },
+  marketing_escalation_pct: { label: "Marketing escalation", min: -0.5, max: 1, typical: [0, 0.06], percent: true },
+  asset_cost_escalation_pct: { label: "Asset cost escalation", min: -0.5, max: 1, typical: [0, 0.06], percent: true },
+  admin_escalation_pct: { label: "Admin escalation", min: -0.5, max: 1, typical: [0, 0.06], percent: true },
+  custom_line_escalation_pct: { label: "Custom line escalation", min: -0.5, max: 1, typical: [0, 0.06], percent: true },
+
+  formation_feasibility_cost: { label: "Feasibility study cost", min: 0 },
+  formation_legal_cost: { label: "Legal & petition cost", min: 0 },
+  formation_hiring_cost_per_fte: { label: "Hiring cost per FTE", min: 0 },
+  formation_equipment_cost_per_fte: { label: "Equipment cost per FTE", min: 0 },
+  formation_branding_cost: { label: "Branding launch cost", min: 0 },
+  formation_operating_months: { label: "Months of service in year 1", min: 1, max: 12, integer: true },
+};
+
+function formatBound(value: number, rule: FieldRule, locale: LocaleSettings): string {
+  if (rule.percent) return `${+(value * 100).toFixed(1)}%`;
+  if (rule.measure === "length") {
+    return `${formatNumber(toDisplayLength(value, locale), locale, 1)} ${lengthUnit(locale)}`;
+  }
+  if (rule.measure === "area") {
+    return `${formatNumber(toDisplayArea(value, locale), locale, 2)} ${areaUnit(locale)}`;
+  }
+  if (rule.measure === "speed") {
+    return `${formatNumber(toDisplaySpeed(value, locale), locale, 1)} ${speedUnit(locale)}`;
+  }
+  return formatNumber(value, locale, 2);
+}
+
+function checkField(
+  field: NumericParameterKey,
+  value: unknown,
+  rule: FieldRule,
+  locale: LocaleSettings
+): ParameterIssue | null {
+  const issue = (severity: IssueSeverity, message: string): ParameterIssue => ({
+    field,
+    label: rule.label,
+    severity,
+    message,
+  });
+
+  if (typeof value !== "number" || !isFinite(value)) {
+    return issue("error", "Must be a number");
+  }
+  if (rule.min !== undefined) {
+    if (rule.exclusiveMin && value <= rule.min) {
+      return issue("error", `Must be greater than ${formatBound(rule.min, rule, locale)}`);
+    }
+    if (value < rule.min) {
+      return issue("error", `Must be at least ${formatBound(rule.min, rule, locale)}`);
+    }
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return issue("error", `Must be at most ${formatBound(rule.max, rule, locale)}`);
+  }
+  if (rule.integer && !Number.isInteger(value)) {
+    return issue("error", "Must be a whole number");
+  }
+  if (rule.typical && !(rule.money && locale.currency !== "USD")) {
+    const [low, high] = rule.typical;
+    if (value < low || value > high) {
+      return issue(
+        "warning",
+        `Outside the typical range of ${formatBound(low, rule, locale)}–${formatBound(high, rule, locale)}`
+      );
+    }
+  }
+  return null;
+}
+
+// Rules that involve more than one field or a structured value
+function checkCrossField(params: BudgetParameters): ParameterIssue[] {
+  const issues: ParameterIssue[] = [];
+  const add = (
+    field: keyof BudgetParameters,
+    label: string,
+    severity: IssueSeverity,
+    message: string
+  ) => issues.push({ field, label, severity, message });
+
+  if (!isValidLocaleSettings(params)) {
+    add(
+      "currency",
+      "Locale and currency",
+      "error",
+      `"${params.locale}" / "${params.currency}" is not a recognized locale and currency code`
+    );
+  }
+
+  const cleaningHours = params.clean_shifts_per_day * params.clean_hours_per_shift;
+  if (cleaningHours > 24) {
+    add(
+      "clean_shifts_per_day",
+      "Cleaning shifts per day",
+      "error",
+      `${params.clean_shifts_per_day} shifts × ${params.clean_hours_per_shift} hours is ${cleaningHours} hours, more than a day`
+    );
+  }
+
+  // Supervisors are normally paid more than the crews they lead
+  const [cleanerRate, supervisorRate, basis] = params.use_detailed_labor_model
+    ? [params.clean_base_wage, params.supervisor_base_wage, "base wage"]
+    : [params.clean_loaded_rate, params.supervisor_loaded_rate, "loaded rate"];
+  if (supervisorRate < cleanerRate) {
+    add(
+      params.use_detailed_labor_model ? "supervisor_base_wage" : "supervisor_loaded_rate",
+      params.use_detailed_labor_model ? "Supervisor base wage" : "Supervisor loaded rate",
+      "warning",
+      `Lower than the cleaner ${basis}`
+    );
+  }
+
+  if (params.overtime_share + params.pto_relief_factor > 0.5) {
+    add(
+      "overtime_share",
+      "Overtime share",
+      "warning",
+      "Overtime plus PTO relief above 50% of covered hours is unusual"
+    );
+  }
+
+  if (params.frontage_method === "segments" && params.frontage_road_classes.length === 0) {
+    add(
+      "frontage_road_classes",
+      "Frontage road classes",
+      "warning",
+      "No road classes selected, so segment frontage falls back to the business estimate"
+    );
+  }
+
+  if (params.safety_staffing_model !== "fixed_hours" && Array.isArray(params.safety_schedule)) {
+    add(
+      "safety_staffing_model",
+      "Safety staffing model",
+      "warning",
+      "The custom safety schedule is used instead of the patrol beat crews"
+    );
+  }
+
+  (
+    [
+      ["cleaning_seasonal_multipliers", "Cleaning seasonal multipliers"],
+      ["safety_seasonal_multipliers", "Safety seasonal multipliers"],
+    ] as const
+  ).forEach(([field, label]) => {
+    const multipliers = params[field];
+    if (
+      !Array.isArray(multipliers) ||
+      multipliers.length !== 12 ||
+      multipliers.some((m) => typeof m !== "number" || !isFinite(m) || m < 0)
+    ) {
+      add(field, label, "error", "Need 12 monthly multipliers of 0 or more");
+    } else if (multipliers.some((m) => m > 3)) {
+      add(field, label, "warning", "A month above 3× the base level is unusual");
+    }
+  });
+
+  (
+    [
+      ["cleaning_schedule", "Cleaning schedule"],
+      ["safety_schedule", "Safety schedule"],
+    ] as const
+  ).forEach(([field, label]) => {
+    const grid = params[field];
+    if (grid === null) return;
+    const valid =
+      Array.isArray(grid) &&
+      grid.length === 7 &&
+      grid.every(
+        (day) =>
+          Array.isArray(day) &&
+          day.length === 24 &&
+          day.every((n) => typeof n === "number" && isFinite(n) && n >= 0)
+      );
+    if (!valid) {
+      add(field, label, "error", "Need 7 days × 24 hours of staff counts of 0 or more");
+    }
+  });
+
+  params.custom_service_lines.forEach((line) => {
+    const name = line.name.trim() || "Unnamed line";
+    if (typeof line.unitRate !== "number" || !isFinite(line.unitRate) || line.unitRate < 0) {
+      add("custom_service_lines", `Custom line "${name}"`, "error", "Unit rate must be 0 or more");
+    }
+    if (!line.name.trim()) {
+      add("custom_service_lines", "Custom service line", "warning", "Line has no name");
+    }
+  });
+
+  params.capital_projects.forEach((project) => {
+    const label = `Capital project "${project.name.trim() || "Unnamed project"}"`;
+    const finite = (n: number) => typeof n === "number" && isFinite(n);
+    if (!finite(project.cost) || project.cost < 0) {
+      add("capital_projects", label, "error", "Cost must be 0 or more");
+    }
+    if (!finite(project.startYear) || project.startYear < 1) {
+      add("capital_projects", label, "error", "Start year must be 1 or later");
+    } else if (project.startYear > MAX_CAPITAL_START_YEAR) {
+      add("capital_projects", label, "error", `Start year must be ${MAX_CAPITAL_START_YEAR} or earlier`);
+    }
+    if (!finite(project.termYears) || project.termYears < 1) {
+      add("capital_projects", label, "error", "Term must be at least 1 year");
+    } else if (project.termYears > MAX_CAPITAL_TERM_YEARS) {
+      add("capital_projects", label, "error", `Term must be ${MAX_CAPITAL_TERM_YEARS} years or less`);
+    } else if (project.funding !== "cash" && project.termYears > 30) {
+      add("capital_projects", label, "warning", `A ${project.termYears}-year term is longer than most district financing`);
+    }
+    if (!finite(project.rate) || project.rate < 0) {
+      add("capital_projects", label, "error", "Rate must be 0 or more");
+    } else if (project.rate > 0.12) {
+      add("capital_projects", label, "warning", `${+(project.rate * 100).toFixed(2)}% is well above typical municipal borrowing rates`);
+    }
+    if (
+      project.funding === "reserve" &&
+      finite(project.startYear) &&
+      finite(project.termYears) &&
+      project.termYears > project.startYear
+    ) {
+      add("capital_projects", label, "warning", `Only ${Math.max(1, Math.round(project.startYear))} year(s) of contributions fit before the start year`);
+    }
+  });
+
+  params.funding_sources.forEach((source) => {
+    const name = source.name.trim() || "Unnamed source";
+    if (typeof source.amount !== "number" || !isFinite(source.amount) || source.amount < 0) {
+      add("funding_sources", `Funding source "${name}"`, "error", "Amount must be 0 or more");
+    }
+    if (!source.name.trim()) {
+      add("funding_sources", "Funding source", "warning", "Source has no name");
+    }
+  });
+
+  Object.entries(params.category_weight_overrides).forEach(([group, weight]) => {
+    if (!weight) return;
+    if (
+      [weight.clean_weight, weight.night_weight].some(
+        (w) => typeof w !== "number" || !isFinite(w) || w < 0
+      )
+    ) {
+      add(
+        "category_weight_overrides",
+        "Business mix weights",
+        "error",
+        `Weights for "${group}" must be 0 or more`
+      );
+    }
+  });
+
+  return issues;
+}
+
+export function validateParameters(params: BudgetParameters): ParameterIssue[] {
+  const issues: ParameterIssue[] = [];
+  (Object.keys(PARAMETER_RULES) as NumericParameterKey[]).forEach((field) => {
+    const issue = checkField(field, params[field], PARAMETER_RULES[field]!, params);
+    if (issue) issues.push(issue);
+  });
+  return [...issues, ...checkCrossField(params)];
+}
+
+export function hasBlockingIssues(issues: ParameterIssue[]): boolean {
+  return issues.some((issue) => issue.severity === "error");
+}
+
+export function fieldIssues(
+  issues: ParameterIssue[],
+  field: keyof BudgetParameters
+): ParameterIssue[] {
+  return issues.filter((issue) => issue.field === field);
+}
+
+// One line per issue, for alerts and import summaries
+export function describeIssues(issues: ParameterIssue[]): string[] {
+  return issues.map(
+    (issue) =>
+      `${issue.severity === "error" ? "Error" : "Warning"} – ${issue.label}: ${issue.message}`
+  );
+}
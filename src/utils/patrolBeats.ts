@@ -0,0 +1,128 @@
+// Patrol beat model for safety staffing
+// The fixed-hours model puts the same crew on duty whatever the size of the
+// district. The beat model sizes it from the street network instead: the
+// walkable patrol length (street centerline, since an ambassador covers both
+// curbs on one pass) divided by the distance one ambassador walks between
+// visits to the same block gives the beats to staff. Evening and overnight
+// blocks are scaled by night intensity, and every block by the safety
+// weight. Coverage hours and days still come from the safety sliders; the
+// blend model averages the two crews hour by hour.
+
+import type { BudgetParameters } from "./budgetCalculations";
+import {
+  WeeklyGrid,
+  defaultSafetyGrid,
+  nightEconomyShare,
+} from "./staffingSchedule";
+import { CURB_SIDES_PER_STREET } from "./frontageModel";
+
+export type SafetyStaffingModel = "fixed_hours" | "beats" | "blend";
+
+export const SAFETY_STAFFING_MODEL_OPTIONS: {
+  value: SafetyStaffingModel;
+  label: string;
+}[] = [
+  { value: "fixed_hours", label: "Fixed hours" },
+  { value: "beats", label: "Patrol beats" },
+  { value: "blend", label: "Blend" },
+];
+
+const FEET_PER_MILE = 5280;
+
+export interface PatrolHourBlock {
+  key: "day" | "evening" | "overnight";
+  label: string;
+  start: number; // Hour of day, inclusive
+  end: number; // Hour of day, exclusive
+  night: boolean; // Scaled by night intensity
+}
+
+export const PATROL_HOUR_BLOCKS: PatrolHourBlock[] = [
+  { key: "overnight", label: "Overnight (00–06)", start: 0, end: 6, night: true },
+  { key: "day", label: "Day (06–18)", start: 6, end: 18, night: false },
+  { key: "evening", label: "Evening (18–24)", start: 18, end: 24, night: true },
+];
+
+export interface PatrolBlockStaffing {
+  block: PatrolHourBlock;
+  factor: number; // Safety weight, times night intensity for night blocks
+  ambassadors: number; // On duty during covered hours of the block
+}
+
+export interface PatrolBeatPlan {
+  model: SafetyStaffingModel;
+  patrolLengthFt: number;
+  feetPerVisit: number; // Distance one ambassador walks per revisit interval
+  beats: number; // Patrol length / feet per visit, before scaling
+  blocks: PatrolBlockStaffing[];
+  grid: WeeklyGrid; // Default safety grid under the chosen model
+}
+
+// Walkable patrol length from curb frontage: one pass covers both sides
+export function calculatePatrolLengthFt(frontageEstimate: number): number {
+  return frontageEstimate / CURB_SIDES_PER_STREET;
+}
+
+function blockFor(hour: number): PatrolHourBlock {
+  return PATROL_HOUR_BLOCKS.find((b) => hour >= b.start && hour < b.end)!;
+}
+
+// Beats and per-block ambassadors, and the default grid they imply.
+// Null under the fixed-hours model.
+export function buildPatrolBeatPlan(
+  params: BudgetParameters,
+  frontageEstimate: number,
+  nightIntensity: number
+): PatrolBeatPlan | null {
+  if (params.safety_staffing_model === "fixed_hours") return null;
+
+  const patrolLengthFt = calculatePatrolLengthFt(frontageEstimate);
+  const feetPerVisit =
+    params.patrol_walking_speed_mph *
+    FEET_PER_MILE *
+    (params.patrol_revisit_minutes / 60);
+  const beats = feetPerVisit > 0 ? patrolLengthFt / feetPerVisit : 0;
+
+  const blocks = PATROL_HOUR_BLOCKS.map((block) => {
+    const factor =
+      params.intensity_weight_safety * (block.night ? nightIntensity : 1);
+    return {
+      block,
+      factor,
+      ambassadors: Math.max(1, Math.ceil(beats * factor)),
+    };
+  });
+  const ambassadorsAt = (hour: number) =>
+    blocks.find((b) => b.block === blockFor(hour))!.ambassadors;
+
+  // Beats staff the hours the fixed-hours model covers, even where its
+  // scaled staffing is zero
+  const nightShare = nightEconomyShare(nightIntensity);
+  const fixedGrid = defaultSafetyGrid(params, nightIntensity, nightShare);
+  const coverage = defaultSafetyGrid(
+    { ...params, intensity_weight_safety: 1 },
+    1,
+    nightShare
+  );
+  const weight =
+    params.safety_staffing_model === "blend" ? params.patrol_blend_weight : 1;
+  const grid = fixedGrid.map((day, d) =>
+    day.map((fixed, hour) =>
+      coverage[d][hour] > 0
+        ? Math.max(
+            1,
+            Math.round(weight * ambassadorsAt(hour) + (1 - weight) * fixed)
+          )
+        : 0
+    )
+  );
+
+  return {
+    model: params.safety_staffing_model,
+    patrolLengthFt,
+    feetPerVisit,
+    beats,
+    blocks,
+    grid,
+  };
+}
@@ -1,6 +1,67 @@
 import jsPDF from "jspdf";
-import { BudgetParameters } from "./budgetCalculations";
+import {
+  BudgetParameters,
+  describeCategoryOverrides,
+} from "./budgetCalculations";
+import { BudgetProjection, ProjectionLineKey } from "./budgetProjection";
+import { RegionalCostSelection } from "./regionalCosts";
+import {
+  ScheduleSummary,
+  ServiceSchedule,
+  formatShiftPattern,
+} from "./staffingSchedule";
+import { LaborRoleBuildUp, buildLaborCostTable } from "./laborModel";
+import {
+  DELIVERY_MODE_OPTIONS,
+  DeliveryComparison,
+  DeliveryMode,
+} from "./serviceDelivery";
+import { COST_DRIVER_OPTIONS, CustomLineCost } from "./customServiceLines";
+import { REGIONAL_COST_INDEX_SOURCE } from "../constants/regionalCostIndex";
+import { UNCERTAINTY_LINES, UncertaintyResult } from "./uncertainty";
+import { PeerBenchmark } from "./peerBenchmark";
+import { PatrolBlockStaffing } from "./patrolBeats";
+import { FormationItem, FormationPhase } from "./formation";
+import {
+  ServiceTierResult,
+  TierCostKey,
+  tierFixedScheduleNote,
+  tierParameterRows,
+} from "./serviceTiers";
+import {
+  FUNDING_SOURCE_TYPE_OPTIONS,
+  FundingMix,
+  FundingMixSource,
+} from "./fundingSources";
+import {
+  CapitalPlanYear,
+  CapitalProjectSchedule,
+  FUNDING_METHOD_OPTIONS,
+} from "./capitalPlan";
+import {
+  LineTrace,
+  TraceInput,
+  TraceStep,
+  formatTraceFormula,
+  formatTraceValue,
+} from "./budgetTrace";
+import {
+  LocaleSettings,
+  currencySymbol,
+  formatArea,
+  formatCurrency,
+  formatDate,
+  formatLength,
+  formatNumber,
+  toDisplayArea,
+  toDisplayLength,
+} from "./locale";
 import { getCategoryColor } from "../constants/categoryColors";
+import {
+  CATEGORY_GROUPS,
+  CategoryGroup,
+  groupCategoryBreakdown,
+} from "../constants/categoryTaxonomy";
 
 interface PDFExportData {
   data: any;
@@ -8,10 +69,34 @@ interface PDFExportData {
   placeTypology: string;
   serviceDemands: any;
   params: BudgetParameters;
+  projection?: BudgetProjection; // Optional multi-year pro forma
+  tiers?: ServiceTierResult[]; // Optional Basic / Enhanced / Premium comparison
+  uncertainty?: UncertaintyResult; // Optional Monte Carlo ranges page
+  benchmark?: PeerBenchmark; // Optional peer comparison page
+  regionalCost?: RegionalCostSelection; // Applied regional cost index
   polygon?: any; // Optional polygon data for map
   mapboxToken?: string; // Optional Mapbox token for static map
 }
 
+// Amounts, numbers and measures in the report's locale. Helvetica only
+// covers Latin-1, so other currency symbols are printed as ISO codes and
+// narrow no-break spaces as plain spaces.
+function pdfFormatters(locale: LocaleSettings) {
+  const display = /[^\x00-\xff]/.test(currencySymbol(locale)) ? "code" : "symbol";
+  const latin1 = (text: string) => text.replace(/[\u00a0\u202f]/g, " ");
+  return {
+    currencyDisplay: display as "code" | "symbol",
+    latin1,
+    money: (value: number, decimals = 0) =>
+      latin1(formatCurrency(value, locale, decimals, display)),
+    num: (value: number, maxDecimals = 0) =>
+      latin1(formatNumber(value, locale, maxDecimals)),
+    length: (feet: number) => latin1(formatLength(feet, locale)),
+    area: (acres: number) => latin1(formatArea(acres, locale)),
+    date: (value: Date) => latin1(formatDate(value, locale)),
+  };
+}
+
 // Helper function to generate static map URL with polygon overlay and business dots
 function generateStaticMapURL(
   polygon: any,
@@ -165,12 +250,18 @@ async function loadImageAsBase64(url: string): Promise<string | null> {
   }
 }
 
-export async function generateBIDReportPDF({
+// Lay out the full report; saving and emailing both use this document
+async function buildBIDReportPDF({
   data,
   budget,
   placeTypology,
   serviceDemands,
   params,
+  projection,
+  tiers,
+  uncertainty,
+  benchmark,
+  regionalCost,
   polygon,
   mapboxToken,
 }: PDFExportData) {
@@ -179,9 +270,11 @@ export async function generateBIDReportPDF({
     unit: "mm",
     format: "letter",
   });
+  const { money, num, length, area, currencyDisplay, latin1, ...fmt } =
+    pdfFormatters(params);
 
   // Color palette
-  const colors = {
+  const colors: Record<string, [number, number, number]> = {
     primary: [14, 165, 233], // #0ea5e9
     secondary: [5, 150, 105], // #059669
     accent: [139, 92, 246], // #8b5cf6
@@ -241,7 +334,7 @@ export async function generateBIDReportPDF({
     doc.text(
       `${placeTypology} • ${
         data.totalPlaces
-      } businesses • ${data.areaAcres.toFixed(1)} acres`,
+      } businesses • ${area(data.areaAcres)}`,
       leftMargin + 25,
       28
     );
@@ -300,6 +393,91 @@ export async function generateBIDReportPDF({
     yPos += lines.length * 5;
   };
 
+  // Simple table: first column left-aligned, remaining columns right-aligned
+  const addTable = (
+    headers: string[],
+    rows: string[][],
+    colWidths: number[] = headers.map(() => contentWidth / headers.length),
+    options: { boldLastRow?: boolean } = {}
+  ) => {
+    const rowHeight = 6;
+
+    const drawHeader = () => {
+      doc.setFillColor(...colors.lightBg);
+      doc.rect(leftMargin, yPos - 4, contentWidth, rowHeight, "F");
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(8);
+      doc.setTextColor(...colors.lightText);
+      drawRow(headers);
+      yPos += rowHeight;
+      doc.setTextColor(...colors.text);
+      doc.setFont("helvetica", "normal");
+    };
+
+    const drawRow = (cells: string[]) => {
+      let x = leftMargin;
+      cells.forEach((cell, i) => {
+        if (i === 0) {
+          doc.text(cell, x + 1, yPos);
+        } else {
+          doc.text(cell, x + colWidths[i] - 1, yPos, { align: "right" });
+        }
+        x += colWidths[i];
+      });
+    };
+
+    if (yPos > 255) {
+      doc.addPage();
+      yPos = 20;
+    }
+    drawHeader();
+
+    rows.forEach((row, index) => {
+      if (yPos > 270) {
+        doc.addPage();
+        yPos = 20;
+        drawHeader();
+      }
+      const isBold = options.boldLastRow && index === rows.length - 1;
+      doc.setFont("helvetica", isBold ? "bold" : "normal");
+      doc.setFontSize(8);
+      drawRow(row);
+      yPos += rowHeight;
+    });
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    yPos += 2;
+  };
+
+  const modeLabel = (mode: DeliveryMode) =>
+    DELIVERY_MODE_OPTIONS.find((o) => o.value === mode)!.label;
+
+  // "Contracted (6,240 hrs billed, $27,456 management fee)" style summary
+  const deliveryLabel = (comparison: DeliveryComparison) => {
+    const c = comparison.contracted;
+    return comparison.mode === "contracted"
+      ? `Contracted (${num(c.billedHours)} hrs billed, ${money(
+          c.managementFee
+        )} management fee${
+          c.minimumApplies ? ", contract minimum applies" : ""
+        })`
+      : "In-house staff";
+  };
+
+  // Weekly hours and shift patterns from a staffing schedule
+  const addScheduleSummary = (schedule: ServiceSchedule | null) => {
+    if (!schedule) return;
+    addKeyValue(
+      "Weekly Schedule:",
+      `${schedule.staff.weeklyHours} staff-hours/week, peak ${schedule.staff.peakOnDuty} on duty` +
+        (schedule.isCustom ? " (custom grid)" : "")
+    );
+    schedule.staff.shifts.forEach((shift) => {
+      addBulletPoint(formatShiftPattern(shift));
+    });
+  };
+
   const addMetricBox = (
     label: string,
     value: string,
@@ -348,8 +526,8 @@ export async function generateBIDReportPDF({
 
   addMetricBox(
     "Annual Budget",
-    `$${budget.total.toLocaleString()}`,
-    `$${budget.costPerBusiness.toLocaleString()}/business`,
+    money(budget.total),
+    `${money(budget.costPerBusiness)}/business`,
     leftMargin,
     metricsY,
     boxWidth
@@ -357,8 +535,8 @@ export async function generateBIDReportPDF({
 
   addMetricBox(
     "Business Density",
-    `${(data.totalPlaces / data.areaAcres).toFixed(1)}`,
-    "per acre",
+    num(data.totalPlaces / toDisplayArea(data.areaAcres, params), 1),
+    params.unit_system === "metric" ? "per hectare" : "per acre",
     leftMargin + boxSpacing,
     metricsY,
     boxWidth
@@ -399,11 +577,16 @@ export async function generateBIDReportPDF({
   const barWidth = contentWidth;
 
   // Draw budget segments
-  const segments = [
+  const segments: { label: string; value: number; color: [number, number, number] }[] = [
     { label: "Cleaning", value: budget.cleaning, color: colors.primary },
     { label: "Safety", value: budget.safety, color: colors.secondary },
     { label: "Marketing", value: budget.marketing, color: colors.warning },
     { label: "Assets", value: budget.assets, color: colors.accent },
+    ...budget.customLines.map((line: CustomLineCost) => ({
+      label: line.name,
+      value: line.cost,
+      color: hexToRgb(line.color),
+    })),
   ];
 
   let xOffset = leftMargin;
@@ -433,44 +616,125 @@ export async function generateBIDReportPDF({
   const budgetItems = [
     {
       label: "Cleaning & Maintenance:",
-      value: `$${budget.cleaning.toLocaleString()} (${(
+      value: `${money(budget.cleaning)} (${(
         (budget.cleaning / budget.subtotal) *
         100
       ).toFixed(0)}%)`,
     },
     {
       label: "Safety & Hospitality:",
-      value: `$${budget.safety.toLocaleString()} (${(
+      value: `${money(budget.safety)} (${(
         (budget.safety / budget.subtotal) *
         100
       ).toFixed(0)}%)`,
     },
     {
       label: "Marketing & Events:",
-      value: `$${budget.marketing.toLocaleString()} (${(
+      value: `${money(budget.marketing)} (${(
         (budget.marketing / budget.subtotal) *
         100
       ).toFixed(0)}%)`,
     },
     {
       label: "Streetscape Assets:",
-      value: `$${budget.assets.toLocaleString()} (${(
+      value: `${money(budget.assets)} (${(
         (budget.assets / budget.subtotal) *
         100
       ).toFixed(0)}%)`,
     },
+    ...budget.customLines.map((line: CustomLineCost) => ({
+      label: `${line.name}:`,
+      value: `${money(line.cost)} (${(
+        (line.cost / budget.subtotal) *
+        100
+      ).toFixed(0)}%)`,
+    })),
     {
       label: "Administrative Overhead:",
-      value: `$${budget.adminOverhead.toLocaleString()} (${(
+      value: `${money(budget.adminOverhead)} (${(
         params.admin_overhead_pct * 100
       ).toFixed(0)}%)`,
     },
+    ...(budget.capital > 0
+      ? [
+          {
+            label: "Capital Plan (Year 1):",
+            value: `${money(budget.capital)} (${(
+              (budget.capital / budget.total) *
+              100
+            ).toFixed(0)}% of total)`,
+          },
+        ]
+      : []),
+    ...(budget.formation
+      ? [
+          {
+            label: "First Year (Formation):",
+            value: `${money(budget.formation.firstYearTotal)} incl. ${money(
+              budget.formation.startupCost
+            )} startup, ${budget.formation.operatingMonths} months of service`,
+          },
+        ]
+      : []),
   ];
 
   budgetItems.forEach((item) => {
     addKeyValue(item.label, item.value);
   });
 
+  // Funding mix: the assessment and each non-assessment source
+  const funding: FundingMix = budget.funding;
+  if (funding.sources.length > 0) {
+    yPos += 3;
+    addKeyValue("Other Revenue:", `-${money(funding.nonAssessment)}`);
+    addKeyValue(
+      "Net Assessment:",
+      `${money(funding.netAssessment)} (${(funding.assessmentShare * 100).toFixed(
+        0
+      )}% assessment dependency)`
+    );
+    yPos += 3;
+    const funded = funding.netAssessment + funding.nonAssessment;
+    const share = (amount: number) =>
+      funded > 0 ? `${((amount / funded) * 100).toFixed(1)}%` : "-";
+    const typeLabel = (type: string) =>
+      FUNDING_SOURCE_TYPE_OPTIONS.find((o) => o.value === type)?.label || type;
+    addTable(
+      ["Funding Source", "Type", "Annual", "Share"],
+      [
+        ["Assessment", "Assessment", money(funding.netAssessment), share(funding.netAssessment)],
+        ...funding.sources.map((s: FundingMixSource) => [
+          s.name,
+          typeLabel(s.type),
+          money(s.amount),
+          share(s.amount),
+        ]),
+        ["Total", "", money(funded), "100%"],
+      ],
+      [contentWidth - 110, 45, 35, 30],
+      { boldLastRow: true }
+    );
+  }
+
+  if (regionalCost) {
+    addKeyValue(
+      "Regional Cost Index:",
+      `${regionalCost.index.name} (wages x${regionalCost.index.wageIndex.toFixed(
+        2
+      )}, prices x${regionalCost.index.priceIndex.toFixed(2)}) - ${regionalCost.basis}`
+    );
+    doc.setFontSize(7);
+    doc.setTextColor(...colors.lightText);
+    const sourceLines = doc.splitTextToSize(
+      `Source: ${REGIONAL_COST_INDEX_SOURCE}`,
+      contentWidth
+    );
+    doc.text(sourceLines, leftMargin, yPos);
+    yPos += sourceLines.length * 3.5;
+    doc.setFontSize(10);
+    doc.setTextColor(...colors.text);
+  }
+
   yPos += 5;
 
   // Priority Services
@@ -499,17 +763,21 @@ export async function generateBIDReportPDF({
   yPos += 5;
   addSection("Business Mix Analysis");
 
-  const topCategories = Object.entries(data.categoryBreakdown)
-    .filter(([_, count]) => count > 0)
-    .sort((a, b) => (b[1] as number) - (a[1] as number))
+  const topGroups = (
+    Object.entries(
+      groupCategoryBreakdown(data.categoryBreakdown, params.category_group_overrides)
+    ) as [
+      CategoryGroup,
+      number
+    ][]
+  )
+    .sort((a, b) => b[1] - a[1])
     .slice(0, 5);
 
-  topCategories.forEach(([category, count]) => {
-    const percentage = (((count as number) / data.totalPlaces) * 100).toFixed(
-      1
-    );
+  topGroups.forEach(([group, count]) => {
+    const percentage = ((count / data.totalPlaces) * 100).toFixed(1);
     addKeyValue(
-      `${category.charAt(0).toUpperCase() + category.slice(1)}:`,
+      `${CATEGORY_GROUPS[group].label}:`,
       `${count} businesses (${percentage}%)`
     );
   });
@@ -610,19 +878,35 @@ export async function generateBIDReportPDF({
 
   // Cleaning Services
   addSection("Cleaning & Maintenance Services");
-  addKeyValue("Annual Cost:", `$${budget.cleaning.toLocaleString()}`);
+  addKeyValue("Annual Cost:", money(budget.cleaning));
   addKeyValue("Priority Level:", serviceDemands.cleaning.priority);
-  addKeyValue("Cleaners Needed:", `${budget.cleanersNeeded} per day`);
-  addKeyValue("Supervisors:", `${budget.supervisorsNeeded}`);
-  addKeyValue("Coverage:", `${params.clean_days_per_week} days/week`);
+  if (budget.delivery.cleaning) {
+    addKeyValue("Delivery:", deliveryLabel(budget.delivery.cleaning));
+  }
+  addKeyValue("Cleaner FTEs:", `${budget.cleanersNeeded}`);
+  addKeyValue("Supervisor FTEs:", `${budget.supervisorsNeeded}`);
+  addScheduleSummary(budget.schedules.cleaning);
   addKeyValue(
-    "Estimated Frontage:",
-    `${budget.frontageEstimate.toLocaleString()} ft`
+    budget.frontageSource === "segments" ? "Curb Frontage:" : "Estimated Frontage:",
+    budget.frontageSource === "segments"
+      ? `${length(budget.frontageEstimate)} (both sides of included streets)`
+      : `${length(budget.frontageEstimate)} (${length(params.avg_frontage_ft_per_business)} per business)`
   );
   addKeyValue(
     "Productivity:",
-    `${params.frontage_ft_per_cleaner_hour} ft/hour`
+    `${length(params.frontage_ft_per_cleaner_hour)}/hour`
   );
+  if (budget.cleaningRoutes) {
+    const routes = budget.cleaningRoutes;
+    addKeyValue(
+      "Crew Sizing:",
+      `${routes.routes.length} planned routes × ${params.clean_shifts_per_day} shifts`
+    );
+    addKeyValue(
+      "Route Deadhead:",
+      `${length(routes.deadheadFt)} walking between block faces per pass`
+    );
+  }
 
   if (serviceDemands.cleaning.needs.length > 0) {
     yPos += 3;
@@ -639,15 +923,35 @@ export async function generateBIDReportPDF({
 
   // Safety Services
   addSection("Safety & Hospitality Services");
-  addKeyValue("Annual Cost:", `$${budget.safety.toLocaleString()}`);
+  addKeyValue("Annual Cost:", money(budget.safety));
   addKeyValue("Priority Level:", serviceDemands.safety.priority);
   addKeyValue("Service Enabled:", params.safety_enabled ? "Yes" : "No");
   if (params.safety_enabled) {
+    addKeyValue("Delivery:", deliveryLabel(budget.delivery.safety));
     addKeyValue("Ambassador FTE:", `${budget.safetyFTE.toFixed(1)}`);
-    addKeyValue(
-      "Coverage:",
-      `${params.safety_hours_per_day} hours/day, ${params.safety_days_per_week} days/week`
-    );
+    if (budget.patrol && !budget.schedules.safety?.isCustom) {
+      const { patrol } = budget;
+      addKeyValue(
+        "Staffing Model:",
+        patrol.model === "blend"
+          ? `Blend (${Math.round(params.patrol_blend_weight * 100)}% patrol beats)`
+          : "Patrol beats"
+      );
+      addKeyValue(
+        "Patrol Beats:",
+        `${num(patrol.beats, 1)} over ${length(patrol.patrolLengthFt)}, each block every ${params.patrol_revisit_minutes} min`
+      );
+      addKeyValue(
+        "On Duty by Block:",
+        patrol.blocks
+          .map(
+            ({ block, ambassadors }: PatrolBlockStaffing) =>
+              `${block.label.split(" ")[0]} ${ambassadors}`
+          )
+          .join(", ")
+      );
+    }
+    addScheduleSummary(budget.schedules.safety);
     addKeyValue("Night Economy Factor:", `${budget.nightIntensity.toFixed(2)}`);
   }
 
@@ -664,16 +968,107 @@ export async function generateBIDReportPDF({
 
   yPos += 5;
 
+  // In-house vs Contracted Delivery
+  const comparisons = [budget.delivery.cleaning, budget.delivery.safety].filter(
+    Boolean
+  ) as DeliveryComparison[];
+  if (comparisons.length > 0) {
+    addSection("In-house vs Contracted Delivery");
+    addTable(
+      ["Service", "In-house", "Contracted", "Selected", "Cheaper Option"],
+      comparisons.map((c) => [
+        c.label,
+        money(c.inHouse),
+        money(c.contracted.cost) +
+          (c.contracted.minimumApplies ? " (min)" : ""),
+        modeLabel(c.mode),
+        `${modeLabel(c.cheaper)} (saves ${money(c.savings)})` +
+          (c.mode !== c.cheaper ? " *" : ""),
+      ]),
+      [contentWidth - 130, 25, 30, 25, 50]
+    );
+    doc.setFontSize(8);
+    doc.setTextColor(...colors.lightText);
+    doc.text(
+      "Contracted: scheduled hours × vendor bill rate + management fee, floored at the contract minimum. * Selected mode is not the cheaper option.",
+      leftMargin,
+      yPos,
+      { maxWidth: contentWidth }
+    );
+    doc.setFontSize(10);
+    doc.setTextColor(...colors.text);
+    yPos += 10;
+  }
+
+  // Labor Cost Build-Up
+  if (
+    params.use_detailed_labor_model &&
+    (params.cleaning_enabled || params.safety_enabled)
+  ) {
+    addSection("Labor Cost Build-Up (per covered hour)");
+    const summaries: Record<LaborRoleBuildUp["role"], ScheduleSummary | undefined> = {
+      cleaner: budget.schedules.cleaning?.staff,
+      supervisor: budget.schedules.cleaning?.supervisors,
+      safety: budget.schedules.safety?.staff,
+    };
+    const roles = buildLaborCostTable(params).filter((role) =>
+      role.role === "safety" ? params.safety_enabled : params.cleaning_enabled
+    );
+    const roleColWidth = 35;
+    addTable(
+      ["Component", ...roles.map((role) => role.label)],
+      [
+        ...roles[0].components.map((component, i) => [
+          component.label,
+          ...roles.map((role) => money(role.components[i].hourly, 2)),
+        ]),
+        ["Loaded rate", ...roles.map((role) => money(role.loadedRate, 2))],
+        [
+          "Annual covered hours",
+          ...roles.map((role) =>
+            num(summaries[role.role]?.annualHours || 0)
+          ),
+        ],
+        [
+          "Annual cost",
+          ...roles.map(
+            (role) =>
+              money(summaries[role.role]?.annualCost || 0)
+          ),
+        ],
+      ],
+      [contentWidth - roleColWidth * roles.length, ...roles.map(() => roleColWidth)],
+      { boldLastRow: true }
+    );
+    addKeyValue(
+      "Payroll Load:",
+      `Taxes ${(params.payroll_tax_pct * 100).toFixed(1)}%, workers' comp ${(
+        params.workers_comp_pct * 100
+      ).toFixed(1)}% of wages`
+    );
+    addKeyValue(
+      "Per-FTE Costs:",
+      `Benefits ${money(params.benefits_per_fte)}, uniform & equipment ${money(params.uniform_equipment_per_fte)} per year`
+    );
+    addKeyValue(
+      "Coverage:",
+      `${(params.pto_relief_factor * 100).toFixed(0)}% PTO/sick relief, ${(
+        params.overtime_share * 100
+      ).toFixed(0)}% of hours at overtime`
+    );
+    yPos += 5;
+  }
+
   // Marketing Services
   addSection("Marketing & Events");
-  addKeyValue("Annual Cost:", `$${budget.marketing.toLocaleString()}`);
+  addKeyValue("Annual Cost:", money(budget.marketing));
   addKeyValue(
     "Base Budget:",
-    `$${params.marketing_base_annual.toLocaleString()}`
+    money(params.marketing_base_annual)
   );
-  addKeyValue("Per Business:", `$${params.marketing_per_business}`);
+  addKeyValue("Per Business:", money(params.marketing_per_business));
   addKeyValue("Annual Events:", `${params.events_per_year}`);
-  addKeyValue("Cost per Event:", `$${params.cost_per_event.toLocaleString()}`);
+  addKeyValue("Cost per Event:", money(params.cost_per_event));
 
   if (serviceDemands.marketing.needs.length > 0) {
     yPos += 3;
@@ -693,19 +1088,19 @@ export async function generateBIDReportPDF({
   const assets = [
     {
       name: "Trash Cans",
-      count: Math.ceil(budget.frontageEstimate / params.feet_per_trash_can),
+      count: budget.assetCounts.trashCans,
       unitCost: params.trash_can_unit_cost,
       life: params.trash_can_life_years,
     },
     {
       name: "Planters",
-      count: Math.ceil(budget.frontageEstimate / params.feet_per_planter),
+      count: budget.assetCounts.planters,
       unitCost: params.planter_unit_cost,
       life: params.planter_life_years,
     },
     {
       name: "Banners",
-      count: Math.ceil(budget.frontageEstimate / params.feet_per_banner),
+      count: budget.assetCounts.banners,
       unitCost: params.banner_unit_cost,
       life: params.banner_life_years,
     },
@@ -715,11 +1110,587 @@ export async function generateBIDReportPDF({
     const annualCost = (asset.count * asset.unitCost) / asset.life;
     addKeyValue(
       `${asset.name}:`,
-      `${asset.count} units × $${asset.unitCost} ÷ ${
+      `${asset.count} units × ${money(asset.unitCost)} ÷ ${
         asset.life
-      } years = $${Math.round(annualCost).toLocaleString()}/year`
+      } years = ${money(annualCost)}/year`
     );
   });
+  addKeyValue(
+    "Counts From:",
+    budget.assetPlacement
+      ? `Placement along street segments, ${length(budget.assetPlacement.setbackFt)} clear of intersections`
+      : "Frontage ÷ spacing"
+  );
+
+  // Custom Service Lines
+  if (budget.customLines.length > 0) {
+    yPos += 5;
+    addSection("Custom Service Lines");
+    addTable(
+      ["Service", "Driver", "Quantity", "Unit Rate", "Annual Cost"],
+      [
+        ...budget.customLines.map((line: CustomLineCost) => [
+          line.name,
+          COST_DRIVER_OPTIONS.find((o) => o.value === line.driver)?.label || line.driver,
+          line.driver === "fixed"
+            ? "-"
+            : line.missingData
+            ? "No data"
+            : num(line.quantity, 1),
+          money(line.unitRate),
+          money(line.cost),
+        ]),
+        ["Total", "", "", "", money(budget.custom)],
+      ],
+      [contentWidth - 120, 35, 25, 30, 30],
+      { boldLastRow: true }
+    );
+  }
+
+  // Capital Plan
+  if (budget.capitalPlan.projects.length > 0) {
+    yPos += 5;
+    addSection("Capital Plan");
+    addTable(
+      ["Project", "Funding", "Principal", "Annual", "Years", "Financing Cost"],
+      budget.capitalPlan.projects.map((p: CapitalProjectSchedule) => [
+        p.name,
+        FUNDING_METHOD_OPTIONS.find((o) => o.value === p.funding)?.label || p.funding,
+        money(p.principal),
+        money(p.annualPayment),
+        p.firstYear === p.lastYear ? `${p.firstYear}` : `${p.firstYear}-${p.lastYear}`,
+        money(p.financingCost),
+      ]),
+      [contentWidth - 130, 20, 30, 28, 20, 32]
+    );
+    yPos += 3;
+    addTable(
+      ["Year", "Cash", "Reserve", "Debt Service", "Total"],
+      budget.capitalPlan.years.map((y: CapitalPlanYear) => [
+        `Year ${y.year}`,
+        money(y.cash),
+        money(y.reserve),
+        money(y.debtService),
+        money(y.total),
+      ]),
+      [contentWidth - 120, 30, 30, 30, 30]
+    );
+    addKeyValue(
+      "In the Budget:",
+      `${money(budget.capital)} in year 1, outside the admin overhead base`
+    );
+  }
+
+  // Multi-Year Projection
+  if (projection && projection.years.length > 0) {
+    yPos += 5;
+    addSection("Multi-Year Budget Projection", colors.secondary);
+
+    const lines = [
+      params.cleaning_enabled && { label: "Cleaning", key: "cleaning" },
+      params.safety_enabled && { label: "Safety", key: "safety" },
+      params.marketing_enabled && { label: "Marketing", key: "marketing" },
+      params.assets_enabled && { label: "Assets", key: "assets" },
+      budget.custom > 0 && { label: "Custom Services", key: "custom" },
+      { label: "Admin Overhead", key: "adminOverhead" },
+      projection.years.some((y) => y.capital > 0) && {
+        label: "Capital Plan",
+        key: "capital",
+      },
+      projection.years.some((y) => y.startup > 0) && {
+        label: "Formation Startup",
+        key: "startup",
+      },
+      { label: "Total", key: "total" },
+    ].filter(Boolean) as { label: string; key: ProjectionLineKey }[];
+
+    const yearColWidth = Math.min(24, (contentWidth - 34) / projection.years.length);
+    addTable(
+      ["Line", ...projection.years.map((y) => `Year ${y.year}`)],
+      lines.map((line) => [
+        line.label,
+        ...projection.years.map((y) => money(y[line.key])),
+      ]),
+      [34, ...projection.years.map(() => yearColWidth)],
+      { boldLastRow: true }
+    );
+
+    addKeyValue(
+      `${projection.years.length}-Year Total:`,
+      money(projection.cumulativeTotal)
+    );
+    addKeyValue(
+      "Escalation:",
+      `Labor ${(params.labor_escalation_pct * 100).toFixed(1)}%, marketing ${(
+        params.marketing_escalation_pct * 100
+      ).toFixed(1)}%, assets ${(params.asset_cost_escalation_pct * 100).toFixed(
+        1
+      )}%, admin ${(params.admin_escalation_pct * 100).toFixed(1)}% per year`
+    );
+    addBulletPoint(
+      "Admin overhead grows from its year-1 amount at its own rate, not as a share of each year's services"
+    );
+    if (projection.years[0].startup > 0) {
+      addBulletPoint(
+        "Year 1 is the partial formation year, including startup costs"
+      );
+    }
+    const replacementYears = projection.years
+      .filter((y) => y.year > 1 && y.assetPurchases.length > 0)
+      .map((y) => `Year ${y.year} (${y.assetPurchases.join(", ")})`);
+    if (replacementYears.length > 0) {
+      addBulletPoint(`Asset replacements: ${replacementYears.join("; ")}`);
+    }
+  }
+
+  // Service Level Tiers
+  if (tiers && tiers.length > 0) {
+    doc.addPage();
+    yPos = 20;
+    addSection("Service Level Tiers", colors.primary);
+
+    const fixedScheduleNote = tierFixedScheduleNote(params);
+    doc.setFontSize(9);
+    doc.setTextColor(...colors.lightText);
+    const introLines = doc.splitTextToSize(
+      "Three packages built from the same district inputs. Enhanced is the budget " +
+        "as configured; Basic and Premium step service levels down and up." +
+        (fixedScheduleNote ? ` ${fixedScheduleNote}` : ""),
+      contentWidth
+    );
+    doc.text(introLines, leftMargin, yPos);
+    yPos += introLines.length * 4 + 4;
+    doc.setFontSize(10);
+    doc.setTextColor(...colors.text);
+
+    const tierColWidth = (contentWidth - 60) / tiers.length;
+    const colWidths = [60, ...tiers.map(() => tierColWidth)];
+    const tierHeaders = tiers.map((t) =>
+      t.tier.key === "enhanced" ? `${t.tier.label} (current)` : t.tier.label
+    );
+
+    addTable(
+      ["Service Level", ...tierHeaders],
+      [
+        ...tierParameterRows().map((row) => [
+          row.label,
+          ...tiers.map((t) => num(t.params[row.key], 2)),
+        ]),
+        [
+          "Cleaners / safety FTE",
+          ...tiers.map((t) => `${t.budget.cleanersNeeded} / ${num(t.budget.safetyFTE, 1)}`),
+        ],
+      ],
+      colWidths
+    );
+    yPos += 4;
+
+    const costRows = [
+      params.cleaning_enabled && { label: "Cleaning", key: "cleaning" },
+      params.safety_enabled && { label: "Safety", key: "safety" },
+      params.marketing_enabled && { label: "Marketing", key: "marketing" },
+      params.assets_enabled && { label: "Assets", key: "assets" },
+      tiers.some((t) => t.budget.custom > 0) && { label: "Custom Services", key: "custom" },
+      { label: "Admin Overhead", key: "adminOverhead" },
+      tiers.some((t) => t.budget.capital > 0) && { label: "Capital Plan", key: "capital" },
+      { label: "Total", key: "total" },
+    ].filter(Boolean) as { label: string; key: TierCostKey }[];
+
+    addTable(
+      ["Annual Budget", ...tierHeaders],
+      costRows.map((row) => [
+        row.label,
+        ...tiers.map((t) => money(t.budget[row.key])),
+      ]),
+      colWidths,
+      { boldLastRow: true }
+    );
+
+    const current = tiers.find((t) => t.tier.key === "enhanced")?.budget.total ?? 0;
+    tiers.forEach((t) => {
+      const change =
+        t.tier.key !== "enhanced" && current > 0
+          ? ` (${t.budget.total >= current ? "+" : ""}${(
+              ((t.budget.total - current) / current) *
+              100
+            ).toFixed(0)}% vs current)`
+          : "";
+      addKeyValue(
+        `${t.tier.label}:`,
+        `${money(t.budget.total)}${change}, ${money(t.budget.costPerBusiness)}/business` +
+          (t.budget.funding.nonAssessment > 0
+            ? `, ${money(t.budget.netAssessment)} net assessment`
+            : "")
+      );
+      addBulletPoint(t.tier.description);
+    });
+  }
+
+  // Formation Timeline (formation mode)
+  if (budget.formation) {
+    const formation = budget.formation;
+    doc.addPage();
+    yPos = 20;
+    addSection("Formation Timeline & First Year", colors.primary);
+
+    doc.setFontSize(9);
+    doc.setTextColor(...colors.lightText);
+    const introLines = doc.splitTextToSize(
+      `Forming the district adds ${money(formation.startupCost)} of one-time costs. Services start after ` +
+        `the formation steps below and run ${formation.operatingMonths} of 12 months in the first year; ` +
+        "assessments are sized on the steady-state budget.",
+      contentWidth
+    );
+    doc.text(introLines, leftMargin, yPos);
+    yPos += introLines.length * 4.5 + 4;
+    doc.setTextColor(...colors.text);
+
+    // Gantt bars over months from the start of formation
+    const lastMonth = Math.max(
+      ...formation.timeline.map((phase: FormationPhase) => phase.endMonth)
+    );
+    const labelWidth = 60;
+    const chartX = leftMargin + labelWidth;
+    const chartWidth = contentWidth - labelWidth;
+    const monthWidth = chartWidth / lastMonth;
+    doc.setFontSize(7);
+    doc.setTextColor(...colors.lightText);
+    for (let month = 1; month <= lastMonth; month += 3) {
+      doc.text(`M${month}`, chartX + (month - 1) * monthWidth, yPos);
+    }
+    yPos += 4;
+    doc.setFontSize(9);
+    formation.timeline.forEach((phase: FormationPhase) => {
+      doc.setTextColor(...colors.text);
+      doc.text(phase.label, leftMargin, yPos);
+      doc.setFillColor(...(phase.key === "service" ? colors.secondary : colors.primary));
+      doc.rect(
+        chartX + (phase.startMonth - 1) * monthWidth,
+        yPos - 3.5,
+        (phase.endMonth - phase.startMonth + 1) * monthWidth,
+        4.5,
+        "F"
+      );
+      yPos += 7;
+    });
+    yPos += 4;
+
+    addTable(
+      ["Item", "First Year", "Steady State"],
+      [
+        ...formation.items.map((item: FormationItem) => [
+          item.basis === "Fixed" ? item.label : `${item.label} (${item.basis})`,
+          money(item.cost),
+          "-",
+        ]),
+        [
+          `Services & overhead (${formation.operatingMonths} months)`,
+          money(formation.recurringFirstYear),
+          money(formation.recurringSteadyState),
+        ],
+        ...(formation.capitalFirstYear > 0
+          ? [["Capital plan", money(formation.capitalFirstYear), money(formation.capitalFirstYear)]]
+          : []),
+        ["Total", money(formation.firstYearTotal), money(formation.steadyStateTotal)],
+      ],
+      [contentWidth - 70, 35, 35],
+      { boldLastRow: true }
+    );
+  }
+
+  // Uncertainty Analysis (optional page)
+  if (uncertainty) {
+    doc.addPage();
+    yPos = 20;
+    addSection("Budget Uncertainty Analysis", colors.accent);
+
+    doc.setFontSize(9);
+    doc.setTextColor(...colors.lightText);
+    const introLines = doc.splitTextToSize(
+      `Ranges from ${num(uncertainty.iterations)} Monte Carlo samples of the budget model, ` +
+        "varying key assumptions within their expected ranges. P10 and P90 bound the middle 80% of outcomes.",
+      contentWidth
+    );
+    doc.text(introLines, leftMargin, yPos);
+    yPos += introLines.length * 4.5 + 3;
+    doc.setTextColor(...colors.text);
+
+    addTable(
+      ["Line", "P10", "P50", "P90"],
+      UNCERTAINTY_LINES.filter(
+        ({ key }) => key !== "custom" || uncertainty.lines.custom.p90 > 0
+      ).map(({ key, label }) => [
+        label,
+        money(uncertainty.lines[key].p10),
+        money(uncertainty.lines[key].p50),
+        money(uncertainty.lines[key].p90),
+      ]),
+      [contentWidth - 90, 30, 30, 30],
+      { boldLastRow: true }
+    );
+
+    yPos += 6;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text("What Drives the Total", leftMargin, yPos);
+    yPos += 5;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...colors.lightText);
+    doc.text(
+      `Total with each assumption at the low and high end of its range (base ${money(
+        uncertainty.baseTotal
+      )})`,
+      leftMargin,
+      yPos
+    );
+    yPos += 6;
+
+    // Tornado chart: bars extend left/right of the base total
+    const labelWidth = 55;
+    const chartX = leftMargin + labelWidth;
+    const chartWidth = contentWidth - labelWidth - 25;
+    const centerX = chartX + chartWidth / 2;
+    const maxDeviation = Math.max(
+      1,
+      ...uncertainty.tornado.map((t) =>
+        Math.max(
+          Math.abs(t.totalAtLow - uncertainty.baseTotal),
+          Math.abs(t.totalAtHigh - uncertainty.baseTotal)
+        )
+      )
+    );
+    const drawBar = (delta: number, color: [number, number, number]) => {
+      const width = (Math.abs(delta) / maxDeviation) * (chartWidth / 2);
+      if (width <= 0) return;
+      doc.setFillColor(...color);
+      doc.rect(delta < 0 ? centerX - width : centerX, yPos - 3.5, width, 4.5, "F");
+    };
+
+    uncertainty.tornado.forEach((t) => {
+      if (yPos > 265) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.setTextColor(...colors.text);
+      doc.text(t.label, leftMargin, yPos);
+      drawBar(t.totalAtLow - uncertainty.baseTotal, colors.primary);
+      drawBar(t.totalAtHigh - uncertainty.baseTotal, colors.warning);
+      doc.setDrawColor(...colors.text);
+      doc.setLineWidth(0.3);
+      doc.line(centerX, yPos - 4.5, centerX, yPos + 2);
+      doc.setTextColor(...colors.lightText);
+      doc.text(`±${money(Math.round(t.swing / 2))}`, rightMargin, yPos, {
+        align: "right",
+      });
+      yPos += 6.5;
+    });
+    doc.setTextColor(...colors.text);
+  }
+
+  // Peer Benchmarks (when peers were loaded)
+  if (benchmark && benchmark.peers.length > 0) {
+    doc.addPage();
+    yPos = 20;
+    addSection("Peer Benchmarks", colors.secondary);
+
+    // Peer budgets are published in US dollars; spend per acre and per curb
+    // foot are shown per hectare and per metre in metric
+    const usd = pdfFormatters({ ...params, currency: "USD" });
+    const perArea = toDisplayArea(1, params);
+    const perLength = toDisplayLength(1, params);
+    const spend = (value: number | null, scale = 1, decimals = 0) =>
+      value === null ? "-" : usd.money(value / scale, decimals);
+    const estimateSpend = (value: number | null, scale = 1, decimals = 0) =>
+      value === null ? "-" : money(value / scale, decimals);
+    const areaLabel = params.unit_system === "metric" ? "hectare" : "acre";
+    const lengthLabel = params.unit_system === "metric" ? "metre" : "foot";
+    doc.setFontSize(9);
+    doc.setTextColor(...colors.lightText);
+    const introLines = doc.splitTextToSize(
+      `Actual annual budgets of the ${benchmark.peers.length} active BIDs most similar to this district ` +
+        "in size, business count, road density and business mix. Peer budgets are as published and " +
+        "are not adjusted for regional costs.",
+      contentWidth
+    );
+    doc.text(introLines, leftMargin, yPos);
+    yPos += introLines.length * 4.5 + 3;
+    doc.setTextColor(...colors.text);
+
+    const versus = (value: number | null) =>
+      value === null ? "-" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(0)}%`;
+    addTable(
+      ["Spend", "This Estimate", "Peer Median", "Difference"],
+      [
+        [`Per ${areaLabel}`, estimateSpend(benchmark.estimate.perAcre, perArea), spend(benchmark.median.perAcre, perArea), versus(benchmark.versusMedian.perAcre)],
+        ["Per business", estimateSpend(benchmark.estimate.perBusiness), spend(benchmark.median.perBusiness), versus(benchmark.versusMedian.perBusiness)],
+        [`Per curb ${lengthLabel}`, estimateSpend(benchmark.estimate.perFrontageFt, perLength, 2), spend(benchmark.median.perFrontageFt, perLength, 2), versus(benchmark.versusMedian.perFrontageFt)],
+      ],
+      [contentWidth - 105, 35, 35, 35]
+    );
+
+    yPos += 4;
+    addTable(
+      [
+        "District",
+        params.unit_system === "metric" ? "Hectares" : "Acres",
+        "Businesses",
+        "Budget",
+        `Per ${params.unit_system === "metric" ? "Ha" : "Acre"}`,
+        "Per Business",
+        `Per Curb ${params.unit_system === "metric" ? "M" : "Ft"}`,
+      ],
+      benchmark.peers.map((peer) => {
+        const name = [peer.bid.name, peer.bid.state].filter(Boolean).join(", ");
+        return [
+          name.length > 34 ? name.slice(0, 31) + "..." : name,
+          num(toDisplayArea(peer.profile.areaAcres, params)),
+          num(peer.profile.businessCount),
+          spend(peer.bid.annualBudget),
+          spend(peer.metrics.perAcre, perArea),
+          spend(peer.metrics.perBusiness),
+          spend(peer.metrics.perFrontageFt, perLength, 2),
+        ];
+      }),
+      [contentWidth - 118, 14, 18, 24, 20, 20, 22]
+    );
+    if (benchmark.estimate.perFrontageFt === null) {
+      addBulletPoint(
+        `Street segments were not loaded for this district, so spend per curb ${lengthLabel} is not compared.`
+      );
+    }
+    if (!benchmark.comparable) {
+      addBulletPoint(
+        `Peer budgets are in US dollars and the estimate is in ${params.currency}, so the difference is not computed.`
+      );
+    }
+  }
+
+  // Methodology appendix: the derivation of every line
+  if (budget.trace.length > 0) {
+    doc.addPage();
+    yPos = 20;
+    addSection("Methodology Appendix: How Each Number Is Derived", colors.primary);
+
+    // Helvetica has no ceiling brackets or sigma
+    const plain = (text: string) =>
+      text
+        .replace(/⌈ /g, "ceil(")
+        .replace(/ ⌉/g, ")")
+        .replace(/Σ/g, "sum of");
+
+    budget.trace.forEach((trace: LineTrace) => {
+      if (yPos > 250) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(10);
+      doc.setTextColor(...colors.text);
+      doc.text(trace.label, leftMargin, yPos);
+      if (trace.total !== null) {
+        doc.text(money(trace.total), rightMargin, yPos, {
+          align: "right",
+        });
+      }
+      yPos += 5;
+
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(8);
+      doc.setTextColor(...colors.lightText);
+      const inputText = [
+        trace.note,
+        trace.inputs.length > 0
+          ? "Inputs: " +
+            trace.inputs
+              .map(
+                (input: TraceInput) =>
+                  `${input.label} ${formatTraceValue(input.value, params, currencyDisplay)}`
+              )
+              .join("; ")
+          : null,
+      ]
+        .filter(Boolean)
+        .join(". ");
+      if (inputText) {
+        const inputLines = doc.splitTextToSize(latin1(inputText), contentWidth);
+        doc.text(inputLines, leftMargin, yPos);
+        yPos += inputLines.length * 3.5 + 1;
+      }
+
+      doc.setTextColor(...colors.text);
+      trace.steps.forEach((step: TraceStep) => {
+        const text = latin1(
+          `${step.label}: ${plain(
+            formatTraceFormula(step.formula, params, currencyDisplay)
+          )} = ${formatTraceValue(step.result, params, currencyDisplay)}` +
+            (step.note ? ` (${step.note})` : "")
+        );
+        const lines = doc.splitTextToSize(text, contentWidth - 5);
+        if (yPos + lines.length * 3.5 > 272) {
+          doc.addPage();
+          yPos = 20;
+        }
+        doc.text(lines, leftMargin + 5, yPos);
+        yPos += lines.length * 3.5 + 0.5;
+      });
+      yPos += 4;
+    });
+    doc.setFontSize(10);
+  }
+
+  // Add methodology note at the end
+  yPos += 10;
+  if (yPos > 240) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  const methodologyText =
+    "This budget estimate uses industry-standard calculations based on International Downtown Association benchmarks, " +
+    "service intensity modeling derived from business mix analysis, and area-based coverage requirements. " +
+    "Actual costs may vary based on local conditions and service level requirements.";
+
+  const methodLines = doc.splitTextToSize(methodologyText, contentWidth - 4);
+
+  // Business mix weights and grouping changed from the defaults
+  const overrides = describeCategoryOverrides(params);
+  const overrideLines: string[] =
+    overrides.length > 0
+      ? doc.splitTextToSize(
+          `Business mix overrides from defaults: ${overrides.join("; ")}.`,
+          contentWidth - 4
+        )
+      : [];
+  const noteHeight = Math.max(
+    30,
+    14 + (methodLines.length + overrideLines.length) * 3.5
+  );
+  if (yPos + noteHeight > 275) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  doc.setFillColor(...colors.lightBg);
+  doc.rect(leftMargin, yPos, contentWidth, noteHeight, "F");
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(...colors.text);
+  doc.text("Methodology Note", leftMargin + 2, yPos + 6);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.text(methodLines, leftMargin + 2, yPos + 12);
+  if (overrideLines.length > 0) {
+    doc.text(
+      overrideLines,
+      leftMargin + 2,
+      yPos + 12 + methodLines.length * 3.5 + 2
+    );
+  }
 
   // Footer on each page
   const addFooter = async (pageNum: number) => {
@@ -727,7 +1698,7 @@ export async function generateBIDReportPDF({
     doc.setFontSize(8);
     doc.setTextColor(...colors.lightText);
     doc.text(
-      `Generated ${new Date().toLocaleDateString()} • BID Budget Estimator • Page ${pageNum}`,
+      `Generated ${fmt.date(new Date())} • BID Budget Estimator • Page ${pageNum}`,
       105,
       285,
       { align: "center" }
@@ -761,134 +1732,40 @@ export async function generateBIDReportPDF({
   };
 
   // Add footers
-  doc.setPage(1);
-  await addFooter(1);
-  doc.setPage(2);
-  await addFooter(2);
-
-  // Add methodology note at the end
-  yPos += 10;
-  if (yPos > 240) {
-    doc.addPage();
-    yPos = 20;
-    await addFooter(3);
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    await addFooter(page);
   }
 
-  doc.setFillColor(...colors.lightBg);
-  doc.rect(leftMargin, yPos, contentWidth, 30, "F");
-
-  doc.setFontSize(9);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(...colors.text);
-  doc.text("Methodology Note", leftMargin + 2, yPos + 6);
-
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(8);
-  const methodologyText =
-    "This budget estimate uses industry-standard calculations based on International Downtown Association benchmarks, " +
-    "service intensity modeling derived from business mix analysis, and area-based coverage requirements. " +
-    "Actual costs may vary based on local conditions and service level requirements.";
-
-  const methodLines = doc.splitTextToSize(methodologyText, contentWidth - 4);
-  doc.text(methodLines, leftMargin + 2, yPos + 12);
+  return doc;
+}
 
-  // Save the PDF
+function reportFilename(): string {
   const date = new Date().toISOString().split("T")[0];
-  doc.save(`BID-Budget-Report-${date}.pdf`);
+  return `BID-Budget-Report-${date}.pdf`;
 }
 
-// Generate PDF for email (returns base64)
-export async function generatePDFForEmail(data: PDFExportData) {
-  const doc = new jsPDF({
-    orientation: "portrait",
-    unit: "mm",
-    format: "letter",
-  });
-
-  // Use the same PDF generation logic but return base64 instead of saving
-  // For brevity, I'll call the main function and then get the base64
-  // In a real implementation, you'd extract the common logic
-
-  // Generate the same PDF content...
-  // (This is a simplified version - in production you'd extract the common PDF generation logic)
-
-  const colors = {
-    primary: [14, 165, 233],
-    secondary: [5, 150, 105],
-    text: [30, 41, 59],
-    lightText: [100, 116, 139],
-    lightBg: [248, 250, 252],
-  };
-
-  let yPos = 20;
-  const leftMargin = 20;
-
-  // Header
-  doc.setFillColor(...colors.primary);
-  doc.rect(0, 0, 216, 35, "F");
-  doc.setTextColor(255, 255, 255);
-  doc.setFontSize(20);
-  doc.setFont("helvetica", "bold");
-  doc.text("BID Budget Analysis Report", leftMargin, 20);
-  doc.setFontSize(11);
-  doc.setFont("helvetica", "normal");
-  doc.text(
-    `${data.placeTypology} • ${
-      data.data.totalPlaces
-    } businesses • ${data.data.areaAcres.toFixed(1)} acres`,
-    leftMargin,
-    28
-  );
-
-  // Add basic content
-  yPos = 50;
-  doc.setTextColor(...colors.text);
-  doc.setFontSize(14);
-  doc.setFont("helvetica", "bold");
-  doc.text("Executive Summary", leftMargin, yPos);
-
-  yPos += 10;
-  doc.setFontSize(10);
-  doc.setFont("helvetica", "normal");
-  doc.text(
-    `Total Annual Budget: $${data.budget.total.toLocaleString()}`,
-    leftMargin,
-    yPos
-  );
-  yPos += 6;
-  doc.text(
-    `Cost per Business: $${data.budget.costPerBusiness.toLocaleString()}`,
-    leftMargin,
-    yPos
-  );
-  yPos += 6;
-  doc.text(`District Type: ${data.placeTypology}`, leftMargin, yPos);
-  yPos += 6;
-  doc.text(
-    `Business Density: ${(data.data.totalPlaces / data.data.areaAcres).toFixed(
-      1
-    )} per acre`,
-    leftMargin,
-    yPos
-  );
-
-  // Footer
-  doc.setFontSize(8);
-  doc.setTextColor(...colors.lightText);
-  doc.text(
-    `Generated ${new Date().toLocaleDateString()} • BID Budget Estimator`,
-    105,
-    285,
-    { align: "center" }
-  );
+export async function generateBIDReportPDF(options: PDFExportData) {
+  const doc = await buildBIDReportPDF(options);
+  doc.save(reportFilename());
+}
 
-  // Return base64
+// Generate PDF for email (returns base64)
+export async function generatePDFForEmail(options: PDFExportData) {
+  const doc = await buildBIDReportPDF(options);
   return {
     base64: doc.output("datauristring").split(",")[1], // Remove data:application/pdf;base64, prefix
-    filename: `BID-Budget-Report-${new Date().toISOString().split("T")[0]}.pdf`,
+    filename: reportFilename(),
   };
 }
 
+// Convert "#rrggbb" to an RGB tuple for jsPDF
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
 // Helper function for diversity score (same as in main code)
 function calculateDiversityScore(breakdown: any, total: number): number {
   if (total === 0) return 0;
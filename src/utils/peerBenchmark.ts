@@ -0,0 +1,218 @@
+// Peer benchmarking against existing BIDs
+// Peers are the active BIDs closest to the drawn district on four measures:
+// size (acres), business count, road density (centerline miles per square
+// mile) and category mix (family shares). Size, count and density are
+// compared on a log scale, so a district twice as large is as far away as
+// one half the size. Each peer's actual spend is then expressed per acre,
+// per business and per curb foot next to our estimate. Peer budgets are in
+// US dollars, so an estimate in another currency is shown but not compared.
+
+import type { BudgetInputs } from "./budgetCalculations";
+import { REFERENCE_BUDGET_CURRENCY, ReferenceBid } from "./calibration";
+import { calculateCurbFrontageFt, calculateSegmentMiles } from "./frontageModel";
+import { percentile } from "./statistics";
+import {
+  CategoryFamily,
+  CategoryGroupOverrides,
+  familyCategoryBreakdown,
+} from "../constants/categoryTaxonomy";
+
+export const PEER_COUNT = 5;
+
+// Distance each dimension contributes per unit of difference: log-scale
+// measures count one per doubling, the category mix one per 25 points of
+// share moved between families
+const LOG_SCALE = Math.LN2;
+const MIX_SCALE = 0.25;
+
+export interface DistrictProfile {
+  areaAcres: number;
+  businessCount: number;
+  roadDensity: number | null; // Centerline miles per square mile
+  familyShares: Partial<Record<CategoryFamily, number>>;
+}
+
+export interface BenchmarkMetrics {
+  perAcre: number | null;
+  perBusiness: number | null;
+  perFrontageFt: number | null; // Per foot of curb frontage on included classes
+}
+
+export interface PeerMatch {
+  bid: ReferenceBid;
+  profile: DistrictProfile;
+  distance: number;
+  metrics: BenchmarkMetrics;
+}
+
+export interface PeerBenchmark {
+  subject: DistrictProfile;
+  estimate: BenchmarkMetrics;
+  peers: PeerMatch[];
+  median: BenchmarkMetrics; // Median across the matched peers
+  versusMedian: BenchmarkMetrics; // Estimate / median - 1, null if not comparable
+  comparable: boolean; // Estimate is in the peers' currency
+  candidateCount: number; // BIDs considered before matching
+}
+
+export async function fetchPeerBids(): Promise<ReferenceBid[]> {
+  const r = await fetch("/api/peer-bids");
+  const data = await r.json();
+  if (!r.ok) {
+    throw new Error(data?.error || `Peer data failed with status ${r.status}`);
+  }
+  return data.bids || [];
+}
+
+function roadDensity(segmentMiles: number | null | undefined, areaAcres: number) {
+  return segmentMiles && areaAcres > 0 ? segmentMiles / (areaAcres / 640) : null;
+}
+
+function familyShares(
+  breakdown: Record<string, number> | null | undefined,
+  overrides: CategoryGroupOverrides
+): Partial<Record<CategoryFamily, number>> {
+  const families = familyCategoryBreakdown(breakdown, overrides);
+  const total = Object.values(families).reduce((sum, n) => sum + (n || 0), 0);
+  const shares: Partial<Record<CategoryFamily, number>> = {};
+  if (total > 0) {
+    (Object.keys(families) as CategoryFamily[]).forEach((family) => {
+      shares[family] = (families[family] || 0) / total;
+    });
+  }
+  return shares;
+}
+
+// Share of businesses that would have to change family to match the mixes
+function mixDistance(
+  a: Partial<Record<CategoryFamily, number>>,
+  b: Partial<Record<CategoryFamily, number>>
+): number {
+  const families = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<CategoryFamily>;
+  let sum = 0;
+  families.forEach((family) => {
+    sum += Math.abs((a[family] || 0) - (b[family] || 0));
+  });
+  return sum / 2;
+}
+
+const logRatio = (a: number, b: number) =>
+  Math.log(Math.max(a, 1) / Math.max(b, 1)) / LOG_SCALE;
+
+// Density and mix are skipped when either side lacks the data
+export function profileDistance(a: DistrictProfile, b: DistrictProfile): number {
+  const terms = [
+    logRatio(a.areaAcres, b.areaAcres),
+    logRatio(a.businessCount, b.businessCount),
+  ];
+  if (a.roadDensity !== null && b.roadDensity !== null) {
+    terms.push(logRatio(a.roadDensity, b.roadDensity));
+  }
+  if (Object.keys(a.familyShares).length > 0 && Object.keys(b.familyShares).length > 0) {
+    terms.push(mixDistance(a.familyShares, b.familyShares) / MIX_SCALE);
+  }
+  return Math.sqrt(terms.reduce((sum, t) => sum + t * t, 0));
+}
+
+export function districtProfile(
+  inputs: BudgetInputs,
+  overrides: CategoryGroupOverrides = {}
+): DistrictProfile {
+  return {
+    areaAcres: inputs.areaAcres,
+    businessCount: inputs.businessCount,
+    roadDensity: roadDensity(inputs.segmentMiles, inputs.areaAcres),
+    familyShares: familyShares(inputs.categoryBreakdown, overrides),
+  };
+}
+
+function spendMetrics(
+  total: number,
+  areaAcres: number,
+  businessCount: number,
+  frontageFt: number | null
+): BenchmarkMetrics {
+  return {
+    perAcre: areaAcres > 0 ? total / areaAcres : null,
+    perBusiness: businessCount > 0 ? total / businessCount : null,
+    perFrontageFt: frontageFt ? total / frontageFt : null,
+  };
+}
+
+function medianOf(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0
+    ? percentile([...present].sort((a, b) => a - b), 0.5)
+    : null;
+}
+
+// Nearest peers to the district and how the estimate compares to them.
+// Curb frontage uses the same road classes for peers as for the estimate.
+export function benchmarkAgainstPeers(
+  inputs: BudgetInputs,
+  estimateTotal: number,
+  estimateCurrency: string,
+  bids: ReferenceBid[],
+  frontageRoadClasses: string[],
+  overrides: CategoryGroupOverrides = {},
+  count = PEER_COUNT
+): PeerBenchmark {
+  const subject = districtProfile(inputs, overrides);
+  const candidates = bids.filter((bid) => bid.areaAcres > 0 && bid.businessCount > 0);
+
+  const peers: PeerMatch[] = candidates
+    .map((bid) => {
+      const profile: DistrictProfile = {
+        areaAcres: bid.areaAcres,
+        businessCount: bid.businessCount,
+        roadDensity: roadDensity(
+          bid.segmentFrontage ? calculateSegmentMiles(bid.segmentFrontage) : null,
+          bid.areaAcres
+        ),
+        familyShares: familyShares(bid.categoryBreakdown, overrides),
+      };
+      const frontageFt = bid.segmentFrontage
+        ? calculateCurbFrontageFt(bid.segmentFrontage, frontageRoadClasses)
+        : null;
+      return {
+        bid,
+        profile,
+        distance: profileDistance(subject, profile),
+        metrics: spendMetrics(bid.annualBudget, bid.areaAcres, bid.businessCount, frontageFt),
+      };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, count);
+
+  const estimate = spendMetrics(
+    estimateTotal,
+    inputs.areaAcres,
+    inputs.businessCount,
+    inputs.curbFrontageFt ?? null
+  );
+  const median: BenchmarkMetrics = {
+    perAcre: medianOf(peers.map((p) => p.metrics.perAcre)),
+    perBusiness: medianOf(peers.map((p) => p.metrics.perBusiness)),
+    perFrontageFt: medianOf(peers.map((p) => p.metrics.perFrontageFt)),
+  };
+  const comparable = estimateCurrency === REFERENCE_BUDGET_CURRENCY;
+  const versus = (key: keyof BenchmarkMetrics) => {
+    const e = estimate[key];
+    const m = median[key];
+    return comparable && e !== null && m ? e / m - 1 : null;
+  };
+
+  return {
+    subject,
+    estimate,
+    peers,
+    median,
+    versusMedian: {
+      perAcre: versus("perAcre"),
+      perBusiness: versus("perBusiness"),
+      perFrontageFt: versus("perFrontageFt"),
+    },
+    comparable,
+    candidateCount: candidates.length,
+  };
+}
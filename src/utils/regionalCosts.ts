@@ -0,0 +1,122 @@
+// Regional cost localization
+// Looks up the bundled metro index nearest to a location and rescales the
+// wage- and price-driven fields of BudgetParameters. Rescaling is relative to
+// the previously applied index, so switching regions never compounds.
+
+import { BudgetParameters, NumericParameterKey } from "./budgetCalculations";
+import { distanceFt, geometryBounds, Position } from "./geoUtils";
+import {
+  METRO_COST_INDICES,
+  METRO_MATCH_RADIUS_MILES,
+  NATIONAL_COST_INDEX,
+  NONMETRO_COST_INDEX,
+  RegionalCostIndex,
+  US_COVERAGE_BOUNDS,
+} from "../constants/regionalCostIndex";
+
+export interface RegionalCostSelection {
+  index: RegionalCostIndex;
+  basis: string; // How the index was chosen, e.g. "Location search: Oakland, CA"
+  distanceMiles: number | null; // Distance to the metro center, if matched
+}
+
+// Loaded hourly rates, base wages and vendor bill rates follow the wage index
+export const WAGE_INDEXED_FIELDS: NumericParameterKey[] = [
+  "clean_loaded_rate",
+  "supervisor_loaded_rate",
+  "safety_loaded_rate",
+  "clean_base_wage",
+  "supervisor_base_wage",
+  "safety_base_wage",
+  "clean_contract_bill_rate",
+  "safety_contract_bill_rate",
+];
+
+// Unit costs and marketing spend follow the price index
+export const PRICE_INDEXED_FIELDS: NumericParameterKey[] = [
+  "trash_can_unit_cost",
+  "planter_unit_cost",
+  "banner_unit_cost",
+  "marketing_base_annual",
+  "marketing_per_business",
+  "cost_per_event",
+];
+
+export function isWithinUSCoverage([lng, lat]: Position): boolean {
+  return US_COVERAGE_BOUNDS.some(
+    ([west, south, east, north]) =>
+      lng >= west && lng <= east && lat >= south && lat <= north
+  );
+}
+
+// Nearest bundled metro within the match radius, else the nonmetro index.
+// Points outside the US keep the national average, i.e. no rescale.
+export function findRegionalIndex(
+  point: Position,
+  basis: string
+): RegionalCostSelection {
+  if (!isWithinUSCoverage(point)) {
+    return {
+      index: NATIONAL_COST_INDEX,
+      basis: `${basis} (outside US coverage)`,
+      distanceMiles: null,
+    };
+  }
+
+  let nearest: RegionalCostIndex | null = null;
+  let nearestMiles = Infinity;
+
+  METRO_COST_INDICES.forEach((metro) => {
+    const miles = distanceFt(point, [metro.lng!, metro.lat!]) / 5280;
+    if (miles < nearestMiles) {
+      nearest = metro;
+      nearestMiles = miles;
+    }
+  });
+
+  if (nearest && nearestMiles <= METRO_MATCH_RADIUS_MILES) {
+    return {
+      index: nearest,
+      basis,
+      distanceMiles: Math.round(nearestMiles),
+    };
+  }
+  return { index: NONMETRO_COST_INDEX, basis, distanceMiles: null };
+}
+
+export function findRegionalIndexById(id: string): RegionalCostIndex | null {
+  return (
+    [NATIONAL_COST_INDEX, NONMETRO_COST_INDEX, ...METRO_COST_INDICES].find(
+      (index) => index.id === id
+    ) || null
+  );
+}
+
+// Bounding-box center of a district polygon FeatureCollection
+export function polygonCentroid(polygon: any): Position | null {
+  const geometry = polygon?.features?.[0]?.geometry;
+  if (!geometry) return null;
+  const [minLng, minLat, maxLng, maxLat] = geometryBounds(geometry);
+  if (!isFinite(minLng)) return null;
+  return [(minLng + maxLng) / 2, (minLat + maxLat) / 2];
+}
+
+// Rescale parameters from one regional index to another
+export function applyRegionalIndex(
+  params: BudgetParameters,
+  next: RegionalCostIndex,
+  previous: RegionalCostIndex
+): BudgetParameters {
+  const wageRatio = next.wageIndex / previous.wageIndex;
+  const priceRatio = next.priceIndex / previous.priceIndex;
+  const scaled = { ...params };
+
+  WAGE_INDEXED_FIELDS.forEach((key) => {
+    scaled[key] = Math.round((params[key] as number) * wageRatio * 100) / 100;
+  });
+  PRICE_INDEXED_FIELDS.forEach((key) => {
+    scaled[key] = Math.round((params[key] as number) * priceRatio);
+  });
+
+  return scaled;
+}
@@ -0,0 +1,114 @@
+// In-house versus contracted service delivery
+// In-house labor is costed from the staffing schedules at loaded rates.
+// Contracted labor bills the same covered hours at the vendor's hourly rate,
+// adds the vendor's management fee, and is floored at the contract minimum.
+// Vendors supervise their own crews, so contracted cleaning bills cleaner
+// hours only.
+
+import type { BudgetParameters } from "./budgetCalculations";
+import type { ServiceSchedule } from "./staffingSchedule";
+
+export type DeliveryMode = "in_house" | "contracted";
+export type DeliveryService = "cleaning" | "safety";
+
+export const DELIVERY_MODE_OPTIONS: { value: DeliveryMode; label: string }[] = [
+  { value: "in_house", label: "In-house" },
+  { value: "contracted", label: "Contracted" },
+];
+
+export const DELIVERY_SERVICES: {
+  service: DeliveryService;
+  label: string;
+  modeKey: "cleaning_delivery_mode" | "safety_delivery_mode";
+  billRateKey: "clean_contract_bill_rate" | "safety_contract_bill_rate";
+  feeKey: "cleaning_contract_fee_pct" | "safety_contract_fee_pct";
+  minimumKey: "cleaning_contract_minimum" | "safety_contract_minimum";
+}[] = [
+  {
+    service: "cleaning",
+    label: "Cleaning & Maintenance",
+    modeKey: "cleaning_delivery_mode",
+    billRateKey: "clean_contract_bill_rate",
+    feeKey: "cleaning_contract_fee_pct",
+    minimumKey: "cleaning_contract_minimum",
+  },
+  {
+    service: "safety",
+    label: "Safety & Hospitality",
+    modeKey: "safety_delivery_mode",
+    billRateKey: "safety_contract_bill_rate",
+    feeKey: "safety_contract_fee_pct",
+    minimumKey: "safety_contract_minimum",
+  },
+];
+
+export interface ContractedCost {
+  billedHours: number;
+  labor: number; // Billed hours × bill rate
+  managementFee: number;
+  minimumApplies: boolean;
+  cost: number;
+}
+
+export interface DeliveryComparison {
+  service: DeliveryService;
+  label: string;
+  mode: DeliveryMode; // Selected mode
+  inHouse: number;
+  contracted: ContractedCost;
+  cheaper: DeliveryMode;
+  savings: number; // Difference between the two options
+}
+
+export function calculateContractedCost(
+  billedHours: number,
+  billRate: number,
+  feePct: number,
+  minimum: number
+): ContractedCost {
+  const labor = billedHours * billRate;
+  const managementFee = labor * feePct;
+  const minimumApplies = labor + managementFee < minimum;
+
+  return {
+    billedHours,
+    labor,
+    managementFee,
+    minimumApplies,
+    cost: minimumApplies ? minimum : labor + managementFee,
+  };
+}
+
+// Both delivery options for one service, from its in-house schedule
+export function compareDeliveryModes(
+  params: BudgetParameters,
+  service: DeliveryService,
+  schedule: ServiceSchedule
+): DeliveryComparison {
+  const config = DELIVERY_SERVICES.find((s) => s.service === service)!;
+  const contracted = calculateContractedCost(
+    schedule.staff.annualHours,
+    params[config.billRateKey],
+    params[config.feeKey],
+    params[config.minimumKey]
+  );
+  const inHouse = schedule.annualCost;
+
+  return {
+    service,
+    label: config.label,
+    mode: params[config.modeKey],
+    inHouse,
+    contracted,
+    cheaper: contracted.cost < inHouse ? "contracted" : "in_house",
+    savings: Math.abs(inHouse - contracted.cost),
+  };
+}
+
+// Annual cost of the selected delivery mode
+export function deliveredCost(comparison: DeliveryComparison | null): number {
+  if (!comparison) return 0;
+  return comparison.mode === "contracted"
+    ? comparison.contracted.cost
+    : comparison.inHouse;
+}
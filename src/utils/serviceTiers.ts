@@ -0,0 +1,150 @@
+// Service level tiers (Basic / Enhanced / Premium) for pitching a district
+// Each tier adjusts the service-level parameters of the current set, either
+// by scaling the current value or by replacing it. Enhanced is the set as
+// configured, so the other two read as a step down and a step up from it.
+// Adjusted values are kept within the goal-seek bounds and rounded the same
+// way. Custom weekly schedules take precedence over shift and day counts, so
+// a service with one costs the same in every tier; tierFixedScheduleNote
+// says so wherever the tiers are shown.
+
+import {
+  BudgetInputs,
+  BudgetParameters,
+  BudgetResult,
+  NumericParameterKey,
+  calculateBudgetForInputs,
+} from "./budgetCalculations";
+import { GOAL_SEEK_VARIABLES } from "./goalSeek";
+
+export type ServiceTierKey = "basic" | "enhanced" | "premium";
+
+export interface TierAdjustment {
+  key: NumericParameterKey;
+  multiplier?: number; // Scales the current value
+  value?: number; // Replaces it; wins over the multiplier
+}
+
+export interface ServiceTierDefinition {
+  key: ServiceTierKey;
+  label: string;
+  description: string;
+  adjustments: TierAdjustment[];
+}
+
+export const SERVICE_TIERS: ServiceTierDefinition[] = [
+  {
+    key: "basic",
+    label: "Basic",
+    description: "Weekday cleaning, daytime ambassadors, a light events calendar",
+    adjustments: [
+      { key: "clean_shifts_per_day", value: 1 },
+      { key: "clean_days_per_week", value: 5 },
+      { key: "safety_hours_per_day", multiplier: 0.5 },
+      { key: "safety_days_per_week", value: 5 },
+      { key: "events_per_year", multiplier: 0.5 },
+      { key: "marketing_base_annual", multiplier: 0.6 },
+    ],
+  },
+  {
+    key: "enhanced",
+    label: "Enhanced",
+    description: "Service levels as currently configured",
+    adjustments: [],
+  },
+  {
+    key: "premium",
+    label: "Premium",
+    description: "Two cleaning shifts daily, extended ambassador hours, more events",
+    adjustments: [
+      { key: "clean_shifts_per_day", multiplier: 2 },
+      { key: "clean_days_per_week", value: 7 },
+      { key: "safety_hours_per_day", multiplier: 1.5 },
+      { key: "safety_days_per_week", value: 7 },
+      { key: "events_per_year", multiplier: 2 },
+      { key: "marketing_base_annual", multiplier: 1.5 },
+    ],
+  },
+];
+
+// Annual budget lines compared across tiers
+export type TierCostKey = keyof Pick<
+  BudgetResult,
+  | "cleaning"
+  | "safety"
+  | "marketing"
+  | "assets"
+  | "custom"
+  | "adminOverhead"
+  | "capital"
+  | "total"
+>;
+
+export interface ServiceTierResult {
+  tier: ServiceTierDefinition;
+  params: BudgetParameters;
+  budget: BudgetResult;
+}
+
+// Parameter set for one tier
+export function applyServiceTier(
+  params: BudgetParameters,
+  tier: ServiceTierDefinition
+): BudgetParameters {
+  const next = { ...params };
+  tier.adjustments.forEach((adjustment) => {
+    const current = params[adjustment.key];
+    const raw =
+      adjustment.value ?? current * (adjustment.multiplier ?? 1);
+    const variable = GOAL_SEEK_VARIABLES.find((v) => v.key === adjustment.key);
+    if (!variable) {
+      next[adjustment.key] = Math.max(0, Math.round(raw * 100) / 100);
+      return;
+    }
+    const bounded = Math.min(variable.max, Math.max(variable.min, raw));
+    next[adjustment.key] = variable.integer
+      ? Math.round(bounded)
+      : Math.round(bounded * 100) / 100;
+  });
+  return next;
+}
+
+// Budgets for every tier, computed together from the same site inputs
+export function calculateServiceTiers(
+  params: BudgetParameters,
+  inputs: BudgetInputs,
+  tiers: ServiceTierDefinition[] = SERVICE_TIERS
+): ServiceTierResult[] {
+  return tiers.map((tier) => {
+    const tierParams = applyServiceTier(params, tier);
+    return {
+      tier,
+      params: tierParams,
+      budget: calculateBudgetForInputs(tierParams, inputs),
+    };
+  });
+}
+
+// Service-level parameters any tier adjusts, with their display labels, in
+// the order of the goal-seek variables
+export function tierParameterRows(
+  tiers: ServiceTierDefinition[] = SERVICE_TIERS
+): { key: NumericParameterKey; label: string }[] {
+  const adjusted = new Set(tiers.flatMap((t) => t.adjustments.map((a) => a.key)));
+  return GOAL_SEEK_VARIABLES.filter((v) => adjusted.has(v.key)).map((v) => ({
+    key: v.key,
+    label: v.label,
+  }));
+}
+
+// Why a service with a custom weekly schedule does not vary between tiers,
+// or null when every service follows the tier's shift and day counts
+export function tierFixedScheduleNote(params: BudgetParameters): string | null {
+  const fixed = [
+    params.cleaning_enabled && Array.isArray(params.cleaning_schedule) && "Cleaning",
+    params.safety_enabled && Array.isArray(params.safety_schedule) && "Safety",
+  ].filter(Boolean) as string[];
+  if (fixed.length === 0) return null;
+  return fixed.length === 1
+    ? `${fixed[0]} uses a custom weekly schedule, so its cost and staffing do not vary between tiers.`
+    : `${fixed.join(" and ")} use custom weekly schedules, so their cost and staffing do not vary between tiers.`;
+}
@@ -0,0 +1,328 @@
+// Hour-by-hour staffing schedules for cleaning and safety
+// Each service is described by a 7×24 grid of staff on duty (Mon–Sun,
+// 00:00–23:00) plus 12 monthly seasonal multipliers. FTEs, shift patterns
+// and annual cost are all derived from the grid. When no custom grid is set,
+// a default is generated from the service sliders and the district's
+// night-economy share, which pushes demand later in the day. Under the patrol
+// beat models the safety default comes from the beat plan instead.
+
+import type { BudgetParameters } from "./budgetCalculations";
+import type { PatrolBeatPlan } from "./patrolBeats";
+
+export type WeeklyGrid = number[][]; // [day 0=Mon..6=Sun][hour 0..23]
+
+export const DAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+export const MONTH_LABELS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+export const FTE_HOURS_PER_YEAR = 2080;
+export const WEEKS_PER_YEAR = 52;
+const MAX_SAFETY_SHIFT_HOURS = 8;
+
+// Upper bound on staff on duty in any hour; shift extraction walks one level
+// at a time, so an unbounded grid would never finish
+export const MAX_STAFF_ON_DUTY = 500;
+
+export const DEFAULT_SEASONAL_MULTIPLIERS = Array(12).fill(1);
+
+export interface ShiftPattern {
+  start: number; // Hour of day the shift starts
+  hours: number;
+  staffByDay: number[]; // Workers starting this shift, Mon..Sun
+}
+
+export interface ScheduleSummary {
+  weeklyHours: number;
+  annualHours: number; // Weekly hours × 52 × average seasonal multiplier
+  fte: number;
+  peakOnDuty: number;
+  shifts: ShiftPattern[];
+  annualCost: number;
+}
+
+export interface ServiceSchedule {
+  grid: WeeklyGrid;
+  isCustom: boolean;
+  staff: ScheduleSummary;
+  supervisors?: ScheduleSummary; // Cleaning only
+  annualCost: number;
+}
+
+export function emptyGrid(): WeeklyGrid {
+  return Array.from({ length: 7 }, () => Array(24).fill(0));
+}
+
+// Staff counts the schedule math can use: non-finite or negative cells
+// become 0 and counts are capped at MAX_STAFF_ON_DUTY
+export function sanitizeGrid(grid: WeeklyGrid): WeeklyGrid {
+  return Array.from({ length: 7 }, (_, d) =>
+    Array.from({ length: 24 }, (_, h) => {
+      const n = grid[d]?.[h];
+      return typeof n === "number" && isFinite(n) && n > 0
+        ? Math.min(MAX_STAFF_ON_DUTY, n)
+        : 0;
+    })
+  );
+}
+
+// Share of late-evening demand implied by the business mix (0–1)
+export function nightEconomyShare(nightIntensity: number): number {
+  return Math.min(1, Math.max(0, (nightIntensity - 1) / 0.5));
+}
+
+// Which days a service runs; nightlife districts prioritize weekends
+function pickServiceDays(daysPerWeek: number, nightShare: number): number[] {
+  const priority =
+    nightShare >= 0.25 ? [4, 5, 6, 0, 1, 2, 3] : [0, 1, 2, 3, 4, 5, 6];
+  return priority.slice(0, Math.max(0, Math.min(7, Math.round(daysPerWeek))));
+}
+
+// Add staff for a block of hours, wrapping past midnight into the next day
+function addBlock(
+  grid: WeeklyGrid,
+  day: number,
+  start: number,
+  hours: number,
+  staff: number
+) {
+  for (let offset = 0; offset < hours; offset++) {
+    const absolute = start + offset;
+    const d = (day + Math.floor(absolute / 24)) % 7;
+    grid[d][absolute % 24] += staff;
+  }
+}
+
+// Default cleaning grid: the daily crew split across shifts
+export function defaultCleaningGrid(
+  params: BudgetParameters,
+  dailyCrew: number,
+  nightShare: number
+): WeeklyGrid {
+  const grid = emptyGrid();
+  const shifts = Math.min(24, Math.max(1, Math.round(params.clean_shifts_per_day)));
+  const shiftHours = Math.min(24, Math.max(0, Math.round(params.clean_hours_per_shift)));
+  const firstStart = 6 + Math.round(nightShare * 3);
+  const crewPerDay = isFinite(dailyCrew)
+    ? Math.min(MAX_STAFF_ON_DUTY, Math.max(0, dailyCrew))
+    : 0;
+
+  pickServiceDays(params.clean_days_per_week, nightShare).forEach((day) => {
+    for (let i = 0; i < shifts; i++) {
+      const crew =
+        Math.floor(crewPerDay / shifts) + (i < crewPerDay % shifts ? 1 : 0);
+      if (crew > 0) addBlock(grid, day, firstStart + i * shiftHours, shiftHours, crew);
+    }
+  });
+
+  return grid;
+}
+
+// Default safety grid: coverage window that opens and closes later in
+// nightlife districts, with an extra ambassador on weekend evenings. Base
+// staffing scales continuously with night intensity × safety weight, so
+// cells may hold fractional coverage (1.3 = one ambassador plus 0.3 of
+// another's hours); only displayed counts are rounded.
+export function defaultSafetyGrid(
+  params: BudgetParameters,
+  nightIntensity: number,
+  nightShare: number
+): WeeklyGrid {
+  const grid = emptyGrid();
+  const hours = Math.round(params.safety_hours_per_day);
+  if (hours <= 0) return grid;
+
+  const scale = nightIntensity * params.intensity_weight_safety;
+  const baseStaff = isFinite(scale) ? Math.min(MAX_STAFF_ON_DUTY, Math.max(0, scale)) : 0;
+  const start = 8 + Math.round(nightShare * 3);
+  const lateExtension = Math.round(nightShare * 4);
+
+  pickServiceDays(params.safety_days_per_week, nightShare).forEach((day) => {
+    const isWeekendNight = day === 4 || day === 5; // Fri, Sat
+    const windowHours = Math.min(
+      24,
+      hours + (isWeekendNight ? lateExtension : 0)
+    );
+    addBlock(grid, day, start, windowHours, baseStaff);
+
+    if (nightShare >= 0.25 && day >= 3 && day <= 5) {
+      const eveningStart = Math.max(start, 18);
+      const eveningHours = start + windowHours - eveningStart;
+      if (eveningHours > 0) addBlock(grid, day, eveningStart, eveningHours, 1);
+    }
+  });
+
+  return grid;
+}
+
+// Decompose a grid into shifts: each contiguous run at each staffing level
+// becomes one worker's shift, split at the maximum shift length. The week is
+// treated as circular so overnight coverage stays a single shift. Fractional
+// coverage is rounded to whole workers here, for display only.
+export function extractShiftPatterns(
+  grid: WeeklyGrid,
+  maxShiftHours: number
+): ShiftPattern[] {
+  const week = grid.flat().map((h) => (isFinite(h) ? Math.round(h) : 0));
+  const patterns = new Map<string, ShiftPattern>();
+  const maxHours = Math.max(1, Math.round(maxShiftHours));
+  const peak = Math.min(
+    MAX_STAFF_ON_DUTY,
+    Math.max(0, ...week)
+  );
+
+  const addShift = (absoluteStart: number, length: number) => {
+    const start = absoluteStart % 24;
+    const key = `${start}-${length}`;
+    if (!patterns.has(key)) {
+      patterns.set(key, { start, hours: length, staffByDay: Array(7).fill(0) });
+    }
+    patterns.get(key)!.staffByDay[Math.floor(absoluteStart / 24) % 7]++;
+  };
+
+  for (let level = 1; level <= peak; level++) {
+    const covered = week.map((h) => h >= level);
+    // Begin scanning just after an uncovered hour so no run is cut at Monday 00:00
+    const offset = covered.indexOf(false);
+    const origin = offset === -1 ? 0 : offset + 1;
+
+    let runStart = -1;
+    for (let i = 0; i <= week.length; i++) {
+      const hour = (origin + i) % week.length;
+      const isCovered = i < week.length && covered[hour];
+      if (isCovered && runStart === -1) runStart = origin + i;
+      if (!isCovered && runStart !== -1) {
+        const runEnd = origin + i;
+        for (let s = runStart; s < runEnd; s += maxHours) {
+          addShift(s % week.length, Math.min(maxHours, runEnd - s));
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  return Array.from(patterns.values()).sort(
+    (a, b) => a.start - b.start || b.hours - a.hours
+  );
+}
+
+export function summarizeGrid(
+  staffGrid: WeeklyGrid,
+  seasonalMultipliers: number[],
+  hourlyRate: number,
+  maxShiftHours: number
+): ScheduleSummary {
+  const grid = sanitizeGrid(staffGrid);
+  const weeklyHours = grid.reduce(
+    (sum, day) => sum + day.reduce((s, h) => s + h, 0),
+    0
+  );
+  const seasonal =
+    seasonalMultipliers.length > 0
+      ? seasonalMultipliers.reduce((s, m) => s + m, 0) / seasonalMultipliers.length
+      : 1;
+  const annualHours = weeklyHours * WEEKS_PER_YEAR * seasonal;
+
+  return {
+    weeklyHours: Math.round(weeklyHours * 10) / 10,
+    annualHours: Math.round(annualHours),
+    fte: Math.round((annualHours / FTE_HOURS_PER_YEAR) * 10) / 10,
+    peakOnDuty: Math.round(Math.max(0, ...grid.flat())),
+    shifts: extractShiftPatterns(grid, maxShiftHours),
+    annualCost: annualHours * hourlyRate,
+  };
+}
+
+// Cleaning schedule: custom grid or default from the daily crew size.
+// Supervisors are scheduled hour by hour at the supervisor ratio.
+export function buildCleaningSchedule(
+  params: BudgetParameters,
+  dailyCrew: number,
+  nightIntensity: number
+): ServiceSchedule {
+  const isCustom = Array.isArray(params.cleaning_schedule);
+  const grid = sanitizeGrid(
+    isCustom
+      ? params.cleaning_schedule!
+      : defaultCleaningGrid(params, dailyCrew, nightEconomyShare(nightIntensity))
+  );
+  // No supervisors without a positive ratio (validation flags it)
+  const ratio = params.supervisor_ratio;
+  const supervisorGrid = grid.map((day) =>
+    day.map((onDuty) =>
+      onDuty > 0 && ratio > 0 && isFinite(ratio) ? Math.ceil(onDuty / ratio) : 0
+    )
+  );
+
+  const staff = summarizeGrid(
+    grid,
+    params.cleaning_seasonal_multipliers,
+    params.clean_loaded_rate,
+    params.clean_hours_per_shift
+  );
+  const supervisors = summarizeGrid(
+    supervisorGrid,
+    params.cleaning_seasonal_multipliers,
+    params.supervisor_loaded_rate,
+    params.clean_hours_per_shift
+  );
+
+  return {
+    grid,
+    isCustom,
+    staff,
+    supervisors,
+    annualCost: staff.annualCost + supervisors.annualCost,
+  };
+}
+
+export function buildSafetySchedule(
+  params: BudgetParameters,
+  nightIntensity: number,
+  patrol: PatrolBeatPlan | null = null
+): ServiceSchedule {
+  const isCustom = Array.isArray(params.safety_schedule);
+  const grid = sanitizeGrid(
+    isCustom
+      ? params.safety_schedule!
+      : patrol
+      ? patrol.grid
+      : defaultSafetyGrid(params, nightIntensity, nightEconomyShare(nightIntensity))
+  );
+  const staff = summarizeGrid(
+    grid,
+    params.safety_seasonal_multipliers,
+    params.safety_loaded_rate,
+    MAX_SAFETY_SHIFT_HOURS
+  );
+
+  return { grid, isCustom, staff, annualCost: staff.annualCost };
+}
+
+// "18:00–02:00 · 1 staff Mon–Wed, 2 Fri–Sat" style label for reports
+export function formatShiftPattern(pattern: ShiftPattern): string {
+  const pad = (h: number) => `${String(h % 24).padStart(2, "0")}:00`;
+  const groups: { count: number; days: number[] }[] = [];
+  pattern.staffByDay.forEach((count, day) => {
+    if (count === 0) return;
+    const last = groups[groups.length - 1];
+    if (last && last.count === count && last.days[last.days.length - 1] === day - 1) {
+      last.days.push(day);
+    } else {
+      groups.push({ count, days: [day] });
+    }
+  });
+
+  const dayText = groups
+    .map(({ count, days }) => {
+      const range =
+        days.length > 1
+          ? `${DAY_LABELS[days[0]]}–${DAY_LABELS[days[days.length - 1]]}`
+          : DAY_LABELS[days[0]];
+      return `${count} ${range}`;
+    })
+    .join(", ");
+
+  return `${pad(pattern.start)}–${pad(pattern.start + pattern.hours)} · ${dayText}`;
+}
@@ -0,0 +1,36 @@
+// Descriptive statistics shared by the distribution-style reports
+
+export interface DistributionSummary {
+  count: number;
+  min: number;
+  p10: number;
+  median: number;
+  mean: number;
+  p90: number;
+  max: number;
+}
+
+// Linear-interpolated percentile of an ascending-sorted array (p in 0..1)
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function summarizeDistribution(values: number[]): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, v) => sum + v, 0);
+
+  return {
+    count: sorted.length,
+    min: sorted[0] ?? 0,
+    p10: percentile(sorted, 0.1),
+    median: percentile(sorted, 0.5),
+    mean: sorted.length > 0 ? total / sorted.length : 0,
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
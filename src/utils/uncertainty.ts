@@ -0,0 +1,207 @@
+// Monte Carlo uncertainty analysis for the budget model
+// Each uncertain parameter carries a range relative to its current value and
+// a distribution shape. Sampling calculateBudget thousands of times yields
+// P10/P50/P90 ranges per service line; a one-at-a-time sweep of each range
+// produces the tornado ranking of which assumptions drive the total.
+// Samples run in chunks that yield to the event loop, so the page stays
+// responsive. A sample that changes productivity, shift length or asset
+// spacing gets its own route plan or asset placement; the others reuse the
+// plans carried by the inputs.
+
+import {
+  BudgetInputs,
+  BudgetParameters,
+  NumericParameterKey,
+  calculateBudgetForInputs,
+} from "./budgetCalculations";
+import { percentile } from "./statistics";
+
+// Samples between yields to the event loop
+const SAMPLE_CHUNK = 200;
+
+export type DistributionKind = "uniform" | "triangular" | "normal";
+
+export interface ParameterDistribution {
+  key: NumericParameterKey;
+  label: string;
+  kind: DistributionKind;
+  lowPct: number; // Relative to current value, e.g. -0.1 = 10% below
+  highPct: number; // Relative to current value, e.g. 0.15 = 15% above
+  integer?: boolean; // Round samples (hours, event counts)
+}
+
+export const DEFAULT_PARAMETER_DISTRIBUTIONS: ParameterDistribution[] = [
+  { key: "clean_loaded_rate", label: "Cleaner hourly rate", kind: "triangular", lowPct: -0.1, highPct: 0.15 },
+  { key: "supervisor_loaded_rate", label: "Supervisor hourly rate", kind: "triangular", lowPct: -0.1, highPct: 0.15 },
+  { key: "safety_loaded_rate", label: "Ambassador hourly rate", kind: "triangular", lowPct: -0.1, highPct: 0.2 },
+  { key: "frontage_ft_per_cleaner_hour", label: "Cleaner productivity", kind: "triangular", lowPct: -0.25, highPct: 0.2 },
+  { key: "avg_frontage_ft_per_business", label: "Frontage per business", kind: "uniform", lowPct: -0.3, highPct: 0.3 },
+  { key: "intensity_weight_clean", label: "Cleaning intensity weight", kind: "normal", lowPct: -0.15, highPct: 0.15 },
+  { key: "intensity_weight_safety", label: "Safety intensity weight", kind: "normal", lowPct: -0.15, highPct: 0.15 },
+  { key: "safety_hours_per_day", label: "Safety hours per day", kind: "triangular", lowPct: -0.25, highPct: 0.25, integer: true },
+  { key: "marketing_base_annual", label: "Base marketing budget", kind: "uniform", lowPct: -0.2, highPct: 0.2 },
+  { key: "cost_per_event", label: "Cost per event", kind: "triangular", lowPct: -0.2, highPct: 0.4 },
+  { key: "trash_can_unit_cost", label: "Trash can unit cost", kind: "uniform", lowPct: -0.2, highPct: 0.3 },
+  { key: "admin_overhead_pct", label: "Admin overhead", kind: "triangular", lowPct: -0.25, highPct: 0.25 },
+];
+
+export const UNCERTAINTY_LINES = [
+  { key: "cleaning", label: "Cleaning" },
+  { key: "safety", label: "Safety" },
+  { key: "marketing", label: "Marketing" },
+  { key: "assets", label: "Assets" },
+  { key: "custom", label: "Custom Services" },
+  { key: "adminOverhead", label: "Admin Overhead" },
+  { key: "total", label: "Total" },
+] as const;
+
+export type UncertaintyLineKey = (typeof UNCERTAINTY_LINES)[number]["key"];
+
+export interface PercentileRange {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export interface TornadoEntry {
+  key: NumericParameterKey;
+  label: string;
+  lowValue: number; // Parameter value at the low end of its range
+  highValue: number;
+  totalAtLow: number;
+  totalAtHigh: number;
+  swing: number; // |totalAtHigh - totalAtLow|
+}
+
+export interface UncertaintyResult {
+  iterations: number;
+  baseTotal: number;
+  lines: Record<UncertaintyLineKey, PercentileRange>;
+  tornado: TornadoEntry[];
+}
+
+// Deterministic PRNG (mulberry32) so repeated runs give identical reports
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Draw a multiplier (1 + relative change) from the distribution. The peak
+// sits at the current value, moved to the nearer end when the range does
+// not include it.
+function sampleMultiplier(
+  dist: ParameterDistribution,
+  random: () => number
+): number {
+  const low = 1 + Math.min(dist.lowPct, dist.highPct);
+  const high = 1 + Math.max(dist.lowPct, dist.highPct);
+  const mode = Math.min(high, Math.max(low, 1));
+  if (high === low) return low;
+
+  switch (dist.kind) {
+    case "uniform":
+      return low + random() * (high - low);
+    case "triangular": {
+      const u = random();
+      const cut = (mode - low) / (high - low);
+      return u < cut
+        ? low + Math.sqrt(u * (high - low) * (mode - low))
+        : high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+    }
+    case "normal": {
+      // Range is read as P10..P90 around the current value
+      const sigma = (high - low) / (2 * 1.2816);
+      const u1 = Math.max(random(), 1e-12);
+      const u2 = random();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return Math.max(0, mode + z * sigma);
+    }
+  }
+}
+
+function applyValue(
+  params: BudgetParameters,
+  dist: ParameterDistribution,
+  multiplier: number
+): BudgetParameters {
+  const raw = (params[dist.key] as number) * multiplier;
+  const value = dist.integer ? Math.round(raw) : raw;
+  return { ...params, [dist.key]: value };
+}
+
+// Run the simulation and the tornado sweep. onProgress is called after each
+// chunk with the samples done so far; returning false cancels the run, which
+// then resolves to null.
+export async function runMonteCarlo(
+  params: BudgetParameters,
+  inputs: BudgetInputs,
+  distributions: ParameterDistribution[] = DEFAULT_PARAMETER_DISTRIBUTIONS,
+  iterations = 2000,
+  seed = 1,
+  onProgress?: (completed: number) => boolean
+): Promise<UncertaintyResult | null> {
+  const random = createRandom(seed);
+  const samples: Record<UncertaintyLineKey, number[]> = {
+    cleaning: [],
+    safety: [],
+    marketing: [],
+    assets: [],
+    custom: [],
+    adminOverhead: [],
+    total: [],
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    const sampled = distributions.reduce(
+      (acc, dist) => applyValue(acc, dist, sampleMultiplier(dist, random)),
+      params
+    );
+    const budget = calculateBudgetForInputs(sampled, inputs);
+    UNCERTAINTY_LINES.forEach(({ key }) => samples[key].push(budget[key]));
+
+    const completed = i + 1;
+    if (completed % SAMPLE_CHUNK === 0 || completed === iterations) {
+      if (onProgress && !onProgress(completed)) return null;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  const lines = {} as Record<UncertaintyLineKey, PercentileRange>;
+  UNCERTAINTY_LINES.forEach(({ key }) => {
+    const sorted = samples[key].sort((a, b) => a - b);
+    lines[key] = {
+      p10: Math.round(percentile(sorted, 0.1)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p90: Math.round(percentile(sorted, 0.9)),
+      mean: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    };
+  });
+
+  const baseTotal = calculateBudgetForInputs(params, inputs).total;
+  const tornado = distributions
+    .map((dist) => {
+      const lowParams = applyValue(params, dist, 1 + dist.lowPct);
+      const highParams = applyValue(params, dist, 1 + dist.highPct);
+      const totalAtLow = calculateBudgetForInputs(lowParams, inputs).total;
+      const totalAtHigh = calculateBudgetForInputs(highParams, inputs).total;
+      return {
+        key: dist.key,
+        label: dist.label,
+        lowValue: lowParams[dist.key] as number,
+        highValue: highParams[dist.key] as number,
+        totalAtLow,
+        totalAtHigh,
+        swing: Math.abs(totalAtHigh - totalAtLow),
+      };
+    })
+    .sort((a, b) => b.swing - a.swing);
+
+  return { iterations, baseTotal, lines, tornado };
+}